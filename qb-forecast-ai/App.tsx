@@ -1,5 +1,5 @@
 
-import React, { useState } from 'react';
+import React, { useState, useRef, useEffect, useMemo } from 'react';
 import Sidebar from './components/Sidebar';
 import DataView from './components/DataView';
 import DashboardView from './components/DashboardView';
@@ -14,6 +14,7 @@ import GuideView from './components/GuideView';
 import ComparisonView from './components/ComparisonView';
 import StoreTableView from './components/StoreTableView';
 import ModelValidationView from './components/ModelValidationView';
+import ForecastArchiveView from './components/ForecastArchiveView';
 import BudgetValidationView from './components/BudgetValidationView';
 import SimulationView from './components/SimulationView';
 import LogicFlowView from './components/LogicFlowView';
@@ -23,14 +24,18 @@ import BudgetBuilderView from './components/BudgetBuilderView';
 import BudgetComparisonView from './components/BudgetComparisonView';
 import VersionHistoryView from './components/VersionHistoryView';
 import AIAnalystView from './components/AIAnalystView';
-import { StoreData, UserMode } from './types';
+import EngineConfigView from './components/EngineConfigView';
+import { StoreData, UserMode, PreviousRun, EngineConfig, ReconciliationMethod } from './types';
+import { GlobalStats } from './services/analysisEngine';
+import { prepareHierarchy, reconcileHierarchy, HierarchyBase } from './services/reconciliation';
 
-type ViewType = 'data' | 'dashboard' | 'ai_analyst' | 'spot' | 'regional_spot' | 'vintage' | 'regional_strategy' | 'analytics' | 'bench' | 'store' | 'simulation' | 'table' | 'logic' | 'guide' | 'validate' | 'validate_budget' | 'logic_flow' | 'marketing_design' | 'coach' | 'budget' | 'budget_comparison' | 'version_history';
+type ViewType = 'data' | 'dashboard' | 'ai_analyst' | 'spot' | 'regional_spot' | 'vintage' | 'regional_strategy' | 'analytics' | 'bench' | 'store' | 'simulation' | 'table' | 'logic' | 'guide' | 'validate' | 'validate_budget' | 'forecast_archive' | 'logic_flow' | 'marketing_design' | 'coach' | 'budget' | 'budget_comparison' | 'version_history' | 'engine_config';
 
 const App: React.FC = () => {
     const [currentView, setCurrentView] = useState<ViewType>('data');
     const [allStores, setAllStores] = useState<{ [name: string]: StoreData }>({});
     const [globalMaxDate, setGlobalMaxDate] = useState<Date>(new Date());
+    const [globalStats, setGlobalStats] = useState<GlobalStats | undefined>(undefined); // Priors of the latest run, reused when one store is refitted
     const [forecastMonths, setForecastMonths] = useState(36);
     
     // Sidebar States
@@ -42,11 +47,56 @@ const App: React.FC = () => {
     
     const [dataType, setDataType] = useState<'sales' | 'customers'>('sales');
 
+    // The run before the latest one, kept in memory for forecast change attribution
+    const [previousRun, setPreviousRun] = useState<PreviousRun | null>(null);
+
+    // Area totals shown as the plain sum of store forecasts or one reconciled hierarchy, shared by every view that adds stores up
+    const [forecastMethod, setForecastMethod] = useState<ReconciliationMethod | 'sum'>('sum');
+    const [hierarchy, setHierarchy] = useState<HierarchyBase | null>(null);
+    const [isReconciling, setIsReconciling] = useState(false);
+
+    const storesRef = useRef(allStores);
+    const loadedTypeRef = useRef(dataType);
+    const loadedConfigRef = useRef<EngineConfig | undefined>(undefined);
+    const dataTypeRef = useRef(dataType);
+    storesRef.current = allStores;
+    dataTypeRef.current = dataType;
+
+    const handleStoresLoaded = (stores: { [name: string]: StoreData }, engine: EngineConfig) => {
+        if (Object.keys(storesRef.current).length > 0) {
+            setPreviousRun({ stores: storesRef.current, dataType: loadedTypeRef.current, config: loadedConfigRef.current, replacedAt: new Date().toISOString() });
+        }
+        loadedTypeRef.current = dataTypeRef.current;
+        loadedConfigRef.current = engine;
+        setAllStores(stores);
+    };
+
+    // Hierarchy forecasts are expensive (every aggregate is fitted), so build them only when a reconciled view is requested.
+    // A reload, refit or horizon change aborts the running build, so a result for the previous stores is never installed.
+    const needsHierarchy = forecastMethod !== 'sum';
+    const hasHierarchy = hierarchy !== null;
+    useEffect(() => { setHierarchy(null); }, [allStores, forecastMonths]);
+    useEffect(() => {
+        if (!needsHierarchy || hasHierarchy) return;
+        const controller = new AbortController();
+        setIsReconciling(true);
+        prepareHierarchy(Object.values(allStores) as StoreData[], Math.max(36, forecastMonths), undefined, controller.signal)
+            .then(result => { if (!controller.signal.aborted) setHierarchy(result); })
+            .catch(e => {
+                if (controller.signal.aborted) return;
+                console.warn('Hierarchy forecast failed:', e);
+                setForecastMethod('sum');
+            })
+            .finally(() => { if (!controller.signal.aborted) setIsReconciling(false); });
+        return () => { controller.abort(); setIsReconciling(false); };
+    }, [needsHierarchy, hasHierarchy, allStores, forecastMonths]);
+    const reconciled = useMemo(() => (hierarchy && forecastMethod !== 'sum' ? reconcileHierarchy(hierarchy, forecastMethod) : null), [hierarchy, forecastMethod]);
+
     // Security Guard: Check if manager is trying to access executive views
     const isRestricted = (view: string) => {
         if (userMode === 'executive') return false;
         // Views restricted to Executive Mode
-        const executiveOnly = ['ai_analyst', 'spot', 'vintage', 'regional_strategy', 'table', 'analytics', 'validate', 'validate_budget', 'logic', 'guide', 'budget', 'budget_comparison'];
+        const executiveOnly = ['ai_analyst', 'spot', 'vintage', 'regional_strategy', 'table', 'analytics', 'validate', 'validate_budget', 'forecast_archive', 'logic', 'guide', 'budget', 'budget_comparison', 'engine_config'];
         return executiveOnly.includes(view);
     };
 
@@ -96,8 +146,9 @@ const App: React.FC = () => {
                     <>
                         {currentView === 'data' && (
                             <DataView 
-                                setAllStores={setAllStores} 
+                                setAllStores={handleStoresLoaded} 
                                 setGlobalMaxDate={setGlobalMaxDate}
+                                setGlobalStats={setGlobalStats}
                                 forecastMonths={forecastMonths}
                                 setForecastMonths={setForecastMonths}
                                 dataType={dataType}
@@ -111,6 +162,10 @@ const App: React.FC = () => {
                                 allStores={allStores}
                                 forecastMonths={forecastMonths}
                                 dataType={dataType}
+                                forecastMethod={forecastMethod}
+                                setForecastMethod={setForecastMethod}
+                                reconciled={reconciled}
+                                isReconciling={isReconciling}
                             />
                         )}
                         {currentView === 'ai_analyst' && (
@@ -137,7 +192,16 @@ const App: React.FC = () => {
                                 dataType={dataType}
                             />
                         )}
-                        {currentView === 'regional_strategy' && <RegionalStrategyView allStores={allStores} dataType={dataType} />}
+                        {currentView === 'regional_strategy' && (
+                            <RegionalStrategyView
+                                allStores={allStores}
+                                dataType={dataType}
+                                forecastMethod={forecastMethod}
+                                setForecastMethod={setForecastMethod}
+                                reconciled={reconciled}
+                                isReconciling={isReconciling}
+                            />
+                        )}
                         {currentView === 'analytics' && <AnalyticsView allStores={allStores} dataType={dataType} />}
                         {currentView === 'bench' && <ComparisonView allStores={allStores} dataType={dataType} />}
                         {currentView === 'store' && (
@@ -145,6 +209,9 @@ const App: React.FC = () => {
                                 allStores={allStores}
                                 forecastMonths={forecastMonths}
                                 dataType={dataType}
+                                globalMaxDate={globalMaxDate}
+                                globalStats={globalStats}
+                                onStoreUpdated={(store) => setAllStores(prev => ({ ...prev, [store.name]: store }))}
                             />
                         )}
                         {currentView === 'simulation' && <SimulationView allStores={allStores} dataType={dataType} />}
@@ -156,7 +223,9 @@ const App: React.FC = () => {
                         {currentView === 'table' && <StoreTableView allStores={allStores} dataType={dataType} />}
                         {currentView === 'validate' && <ModelValidationView allStores={allStores} dataType={dataType} />}
                         {currentView === 'validate_budget' && <BudgetValidationView allStores={allStores} dataType={dataType} />}
-                        {currentView === 'logic' && <ModelLogicView />}
+                        {currentView === 'forecast_archive' && <ForecastArchiveView allStores={allStores} dataType={dataType} previousRun={previousRun} />}
+                        {currentView === 'engine_config' && <EngineConfigView dataType={dataType} />}
+                        {currentView === 'logic' && <ModelLogicView allStores={allStores} />}
                         {currentView === 'guide' && <GuideView />}
                         {currentView === 'version_history' && <VersionHistoryView />}
                     </>
@@ -48,20 +48,30 @@ const ChartRenderer: React.FC<{ command: ChartCommand; allStores: { [name: strin
             const metricStability = activeStores.map(s => 1 - (s.stats?.cv || 0));
             const metricEfficiency = activeStores.map(s => ((s.stats?.lastYearSales||0)/12) / Math.max(1, s.params.L));
             const metricPotential = activeStores.map(s => s.params.L);
+            // Growth / Potential ranks of the 95% CI bounds: a band spanning most of the radius means the rank is not significant
+            const ci = store.params.ci;
+            const rankBand = (value: number, metric: number[], interval?: { lower: number; upper: number }) => {
+                const A = getPercentileRank(value, metric);
+                if (!interval) return { A, lo: A, hi: A };
+                return { A, lo: getPercentileRank(interval.lower, metric), hi: Number.isFinite(interval.upper) ? getPercentileRank(interval.upper, metric) : 100 };
+            };
+            const point = (A: number) => ({ A, lo: A, hi: A });
             const data = [
-                { subject: 'Scale', A: getPercentileRank(store.stats?.lastYearSales || 0, metricScale), fullMark: 100 },
-                { subject: 'Growth', A: getPercentileRank(store.params.k, metricGrowth), fullMark: 100 },
-                { subject: 'Stability', A: getPercentileRank(1 - (store.stats?.cv || 0), metricStability), fullMark: 100 },
-                { subject: 'Efficiency', A: getPercentileRank(((store.stats?.lastYearSales||0)/12)/Math.max(1, store.params.L), metricEfficiency), fullMark: 100 },
-                { subject: 'Potential', A: getPercentileRank(store.params.L, metricPotential), fullMark: 100 },
-            ];
+                { subject: 'Scale', ...point(getPercentileRank(store.stats?.lastYearSales || 0, metricScale)), fullMark: 100 },
+                { subject: 'Growth', ...rankBand(store.params.k, metricGrowth, ci?.k), fullMark: 100 },
+                { subject: 'Stability', ...point(getPercentileRank(1 - (store.stats?.cv || 0), metricStability)), fullMark: 100 },
+                { subject: 'Efficiency', ...point(getPercentileRank(((store.stats?.lastYearSales||0)/12)/Math.max(1, store.params.L), metricEfficiency)), fullMark: 100 },
+                { subject: 'Potential', ...rankBand(store.params.L, metricPotential, ci?.L), fullMark: 100 },
+            ].map(d => ({ ...d, subject: d.hi - d.lo >= 50 ? `${d.subject} (n.s.)` : d.subject }));
             return (
                 <ResponsiveContainer width="100%" height="100%">
                     <RadarChart cx="50%" cy="50%" outerRadius="70%" data={data}>
                         <PolarGrid stroke="#e2e8f0" />
                         <PolarAngleAxis dataKey="subject" tick={{ fontSize: 9, fill: '#64748B', fontWeight: 'bold' }} />
                         <PolarRadiusAxis angle={30} domain={[0, 100]} tick={false} axisLine={false} />
+                        <Radar name="95% CI 上限" dataKey="hi" stroke="#94A3B8" strokeWidth={1} strokeDasharray="3 3" fill="none" />
                         <Radar name={store.name} dataKey="A" stroke="#005EB8" strokeWidth={2} fill="#005EB8" fillOpacity={0.4} />
+                        <Radar name="95% CI 下限" dataKey="lo" stroke="#94A3B8" strokeWidth={1} strokeDasharray="3 3" fill="none" />
                         <Tooltip contentStyle={{borderRadius:'8px', border:'none', fontSize:'10px'}} />
                     </RadarChart>
                 </ResponsiveContainer>
@@ -1,7 +1,8 @@
 
 import React, { useMemo, useState, useCallback, useEffect, useRef } from 'react';
 import { StoreData } from '../types';
-import { calculatePearsonCorrelation, logisticModel } from '../services/analysisEngine';
+import { calculatePearsonCorrelation, logisticModel, getCurveFamily } from '../services/analysisEngine';
+import { seasonalityDriftReport } from '../services/seasonalityDrift';
 import HelpTooltip from './HelpTooltip';
 import katex from 'katex';
 import {
@@ -132,6 +133,7 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
     const allStoresList = useMemo(() => Object.values(allStores) as StoreData[], [allStores]);
     const [activeTab, setActiveTab] = useState<'structure' | 'trend' | 'risk' | 'dna' | 'sim' | 'geo'>('structure');
     const [expandedChartId, setExpandedChartId] = useState<string | null>(null);
+    const [driftTarget, setDriftTarget] = useState('全社');
     
     // Pricing Simulator State
     const [currentPrice, setCurrentPrice] = useState(1400); // Default user current price
@@ -223,8 +225,9 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
         // DNA Metrics
         const avgL = totalL / (activeCount || 1);
         const avgAge = stores.reduce((a,s)=>a+s.raw.length,0) / (activeCount || 1);
-        const shiftModeCount = stores.filter(s => s.fit.mode === 'shift' || s.fit.mode === 'dual_shift').length;
+        const shiftModeCount = stores.filter(s => s.fit.mode === 'shift').length;
         const standardModeCount = stores.filter(s => s.fit.mode === 'standard').length;
+        const altFamilyCount = stores.filter(s => getCurveFamily(s.fit.mode) !== 'logistic').length;
         const seasonalityStrength = stores.reduce((a,s) => {
             const min = Math.min(...s.seasonal);
             const max = Math.max(...s.seasonal);
@@ -241,7 +244,7 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
             // Risk
             avgCV, highRiskStores, riskyGrowthStores, avgStdDev, inactiveCount, VaR95, storeBetas,
             // DNA
-            avgL, avgAge, shiftModeCount, standardModeCount, seasonalityStrength
+            avgL, avgAge, shiftModeCount, standardModeCount, altFamilyCount, seasonalityStrength
         };
     }, [stores, allStoresList]);
 
@@ -428,16 +431,31 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
 
     // === DNA TAB DATA ===
     const dnaAnalysisData = useMemo(() => {
-        const genotypeMap = stores.map(s => ({ 
-            L: Math.round(s.params.L), 
-            k: s.params.k, 
-            name: s.name, 
-            mode: s.fit.mode 
-        }));
+        // Error bars = 95% CI of L / k; stores whose CI is unbounded or wider than the estimate itself are faded
+        const ciSpan = (v: number, ci?: { lower: number; upper: number }): [number, number] =>
+            ci && Number.isFinite(ci.upper) ? [v - ci.lower, ci.upper - v] : [0, 0];
+        const genotypeMap = stores.map(s => {
+            const ci = s.params.ci;
+            const uncertain = !!ci && [ci.L, ci.k].some(c => !c || !Number.isFinite(c.se) || (c.upper - c.lower) > (c === ci.L ? s.params.L : s.params.k));
+            return {
+                L: Math.round(s.params.L),
+                k: s.params.k,
+                LErr: ciSpan(s.params.L, ci?.L),
+                kErr: ciSpan(s.params.k, ci?.k),
+                uncertain,
+                name: s.name,
+                mode: s.fit.mode,
+                family: getCurveFamily(s.fit.mode)
+            };
+        });
 
-        const modeCounts = { standard: 0, shift: 0, dual_shift: 0, startup: 0, recovery: 0 };
+        const modeCounts = { standard: 0, shift: 0, startup: 0, recovery: 0, gompertz: 0, richards: 0, damped: 0 };
         stores.forEach(s => { if(s.fit.mode && modeCounts[s.fit.mode] !== undefined) modeCounts[s.fit.mode]++; });
-        const modePie = Object.entries(modeCounts).map(([k,v]) => ({ name: k, value: v }));
+        const modePie = Object.entries(modeCounts).filter(([, v]) => v > 0).map(([k,v]) => ({ name: k, value: v }));
+
+        const familyCounts = { logistic: 0, gompertz: 0, richards: 0, damped_trend: 0 };
+        stores.filter(s => s.fit.mode !== 'startup').forEach(s => familyCounts[getCurveFamily(s.fit.mode)]++);
+        const familyPie = Object.entries(familyCounts).map(([k, v]) => ({ name: k, value: v }));
 
         const seasonalStats = Array.from({length: 12}, (_, i) => {
             const vals = stores.map(s => s.seasonal[i] || 1.0);
@@ -452,14 +470,29 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
         });
         const t0Dist = t0Buckets.map((c, i) => ({ range: `${i*6}-${(i+1)*6}m`, count: c }));
 
-        const shifts = stores.filter(s => s.fit.mode === 'shift' || s.fit.mode === 'dual_shift').map(s => ({
+        const shifts = stores.filter(s => s.fit.mode === 'shift').map(s => ({
             name: s.name,
-            shift: s.params.shift || 0
+            shift: s.params.shift || 0,
+            breaks: s.fit.breaks?.length || 1
         })).sort((a,b) => b.shift - a.shift);
 
-        return { genotypeMap, modePie, seasonalStats, t0Dist, shifts };
+        return { genotypeMap, modePie, familyPie, seasonalStats, t0Dist, shifts };
     }, [stores]);
 
+    // === SEASONALITY DRIFT (Trend tab) ===
+    const driftReport = useMemo(() => seasonalityDriftReport(stores), [stores]);
+    const driftChart = useMemo(() => {
+        const target = driftTarget === '全社'
+            ? driftReport.company
+            : driftReport.regions.find(r => r.name === driftTarget) || driftReport.stores.find(s => s.name === driftTarget) || null;
+        const profiles = target?.profiles || [];
+        return {
+            target,
+            years: profiles.map(p => p.year),
+            data: Array.from({ length: 12 }, (_, m) => ({ month: `${m + 1}月`, ...Object.fromEntries(profiles.map(p => [p.year, Number(p.index[m].toFixed(3))])) }))
+        };
+    }, [driftReport, driftTarget]);
+
     // === SIM TAB DATA ===
     const simAnalysisData = useMemo(() => {
         const basePrice = currentPrice;
@@ -645,6 +678,50 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
             case 'phase_plane': return <ResponsiveContainer width="100%" height="100%"><ScatterChart><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="velocity" name="Velocity" /><YAxis dataKey="acceleration" name="Acceleration" /><Scatter data={trendAnalysisData.phasePlaneData} fill="#8884d8" fillOpacity={0.6} /></ScatterChart></ResponsiveContainer>;
             case 'seasonal': return <ResponsiveContainer width="100%" height="100%"><BarChart data={trendAnalysisData.seasonalHeatmap}><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="month" /><YAxis domain={[0.8, 1.2]} /><Bar dataKey="score" fill="#10B981" /></BarChart></ResponsiveContainer>;
             case 'monthly_trend': return <ResponsiveContainer width="100%" height="100%"><AreaChart data={trendAnalysisData.monthlyTrendData}><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="month" /><YAxis /><Area type="monotone" dataKey="avg" stroke="#005EB8" fill="#005EB8" fillOpacity={0.2} /></AreaChart></ResponsiveContainer>;
+            case 'season_drift': return (
+                <div className="h-full flex flex-col gap-2">
+                    <select value={driftTarget} onChange={e => setDriftTarget(e.target.value)} className="self-start text-[10px] font-bold border border-gray-200 rounded-lg px-2 py-1">
+                        <option value="全社">全社</option>
+                        <optgroup label="地域">{driftReport.regions.map(r => <option key={r.name} value={r.name}>{r.name}</option>)}</optgroup>
+                        <optgroup label="店舗">{driftReport.stores.map(s => <option key={s.name} value={s.name}>{s.name}</option>)}</optgroup>
+                    </select>
+                    <div className="flex-1 min-h-0">
+                        <ResponsiveContainer width="100%" height="100%">
+                            <LineChart data={driftChart.data}>
+                                <CartesianGrid strokeDasharray="3 3" vertical={false} />
+                                <XAxis dataKey="month" tick={{fontSize:9}} />
+                                <YAxis domain={['auto', 'auto']} tick={{fontSize:9}} />
+                                <Tooltip formatter={(v: number) => v.toFixed(3)} />
+                                <Legend wrapperStyle={{fontSize:'10px'}} />
+                                <ReferenceLine y={1} stroke="#CBD5E1" />
+                                {driftChart.years.map((y, i) => {
+                                    const latest = i === driftChart.years.length - 1;
+                                    return <Line key={y} type="monotone" dataKey={String(y)} name={latest ? `${y} (予測に使用)` : String(y)} stroke={latest ? '#005EB8' : '#94A3B8'} strokeOpacity={latest ? 1 : 0.3 + 0.6 * i / Math.max(1, driftChart.years.length - 1)} strokeWidth={latest ? 3 : 1.5} dot={false} />;
+                                })}
+                            </LineChart>
+                        </ResponsiveContainer>
+                    </div>
+                </div>
+            );
+            case 'season_drift_rank': return (
+                <div className="h-full overflow-y-auto">
+                    <table className="w-full text-[10px]">
+                        <thead className="text-gray-400 sticky top-0 bg-white">
+                            <tr><th className="text-left p-1">地域 / 店舗</th><th className="text-right p-1">初年比</th><th className="text-right p-1">前年比</th><th className="text-right p-1">ピーク月</th></tr>
+                        </thead>
+                        <tbody className="divide-y divide-gray-50">
+                            {[...driftReport.regions, ...driftReport.stores.slice(0, 20)].map((d, i) => (
+                                <tr key={`${d.stores > 1 ? 'r' : 's'}-${d.name}-${i}`} onClick={() => setDriftTarget(d.name)} className={`cursor-pointer hover:bg-blue-50 ${driftTarget === d.name ? 'bg-blue-50' : ''}`}>
+                                    <td className="p-1 font-bold text-gray-700 truncate max-w-[140px]">{d.stores > 1 ? <span className="text-[#005EB8]">[地域] {d.name} ({d.stores}店)</span> : d.name}</td>
+                                    <td className={`p-1 text-right font-mono ${d.drift > 0.05 ? 'text-red-500 font-bold' : 'text-gray-500'}`}>{d.drift.toFixed(3)}</td>
+                                    <td className="p-1 text-right font-mono text-gray-500">{d.lastYearDrift.toFixed(3)}</td>
+                                    <td className={`p-1 text-right ${d.peakMonths[0] !== d.peakMonths[1] ? 'text-orange-500 font-bold' : 'text-gray-400'}`}>{d.peakMonths[0]}月→{d.peakMonths[1]}月</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+            );
             case 'momentum': return <ResponsiveContainer width="100%" height="100%"><BarChart data={[...trendAnalysisData.topMom, ...trendAnalysisData.bottomMom]} layout="vertical"><CartesianGrid strokeDasharray="3 3" horizontal={false} /><XAxis type="number" hide /><YAxis dataKey="name" type="category" width={80} tick={{fontSize:9}} /><Bar dataKey="mom" barSize={15}>{trendAnalysisData.topMom.concat(trendAnalysisData.bottomMom).map((e,i)=><Cell key={i} fill={e.mom>0?'#10B981':'#EF4444'}/>)}</Bar></BarChart></ResponsiveContainer>;
 
             // -- RISK --
@@ -655,11 +732,12 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
             case 'gini_hist': return <ResponsiveContainer width="100%" height="100%"><LineChart data={riskAnalysisData.giniHistory}><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="year" /><YAxis domain={[0, 0.6]} /><Line type="monotone" dataKey="gini" stroke="#EF4444" strokeWidth={2} /></LineChart></ResponsiveContainer>;
 
             // -- DNA --
-            case 'dna_map': return <ResponsiveContainer width="100%" height="100%"><ScatterChart><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="k" name="k (Speed)" /><YAxis dataKey="L" name="L (Scale)" /><Scatter data={dnaAnalysisData.genotypeMap} fill="#10B981" /></ScatterChart></ResponsiveContainer>;
+            case 'dna_map': return <ResponsiveContainer width="100%" height="100%"><ScatterChart><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="k" name="k (Speed)" /><YAxis dataKey="L" name="L (Scale)" /><Tooltip cursor={{ strokeDasharray: '3 3' }} /><Scatter data={dnaAnalysisData.genotypeMap} fill="#10B981">{dnaAnalysisData.genotypeMap.map((e,i)=><Cell key={i} fillOpacity={e.uncertain ? 0.25 : 1} fill={({ logistic: '#005EB8', gompertz: '#10B981', richards: '#F59E0B', damped_trend: '#EF4444' } as Record<string, string>)[e.family]} />)}<ErrorBar dataKey="LErr" direction="y" width={0} stroke="#94A3B8" strokeOpacity={0.5} /><ErrorBar dataKey="kErr" direction="x" width={0} stroke="#94A3B8" strokeOpacity={0.5} /></Scatter></ScatterChart></ResponsiveContainer>;
             case 'mode_pie': return <ResponsiveContainer width="100%" height="100%"><PieChart><Pie data={dnaAnalysisData.modePie} innerRadius={60} outerRadius={80} dataKey="value" paddingAngle={5}>{dnaAnalysisData.modePie.map((e,i)=><Cell key={i} fill={['#005EB8','#8B5CF6','#F59E0B','#10B981','#EF4444'][i%5]}/>)}</Pie><Tooltip /><Legend /></PieChart></ResponsiveContainer>;
+            case 'family_pie': return <ResponsiveContainer width="100%" height="100%"><PieChart><Pie data={dnaAnalysisData.familyPie} innerRadius={60} outerRadius={80} dataKey="value" paddingAngle={5}>{dnaAnalysisData.familyPie.map((e,i)=><Cell key={i} fill={['#005EB8','#10B981','#F59E0B','#EF4444'][i%4]}/>)}</Pie><Tooltip /><Legend /></PieChart></ResponsiveContainer>;
             case 'seasonal_dna': return <ResponsiveContainer width="100%" height="100%"><BarChart data={dnaAnalysisData.seasonalStats}><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="month" /><YAxis domain={[0.8, 1.2]} /><Bar dataKey="val" fill="#F59E0B" /></BarChart></ResponsiveContainer>;
             case 't0_dist': return <ResponsiveContainer width="100%" height="100%"><BarChart data={dnaAnalysisData.t0Dist}><CartesianGrid strokeDasharray="3 3" /><XAxis dataKey="range" /><YAxis /><Bar dataKey="count" fill="#6366F1" /></BarChart></ResponsiveContainer>;
-            case 'shifts': return <ResponsiveContainer width="100%" height="100%"><BarChart data={dnaAnalysisData.shifts.slice(0,10)} layout="vertical"><CartesianGrid strokeDasharray="3 3" horizontal={false} /><XAxis type="number" hide /><YAxis dataKey="name" type="category" width={80} tick={{fontSize:9}} /><Bar dataKey="shift" fill="#8B5CF6" barSize={15} /></BarChart></ResponsiveContainer>;
+            case 'shifts': return <ResponsiveContainer width="100%" height="100%"><BarChart data={dnaAnalysisData.shifts.slice(0,10)} layout="vertical"><CartesianGrid strokeDasharray="3 3" horizontal={false} /><XAxis type="number" hide /><YAxis dataKey="name" type="category" width={80} tick={{fontSize:9}} /><Tooltip formatter={(v: number, _n: any, p: any) => [`${Math.round(v).toLocaleString()} (${p.payload.breaks}回)`, '累積シフト']} /><Bar dataKey="shift" fill="#8B5CF6" barSize={15} /></BarChart></ResponsiveContainer>;
 
             // --- SIM ---
             case 'sensitivity_curve':
@@ -751,6 +829,7 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
                             <StatCard title="モメンタム指数 (YoY)" value={`${kpis.avgYoY.toFixed(1)}%`} color={kpis.avgYoY > 0 ? "text-green-600" : "text-red-500"} />
                             <StatCard title="最高成長率 (Max)" value={`${kpis.maxGrowth.toFixed(1)}%`} />
                             <StatCard title="Trend Score" value={(kpis.growthStores/(kpis.activeCount||1)*100).toFixed(0)} sub="Growth Ratio" />
+                            <StatCard title="季節性ドリフト (全社)" value={driftReport.company ? driftReport.company.drift.toFixed(3) : '-'} sub={`初年比 / 変動店舗 ${driftReport.stores.filter(d => d.drift > 0.05).length}`} color={(driftReport.company?.drift || 0) > 0.05 ? "text-red-500" : "text-[#005EB8]"} />
                         </>
                     )}
                     {activeTab === 'risk' && (
@@ -771,7 +850,7 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
                             <StatCard title="Standard Mode" value={kpis.standardModeCount} sub="Stores" />
                             <StatCard title="Shift Mode (変化)" value={kpis.shiftModeCount} sub="Stores" color="text-purple-600" />
                             <StatCard title="季節性強度" value={kpis.seasonalityStrength.toFixed(2)} />
-                            <StatCard title="Mode Mix" value={`${(kpis.standardModeCount/(kpis.activeCount||1)*100).toFixed(0)}%`} sub="Standard Ratio" />
+                            <StatCard title="Alt Curve (非ロジスティック)" value={kpis.altFamilyCount} sub="Gompertz / Richards / Damped" color="text-emerald-600" />
                         </>
                     )}
                     {activeTab === 'sim' && (
@@ -818,6 +897,8 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
                         <ChartCard id="phase_plane" title="フェーズプレーン (速度 vs 加速度)" className="lg:col-span-2 h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('phase_plane')}</ChartCard>
                         <ChartCard id="seasonal" title="季節性ヒートマップ" className="h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('seasonal')}</ChartCard>
                         <ChartCard id="momentum" title="モメンタムランキング (Top/Bottom)" className="lg:col-span-3 h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('momentum')}</ChartCard>
+                        <ChartCard id="season_drift" title="季節性ドリフト (年別プロファイル)" className="lg:col-span-2 h-[420px]" onExpand={setExpandedChartId} helpTitle="季節性ドリフト" helpContent="年ごとの季節指数を重ねて表示します。各年の指数はその年の中央付近の月ほど重く（半減期はエンジン設定）推定し、最新年（濃い線）が予測に使われます。駅の再開発や通勤パターンの変化で季節の山が移った店舗・地域を確認できます。">{renderChartContent('season_drift')}</ChartCard>
+                        <ChartCard id="season_drift_rank" title="ドリフトランキング" className="h-[420px]" info="月平均 |指数差|" onExpand={setExpandedChartId}>{renderChartContent('season_drift_rank')}</ChartCard>
                     </div>
                 )}
 
@@ -833,11 +914,12 @@ const AnalyticsView: React.FC<AnalyticsViewProps> = ({ allStores, dataType }) =>
 
                 {activeTab === 'dna' && (
                     <div className="grid grid-cols-1 md:grid-cols-2 lg:grid-cols-3 gap-6 animate-fadeIn">
-                        <ChartCard id="dna_map" title="Genotype Map (L vs k)" className="lg:col-span-2 h-[450px]" onExpand={setExpandedChartId}>{renderChartContent('dna_map')}</ChartCard>
+                        <ChartCard id="dna_map" title="Genotype Map (L vs k, 色=カーブ族, 線=95%CI, 淡色=推定不安定)" className="lg:col-span-2 h-[450px]" onExpand={setExpandedChartId}>{renderChartContent('dna_map')}</ChartCard>
                         <ChartCard id="mode_pie" title="モデルモード構成比" className="h-[450px]" onExpand={setExpandedChartId}>{renderChartContent('mode_pie')}</ChartCard>
                         <ChartCard id="seasonal_dna" title="平均季節性 DNA" className="lg:col-span-2 h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('seasonal_dna')}</ChartCard>
                         <ChartCard id="t0_dist" title="成長ピーク時期 (t0) 分布" className="h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('t0_dist')}</ChartCard>
-                        <ChartCard id="shifts" title="構造変化インパクト (Shift Magnitude)" className="lg:col-span-3 h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('shifts')}</ChartCard>
+                        <ChartCard id="shifts" title="構造変化インパクト (Shift Magnitude)" className="lg:col-span-2 h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('shifts')}</ChartCard>
+                        <ChartCard id="family_pie" title="成長カーブ族 構成比 (AICc選択)" className="h-[400px]" onExpand={setExpandedChartId}>{renderChartContent('family_pie')}</ChartCard>
                     </div>
                 )}
 
@@ -1,7 +1,9 @@
 
 import React, { useState, useMemo, useEffect, useRef } from 'react';
 import { StoreData } from '../types';
-import { logisticModel } from '../services/analysisEngine';
+import { curveForecastAt, sampleForecastQuantile, getDriverFactor } from '../services/analysisEngine';
+import { forecastAt } from '../services/jointForecast';
+import { monthsOverCapacity } from '../services/capacity';
 import HelpTooltip from './HelpTooltip';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, ReferenceLine, Cell,
@@ -32,6 +34,7 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
     const [selectedBlock, setSelectedBlock] = useState<string>("");
     const [sortConfig, setSortConfig] = useState<{ key: SortKey; direction: 'asc' | 'desc' }>({ key: 'budgetTotal', direction: 'desc' });
     const [conflictModal, setConflictModal] = useState<{ isOpen: boolean; storeName: string; targetValue: number } | null>(null);
+    const [driverScenario, setDriverScenario] = useState<Record<string, number>>({}); // What-if values replacing the planned drivers
 
     const [targetYear, setTargetYear] = useState<number>(() => {
         const today = new Date();
@@ -50,24 +53,42 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
         return { label: `${endYear}年6月期`, dates, startYear, endYear };
     }, [targetYear]);
 
+    // Drivers fitted on any active store, with the median coefficient and last actual value across stores
+    const driverSummary = useMemo(() => {
+        const byVar = new Map<string, { coefs: number[]; bases: number[] }>();
+        (Object.values(allStores) as StoreData[]).forEach(s => {
+            if (!s.isActive || s.error) return;
+            s.drivers?.forEach(d => {
+                const e = byVar.get(d.variable) || { coefs: [], bases: [] };
+                e.coefs.push(d.coef); e.bases.push(d.base);
+                byVar.set(d.variable, e);
+            });
+        });
+        const median = (arr: number[]) => { const s = [...arr].sort((a, b) => a - b); return s[Math.floor(s.length / 2)]; };
+        return Array.from(byVar.entries()).map(([variable, e]) => ({ variable, stores: e.coefs.length, coef: median(e.coefs), base: median(e.bases) }));
+    }, [allStores]);
+
     // Data Aggregation
     const budgetData = useMemo(() => {
         const activeStores = (Object.values(allStores) as StoreData[]).filter(s => s.isActive && !s.error);
         
         return activeStores.map(s => {
             const forecastMonthly: number[] = [];
+            const horizons: number[] = [];
+            const bandShifts: number[] = [];
             const lastRawIdx = s.raw.length - 1;
             const lastDateObj = new Date(s.dates[lastRawIdx]?.replace(/\//g, '-') || new Date());
             
             fiscalYearInfo.dates.forEach(fyDate => {
                 const targetDate = new Date(fyDate + '-01');
                 const diffMonths = (targetDate.getFullYear() - lastDateObj.getFullYear()) * 12 + (targetDate.getMonth() - lastDateObj.getMonth());
-                const futureIdx = lastRawIdx + diffMonths;
-                const tr = logisticModel(futureIdx, s.fit.params, s.fit.mode, s.fit.shockIdx);
-                const sea = s.seasonal[targetDate.getMonth()] || 1.0;
-                const nudge = s.nudge || 0; // Persistent nudge
-                const val = Math.max(0, (tr + nudge) * sea);
-                forecastMonthly.push(Math.round(val));
+                horizons.push(diffMonths);
+                // What-if: swap the planned driver multiplier for the scenario one
+                const whatIf = Object.keys(driverScenario).length > 0 ? getDriverFactor(s, targetDate, driverScenario) / getDriverFactor(s, targetDate) : 1;
+                const val = forecastAt(s, diffMonths);
+                // The bootstrap quantiles are of the sales curve; move them onto the joint forecast
+                bandShifts.push(val - curveForecastAt(s, diffMonths));
+                forecastMonthly.push(Math.round(val * whatIf));
             });
 
             const hasIndividual = individualStretch.hasOwnProperty(s.name);
@@ -102,10 +123,16 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                 stretch: storeStretch,
                 yoy: lastYearTotal > 0 ? ((budgetTotal - lastYearTotal) / lastYearTotal) * 100 : 0,
                 stdDev: s.stdDev,
+                quantiles: s.quantiles,
+                horizons,
+                bandShifts,
+                capacity: s.capacity?.ceiling,
+                // Months whose target is more than the shop can physically serve (chairs x staffed hours)
+                overCapacity: monthsOverCapacity(s.capacity, fiscalYearInfo.dates, budgetMonthly),
                 hasManualOverrides: !!manualOverrides[s.name] && Object.keys(manualOverrides[s.name]).length > 0
             };
         });
-    }, [allStores, globalStretch, individualStretch, manualOverrides, fiscalYearInfo]);
+    }, [allStores, globalStretch, individualStretch, manualOverrides, fiscalYearInfo, driverScenario]);
 
     const filteredData = useMemo(() => {
         let data = budgetData.filter(d => 
@@ -131,21 +158,26 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
         };
     }, [filteredData]);
 
-    // Risk Simulation (Monte Carlo)
+    // Risk Simulation (Monte Carlo over the bootstrap forecast quantiles)
     const riskSimulation = useMemo(() => {
         if (activeTab !== 'risk' || filteredData.length === 0) return null;
         const trials = 1000;
         const landingTotals: number[] = [];
-        const storeCount = filteredData.length;
 
         for (let i = 0; i < trials; i++) {
             let trialTotal = 0;
             filteredData.forEach(s => {
-                // Simulate 12 months for each store
+                // One draw per store: months within a store move together (level risk dominates)
+                const u = Math.random();
                 let storeTrial = 0;
-                s.budgetMonthly.forEach(b => {
-                    const noise = (Math.random() * 2 - 1) * s.stdDev * 1.5; // Roughly Gaussian
-                    storeTrial += Math.max(0, b + noise);
+                s.forecastMonthly.forEach((f, idx) => {
+                    const h = s.horizons[idx];
+                    if (s.quantiles && h >= 1) {
+                        storeTrial += Math.max(0, sampleForecastQuantile(s.quantiles, h, u) + s.bandShifts[idx]);
+                    } else {
+                        const noise = (u * 2 - 1) * s.stdDev * 1.5; // Fallback for stores without quantiles
+                        storeTrial += Math.max(0, f + noise);
+                    }
                 });
                 trialTotal += storeTrial;
             });
@@ -259,6 +291,22 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                     <KpiCard title="達成見込 (Prob)" value={riskSimulation ? `${riskSimulation.winProb.toFixed(0)}%` : "---"} sub="予算達成の確率" color="border-t-pink-500" />
                 </div>
 
+                {/* Capacity warning */}
+                {budgetData.some(d => d.overCapacity.length > 0) && (
+                    <div className="bg-red-50 border border-red-100 rounded-2xl px-6 py-4 flex items-start gap-3">
+                        <i className="fas fa-exclamation-triangle text-red-500 mt-0.5"></i>
+                        <div>
+                            <p className="text-xs font-black text-red-600">
+                                {budgetData.filter(d => d.overCapacity.length > 0).length}店舗の予算が処理能力 (席数 × 稼働時間) を超えています
+                            </p>
+                            <p className="text-[10px] font-bold text-red-400 mt-1">
+                                {budgetData.filter(d => d.overCapacity.length > 0).map(d => `${d.name} (${d.overCapacity.length}ヶ月)`).join('、')}
+                                {' '}— 席の増設・稼働時間の延長がなければ物理的に達成できません。
+                            </p>
+                        </div>
+                    </div>
+                )}
+
                 {/* Tab: GLOBAL */}
                 {activeTab === 'global' && (
                     <div className="grid grid-cols-1 lg:grid-cols-12 gap-6 animate-fadeIn">
@@ -274,6 +322,37 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                                     <p className="text-[10px] text-gray-400 font-bold leading-relaxed">※AI予測をベースに一律で係数を乗算します。既に店舗別で個別設定されている場合は、そちらが優先されるか確認モーダルが表示されます。</p>
                                 </div>
                             </div>
+                            {driverSummary.length > 0 && (
+                                <div className="bg-white p-6 rounded-[2rem] shadow-sm border border-gray-100">
+                                    <div className="flex justify-between items-center mb-4">
+                                        <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest">外部要因シナリオ (What-if)</h3>
+                                        {Object.keys(driverScenario).length > 0 && (
+                                            <button onClick={() => setDriverScenario({})} className="text-[10px] font-black text-gray-400 hover:text-[#005EB8]">計画値に戻す</button>
+                                        )}
+                                    </div>
+                                    <div className="space-y-3">
+                                        {driverSummary.map(d => (
+                                            <div key={d.variable} className="flex items-center justify-between gap-3">
+                                                <div>
+                                                    <div className="text-xs font-black text-gray-700">{d.variable}</div>
+                                                    <div className="text-[10px] text-gray-400 font-bold">係数(中央値) {(d.coef * 100).toFixed(2)}%/単位 · 直近 {d.base.toLocaleString()} · {d.stores}店</div>
+                                                </div>
+                                                <input
+                                                    type="number" placeholder="計画値"
+                                                    value={driverScenario[d.variable] ?? ''}
+                                                    onChange={e => setDriverScenario(prev => {
+                                                        const next = { ...prev };
+                                                        if (e.target.value === '') delete next[d.variable]; else next[d.variable] = Number(e.target.value);
+                                                        return next;
+                                                    })}
+                                                    className="w-24 bg-gray-50 border border-gray-200 rounded-lg px-2 py-1 text-xs font-bold text-right outline-none focus:ring-2 focus:ring-[#005EB8]"
+                                                />
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <p className="text-[10px] text-gray-400 font-bold leading-relaxed mt-4">※入力した値が予算期間の全月に適用され、AI予測に反映されます。空欄はドライバーファイルの計画値を使います。</p>
+                                </div>
+                            )}
                             <div className="bg-white p-6 rounded-[2rem] shadow-sm border border-gray-100 h-[400px]">
                                 <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4">ブロック別 予算構成</h3>
                                 <ResponsiveContainer width="100%" height="100%">
@@ -318,7 +397,10 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                                                 <td className="p-4 text-right">{Math.round(d.budgetTotal).toLocaleString()}</td>
                                                 <td className={`p-4 text-right ${d.yoy >= 100 ? 'text-green-500' : 'text-red-500'}`}>{d.yoy.toFixed(1)}%</td>
                                                 <td className="p-4 text-center"><span className="px-2 py-0.5 bg-gray-100 rounded text-[10px]">{d.stretch}%</span></td>
-                                                <td className="p-4 text-[10px] text-gray-400">{d.hasManualOverrides ? '手入力あり' : '-'}</td>
+                                                <td className="p-4 text-[10px] text-gray-400">
+                                                    {d.overCapacity.length > 0 && <span className="text-red-500 mr-2" title={d.overCapacity.join(', ')}><i className="fas fa-exclamation-triangle"></i> 処理能力超過 {d.overCapacity.length}ヶ月</span>}
+                                                    {d.hasManualOverrides ? '手入力あり' : d.overCapacity.length === 0 ? '-' : ''}
+                                                </td>
                                             </tr>
                                         ))}
                                     </tbody>
@@ -379,11 +461,17 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                                                                 <input 
                                                                     type="number" value={v} 
                                                                     onChange={e => handleManualOverride(currentStore.name, fiscalYearInfo.dates[i], Number(e.target.value))}
-                                                                    className="w-full bg-white border border-blue-200 rounded-lg p-2 text-center text-[#005EB8] outline-none focus:ring-2 focus:ring-[#005EB8]"
+                                                                    className={`w-full bg-white border rounded-lg p-2 text-center outline-none focus:ring-2 focus:ring-[#005EB8] ${currentStore.overCapacity.includes(fiscalYearInfo.dates[i]) ? 'border-red-400 text-red-600' : 'border-blue-200 text-[#005EB8]'}`}
                                                                 />
                                                             </td>
                                                         ))}
                                                     </tr>
+                                                    {currentStore.capacity !== undefined && (
+                                                        <tr>
+                                                            <td className="p-3 text-left font-bold text-red-400">処理能力上限</td>
+                                                            {fiscalYearInfo.dates.map(d => <td key={d} className="p-3 text-red-300">{Math.round(currentStore.capacity!).toLocaleString()}</td>)}
+                                                        </tr>
+                                                    )}
                                                 </tbody>
                                             </table>
                                         </div>
@@ -398,6 +486,7 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                                                 <Bar dataKey="lastYear" name="昨期実績" fill="#CBD5E1" barSize={15} />
                                                 <Line type="monotone" dataKey="forecast" name="AI予測" stroke="#93C5FD" strokeDasharray="5 5" />
                                                 <Line type="monotone" dataKey="budget" name="今期予算" stroke="#005EB8" strokeWidth={3} dot={{r:4}} />
+                                                {currentStore.capacity !== undefined && <ReferenceLine y={currentStore.capacity} stroke="#EF4444" strokeDasharray="6 3" label={{ value: '処理能力上限', position: 'insideTopRight', fontSize: 9, fill: '#EF4444' }} />}
                                             </ComposedChart>
                                         </ResponsiveContainer>
                                     </div>
@@ -439,10 +528,10 @@ const BudgetBuilderView: React.FC<BudgetBuilderViewProps> = ({ allStores, dataTy
                                 </div>
                                 <div className="grid grid-cols-3 gap-6 border-t border-white/10 pt-8">
                                     <div><p className="text-[9px] text-gray-500 uppercase font-black mb-1">Downside (5%)</p><p className="text-lg font-black">{Math.round(riskSimulation.p05/displayDivider).toLocaleString()}k</p></div>
-                                    <div><p className="text-[9px] text-gray-500 uppercase font-black mb-1">Expected (Mean)</p><p className="text-lg font-black text-blue-400">{Math.round(riskSimulation.p50/displayDivider).toLocaleString()}k</p></div>
+                                    <div><p className="text-[9px] text-gray-500 uppercase font-black mb-1">Expected (Median)</p><p className="text-lg font-black text-blue-400">{Math.round(riskSimulation.p50/displayDivider).toLocaleString()}k</p></div>
                                     <div><p className="text-[9px] text-gray-500 uppercase font-black mb-1">Upside (95%)</p><p className="text-lg font-black">{Math.round(riskSimulation.p95/displayDivider).toLocaleString()}k</p></div>
                                 </div>
-                                <p className="text-[10px] text-gray-500 leading-relaxed italic">※このシミュレーションは各店舗の過去のボラティリティに基づき、1,000パターンの将来を試行した結果です。達成率が50%を下回る場合は、予算設定が「極めて強気」であることを示唆します。</p>
+                                <p className="text-[10px] text-gray-500 leading-relaxed italic">※このシミュレーションは各店舗のブートストラップ予測分布 (P05〜P95) から1,000パターンの将来を試行した結果です。達成率が50%を下回る場合は、予算設定が「極めて強気」であることを示唆します。</p>
                             </div>
                         </div>
                     </div>
@@ -0,0 +1,116 @@
+import React, { useState, useMemo } from 'react';
+import { ColumnMapping, SeriesField } from '../types';
+import { SERIES_FIELD_LABELS, REQUIRED_SERIES_FIELDS, validateMapping } from '../services/columnMapping';
+
+interface ColumnMappingWizardProps {
+    fileName: string;
+    rows: string[][];                 // First rows of the file, as parsed
+    initial: ColumnMapping;
+    profileName?: string;             // Saved profile the initial mapping came from
+    onConfirm: (mapping: ColumnMapping, saveAs?: string) => void;
+    onDeleteProfile?: () => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 8;
+
+const ColumnMappingWizard: React.FC<ColumnMappingWizardProps> = ({ fileName, rows, initial, profileName, onConfirm, onDeleteProfile, onCancel }) => {
+    const [mapping, setMapping] = useState<ColumnMapping>(initial);
+    const [saveProfile, setSaveProfile] = useState(!profileName);
+    const [name, setName] = useState(profileName || fileName.replace(/\.[^.]+$/, ''));
+
+    const width = Math.max(mapping.columns.length, ...rows.map(r => r.length));
+    const header = mapping.hasHeader ? rows[0] : undefined;
+    const body = rows.slice(mapping.hasHeader ? 1 : 0, (mapping.hasHeader ? 1 : 0) + PREVIEW_ROWS);
+    const errors = useMemo(() => validateMapping(mapping), [mapping]);
+
+    const setColumn = (i: number, field: SeriesField) => {
+        const columns = Array.from({ length: width }, (_, j) => mapping.columns[j] || 'ignore');
+        // A field sits on one column only: picking it elsewhere frees the old one
+        if (field !== 'ignore') columns.forEach((f, j) => { if (f === field) columns[j] = 'ignore'; });
+        columns[i] = field;
+        setMapping({ ...mapping, columns });
+    };
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-fadeIn">
+            <div className="bg-white rounded-[2rem] p-8 w-full max-w-4xl shadow-2xl max-h-[90vh] flex flex-col">
+                <div className="flex justify-between items-start mb-4">
+                    <div>
+                        <h3 className="text-lg font-black text-slate-800 font-display">列の割り当て (Import Wizard)</h3>
+                        <p className="text-xs text-gray-400 font-bold mt-1">
+                            {fileName} — 各列が何を表すかを選んでください。{profileName && <span className="text-[#005EB8]">保存済みプロファイル「{profileName}」を適用中</span>}
+                        </p>
+                    </div>
+                    <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+                        <input type="checkbox" checked={mapping.hasHeader} onChange={(e) => setMapping({ ...mapping, hasHeader: e.target.checked })} />
+                        1行目は見出し
+                    </label>
+                </div>
+
+                <div className="flex-1 overflow-auto border border-slate-100 rounded-xl">
+                    <table className="w-full text-xs">
+                        <thead className="bg-slate-50 sticky top-0">
+                            <tr>
+                                {Array.from({ length: width }, (_, i) => (
+                                    <th key={i} className="p-2 text-left align-top min-w-[120px]">
+                                        <select
+                                            value={mapping.columns[i] || 'ignore'}
+                                            onChange={(e) => setColumn(i, e.target.value as SeriesField)}
+                                            className={`w-full border rounded-lg px-2 py-1 text-[11px] font-bold ${(mapping.columns[i] || 'ignore') === 'ignore' ? 'border-slate-200 text-slate-400' : REQUIRED_SERIES_FIELDS.includes(mapping.columns[i]) ? 'border-[#005EB8] text-[#005EB8]' : 'border-sky-300 text-sky-600'}`}
+                                        >
+                                            {(Object.keys(SERIES_FIELD_LABELS) as SeriesField[]).map(f => <option key={f} value={f}>{SERIES_FIELD_LABELS[f]}</option>)}
+                                        </select>
+                                        {header && <div className="mt-1 text-[10px] text-slate-500 font-black truncate">{header[i]}</div>}
+                                    </th>
+                                ))}
+                            </tr>
+                        </thead>
+                        <tbody className="divide-y divide-slate-50">
+                            {body.map((row, r) => (
+                                <tr key={r}>
+                                    {Array.from({ length: width }, (_, i) => (
+                                        <td key={i} className={`p-2 font-mono truncate max-w-[160px] ${(mapping.columns[i] || 'ignore') === 'ignore' ? 'text-slate-300' : 'text-slate-700'}`}>{row[i]}</td>
+                                    ))}
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                </div>
+
+                {errors.length > 0 && (
+                    <ul className="mt-3 text-xs font-bold text-red-500 space-y-1">
+                        {errors.map(e => <li key={e}><i className="fas fa-exclamation-circle mr-1"></i>{e}</li>)}
+                    </ul>
+                )}
+
+                <div className="mt-4 flex flex-col md:flex-row md:items-center justify-between gap-3">
+                    {mapping.hasHeader ? (
+                        <label className="flex items-center gap-2 text-xs font-bold text-slate-500">
+                            <input type="checkbox" checked={saveProfile} onChange={(e) => setSaveProfile(e.target.checked)} />
+                            同じ見出しのファイルに自動で使う
+                            <input type="text" value={name} onChange={(e) => setName(e.target.value)} disabled={!saveProfile} placeholder="プロファイル名" className="border border-slate-200 rounded-lg px-2 py-1 text-xs disabled:opacity-40" />
+                        </label>
+                    ) : (
+                        <span className="text-[10px] font-bold text-slate-300">見出し行のないファイルはプロファイルに保存できません</span>
+                    )}
+                    <div className="flex gap-2 justify-end">
+                        {profileName && onDeleteProfile && (
+                            <button onClick={onDeleteProfile} className="px-4 py-2 rounded-xl text-xs font-black text-red-400 hover:bg-red-50 transition-colors">プロファイル削除</button>
+                        )}
+                        <button onClick={onCancel} className="px-4 py-2 rounded-xl text-xs font-black text-slate-400 hover:bg-slate-100 transition-colors">Cancel</button>
+                        <button
+                            onClick={() => onConfirm(mapping, mapping.hasHeader && saveProfile && name.trim() ? name.trim() : undefined)}
+                            disabled={errors.length > 0}
+                            className="px-6 py-2 bg-[#005EB8] text-white rounded-xl text-xs font-black uppercase hover:bg-[#004a94] transition-all disabled:opacity-40"
+                        >
+                            この割り当てで確定
+                        </button>
+                    </div>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default ColumnMappingWizard;
@@ -2,6 +2,7 @@
 import React, { useState, useMemo, useCallback } from 'react';
 import { StoreData } from '../types';
 import { logisticModel } from '../services/analysisEngine';
+import { forecastAt } from '../services/jointForecast';
 import HelpTooltip from './HelpTooltip';
 import {
     LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, Brush
@@ -75,11 +76,7 @@ const ComparisonView: React.FC<ComparisonViewProps> = ({ allStores, dataType })
                         if (currDate > lastDate) {
                             const monthsDiff = (currDate.getFullYear() - lastDate.getFullYear()) * 12 + (currDate.getMonth() - lastDate.getMonth());
                              if(monthsDiff <= 12) {
-                                const t = s.raw.length + monthsDiff - 1;
-                                const tr = logisticModel(t, s.fit.params, s.fit.mode, s.fit.shockIdx);
-                                const sea = s.seasonal[currDate.getMonth()] || 1.0;
-                                const val = (tr * sea) + (s.nudge * Math.pow(s.nudgeDecay, monthsDiff));
-                                pt[`${name}_forecast`] = Math.round(val);
+                                pt[`${name}_forecast`] = Math.round(forecastAt(s, monthsDiff));
                              }
                         }
                     }
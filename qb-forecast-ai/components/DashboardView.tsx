@@ -1,7 +1,6 @@
 
 import React, { useMemo, useState } from 'react';
-import { StoreData } from '../types';
-import { logisticModel } from '../services/analysisEngine';
+import { StoreData, ReconciliationMethod, HierarchyForecast } from '../types';
 import {
     LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
     ScatterChart, Scatter, ZAxis, Legend, Brush, ReferenceLine,
@@ -13,11 +12,19 @@ import TrendIndicator from './shared/TrendIndicator';
 import ProgressRing from './shared/ProgressRing';
 import AlertCard from './shared/AlertCard';
 import RankingCard from './shared/RankingCard';
+import WaterfallChart from './shared/WaterfallChart';
+import { priceVolumeDecomposition } from '../services/jointForecast';
+import { storeForecastLookup } from '../services/reconciliation';
+import ForecastMethodToggle from './ForecastMethodToggle';
 
 interface DashboardViewProps {
     allStores: { [name: string]: StoreData };
     forecastMonths: number;
     dataType: 'sales' | 'customers';
+    forecastMethod: ReconciliationMethod | 'sum';
+    setForecastMethod: (method: ReconciliationMethod | 'sum') => void;
+    reconciled: HierarchyForecast | null;
+    isReconciling: boolean;
 }
 
 const calculateGini = (values: number[]) => {
@@ -51,7 +58,7 @@ const COHORT_COLORS: Record<string, string> = {
     "2021-Present": "#0F2540" // Navy (Highlight)
 };
 
-const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths, dataType }) => {
+const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths, dataType, forecastMethod, setForecastMethod, reconciled, isReconciling }) => {
     const [viewMode, setViewMode] = useState<'fiscal' | 'strategic'>('fiscal');
     const [hiddenCohorts, setHiddenCohorts] = useState<Set<string>>(new Set());
 
@@ -78,6 +85,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
 
     const aggregatedData = useMemo(() => {
         const { sortedDates, lastDate, fyStartDate, fyEndDate } = dateRangeInfo;
+        const storeForecast = storeForecastLookup(reconciled);
 
         // Strategic Data Construction
         const combinedDates = [...sortedDates];
@@ -105,12 +113,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
                     if (idx !== -1) val = s.raw[idx];
                 } else {
                     if (s.isActive) {
-                        const monthsDiff = (dateObj.getFullYear() - lastDate.getFullYear()) * 12 + (dateObj.getMonth() - lastDate.getMonth());
-                        const idx = s.raw.length + monthsDiff - 1;
-                        const tr = logisticModel(idx, s.fit.params, s.fit.mode, s.fit.shockIdx);
-                        const sea = s.seasonal[dateObj.getMonth()] || 1.0;
-                        const nudge = s.nudge;
-                        val = Math.max(0, (tr + nudge) * sea);
+                        val = storeForecast(s, date);
                     }
                 }
                 const budgetKey = `${dateObj.getFullYear()}-${String(dateObj.getMonth() + 1).padStart(2, '0')}`;
@@ -208,12 +211,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
                     if (idx !== -1) { sActual = s.raw[idx]; mActual += sActual; hasActual = true; }
                 }
                 if (!isPastOrPresent && s.isActive) {
-                    const monthsDiff = (dateObj.getFullYear() - lastDate.getFullYear()) * 12 + (dateObj.getMonth() - lastDate.getMonth());
-                    const idx = s.raw.length + monthsDiff - 1;
-                    const tr = logisticModel(idx, s.fit.params, s.fit.mode, s.fit.shockIdx);
-                    const sea = s.seasonal[dateObj.getMonth()] || 1.0;
-                    const nudge = s.nudge;
-                    sForecast = Math.max(0, (tr + nudge) * sea);
+                    sForecast = storeForecast(s, month);
                     mForecast += sForecast;
                 } else if (isPastOrPresent) sForecast = sActual;
 
@@ -271,7 +269,7 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
         const totalGrowthGap = (totalL * 12) - activeStores.reduce((a, s) => a + (s.stats?.lastYearSales || 0), 0);
         const avgK = activeStores.length > 0 ? activeStores.reduce((a, s) => a + s.params.k, 0) / activeStores.length : 0;
         const avgCAGR = activeStores.length > 0 ? activeStores.reduce((a, s) => a + (s.stats?.cagr || 0), 0) / activeStores.length * 100 : 0;
-        const shiftModeCount = activeStores.filter(s => s.fit.mode === 'shift' || s.fit.mode === 'dual_shift').length;
+        const shiftModeCount = activeStores.filter(s => s.fit.mode === 'shift').length;
         const standardModeCount = activeStores.filter(s => s.fit.mode === 'standard').length;
         const seasonalityStrength = activeStores.length > 0 ? activeStores.reduce((a, s) => a + (Math.max(...s.seasonal) - Math.min(...s.seasonal)), 0) / activeStores.length : 0;
         const totalNudge = activeStores.reduce((a, s) => a + Math.abs(s.nudge), 0);
@@ -347,11 +345,37 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
             },
             bubbleData: activeStores.map(s => ({ x: Number(s.params.k.toFixed(3)), y: Math.round(s.params.L), z: Math.round(s.stats?.lastYearSales || 0), name: s.name, cluster: s.raw.length < 24 ? 1 : 0 })),
         };
-    }, [stores, activeStores, forecastMonths, dateRangeInfo, displayDivider]);
+    }, [stores, activeStores, forecastMonths, dateRangeInfo, displayDivider, reconciled]);
 
     const { kpis, fyChartData, strategicData, vintageCurveData, bubbleData, fiscalDistData, fiscalRegionalData, fiscalWaterfallData, ltvRankingData, topPerformers, bottomPerformers, alerts } = aggregatedData;
 
     // --- Modernized Components (Navy/Vermilion) ---
+    // Price vs volume (stores loaded with customer counts next to sales)
+    const priceVolume = useMemo(() => {
+        if (!isSales || !activeStores.some(s => s.joint)) return null;
+        const d = priceVolumeDecomposition(activeStores);
+        const toM = (v: number) => Math.round(v / 100) / 10;
+        const steps = (split: typeof d.actual, from: string, to: string) => [
+            { name: from, value: toM(split.base), isTotal: true },
+            { name: '客数効果', value: toM(split.volume) },
+            { name: '客単価効果', value: toM(split.price) },
+            { name: to, value: toM(split.current), isTotal: true }
+        ];
+        const pct = (a: number, b: number) => (b > 0 ? (a / b - 1) * 100 : 0);
+        const rates = (split: typeof d.actual) => ({
+            sales: pct(split.current, split.base),
+            customers: pct(split.currentCustomers, split.baseCustomers),
+            unitPrice: split.baseCustomers > 0 && split.currentCustomers > 0 ? pct(split.current / split.currentCustomers, split.base / split.baseCustomers) : 0
+        });
+        return {
+            ...d,
+            actualSteps: steps(d.actual, '前年12ヶ月', '直近12ヶ月'),
+            forecastSteps: steps(d.forecast, '直近12ヶ月', '次12ヶ月'),
+            actualRates: rates(d.actual),
+            forecastRates: rates(d.forecast)
+        };
+    }, [allStores, isSales]);
+
     const KpiCard = ({ title, value, sub, color = "border-[#0F2540]", unit = "", delay = "" }: any) => (
         <div className={`glass-card p-5 rounded-[2rem] flex flex-col justify-between h-full relative overflow-hidden group animate-entry ${delay}`}>
             <div className={`absolute top-0 left-0 w-full h-1 bg-gradient-to-r ${color === "success" ? "from-emerald-400 to-green-500" : color === "danger" ? "from-red-400 to-rose-500" : color === "warning" ? "from-amber-400 to-orange-500" : "from-[#0F2540] to-blue-800"}`}></div>
@@ -397,13 +421,19 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
                         </p>
                     </div>
 
-                    <div className="bg-white/80 backdrop-blur rounded-2xl p-1 shadow-sm border border-white/50 flex">
-                        <button onClick={() => setViewMode('fiscal')} className={`px-6 py-2.5 rounded-xl text-xs font-black transition-all flex items-center gap-2 btn-press ${viewMode === 'fiscal' ? 'bg-[#0F2540] text-white shadow-lg' : 'text-gray-400 hover:text-gray-600'}`}>
-                            <i className="fas fa-chart-pie"></i> 予実管理 (Fiscal)
-                        </button>
-                        <button onClick={() => setViewMode('strategic')} className={`px-6 py-2.5 rounded-xl text-xs font-black transition-all flex items-center gap-2 btn-press ${viewMode === 'strategic' ? 'bg-[#0F2540] text-white shadow-lg' : 'text-gray-400 hover:text-gray-600'}`}>
-                            <i className="fas fa-rocket"></i> 戦略KPI (Strategy)
-                        </button>
+                    <div className="flex items-center gap-3">
+                        <div className="flex items-center gap-2" title="店舗予測の合算方法 (Top-down/OLS/MinTは全社〜店舗の階層で整合させた値)">
+                            {isReconciling && <span className="text-[10px] font-black text-gray-400">階層予測を計算中...</span>}
+                            <ForecastMethodToggle value={forecastMethod} onChange={setForecastMethod} />
+                        </div>
+                        <div className="bg-white/80 backdrop-blur rounded-2xl p-1 shadow-sm border border-white/50 flex">
+                            <button onClick={() => setViewMode('fiscal')} className={`px-6 py-2.5 rounded-xl text-xs font-black transition-all flex items-center gap-2 btn-press ${viewMode === 'fiscal' ? 'bg-[#0F2540] text-white shadow-lg' : 'text-gray-400 hover:text-gray-600'}`}>
+                                <i className="fas fa-chart-pie"></i> 予実管理 (Fiscal)
+                            </button>
+                            <button onClick={() => setViewMode('strategic')} className={`px-6 py-2.5 rounded-xl text-xs font-black transition-all flex items-center gap-2 btn-press ${viewMode === 'strategic' ? 'bg-[#0F2540] text-white shadow-lg' : 'text-gray-400 hover:text-gray-600'}`}>
+                                <i className="fas fa-rocket"></i> 戦略KPI (Strategy)
+                            </button>
+                        </div>
                     </div>
                 </div>
 
@@ -698,6 +728,37 @@ const DashboardView: React.FC<DashboardViewProps> = ({ allStores, forecastMonths
                                 </ResponsiveContainer>
                             </ChartContainer>
                         </div>
+
+                        {/* Price vs Volume (joint customers x unit price model) */}
+                        {priceVolume && (
+                            <div className="grid grid-cols-1 lg:grid-cols-2 gap-6">
+                                {([
+                                    ['実績: 客数 vs 客単価 (Price vs Volume)', priceVolume.actualSteps, priceVolume.actualRates, priceVolume.actualStores],
+                                    ['予測: 客数 vs 客単価 (次12ヶ月)', priceVolume.forecastSteps, priceVolume.forecastRates, priceVolume.forecastStores]
+                                ] as const).map(([title, steps, rates, count]) => (
+                                    <ChartContainer key={title} title={title}>
+                                        {count > 0 ? (
+                                            <>
+                                                <WaterfallChart data={[...steps]} height={260} />
+                                                <div className="grid grid-cols-3 gap-2 mt-4 text-center">
+                                                    {([['売上', rates.sales], ['客数', rates.customers], ['客単価', rates.unitPrice]] as const).map(([label, v]) => (
+                                                        <div key={label} className="bg-slate-50 rounded-xl py-2">
+                                                            <p className="text-[10px] font-black text-slate-400">{label}</p>
+                                                            <p className={`text-sm font-black ${v >= 0 ? 'text-emerald-600' : 'text-red-500'}`}>{v >= 0 ? '+' : ''}{v.toFixed(1)}%</p>
+                                                        </div>
+                                                    ))}
+                                                </div>
+                                                <p className="text-[9px] text-slate-400 font-bold mt-3">
+                                                    {count}店舗 / 単位: {displayUnit} (売上 = 客数 × 客単価、対数平均で分解)
+                                                </p>
+                                            </>
+                                        ) : (
+                                            <p className="text-xs font-bold text-slate-400">客数と売上が揃った期間が足りません</p>
+                                        )}
+                                    </ChartContainer>
+                                ))}
+                            </div>
+                        )}
                     </div>
                 )}
             </div>
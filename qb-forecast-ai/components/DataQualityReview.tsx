@@ -0,0 +1,85 @@
+import React, { useState } from 'react';
+import { DataQualityReport, DataQualityKind, GapPolicy } from '../types';
+import { DATA_QUALITY_LABELS } from '../services/dataQuality';
+
+interface DataQualityReviewProps {
+    fileName: string;
+    report: DataQualityReport;
+    initialPolicy: GapPolicy;
+    onStart: (policy: GapPolicy) => void;
+    onCancel: () => void;
+}
+
+const LIST_LIMIT = 50;
+
+// Rows that never reach the engine are errors; the rest is analysed as described in the detail
+const ERROR_KINDS: DataQualityKind[] = ['bad_date', 'bad_value', 'no_store'];
+
+const DataQualityReview: React.FC<DataQualityReviewProps> = ({ fileName, report, initialPolicy, onStart, onCancel }) => {
+    const [policy, setPolicy] = useState<GapPolicy>(initialPolicy);
+    const kinds = (Object.keys(DATA_QUALITY_LABELS) as DataQualityKind[]).filter(k => report.counts[k] > 0);
+    const [open, setOpen] = useState<DataQualityKind | undefined>(kinds[0]);
+    const shown = report.issues.filter(i => i.kind === open);
+
+    return (
+        <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-fadeIn">
+            <div className="bg-white rounded-[2rem] p-8 w-full max-w-3xl shadow-2xl max-h-[90vh] flex flex-col">
+                <h3 className="text-lg font-black text-slate-800 font-display">データ品質レポート (分析前チェック)</h3>
+                <p className="text-xs text-gray-400 font-bold mt-1 mb-4">
+                    {fileName} — {report.rows.toLocaleString()}行 / {report.stores.toLocaleString()}店舗を読み込みました。内容を確認してから分析を開始してください。
+                </p>
+
+                <div className="grid grid-cols-3 md:grid-cols-5 gap-2 mb-4">
+                    {kinds.map(k => (
+                        <button
+                            key={k}
+                            onClick={() => setOpen(k)}
+                            className={`text-left rounded-xl p-3 border transition-all ${open === k ? 'border-[#005EB8] bg-blue-50/50' : 'border-slate-100 hover:border-slate-300'}`}
+                        >
+                            <div className={`text-lg font-black ${ERROR_KINDS.includes(k) ? 'text-red-500' : 'text-amber-500'}`}>{report.counts[k].toLocaleString()}</div>
+                            <div className="text-[10px] font-bold text-slate-500">{DATA_QUALITY_LABELS[k]}</div>
+                        </button>
+                    ))}
+                </div>
+
+                <div className="flex-1 overflow-y-auto border border-slate-100 rounded-xl">
+                    <table className="w-full text-xs">
+                        <tbody className="divide-y divide-slate-50">
+                            {shown.slice(0, LIST_LIMIT).map((issue, i) => (
+                                <tr key={i}>
+                                    <td className="p-2 text-slate-400 font-mono whitespace-nowrap">{issue.row ? `${issue.row}行目` : issue.month || ''}</td>
+                                    <td className="p-2 font-bold text-slate-700 whitespace-nowrap">{issue.store || ''}</td>
+                                    <td className="p-2 text-slate-500">{issue.detail}</td>
+                                </tr>
+                            ))}
+                        </tbody>
+                    </table>
+                    {shown.length > LIST_LIMIT && <p className="p-2 text-[10px] font-bold text-slate-300">他 {shown.length - LIST_LIMIT}件</p>}
+                </div>
+
+                {report.counts.gap > 0 && (
+                    <div className="mt-4 bg-slate-50 rounded-xl p-4">
+                        <p className="text-xs font-black text-slate-600 mb-2">欠測月の扱い</p>
+                        <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer mb-1">
+                            <input type="radio" checked={policy === 'missing'} onChange={() => setPolicy('missing')} />
+                            欠測として扱う (前後の月から補間し、学習からは除外)
+                        </label>
+                        <label className="flex items-center gap-2 text-xs font-bold text-slate-500 cursor-pointer">
+                            <input type="radio" checked={policy === 'zero'} onChange={() => setPolicy('zero')} />
+                            0として扱う (休業など実績が0だった月)
+                        </label>
+                    </div>
+                )}
+
+                <div className="mt-4 flex gap-2 justify-end">
+                    <button onClick={onCancel} className="px-4 py-2 rounded-xl text-xs font-black text-slate-400 hover:bg-slate-100 transition-colors">Cancel</button>
+                    <button onClick={() => onStart(policy)} className="px-6 py-2 bg-[#005EB8] text-white rounded-xl text-xs font-black uppercase hover:bg-[#004a94] transition-all">
+                        分析を開始
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default DataQualityReview;
@@ -1,7 +1,23 @@
 
 import React, { useState, useRef, useCallback } from 'react';
-import { analyzeStore, GlobalStats, calculateGlobalABC } from '../services/analysisEngine';
-import { StoreData, UserMode } from '../types';
+import { buildGlobalStats, calculateGlobalABC, GlobalStats } from '../services/analysisEngine';
+import { runAnalysisBatch, isAbortError, AnalysisTask } from '../services/workerPool';
+import { parseClosureRows, getStoreClosures } from '../services/businessCalendar';
+import { parseDriverRows, resolveDriverValues, listDriverVariables, DriverRecord, DriverValues } from '../services/drivers';
+import { buildVintage, saveVintage } from '../services/forecastArchive';
+import { parseStoreMasterRows, applyStoreMaster, matchStoreMaster } from '../services/storeMaster';
+import { resolveEngineConfig } from '../services/engineConfig';
+import { buildJointModel, unitPriceForMonth } from '../services/jointForecast';
+import { storeCapacity } from '../services/capacity';
+import { resolveMapping, headerSignature, validateMapping } from '../services/columnMapping';
+import { isWorkbookFile, readWorkbook, sheetToCsvFile, WorkbookSheet, WORKBOOK_ACCEPT } from '../services/workbook';
+import { detectFileEncoding, looksGarbled, EncodingGuess, ENCODING_OPTIONS } from '../services/encoding';
+import { buildDataQualityReport, mergeDataQualityReports, missingMonthsOf, interpolateGaps, RejectedRow } from '../services/dataQuality';
+import { loadStoreClosures, saveStoreClosures, loadStoreMaster, saveStoreMaster, loadMaskOverrides, loadMappingProfiles, saveMappingProfile, deleteMappingProfile } from '../utils/storage';
+import { StoreData, StoreMasterRecord, MaskOverride, UserMode, EngineConfig, StoreCapacity, ColumnMapping, SeriesField, DataQualityReport, GapPolicy } from '../types';
+import ColumnMappingWizard from './ColumnMappingWizard';
+import SheetPicker from './SheetPicker';
+import DataQualityReview from './DataQualityReview';
 import Papa from 'papaparse';
 
 // --- CONFIGURATION: CLOUD DATA LINKS (OBFUSCATED) ---
@@ -21,8 +37,9 @@ const BUDGET_ID_PARTS = [
 const CLOUD_PASSWORD = "QB9119";
 
 interface DataViewProps {
-    setAllStores: (stores: { [name: string]: StoreData }) => void;
+    setAllStores: (stores: { [name: string]: StoreData }, engine: EngineConfig) => void;
     setGlobalMaxDate: (date: Date) => void;
+    setGlobalStats: (stats: GlobalStats) => void;
     forecastMonths: number;
     setForecastMonths: (months: number) => void;
     dataType: 'sales' | 'customers';
@@ -41,31 +58,106 @@ interface RawDataPoint {
     value: number;
 }
 
-// Helper: Calculate Percentile
-const calculatePercentile = (data: number[], percentile: number) => {
-    if (data.length === 0) return 0;
-    const sorted = [...data].sort((a, b) => a - b);
-    const index = (percentile / 100) * (sorted.length - 1);
-    const lower = Math.floor(index);
-    const upper = Math.ceil(index);
-    const weight = index - lower;
-    if (upper >= sorted.length) return sorted[sorted.length - 1];
-    return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+// Rows of a monthly series file laid out as the column mapping says (services/columnMapping.ts);
+// rows that cannot be read are returned with their line number for the data quality report
+const parseSeriesRows = (rows: any[], mapping: ColumnMapping): { points: RawDataPoint[]; maxDate: Date; rejected: RejectedRow[] } => {
+    const points: RawDataPoint[] = [];
+    const rejected: RejectedRow[] = [];
+    const firstLine = mapping.hasHeader ? 2 : 1;
+    let maxDate = new Date(0);
+    const colOf = (f: SeriesField) => mapping.columns.indexOf(f);
+    const cols = { region: colOf('region'), prefecture: colOf('prefecture'), block: colOf('block'), name: colOf('storeName'), date: colOf('date'), value: colOf('value') };
+
+    rows.slice(mapping.hasHeader ? 1 : 0).forEach((row: any, r: number) => {
+        const cell = (i: number) => (i >= 0 && row[i] !== undefined ? String(row[i]).trim() : "");
+        const region = cell(cols.region) || "Unknown", prefecture = cell(cols.prefecture) || "Unknown", block = cell(cols.block) || "Unknown";
+        const name = cell(cols.name), dateStr = cell(cols.date), valStr = cell(cols.value);
+
+        if (!name && !dateStr && !valStr) return;
+        if (!name) { rejected.push({ row: firstLine + r, kind: 'no_store', detail: `店舗名が空欄 (${dateStr || '日付なし'})` }); return; }
+        if (!dateStr) { rejected.push({ row: firstLine + r, kind: 'bad_date', detail: `${name}: 日付が空欄` }); return; }
+        let cleanDateStr = dateStr.replace(/[./]/g, '-');
+        if (cleanDateStr.length === 6 && !cleanDateStr.includes('-')) cleanDateStr = `${cleanDateStr.substring(0, 4)}-${cleanDateStr.substring(4, 6)}`;
+        const dateObj = new Date(cleanDateStr); dateObj.setDate(1);
+
+        const cleanValStr = valStr.replace(/[０-９]/g, (s: string) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0)).replace(/[¥,"]/g, '');
+        const value = parseFloat(cleanValStr);
+
+        if (isNaN(dateObj.getTime())) {
+            rejected.push({ row: firstLine + r, kind: 'bad_date', detail: `${name}: 「${dateStr}」` });
+        } else if (isNaN(value)) {
+            rejected.push({ row: firstLine + r, kind: 'bad_value', detail: `${name} ${cleanDateStr}: 「${valStr}」` });
+        } else {
+            points.push({ region, prefecture, block, storeName: name, date: dateObj, dateStr: cleanDateStr, value });
+            if (dateObj > maxDate) maxDate = dateObj;
+        }
+    });
+    return { points, maxDate, rejected };
+};
+
+// Store name of a budget row: the named column, else the first column
+const budgetStoreName = (row: Record<string, any>): string => {
+    let sName = row["店舗名"] || row["Store Name"] || row["Store"] || row["Name"] || "";
+    if (!sName) {
+        // Fallback to searching first column if header mismatch
+        const vals = Object.values(row);
+        if (vals.length > 0) sName = String(vals[0]);
+    }
+    return String(sName).trim();
 };
 
-const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, forecastMonths, setForecastMonths, dataType, setDataType, onComplete, setUserMode }) => {
+const readBudgetStoreNames = (budget: File, budgetEncoding: string) => new Promise<string[]>((resolve) => {
+    Papa.parse(budget, {
+        header: true, skipEmptyLines: true, transformHeader: (h) => h.trim(), encoding: budgetEncoding,
+        complete: (results) => resolve((results.data as Record<string, any>[]).map(budgetStoreName)),
+        error: () => resolve([])
+    });
+});
+
+const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, setGlobalStats, forecastMonths, setForecastMonths, dataType, setDataType, onComplete, setUserMode }) => {
     const [dragActive, setDragActive] = useState(false);
     const [file, setFile] = useState<File | null>(null);
     const [fileName, setFileName] = useState<string>("");
 
+    // Column layout of the main file (import wizard); previewRows are its first rows
+    const [columnMapping, setColumnMapping] = useState<ColumnMapping | null>(null);
+    const [mappingProfileName, setMappingProfileName] = useState<string | undefined>(undefined);
+    const [previewRows, setPreviewRows] = useState<string[][]>([]);
+    const [showMappingWizard, setShowMappingWizard] = useState(false);
+
+    // Excel workbook waiting for a sheet choice; the chosen sheet goes to onPick as a CSV file
+    const [sheetChoice, setSheetChoice] = useState<{ fileName: string; sheets: WorkbookSheet[]; onPick: (f: File) => void } | null>(null);
+
     // Budget File State
     const [budgetFile, setBudgetFile] = useState<File | null>(null);
     const [budgetFileName, setBudgetFileName] = useState<string>("");
+    const [budgetEncoding, setBudgetEncoding] = useState<string>('UTF-8');
+
+    // Exogenous driver file (price level, promotions, competitor openings)
+    const [driverRecords, setDriverRecords] = useState<DriverRecord[]>([]);
+    const [driverFileName, setDriverFileName] = useState<string>("");
+
+    // Customer counts loaded next to sales (joint customers x unit price model)
+    const [customerPoints, setCustomerPoints] = useState<RawDataPoint[]>([]);
+    const [customerFileName, setCustomerFileName] = useState<string>("");
+    // Quality report of the customer file, added to the main one so its gaps follow the same policy choice
+    const [customerQuality, setCustomerQuality] = useState<DataQualityReport | null>(null);
+
+    // Store closure days (business calendar), kept across sessions
+    const [closureCalendar, setClosureCalendar] = useState<Record<string, string[]>>(() => loadStoreClosures());
+
+    // Store master (location type, chairs, opening month, ...), kept across sessions
+    const [storeMaster, setStoreMaster] = useState<StoreMasterRecord[]>(() => loadStoreMaster());
 
     const [stats, setStats] = useState<{ rows: number; stores: number } | null>(null);
     const [encoding, setEncoding] = useState<string>('UTF-8');
+    const [encodingSource, setEncodingSource] = useState<EncodingGuess['source'] | 'manual' | null>(null);
     const [isProcessing, setIsProcessing] = useState(false);
+    // Data quality report shown before every analysis (local or cloud); resolve gets the chosen gap policy, or null on cancel
+    const [gapPolicy, setGapPolicy] = useState<GapPolicy>('missing');
+    const [qualityReview, setQualityReview] = useState<{ report: DataQualityReport; resolve: (policy: GapPolicy | null) => void } | null>(null);
     const [progress, setProgress] = useState(0);
+    const abortRef = useRef<AbortController | null>(null);
 
     // Cloud Load State
     const [showCloudModal, setShowCloudModal] = useState(false);
@@ -77,22 +169,189 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
 
     const fileInputRef = useRef<HTMLInputElement>(null);
     const budgetInputRef = useRef<HTMLInputElement>(null);
+    const closureInputRef = useRef<HTMLInputElement>(null);
+    const masterInputRef = useRef<HTMLInputElement>(null);
+    const driverInputRef = useRef<HTMLInputElement>(null);
+    const customerInputRef = useRef<HTMLInputElement>(null);
+
+    // Excel files are turned into CSV (asking for the sheet when there are several); CSV files go straight to the handler
+    const openUpload = (selectedFile: File, handler: (f: File) => void) => {
+        if (!isWorkbookFile(selectedFile)) {
+            handler(selectedFile);
+            return;
+        }
+        readWorkbook(selectedFile)
+            .then(sheets => {
+                if (sheets.length === 0) alert("ブックにデータのあるシートがありません");
+                else if (sheets.length === 1) handler(sheetToCsvFile(selectedFile.name, sheets[0]));
+                else setSheetChoice({ fileName: selectedFile.name, sheets, onPick: handler });
+            })
+            .catch(err => {
+                console.error(err);
+                alert("Excelファイルを読み込めませんでした: " + err);
+            });
+    };
+
+    // Reads the first rows, applies the saved profile of the same header row, or opens the wizard with a guess
+    const previewFile = (selectedFile: File, fileEncoding: string) => {
+        setColumnMapping(null);
+        Papa.parse(selectedFile, {
+            encoding: fileEncoding,
+            skipEmptyLines: true,
+            preview: 200,
+            complete: (results) => {
+                const rows = results.data as string[][];
+                const { mapping, profile } = resolveMapping(rows, loadMappingProfiles());
+                setPreviewRows(rows);
+                setColumnMapping(mapping);
+                setMappingProfileName(profile?.name);
+                if (!profile) setShowMappingWizard(true);
+            }
+        });
+    };
 
     const handleFileSelect = (selectedFile: File) => {
         setFile(selectedFile);
         setFileName(selectedFile.name);
+        detectFileEncoding(selectedFile).then(guess => {
+            setEncoding(guess.encoding);
+            setEncodingSource(guess.source);
+            previewFile(selectedFile, guess.encoding);
+        });
+    };
+
+    const changeEncoding = (next: string) => {
+        setEncoding(next);
+        setEncodingSource('manual');
+        if (file) previewFile(file, next);
+    };
+
+    // Garble check: the first store names as read with the current encoding
+    const previewStoreNames = (() => {
+        if (!columnMapping) return [];
+        const col = columnMapping.columns.indexOf('storeName');
+        if (col < 0) return [];
+        const names = previewRows.slice(columnMapping.hasHeader ? 1 : 0).map(r => String(r[col] ?? '').trim()).filter(Boolean);
+        return Array.from(new Set<string>(names)).slice(0, 8);
+    })();
+    const garbledNames = previewStoreNames.filter(looksGarbled);
+
+    const confirmMapping = (mapping: ColumnMapping, saveAs?: string) => {
+        setColumnMapping(mapping);
+        if (saveAs) {
+            saveMappingProfile({ name: saveAs, signature: headerSignature(previewRows[0] || []), mapping, savedAt: new Date().toISOString() });
+            setMappingProfileName(saveAs);
+        }
+        setShowMappingWizard(false);
+    };
+
+    const removeMappingProfile = () => {
+        deleteMappingProfile(headerSignature(previewRows[0] || []));
+        setMappingProfileName(undefined);
     };
 
     const handleBudgetFileSelect = (selectedFile: File) => {
         setBudgetFile(selectedFile);
-        setBudgetFileName(selectedFile.name);
+        detectFileEncoding(selectedFile).then(guess => {
+            setBudgetEncoding(guess.encoding);
+            setBudgetFileName(`${selectedFile.name} (${guess.encoding})`);
+        });
+    };
+
+    // Closure file: 店舗名, 開始日[, 終了日] per row ('*' / 全店 = every store); replaces the saved calendar
+    const handleClosureFileSelect = (selectedFile: File) => {
+        detectFileEncoding(selectedFile).then(({ encoding }) => Papa.parse(selectedFile, {
+            encoding,
+            skipEmptyLines: true,
+            complete: (results) => {
+                const parsed = parseClosureRows(results.data as string[][]);
+                if (Object.keys(parsed).length === 0) {
+                    alert("休業日が読み取れませんでした (店舗名, 開始日, 終了日)");
+                    return;
+                }
+                setClosureCalendar(parsed);
+                saveStoreClosures(parsed);
+            }
+        }));
     };
 
+    // Driver file: 月, スコープ (all / region:名前 / store:名前), 変数, 値 per row
+    const handleDriverFileSelect = (selectedFile: File) => {
+        detectFileEncoding(selectedFile).then(({ encoding }) => Papa.parse(selectedFile, {
+            encoding,
+            skipEmptyLines: true,
+            complete: (results) => {
+                const records = parseDriverRows(results.data as string[][]);
+                if (records.length === 0) {
+                    alert("ドライバーが読み取れませんでした (月, スコープ, 変数, 値)");
+                    return;
+                }
+                setDriverRecords(records);
+                setDriverFileName(`${selectedFile.name} (${listDriverVariables(records).join(', ')})`);
+            }
+        }));
+    };
+
+    // Customer count file in the same layout as the main data file (sales mode only)
+    const handleCustomerFileSelect = (selectedFile: File) => {
+        detectFileEncoding(selectedFile).then(({ encoding }) => Papa.parse(selectedFile, {
+            encoding,
+            skipEmptyLines: true,
+            complete: (results) => {
+                const rows = results.data as string[][];
+                const mapping = resolveMapping(rows, loadMappingProfiles()).mapping;
+                const { points, rejected } = parseSeriesRows(rows, mapping);
+                if (points.length === 0) {
+                    alert("客数データが読み取れませんでした (店舗名, 年月, 客数)");
+                    return;
+                }
+                setCustomerPoints(points);
+                setCustomerQuality(buildDataQualityReport(rows.length - (mapping.hasHeader ? 1 : 0), points, rejected));
+                setCustomerFileName(`${selectedFile.name} (${new Set(points.map(p => p.storeName)).size}店舗)`);
+            }
+        }));
+    };
+
+    const clearCustomers = () => {
+        setCustomerPoints([]);
+        setCustomerFileName("");
+        setCustomerQuality(null);
+    };
+
+    // Store master file: header row + one row per store (店舗名, 店舗コード, エリア, 立地, 席数, 開店日, 閉店日, 緯度, 経度, ...); replaces the saved master
+    const handleMasterFileSelect = (selectedFile: File) => {
+        detectFileEncoding(selectedFile).then(({ encoding }) => Papa.parse(selectedFile, {
+            encoding,
+            skipEmptyLines: true,
+            complete: (results) => {
+                const records = parseStoreMasterRows(results.data as string[][]);
+                if (records.length === 0) {
+                    alert("店舗マスタが読み取れませんでした (見出し行に「店舗名」列が必要です)");
+                    return;
+                }
+                setStoreMaster(records);
+                saveStoreMaster(records);
+            }
+        }));
+    };
+
+    const clearMaster = () => {
+        setStoreMaster([]);
+        saveStoreMaster([]);
+    };
+
+    const clearClosures = () => {
+        setClosureCalendar({});
+        saveStoreClosures({});
+    };
+
+    const closureDayCount = (Object.values(closureCalendar) as string[][]).reduce((a, days) => a + days.length, 0);
+
     const onDrop = (e: React.DragEvent) => {
         e.preventDefault();
         setDragActive(false);
         if (e.dataTransfer.files && e.dataTransfer.files[0]) {
-            handleFileSelect(e.dataTransfer.files[0]);
+            openUpload(e.dataTransfer.files[0], handleFileSelect);
         }
     };
 
@@ -142,6 +401,7 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
             setFile(dummyFile);
             setFileName(dummyFile.name);
             setEncoding('UTF-8');
+            setEncodingSource(null);
 
             let dummyBudgetFile: File | undefined = undefined;
             try {
@@ -159,7 +419,7 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
 
             setShowCloudModal(false);
             // ★ CRITICAL FIX: Pass the selected type explicitly to ensure correct data processing
-            await processDataFile(dummyFile, 'executive', dummyBudgetFile, type);
+            await processDataFile(dummyFile, 'executive', dummyBudgetFile, type, undefined, 'UTF-8');
 
         } catch (e) {
             console.error(e);
@@ -172,41 +432,94 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
     const processData = async () => {
         if (!file) return;
         // Local data -> Manager Mode (default)
-        await processDataFile(file, 'manager', undefined, dataType);
+        if (columnMapping && validateMapping(columnMapping).length > 0) {
+            setShowMappingWizard(true);
+            return;
+        }
+        await processDataFile(file, 'manager', undefined, dataType, columnMapping || undefined);
     };
 
-    const runAnalysisInChunks = async (items: any[], globalMaxDate: Date, globalStats?: any, onProgress?: (p: number) => void): Promise<StoreData[]> => {
-        const results: StoreData[] = [];
-        const chunkSize = 20;
-        const total = items.length;
+    const cancelAnalysis = () => abortRef.current?.abort();
 
-        for (let i = 0; i < total; i += chunkSize) {
-            const chunk = items.slice(i, i + chunkSize);
-            const chunkResults = chunk.map(item => {
-                try {
-                    return analyzeStore(
-                        item.name,
-                        item.raw,
-                        item.dates,
-                        globalMaxDate,
-                        globalStats,
-                        item.block,
-                        item.region,
-                        item.prefecture
-                    );
-                } catch (e) {
-                    return { name: item.name, error: true, msg: String(e) } as StoreData;
+    const reviewDataQuality = (report: DataQualityReport) =>
+        new Promise<GapPolicy | null>(resolve => setQualityReview({ report, resolve }));
+
+    const closeQualityReview = (policy: GapPolicy | null) => {
+        if (policy) setGapPolicy(policy);
+        qualityReview?.resolve(policy);
+        setQualityReview(null);
+    };
+
+    // Fits every store of one series: stores with 36+ months first, then the younger ones with their priors.
+    // Months without a row are read as 0 or, with the 'missing' policy, interpolated and kept out of the fit.
+    const analyzeSeries = async (
+        points: RawDataPoint[], metric: 'sales' | 'customers', globalMaxDate: Date, engine: EngineConfig, signal: AbortSignal,
+        onProgress: (done: number, total: number) => void, policy: GapPolicy = 'missing'
+    ): Promise<{ stores: { [name: string]: StoreData }; globalStats: GlobalStats }> => {
+        const storeMap = new Map<string, RawDataPoint[]>();
+        points.forEach(p => { if (!storeMap.has(p.storeName)) storeMap.set(p.storeName, []); storeMap.get(p.storeName)?.push(p); });
+        const masterOf = matchStoreMaster(storeMaster, Array.from(storeMap.keys())).byStore;
+
+        const stores: { [name: string]: StoreData } = {};
+        const anchorNames: string[] = [], growthNames: string[] = [], startupNames: string[] = [];
+        const maskOverrides = loadMaskOverrides();
+        const tempStoreData: Record<string, { raw: number[], dates: string[], block: string, region: string, prefecture: string, closures?: string[], drivers?: DriverValues, maskOverrides?: MaskOverride[], capacity?: StoreCapacity, missingMonths?: string[] }> = {};
+
+        storeMap.forEach((points, name) => {
+            points.sort((a, b) => a.date.getTime() - b.date.getTime());
+            const observed: (number | null)[] = [], filledDates: string[] = [];
+            if (points.length > 0) {
+                let currentDate = new Date(points[0].date);
+                const lookup = new Map<string, number>();
+                points.forEach(p => lookup.set(`${p.date.getFullYear()}-${p.date.getMonth()}`, p.value));
+                const lastDate = points[points.length - 1].date;
+                while (currentDate <= lastDate) {
+                    observed.push(lookup.get(`${currentDate.getFullYear()}-${currentDate.getMonth()}`) ?? null);
+                    filledDates.push(`${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`);
+                    currentDate.setMonth(currentDate.getMonth() + 1);
                 }
+            }
+            const missingMonths = policy === 'missing' ? missingMonthsOf(points.map(p => p.date)) : [];
+            const filledRaw = policy === 'missing' ? interpolateGaps(observed) : observed.map(v => v ?? 0);
+            // The store master's hierarchy is authoritative over what the actuals rows repeat
+            const master = masterOf.get(name);
+            const region = master?.region || points[0]?.region;
+            tempStoreData[name] = { raw: filledRaw, dates: filledDates, block: master?.block || points[0]?.block, region, prefecture: master?.prefecture || points[0]?.prefecture, closures: getStoreClosures(closureCalendar, name), drivers: resolveDriverValues(driverRecords, name, region), maskOverrides: maskOverrides[name], capacity: storeCapacity(master, metric, engine), missingMonths: missingMonths.length > 0 ? missingMonths : undefined };
+            const validLen = observed.filter(v => v !== null && v > 0).length;
+            if (validLen >= 36) anchorNames.push(name); else if (validLen >= 13) growthNames.push(name); else startupNames.push(name);
+        });
+
+        const anchorItems: AnalysisTask[] = anchorNames.map(n => ({ name: n, ...tempStoreData[n] }));
+        const totalItems = anchorNames.length + growthNames.length + startupNames.length;
+        const anchorResults = await runAnalysisBatch(anchorItems, {
+            globalMaxDate, engine, signal,
+            onProgress: (c) => onProgress(c, totalItems)
+        });
+
+        const matureStores: StoreData[] = [];
+        anchorResults.forEach(res => {
+            if (res.error) return;
+            stores[res.name] = applyStoreMaster(res, masterOf.get(res.name), globalMaxDate);
+            if (stores[res.name].isActive && res.fit.mode !== 'startup') matureStores.push(stores[res.name]);
+        });
+
+        // Company-wide and peer-group priors for the younger stores
+        const globalStats = buildGlobalStats(matureStores, engine);
+
+        const remainingItems: AnalysisTask[] = [...growthNames.map(n => ({ name: n, ...tempStoreData[n] })), ...startupNames.map(n => ({ name: n, ...tempStoreData[n] }))];
+        if (remainingItems.length > 0) {
+            const remainingResults = await runAnalysisBatch(remainingItems, {
+                globalMaxDate, globalStats, engine, signal,
+                onProgress: (c) => onProgress(anchorNames.length + c, totalItems)
             });
-            results.push(...chunkResults);
-            if (onProgress) onProgress(i + chunkSize);
-            await new Promise(resolve => setTimeout(resolve, 0));
+            remainingResults.forEach(res => { if (!res.error) stores[res.name] = applyStoreMaster(res, masterOf.get(res.name), globalMaxDate); });
         }
-        return results;
+        return { stores, globalStats };
     };
 
-    const processDataFile = async (targetFile: File, targetUserMode: UserMode, overrideBudgetFile?: File, explicitType?: 'sales' | 'customers') => {
+    const processDataFile = async (targetFile: File, targetUserMode: UserMode, overrideBudgetFile?: File, explicitType?: 'sales' | 'customers', mapping?: ColumnMapping, fileEncoding: string = encoding) => {
         const currentType = explicitType || dataType;
+        const engine = resolveEngineConfig(currentType);
 
         // ★ DEBUG: Log processing details
         console.log('=== PROCESS DATA FILE DEBUG ===');
@@ -219,40 +532,36 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
         setProgress(5);
 
         Papa.parse(targetFile, {
-            encoding: encoding,
+            encoding: fileEncoding,
             skipEmptyLines: true,
             complete: async (results) => {
                 setProgress(20);
                 try {
-                    const rawData: RawDataPoint[] = [];
-                    let globalMaxDate = new Date(0);
-
-                    results.data.forEach((row: any) => {
-                        if (row.length < 3) return;
-                        let region = "Unknown", prefecture = "Unknown", block = "Unknown", name = "", dateStr = "", valStr = "";
-
-                        if (row.length >= 6) {
-                            region = String(row[0]).trim(); prefecture = String(row[1]).trim(); block = String(row[2]).trim();
-                            name = String(row[3]).trim(); dateStr = String(row[4]).trim(); valStr = String(row[5]).trim();
-                        } else if (row.length >= 4) {
-                            block = String(row[0]).trim(); name = String(row[1]).trim(); dateStr = String(row[2]).trim(); valStr = String(row[3]).trim();
-                        } else {
-                            name = String(row[0]).trim(); dateStr = String(row[1]).trim(); valStr = String(row[2]).trim();
-                        }
-
-                        if (!name || !dateStr) return;
-                        let cleanDateStr = dateStr.replace(/[./]/g, '-');
-                        if (cleanDateStr.length === 6 && !cleanDateStr.includes('-')) cleanDateStr = `${cleanDateStr.substring(0, 4)}-${cleanDateStr.substring(4, 6)}`;
-                        const dateObj = new Date(cleanDateStr); dateObj.setDate(1);
-
-                        const cleanValStr = valStr.replace(/[０-９]/g, (s: string) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0)).replace(/[¥,"]/g, '');
-                        const value = parseFloat(cleanValStr);
-
-                        if (name && !isNaN(dateObj.getTime()) && !isNaN(value)) {
-                            rawData.push({ region, prefecture, block, storeName: name, date: dateObj, dateStr: cleanDateStr, value });
-                            if (dateObj > globalMaxDate) globalMaxDate = dateObj;
+                    const rows = results.data as string[][];
+                    const seriesMapping = mapping || resolveMapping(rows, loadMappingProfiles()).mapping;
+                    const { points: rawData, maxDate: globalMaxDate, rejected } = parseSeriesRows(rows, seriesMapping);
+                    const targetBudgetFile = overrideBudgetFile || budgetFile;
+                    const targetBudgetEncoding = overrideBudgetFile ? 'UTF-8' : budgetEncoding;
+
+                    // With a customer file, sales get 30-70% of the bar and customers 70-90%
+                    const joint = currentType === 'sales' && customerPoints.length > 0;
+
+                    // Every load (local or cloud) gets the data quality report, and the gap policy choice, before anything
+                    // is fitted; the customer file's issues are listed with it since the same policy applies to its gaps
+                    let policy = gapPolicy;
+                    const budgetNames = targetBudgetFile ? await readBudgetStoreNames(targetBudgetFile, targetBudgetEncoding) : [];
+                    const unmatchedMaster = matchStoreMaster(storeMaster, Array.from(new Set(rawData.map(p => p.storeName)))).unmatched;
+                    const mainReport = buildDataQualityReport(rows.length - (seriesMapping.hasHeader ? 1 : 0), rawData, rejected, budgetNames, unmatchedMaster);
+                    const report = joint && customerQuality ? mergeDataQualityReports(mainReport, customerQuality, '客数') : mainReport;
+                    if (report.issues.length > 0) {
+                        const choice = await reviewDataQuality(report);
+                        if (!choice) {
+                            setIsProcessing(false);
+                            setProgress(0);
+                            return;
                         }
-                    });
+                        policy = choice;
+                    }
 
                     // ★ DEBUG: Log sample data
                     console.log('Total Data Points:', rawData.length);
@@ -267,69 +576,31 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                     setGlobalMaxDate(globalMaxDate);
                     setProgress(30);
 
-                    const storeMap = new Map<string, RawDataPoint[]>();
-                    rawData.forEach(p => { if (!storeMap.has(p.storeName)) storeMap.set(p.storeName, []); storeMap.get(p.storeName)?.push(p); });
-
-                    const stores: { [name: string]: StoreData } = {};
-                    const anchorNames: string[] = [], growthNames: string[] = [], startupNames: string[] = [];
-                    const tempStoreData: Record<string, { raw: number[], dates: string[], block: string, region: string, prefecture: string }> = {};
-
-                    storeMap.forEach((points, name) => {
-                        points.sort((a, b) => a.date.getTime() - b.date.getTime());
-                        const filledRaw: number[] = [], filledDates: string[] = [];
-                        if (points.length > 0) {
-                            let currentDate = new Date(points[0].date);
-                            const lookup = new Map<string, number>();
-                            points.forEach(p => lookup.set(`${p.date.getFullYear()}-${p.date.getMonth()}`, p.value));
-                            const lastDate = points[points.length - 1].date;
-                            while (currentDate <= lastDate) {
-                                filledRaw.push(lookup.get(`${currentDate.getFullYear()}-${currentDate.getMonth()}`) || 0);
-                                filledDates.push(`${currentDate.getFullYear()}-${String(currentDate.getMonth() + 1).padStart(2, '0')}`);
-                                currentDate.setMonth(currentDate.getMonth() + 1);
-                            }
-                        }
-                        tempStoreData[name] = { raw: filledRaw, dates: filledDates, block: points[0]?.block, region: points[0]?.region, prefecture: points[0]?.prefecture };
-                        const validLen = filledRaw.filter(v => v > 0).length;
-                        if (validLen >= 36) anchorNames.push(name); else if (validLen >= 13) growthNames.push(name); else startupNames.push(name);
-                    });
-
-                    const anchorItems = anchorNames.map(n => ({ name: n, ...tempStoreData[n] }));
-                    const totalItems = anchorNames.length + growthNames.length + startupNames.length;
-                    const anchorResults = await runAnalysisInChunks(anchorItems, globalMaxDate, undefined, (c) => setProgress(30 + Math.round((c / totalItems) * 60)));
-
-                    const matureStores: StoreData[] = [];
-                    anchorResults.forEach(res => { if (!res.error) { stores[res.name] = res; if (res.isActive && res.fit.mode !== 'startup') matureStores.push(res); } });
-
-                    // Global Stats calc...
-                    let k65 = 0.1, standardGrowthL = 3000;
-                    const globalSeasonality: number[][] = Array.from({ length: 12 }, () => []);
-                    if (matureStores.length > 0) {
-                        const ks = matureStores.map(s => s.params.k); k65 = calculatePercentile(ks, 65);
-                        const Ls = matureStores.map(s => s.params.L); standardGrowthL = calculatePercentile(Ls, 50);
-                        matureStores.forEach(s => s.seasonal.forEach((val, monthIdx) => globalSeasonality[monthIdx].push(val)));
-                    }
-                    let finalGlobalSeasonality = globalSeasonality.map(arr => {
-                        if (arr.length === 0) return 1.0; arr.sort((a, b) => a - b); return arr[Math.floor(arr.length * 0.5)];
-                    });
-                    const seaSum = finalGlobalSeasonality.reduce((a, b) => a + b, 0);
-                    if (seaSum > 0) finalGlobalSeasonality = finalGlobalSeasonality.map(v => (v / seaSum) * 12);
-
-                    const globalStats: GlobalStats = { medianK: k65 > 0 ? k65 : 0.1, standardGrowthL: standardGrowthL > 0 ? standardGrowthL : 3000, medianSeasonality: finalGlobalSeasonality };
-
-                    const remainingItems = [...growthNames.map(n => ({ name: n, ...tempStoreData[n] })), ...startupNames.map(n => ({ name: n, ...tempStoreData[n] }))];
-                    if (remainingItems.length > 0) {
-                        const remainingResults = await runAnalysisInChunks(remainingItems, globalMaxDate, globalStats, (c) => setProgress(30 + Math.round((anchorNames.length + c) / totalItems * 60)));
-                        remainingResults.forEach(res => { if (!res.error) stores[res.name] = res; });
+                    const controller = new AbortController();
+                    abortRef.current = controller;
+                    const { stores, globalStats } = await analyzeSeries(rawData, currentType, globalMaxDate, engine, controller.signal,
+                        (done, total) => setProgress(30 + Math.round((done / total) * (joint ? 40 : 60))), policy);
+                    setGlobalStats(globalStats);
+
+                    // Joint customers x unit price model for the stores present in both files
+                    if (joint) {
+                        const customerMaxDate = customerPoints.reduce((m, p) => (p.date > m ? p.date : m), new Date(0));
+                        const customerStores = (await analyzeSeries(customerPoints.filter(p => stores[p.storeName]), 'customers', customerMaxDate, resolveEngineConfig('customers'), controller.signal,
+                            (done, total) => setProgress(70 + Math.round((done / total) * 20)), policy)).stores;
+                        Object.values(customerStores).forEach(c => {
+                            const model = buildJointModel(stores[c.name], c);
+                            if (model) stores[c.name] = { ...stores[c.name], joint: model };
+                        });
                     }
 
                     setProgress(90);
 
                     // Budget Merge Logic (Enhanced for Data Type Matching)
-                    const targetBudgetFile = overrideBudgetFile || budgetFile;
                     if (targetBudgetFile) {
                         await new Promise<void>((resolve) => {
                             Papa.parse(targetBudgetFile, {
                                 header: true, skipEmptyLines: true, transformHeader: (h) => h.trim(),
+                                encoding: targetBudgetEncoding,
                                 complete: (budgetResults) => {
                                     try {
                                         const bRows = budgetResults.data as any[];
@@ -352,23 +623,19 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                                             console.log('Type Column Found:', typeCol);
 
                                             bRows.forEach(row => {
-                                                let sName = row["店舗名"] || row["Store Name"] || row["Store"] || row["Name"] || "";
-                                                if (!sName) {
-                                                    // Fallback to searching first column if header mismatch
-                                                    const vals = Object.values(row);
-                                                    if (vals.length > 0) sName = String(vals[0]);
-                                                }
-                                                sName = sName.trim();
+                                                const sName = budgetStoreName(row);
 
                                                 let multiplier = 1.0;
+                                                let customerBased = false; // Converted with the store's own unit price when it has a joint model
 
                                                 // ★ CRITICAL FIX: Cloud Budget is ALWAYS customer-based
                                                 if (isCloudBudget) {
                                                     // Cloud Budget is customer count based
                                                     if (currentType === 'sales') {
                                                         // When in Sales mode, convert Customer count to Sales (k JPY)
-                                                        multiplier = 1.389;
-                                                        console.log(`Budget Multiplier for ${sName}: 1.389 (Sales mode, converting customer to sales)`);
+                                                        multiplier = engine.customerToSales;
+                                                        customerBased = true;
+                                                        console.log(`Budget Multiplier for ${sName}: ${engine.customerToSales} (Sales mode, converting customer to sales)`);
                                                     } else {
                                                         // When in Customer mode, keep as is (already customer count)
                                                         multiplier = 1.0;
@@ -387,7 +654,8 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                                                     if (currentType === 'sales') {
                                                         if (isCustomerRow) {
                                                             // Convert Customer count to Sales (k JPY)
-                                                            multiplier = 1.389;
+                                                            multiplier = engine.customerToSales;
+                                                            customerBased = true;
                                                         } else if (!isSalesRow && rowType) {
                                                             // If explicit type exists but matches neither sales nor customers (and not empty), skip.
                                                             return;
@@ -416,7 +684,8 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                                                                 const y = match[1];
                                                                 const m = match[2].padStart(2, '0');
                                                                 const dKey = `${y}-${m}`;
-                                                                stores[sName].budget![dKey] = val * multiplier;
+                                                                const rate = customerBased ? unitPriceForMonth(stores[sName], dKey) ?? multiplier : multiplier;
+                                                                stores[sName].budget![dKey] = val * rate;
                                                             }
                                                         }
                                                     });
@@ -433,15 +702,23 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                     }
 
                     if (targetUserMode === 'executive') setUserMode('executive');
-                    setAllStores(stores);
+                    setAllStores(stores, engine);
+                    // Keep this run's forecasts as a vintage for later forecast-vs-actual tracking
+                    saveVintage(buildVintage(stores, globalMaxDate, currentType, engine)).catch(e => console.warn('Forecast archive failed:', e));
                     setProgress(100);
                     setIsProcessing(false);
                     onComplete();
 
                 } catch (e) {
-                    console.error("Analysis Error:", e);
-                    alert("Analysis Failed: " + e);
+                    if (isAbortError(e)) {
+                        setProgress(0);
+                    } else {
+                        console.error("Analysis Error:", e);
+                        alert("Analysis Failed: " + e);
+                    }
                     setIsProcessing(false);
+                } finally {
+                    abortRef.current = null;
                 }
             }
         });
@@ -486,30 +763,134 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                                 </div>
                             </div>
                             <p className="text-xs font-black text-[#005EB8] uppercase tracking-widest animate-pulse">Processing... {progress}%</p>
+                            {progress >= 30 && progress < 90 && (
+                                <button onClick={cancelAnalysis} className="mt-4 px-6 py-2 rounded-xl text-[10px] font-black uppercase tracking-widest text-slate-400 bg-slate-100 hover:bg-slate-200 hover:text-slate-600 transition-colors">
+                                    中止 (Cancel)
+                                </button>
+                            )}
                         </div>
                     ) : (
                         <div className="space-y-4">
                             <label className="block w-full cursor-pointer group">
                                 <div className="border-2 border-dashed border-slate-200 rounded-2xl p-8 transition-all group-hover:border-[#005EB8] group-hover:bg-blue-50/50">
                                     <p className="text-xs font-bold text-slate-400 group-hover:text-[#005EB8] transition-colors mb-2">
-                                        {fileName ? fileName : "Click to upload CSV"}
+                                        {fileName ? fileName : "Click to upload CSV / Excel"}
                                     </p>
                                     <span className="text-[10px] text-slate-300 font-bold uppercase tracking-widest">or drag & drop</span>
                                 </div>
-                                <input type="file" ref={fileInputRef} onChange={(e) => { if (e.target.files?.[0]) handleFileSelect(e.target.files[0]); }} className="hidden" accept=".csv" />
+                                <input type="file" ref={fileInputRef} onChange={(e) => { if (e.target.files?.[0]) openUpload(e.target.files[0], handleFileSelect); e.target.value = ''; }} className="hidden" accept={`.csv,${WORKBOOK_ACCEPT}`} />
                             </label>
+                            {file && columnMapping && (
+                                <div className="flex items-center justify-between text-[10px] font-bold text-slate-400 -mt-2 px-1">
+                                    <span>
+                                        <i className="fas fa-columns mr-1"></i>
+                                        列の割り当て: {mappingProfileName ? `保存済み「${mappingProfileName}」` : columnMapping.hasHeader ? '見出しから判定' : '列数から判定'}
+                                    </span>
+                                    <button onClick={() => setShowMappingWizard(true)} className="text-[#005EB8] hover:underline">編集</button>
+                                </div>
+                            )}
+                            {file && encodingSource && (
+                                <div className={`rounded-xl border px-3 py-2 text-left ${garbledNames.length > 0 ? 'border-red-200 bg-red-50/50' : 'border-slate-100 bg-slate-50/50'}`}>
+                                    <div className="flex items-center justify-between text-[10px] font-bold text-slate-400">
+                                        <span>
+                                            <i className="fas fa-language mr-1"></i>
+                                            文字コード: {encodingSource === 'manual' ? '手動' : encodingSource === 'bom' ? '自動判定 (BOM)' : encodingSource === 'ascii' ? '自動判定 (英数字のみ)' : '自動判定'}
+                                        </span>
+                                        <select value={encoding} onChange={(e) => changeEncoding(e.target.value)} className="bg-white border border-slate-200 rounded-lg px-2 py-0.5 text-[10px] font-bold text-slate-600">
+                                            {ENCODING_OPTIONS.map(e => <option key={e} value={e}>{e}</option>)}
+                                        </select>
+                                    </div>
+                                    {previewStoreNames.length > 0 && (
+                                        <div className="flex flex-wrap gap-1 mt-2">
+                                            {previewStoreNames.map(n => (
+                                                <span key={n} className={`px-2 py-0.5 rounded-md text-[10px] font-bold ${looksGarbled(n) ? 'bg-red-100 text-red-600' : 'bg-white text-slate-600 border border-slate-100'}`}>{n}</span>
+                                            ))}
+                                        </div>
+                                    )}
+                                    {garbledNames.length > 0 && (
+                                        <p className="mt-2 text-[10px] font-bold text-red-500"><i className="fas fa-exclamation-triangle mr-1"></i>店舗名が文字化けしている可能性があります。文字コードを切り替えて確認してください。</p>
+                                    )}
+                                </div>
+                            )}
+
+                            {/* Customer Counts next to Sales (Optional: 客数 x 客単価) */}
+                            {dataType === 'sales' && (
+                                <div className="flex items-center gap-2">
+                                    <label className="flex-1 cursor-pointer group">
+                                        <div className="border-2 border-dashed border-slate-100 rounded-xl p-4 transition-all group-hover:border-rose-300 group-hover:bg-rose-50/30 flex items-center justify-center gap-3">
+                                            <i className="fas fa-users text-slate-300 group-hover:text-rose-400"></i>
+                                            <span className="text-xs font-bold text-slate-400 group-hover:text-rose-500 transition-colors">
+                                                {customerFileName ? `客数: ${customerFileName}` : "Upload Customer CSV / Excel (Optional: 客数 x 客単価の同時予測)"}
+                                            </span>
+                                        </div>
+                                        <input type="file" ref={customerInputRef} onChange={(e) => { if (e.target.files?.[0]) openUpload(e.target.files[0], handleCustomerFileSelect); e.target.value = ''; }} className="hidden" accept={`.csv,${WORKBOOK_ACCEPT}`} />
+                                    </label>
+                                    {customerFileName && (
+                                        <button onClick={clearCustomers} className="px-3 py-4 rounded-xl text-slate-300 hover:text-red-400 hover:bg-red-50 transition-colors" title="客数データをクリア">
+                                            <i className="fas fa-times"></i>
+                                        </button>
+                                    )}
+                                </div>
+                            )}
 
                             {/* Budget File Upload (Optional) */}
                             <label className="block w-full cursor-pointer group">
                                 <div className="border-2 border-dashed border-slate-100 rounded-xl p-4 transition-all group-hover:border-purple-300 group-hover:bg-purple-50/30 flex items-center justify-center gap-3">
                                     <i className="fas fa-money-bill-wave text-slate-300 group-hover:text-purple-400"></i>
                                     <span className="text-xs font-bold text-slate-400 group-hover:text-purple-500 transition-colors">
-                                        {budgetFileName ? budgetFileName : "Upload Budget CSV (Optional)"}
+                                        {budgetFileName ? budgetFileName : "Upload Budget CSV / Excel (Optional)"}
                                     </span>
                                 </div>
-                                <input type="file" ref={budgetInputRef} onChange={(e) => { if (e.target.files?.[0]) handleBudgetFileSelect(e.target.files[0]); }} className="hidden" accept=".csv" />
+                                <input type="file" ref={budgetInputRef} onChange={(e) => { if (e.target.files?.[0]) openUpload(e.target.files[0], handleBudgetFileSelect); e.target.value = ''; }} className="hidden" accept={`.csv,${WORKBOOK_ACCEPT}`} />
                             </label>
 
+                            {/* Exogenous Drivers (Optional) */}
+                            <label className="block w-full cursor-pointer group">
+                                <div className="border-2 border-dashed border-slate-100 rounded-xl p-4 transition-all group-hover:border-amber-300 group-hover:bg-amber-50/30 flex items-center justify-center gap-3">
+                                    <i className="fas fa-tags text-slate-300 group-hover:text-amber-400"></i>
+                                    <span className="text-xs font-bold text-slate-400 group-hover:text-amber-500 transition-colors">
+                                        {driverFileName ? driverFileName : "Upload Driver CSV (Optional: 価格改定・販促・競合)"}
+                                    </span>
+                                </div>
+                                <input type="file" ref={driverInputRef} onChange={(e) => { if (e.target.files?.[0]) handleDriverFileSelect(e.target.files[0]); e.target.value = ''; }} className="hidden" accept=".csv" />
+                            </label>
+
+                            {/* Store Master (Optional, persisted) */}
+                            <div className="flex items-center gap-2">
+                                <label className="flex-1 cursor-pointer group">
+                                    <div className="border-2 border-dashed border-slate-100 rounded-xl p-4 transition-all group-hover:border-sky-300 group-hover:bg-sky-50/30 flex items-center justify-center gap-3">
+                                        <i className="fas fa-id-card text-slate-300 group-hover:text-sky-400"></i>
+                                        <span className="text-xs font-bold text-slate-400 group-hover:text-sky-500 transition-colors">
+                                            {storeMaster.length > 0 ? `店舗マスタ: ${storeMaster.length}店舗` : "Upload Store Master CSV (Optional: コード・立地・席数・開閉店日・緯度経度)"}
+                                        </span>
+                                    </div>
+                                    <input type="file" ref={masterInputRef} onChange={(e) => { if (e.target.files?.[0]) handleMasterFileSelect(e.target.files[0]); e.target.value = ''; }} className="hidden" accept=".csv" />
+                                </label>
+                                {storeMaster.length > 0 && (
+                                    <button onClick={clearMaster} className="px-3 py-4 rounded-xl text-slate-300 hover:text-red-400 hover:bg-red-50 transition-colors" title="店舗マスタをクリア">
+                                        <i className="fas fa-times"></i>
+                                    </button>
+                                )}
+                            </div>
+
+                            {/* Store Closure Days (Optional, persisted) */}
+                            <div className="flex items-center gap-2">
+                                <label className="flex-1 cursor-pointer group">
+                                    <div className="border-2 border-dashed border-slate-100 rounded-xl p-4 transition-all group-hover:border-emerald-300 group-hover:bg-emerald-50/30 flex items-center justify-center gap-3">
+                                        <i className="fas fa-calendar-times text-slate-300 group-hover:text-emerald-400"></i>
+                                        <span className="text-xs font-bold text-slate-400 group-hover:text-emerald-500 transition-colors">
+                                            {closureDayCount > 0 ? `休業日カレンダー: ${Object.keys(closureCalendar).length}店舗 / ${closureDayCount}日` : "Upload Closure Days CSV (Optional)"}
+                                        </span>
+                                    </div>
+                                    <input type="file" ref={closureInputRef} onChange={(e) => { if (e.target.files?.[0]) handleClosureFileSelect(e.target.files[0]); e.target.value = ''; }} className="hidden" accept=".csv" />
+                                </label>
+                                {closureDayCount > 0 && (
+                                    <button onClick={clearClosures} className="px-3 py-4 rounded-xl text-slate-300 hover:text-red-400 hover:bg-red-50 transition-colors" title="休業日をクリア">
+                                        <i className="fas fa-times"></i>
+                                    </button>
+                                )}
+                            </div>
+
                             <div className="grid grid-cols-2 gap-4">
                                 <button onClick={processData} disabled={!file} className="w-full py-4 bg-slate-800 hover:bg-slate-900 text-white rounded-xl text-xs font-black uppercase tracking-widest shadow-lg hover:shadow-xl transition-all disabled:opacity-50 disabled:cursor-not-allowed">
                                     Local Load
@@ -523,11 +904,46 @@ const DataView: React.FC<DataViewProps> = ({ setAllStores, setGlobalMaxDate, for
                     )}
 
                     <div className="mt-8 text-[10px] text-slate-300 font-mono">
-                        Supports Shift-JIS / UTF-8 • Auto-detect format
+                        Shift-JIS / EUC-JP / UTF-8 (auto-detect) • Excel (.xlsx / .xls) • Auto-detect format
                     </div>
                 </div>
             </div>
 
+            {/* Excel Sheet Picker */}
+            {sheetChoice && (
+                <SheetPicker
+                    fileName={sheetChoice.fileName}
+                    sheets={sheetChoice.sheets}
+                    onPick={(sheet) => { sheetChoice.onPick(sheetToCsvFile(sheetChoice.fileName, sheet)); setSheetChoice(null); }}
+                    onCancel={() => setSheetChoice(null)}
+                />
+            )}
+
+            {/* Data Quality Report (before analysis) */}
+            {qualityReview && (
+                <DataQualityReview
+                    fileName={fileName}
+                    report={qualityReview.report}
+                    initialPolicy={gapPolicy}
+                    onStart={(policy) => closeQualityReview(policy)}
+                    onCancel={() => closeQualityReview(null)}
+                />
+            )}
+
+            {/* Column Mapping Wizard */}
+            {showMappingWizard && columnMapping && (
+                <ColumnMappingWizard
+                    key={`${fileName}-${encoding}-${mappingProfileName || ''}`}
+                    fileName={fileName}
+                    rows={previewRows}
+                    initial={columnMapping}
+                    profileName={mappingProfileName}
+                    onConfirm={confirmMapping}
+                    onDeleteProfile={removeMappingProfile}
+                    onCancel={() => setShowMappingWizard(false)}
+                />
+            )}
+
             {/* Cloud Auth Modal */}
             {showCloudModal && (
                 <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-fadeIn">
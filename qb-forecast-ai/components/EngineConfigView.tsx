@@ -0,0 +1,121 @@
+import React, { useState, useMemo } from 'react';
+import { EngineConfig } from '../types';
+import { ENGINE_PRESETS, ENGINE_CONFIG_FIELDS, changedEngineFields } from '../services/engineConfig';
+import { loadEngineConfigOverrides, saveEngineConfigOverrides } from '../utils/storage';
+import HelpTooltip from './HelpTooltip';
+
+interface EngineConfigViewProps {
+    dataType: 'sales' | 'customers';
+}
+
+type MetricType = 'sales' | 'customers';
+
+const TYPE_LABELS: Record<MetricType, string> = { sales: '売上 (千円)', customers: '客数 (人)' };
+
+const EngineConfigView: React.FC<EngineConfigViewProps> = ({ dataType }) => {
+    const [editType, setEditType] = useState<MetricType>(dataType);
+    const [drafts, setDrafts] = useState<Record<MetricType, EngineConfig>>(() => {
+        const saved = loadEngineConfigOverrides();
+        return {
+            sales: { ...ENGINE_PRESETS.sales, ...(saved.sales || {}) },
+            customers: { ...ENGINE_PRESETS.customers, ...(saved.customers || {}) }
+        };
+    });
+    const [savedAt, setSavedAt] = useState<string | null>(null);
+
+    const draft = drafts[editType];
+    const preset = ENGINE_PRESETS[editType];
+    const changed = useMemo(() => new Set(changedEngineFields(draft, editType)), [draft, editType]);
+    const groups = useMemo(() => Array.from(new Set(ENGINE_CONFIG_FIELDS.map(f => f.group))), []);
+
+    const setField = (key: keyof EngineConfig, value: string) => {
+        const v = parseFloat(value);
+        if (!isFinite(v) || v < 0) return;
+        setDrafts(prev => ({ ...prev, [editType]: { ...prev[editType], [key]: v } }));
+        setSavedAt(null);
+    };
+
+    // Only edited fields are stored, so later changes to the presets still reach untouched fields
+    const handleSave = () => {
+        const overrides = loadEngineConfigOverrides();
+        const edits = Object.fromEntries(Array.from(changed).map(key => [key, draft[key]])) as Partial<EngineConfig>;
+        if (Object.keys(edits).length > 0) overrides[editType] = edits; else delete overrides[editType];
+        saveEngineConfigOverrides(overrides);
+        setSavedAt(new Date().toLocaleTimeString());
+    };
+
+    const handleReset = () => {
+        if (!window.confirm(`${TYPE_LABELS[editType]} の設定を標準に戻しますか？`)) return;
+        setDrafts(prev => ({ ...prev, [editType]: { ...ENGINE_PRESETS[editType] } }));
+        const overrides = loadEngineConfigOverrides();
+        delete overrides[editType];
+        saveEngineConfigOverrides(overrides);
+        setSavedAt(new Date().toLocaleTimeString());
+    };
+
+    const invalid = draft.rareL > draft.absoluteMaxL || draft.rescueBand >= 1 || draft.maxK <= 0 || draft.serviceMinutes <= 0;
+
+    return (
+        <div className="absolute inset-0 overflow-y-auto p-4 md:p-8 animate-fadeIn bg-[#F8FAFC]">
+            <div className="max-w-[1200px] mx-auto space-y-6 pb-20">
+
+                {/* Header */}
+                <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+                    <div>
+                        <h2 className="text-2xl font-black text-[#0F2540] uppercase tracking-tight font-display flex items-center gap-3">
+                            エンジン設定 (Engine Config)
+                            <HelpTooltip title="エンジン設定" content="予測エンジンの物理的制約・正則化の重み・外れ値の救済条件を、売上と客数で別々に設定します。変更は次回のデータ読込（分析実行）から反映され、各回の設定は予測アーカイブに記録されます。" />
+                        </h2>
+                        <p className="text-xs text-gray-500 font-bold mt-1">標準からの変更 {changed.size} 項目{savedAt && ` / ${savedAt} 保存済み`}</p>
+                    </div>
+                    <div className="flex gap-2">
+                        {(['sales', 'customers'] as const).map(t => (
+                            <button key={t} onClick={() => setEditType(t)} className={`px-4 py-2 rounded-xl text-xs font-black transition-all ${editType === t ? 'bg-[#0F2540] text-white shadow-sm' : 'bg-white text-gray-500 border border-gray-200 hover:bg-gray-50'}`}>
+                                {TYPE_LABELS[t]}{t === dataType && ' ●'}
+                            </button>
+                        ))}
+                    </div>
+                </div>
+
+                {groups.map(group => (
+                    <div key={group} className="bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden">
+                        <div className="p-4 bg-gray-50 border-b border-gray-100">
+                            <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{group}</h3>
+                        </div>
+                        <table className="w-full text-xs">
+                            <tbody className="divide-y divide-gray-50">
+                                {ENGINE_CONFIG_FIELDS.filter(f => f.group === group).map(f => (
+                                    <tr key={f.key} className={changed.has(f.key) ? 'bg-amber-50/50' : ''}>
+                                        <td className="px-4 py-3 w-1/3">
+                                            <div className="font-bold text-gray-700">{f.label}</div>
+                                            <div className="text-[10px] text-gray-400 font-mono">{f.key}</div>
+                                        </td>
+                                        <td className="px-2 py-3 text-gray-500">{f.hint}</td>
+                                        <td className="px-2 py-3 text-right text-[10px] text-gray-400 font-mono whitespace-nowrap">標準 {preset[f.key]}</td>
+                                        <td className="px-4 py-3 w-36">
+                                            <input type="number" step={f.step} min={0} value={draft[f.key]} onChange={(e) => setField(f.key, e.target.value)} className={`w-full border rounded-lg px-2 py-1 text-right font-mono ${changed.has(f.key) ? 'border-amber-400 text-amber-700 font-bold' : 'border-gray-200 text-gray-700'}`} />
+                                        </td>
+                                    </tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </div>
+                ))}
+
+                {invalid && (
+                    <p className="text-xs font-bold text-red-500">希少水準は潜在規模の上限以下、救済の許容幅は 1 未満、k の上限と席占有時間は 0 より大きい値にしてください。</p>
+                )}
+                <div className="flex justify-end gap-2">
+                    <button onClick={handleReset} className="bg-white text-gray-500 border border-gray-200 px-4 py-2 rounded-xl text-xs font-black shadow-sm hover:bg-gray-50 transition-all flex items-center gap-2">
+                        <i className="fas fa-undo"></i> 標準に戻す
+                    </button>
+                    <button onClick={handleSave} disabled={invalid} className="bg-[#0F2540] text-white px-4 py-2 rounded-xl text-xs font-black shadow-sm hover:bg-[#1e3a8a] transition-all flex items-center gap-2 disabled:opacity-40">
+                        <i className="fas fa-save"></i> 保存
+                    </button>
+                </div>
+            </div>
+        </div>
+    );
+};
+
+export default EngineConfigView;
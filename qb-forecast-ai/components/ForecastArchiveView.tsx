@@ -0,0 +1,430 @@
+import React, { useState, useMemo, useEffect } from 'react';
+import { StoreData, ForecastVintage, ForecastChangeDriver, HierarchyLevel, PreviousRun } from '../types';
+import { listVintages, deleteVintage, vintageRows, monthIndex, monthKeyAt } from '../services/forecastArchive';
+import { attributeForecastChange, CHANGE_DRIVERS } from '../services/forecastAttribution';
+import { describeEngineConfig } from '../services/engineConfig';
+import { exportToCSV, exportToJSON } from '../utils/exportUtils';
+import HelpTooltip from './HelpTooltip';
+import WaterfallChart from './shared/WaterfallChart';
+import {
+    LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine
+} from 'recharts';
+
+interface ForecastArchiveViewProps {
+    allStores: { [name: string]: StoreData };
+    dataType: 'sales' | 'customers';
+    previousRun?: PreviousRun | null;
+}
+
+type Scope = 'total' | 'region' | 'store';
+
+const ATTRIBUTION_HORIZON = 12; // Months after the latest actual compared between runs
+
+const CHANGE_LABELS: Record<ForecastChangeDriver, string> = {
+    nudge: '新実績(ナッジ)', params: 'L/k/t0 再推定', mode: '曲線型・ショック変更',
+    seasonality: '季節性再推定', added: '新規店舗', removed: '除外店舗'
+};
+
+const ATTRIBUTION_LEVELS: { id: HierarchyLevel; label: string }[] = [
+    { id: 'total', label: '全社' }, { id: 'region', label: '地方' }, { id: 'prefecture', label: '都道府県' },
+    { id: 'block', label: 'ブロック' }, { id: 'store', label: '店舗' }
+];
+const MAX_CHART_VINTAGES = 8;
+const VINTAGE_COLORS = ['#005EB8', '#8B5CF6', '#10B981', '#F59E0B', '#EF4444', '#06B6D4', '#EC4899', '#64748B'];
+
+const formatRunAt = (iso: string) => {
+    const d = new Date(iso);
+    return `${d.getFullYear()}/${d.getMonth() + 1}/${d.getDate()} ${String(d.getHours()).padStart(2, '0')}:${String(d.getMinutes()).padStart(2, '0')}`;
+};
+
+const ForecastArchiveView: React.FC<ForecastArchiveViewProps> = ({ allStores, dataType, previousRun }) => {
+    const [vintages, setVintages] = useState<ForecastVintage[]>([]);
+    const [isLoading, setIsLoading] = useState(true);
+    const [loadError, setLoadError] = useState<string | null>(null);
+    const [scope, setScope] = useState<Scope>('total');
+    const [target, setTarget] = useState<string>('');
+    const [targetMonth, setTargetMonth] = useState<string>('');
+    const [attrLevel, setAttrLevel] = useState<HierarchyLevel>('total');
+    const [attrNodeId, setAttrNodeId] = useState<string>('total');
+
+    const isSales = dataType === 'sales';
+    const unitLabel = isSales ? '千円' : '人';
+
+    const reload = () => {
+        setIsLoading(true);
+        listVintages()
+            .then(v => { setVintages(v); setLoadError(null); })
+            .catch(e => setLoadError(String(e?.message || e)))
+            .finally(() => setIsLoading(false));
+    };
+
+    useEffect(reload, []);
+
+    const typeVintages = useMemo(() => vintages.filter(v => v.dataType === dataType), [vintages, dataType]);
+
+    const targetOptions = useMemo(() => {
+        const names = new Set<string>();
+        typeVintages.forEach(v => v.stores.forEach(s => names.add(scope === 'region' ? (s.region || '') : s.name)));
+        names.delete('');
+        return Array.from(names).sort();
+    }, [typeVintages, scope]);
+
+    useEffect(() => {
+        if (scope !== 'total' && !targetOptions.includes(target)) setTarget(targetOptions[0] || '');
+    }, [scope, targetOptions, target]);
+
+    const inScope = (name: string, region?: string) =>
+        scope === 'total' || (scope === 'region' ? region === target : name === target);
+
+    // Current actuals per store, by month index
+    const storeActuals = useMemo(() => {
+        const out = new Map<string, Map<number, number>>();
+        (Object.values(allStores) as StoreData[]).forEach(s => {
+            out.set(s.name, new Map(s.dates.map((d, i) => [monthIndex(d), s.raw[i]] as [number, number])));
+        });
+        return out;
+    }, [allStores]);
+
+    // Actuals of every store in the scope (chart context line)
+    const actuals = useMemo(() => {
+        const byMonth = new Map<number, number>();
+        (Object.values(allStores) as StoreData[]).forEach(s => {
+            if (!inScope(s.name, s.region)) return;
+            storeActuals.get(s.name)?.forEach((v, m) => byMonth.set(m, (byMonth.get(m) || 0) + v));
+        });
+        return byMonth;
+    }, [allStores, storeActuals, scope, target]);
+
+    // Each vintage's forecast of the scope, with the actuals of the same stores (stores opened later don't count as misses)
+    const vintageSeries = useMemo(() => typeVintages.map(v => {
+        const byMonth = new Map<number, number>();
+        const actualByMonth = new Map<number, number>();
+        v.stores.forEach(s => {
+            if (!inScope(s.name, s.region)) return;
+            const start = monthIndex(s.start);
+            s.values.forEach((val, i) => byMonth.set(start + i, (byMonth.get(start + i) || 0) + val));
+            storeActuals.get(s.name)?.forEach((a, m) => { if (m >= start) actualByMonth.set(m, (actualByMonth.get(m) || 0) + a); });
+        });
+        return { vintage: v, byMonth, actualByMonth };
+    }).filter(x => x.byMonth.size > 0), [typeVintages, storeActuals, scope, target]);
+
+    const chartVintages = vintageSeries.slice(-MAX_CHART_VINTAGES);
+
+    const chartData = useMemo(() => {
+        if (chartVintages.length === 0) return [];
+        const forecastMonths = chartVintages.flatMap(x => Array.from(x.byMonth.keys()));
+        const from = Math.min(...forecastMonths) - 12;
+        const to = Math.max(...forecastMonths);
+        const rows: any[] = [];
+        for (let m = from; m <= to; m++) {
+            const row: any = { month: monthKeyAt(m), actual: actuals.get(m) ?? null };
+            chartVintages.forEach(x => { row[x.vintage.id] = x.byMonth.get(m) ?? null; });
+            rows.push(row);
+        }
+        return rows;
+    }, [chartVintages, actuals]);
+
+    // How far each vintage missed on the months whose actuals are in now
+    const vintageAccuracy = useMemo(() => vintageSeries.map(({ vintage, byMonth, actualByMonth }) => {
+        let n = 0, absPct = 0, err = 0, act = 0;
+        const cutoffIdx = monthIndex(vintage.cutoff);
+        const byLead: Record<number, number> = {};
+        byMonth.forEach((f, m) => {
+            const a = actualByMonth.get(m);
+            if (a === undefined || a <= 0) return;
+            n++; absPct += Math.abs(f - a) / a; err += f - a; act += a;
+            byLead[m - cutoffIdx] = ((f - a) / a) * 100;
+        });
+        return {
+            vintage, n,
+            mape: n > 0 ? (absPct / n) * 100 : null,
+            bias: act > 0 ? (err / act) * 100 : null,
+            lead1: byLead[1] ?? null, lead3: byLead[3] ?? null, lead6: byLead[6] ?? null, lead12: byLead[12] ?? null
+        };
+    }).reverse(), [vintageSeries]);
+
+    // Months forecast by at least one vintage, for the "what did we predict for this month" table
+    const monthOptions = useMemo(() => {
+        const months = new Set<number>();
+        vintageSeries.forEach(x => x.byMonth.forEach((_, m) => months.add(m)));
+        return Array.from(months).sort((a, b) => a - b).map(monthKeyAt);
+    }, [vintageSeries]);
+
+    useEffect(() => {
+        if (monthOptions.length > 0 && !monthOptions.includes(targetMonth)) {
+            const withActual = monthOptions.filter(m => actuals.has(monthIndex(m)));
+            setTargetMonth(withActual.length > 0 ? withActual[withActual.length - 1] : monthOptions[0]);
+        }
+    }, [monthOptions, targetMonth, actuals]);
+
+    const monthHistory = useMemo(() => {
+        if (!targetMonth) return [];
+        const m = monthIndex(targetMonth);
+        return vintageSeries
+            .filter(x => x.byMonth.has(m))
+            .map(({ vintage, byMonth, actualByMonth }) => {
+                const f = byMonth.get(m)!;
+                const actual = actualByMonth.get(m);
+                return {
+                    vintage, forecast: f,
+                    lead: m - monthIndex(vintage.cutoff),
+                    errorPct: actual !== undefined && actual > 0 ? ((f - actual) / actual) * 100 : null
+                };
+            })
+            .reverse();
+    }, [vintageSeries, targetMonth]);
+
+    // Change attribution against the previous run: the next ATTRIBUTION_HORIZON months after the latest actual
+    const attribution = useMemo(() => {
+        if (!previousRun || previousRun.dataType !== dataType) return null;
+        const live = (Object.values(allStores) as StoreData[]).filter(s => s.raw.length > 0);
+        if (live.length === 0) return null;
+        const latest = Math.max(...live.map(s => monthIndex(s.dates[s.dates.length - 1])));
+        const window = Array.from({ length: ATTRIBUTION_HORIZON }, (_, i) => monthKeyAt(latest + 1 + i));
+        return { window, nodes: attributeForecastChange(previousRun.stores, allStores, window) };
+    }, [previousRun, allStores, dataType]);
+
+    const attrLevelNodes = useMemo(() => {
+        if (!attribution) return [];
+        return attribution.nodes
+            .filter(n => n.level === attrLevel)
+            .sort((a, b) => Math.abs(b.current - b.previous) - Math.abs(a.current - a.previous));
+    }, [attribution, attrLevel]);
+
+    useEffect(() => {
+        if (attrLevelNodes.length > 0 && !attrLevelNodes.some(n => n.id === attrNodeId)) setAttrNodeId(attrLevelNodes[0].id);
+    }, [attrLevelNodes, attrNodeId]);
+
+    const attrNode = attrLevelNodes.find(n => n.id === attrNodeId) || null;
+
+    const waterfallData = useMemo(() => {
+        if (!attrNode) return [];
+        return [
+            { name: '前回予測', value: Math.round(attrNode.previous), isTotal: true },
+            ...CHANGE_DRIVERS.filter(d => Math.round(attrNode.parts[d]) !== 0).map(d => ({ name: CHANGE_LABELS[d], value: Math.round(attrNode.parts[d]) })),
+            { name: '今回予測', value: Math.round(attrNode.current), isTotal: true }
+        ];
+    }, [attrNode]);
+
+    const handleDelete = async (id: string) => {
+        if (!window.confirm('この予測スナップショットを削除しますか？')) return;
+        try {
+            await deleteVintage(id);
+        } catch (e) {
+            console.warn('Failed to delete vintage:', e);
+        }
+        reload();
+    };
+
+    const stamp = new Date().toISOString().slice(0, 10);
+    const fmtPct = (v: number | null) => v === null ? '-' : `${v > 0 ? '+' : ''}${v.toFixed(1)}%`;
+    const pctColor = (v: number | null) => v === null ? 'text-gray-300' : Math.abs(v) <= 5 ? 'text-green-600' : Math.abs(v) <= 15 ? 'text-orange-500' : 'text-red-500';
+
+    return (
+        <div className="absolute inset-0 overflow-y-auto p-4 md:p-8 animate-fadeIn bg-[#F8FAFC]">
+            <div className="max-w-[1600px] mx-auto space-y-6 pb-20">
+
+                {/* Header */}
+                <div className="flex flex-col md:flex-row justify-between items-start md:items-center gap-6 bg-white p-6 rounded-3xl shadow-sm border border-gray-100">
+                    <div>
+                        <h2 className="text-2xl font-black text-[#0F2540] uppercase tracking-tight font-display flex items-center gap-3">
+                            予測アーカイブ (Forecast Vintages)
+                            <HelpTooltip title="予測アーカイブ" content="データを読み込んで分析するたびに、その時点の各店舗の月次予測（24ヶ月先まで）をブラウザ内(IndexedDB)に保存します。過去の予測が実績と比べてどれだけ外れたか、予測が回を追ってどう動いたかを確認できます。" />
+                        </h2>
+                        <p className="text-xs text-gray-500 font-bold mt-1">保存済み {typeVintages.length} 回分 ({isSales ? '売上' : '客数'}) / 全 {vintages.length} 回</p>
+                    </div>
+                    <div className="flex gap-2">
+                        <button onClick={() => exportToCSV(vintageRows(typeVintages), `forecast_vintages_${dataType}_${stamp}`)} disabled={typeVintages.length === 0} className="bg-white text-[#005EB8] border border-[#005EB8] px-4 py-2 rounded-xl text-xs font-black shadow-sm hover:bg-blue-50 transition-all flex items-center gap-2 disabled:opacity-40">
+                            <i className="fas fa-file-csv"></i> CSV出力
+                        </button>
+                        <button onClick={() => exportToJSON(typeVintages, `forecast_vintages_${dataType}_${stamp}`)} disabled={typeVintages.length === 0} className="bg-[#0F2540] text-white px-4 py-2 rounded-xl text-xs font-black shadow-sm hover:bg-[#1e3a8a] transition-all flex items-center gap-2 disabled:opacity-40">
+                            <i className="fas fa-file-code"></i> JSON出力
+                        </button>
+                    </div>
+                </div>
+
+                {/* Forecast change attribution: previous run vs this run */}
+                {attribution && (
+                    <div className="bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden">
+                        <div className="p-4 bg-gray-50 border-b border-gray-100 flex flex-wrap items-center justify-between gap-3">
+                            <div className="flex items-center gap-2">
+                                <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">
+                                    前回実行からの予測変動 要因分解 ({attribution.window[0]}〜{attribution.window[attribution.window.length - 1]})
+                                </h3>
+                                <HelpTooltip title="要因分解" content="前回の分析結果に、今回の結果の要素を1つずつ差し替えて、予測合計の変化を分解します。順序: 新実績によるナッジ → 成長曲線パラメータ(L/k/t0)の再推定（曲線型やショック時点が変わった場合は「曲線型・ショック変更」）→ 季節性・営業日・外部要因の再推定。店舗の追加・除外は別項目です。" />
+                            </div>
+                            <div className="flex items-center gap-2">
+                                <select value={attrLevel} onChange={e => setAttrLevel(e.target.value as HierarchyLevel)} className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-[10px] font-bold outline-none">
+                                    {ATTRIBUTION_LEVELS.map(l => <option key={l.id} value={l.id}>{l.label}</option>)}
+                                </select>
+                                {attrLevel !== 'total' && (
+                                    <select value={attrNodeId} onChange={e => setAttrNodeId(e.target.value)} className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-[10px] font-bold outline-none max-w-[200px]">
+                                        {attrLevelNodes.map(n => <option key={n.id} value={n.id}>{n.name}</option>)}
+                                    </select>
+                                )}
+                            </div>
+                        </div>
+                        <div className="grid grid-cols-1 xl:grid-cols-2 gap-4 p-4">
+                            <div>
+                                <WaterfallChart data={waterfallData} height={340} />
+                                <p className="text-[9px] text-gray-400 font-bold mt-2">前回: {formatRunAt(previousRun!.replacedAt)} に置き換えられた分析結果 (エンジン設定: {describeEngineConfig(previousRun!.config, dataType).label}) / 単位: {unitLabel}</p>
+                            </div>
+                            <div className="overflow-auto max-h-[380px] custom-scrollbar">
+                                <table className="w-full text-xs">
+                                    <thead className="sticky top-0 bg-white">
+                                        <tr className="text-[10px] text-gray-400 font-black uppercase">
+                                            <th className="text-left px-2 py-2">区分</th>
+                                            <th className="text-right px-2 py-2">変動</th>
+                                            {CHANGE_DRIVERS.map(d => <th key={d} className="text-right px-2 py-2 whitespace-nowrap">{CHANGE_LABELS[d]}</th>)}
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-50">
+                                        {attrLevelNodes.map(n => (
+                                            <tr key={n.id} onClick={() => setAttrNodeId(n.id)} className={`cursor-pointer ${n.id === attrNodeId ? 'bg-blue-50' : 'hover:bg-gray-50'}`}>
+                                                <td className="px-2 py-2 font-bold text-gray-600 whitespace-nowrap">{n.name}</td>
+                                                <td className={`text-right px-2 py-2 font-mono font-black ${n.current >= n.previous ? 'text-green-600' : 'text-red-500'}`}>{Math.round(n.current - n.previous).toLocaleString()}</td>
+                                                {CHANGE_DRIVERS.map(d => (
+                                                    <td key={d} className={`text-right px-2 py-2 font-mono ${Math.round(n.parts[d]) === 0 ? 'text-gray-200' : n.parts[d] > 0 ? 'text-green-600' : 'text-red-500'}`}>{Math.round(n.parts[d]).toLocaleString()}</td>
+                                                ))}
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </div>
+                )}
+
+                {isLoading ? (
+                    <div className="bg-white rounded-3xl p-20 text-center text-xs font-bold text-gray-300">読み込み中...</div>
+                ) : loadError ? (
+                    <div className="bg-red-50 border border-red-100 rounded-3xl p-10 text-center text-xs font-bold text-red-500">アーカイブを開けませんでした: {loadError}</div>
+                ) : typeVintages.length === 0 ? (
+                    <div className="bg-white rounded-[3rem] border-2 border-dashed border-gray-100 p-20 text-center text-xs font-bold text-gray-300 uppercase tracking-widest">
+                        まだ保存された予測がありません。データを読み込んで分析すると自動で保存されます。
+                    </div>
+                ) : (
+                    <>
+                        {/* Scope selector */}
+                        <div className="flex flex-wrap items-center gap-3 bg-white p-4 rounded-2xl shadow-sm border border-gray-100">
+                            <div className="flex bg-slate-100 p-1 rounded-xl">
+                                {([['total', '全社'], ['region', '地方'], ['store', '店舗']] as [Scope, string][]).map(([id, label]) => (
+                                    <button key={id} onClick={() => setScope(id)} className={`px-4 py-2 rounded-lg text-xs font-black transition-all ${scope === id ? 'bg-white text-[#0F2540] shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}>{label}</button>
+                                ))}
+                            </div>
+                            {scope !== 'total' && (
+                                <select value={target} onChange={e => setTarget(e.target.value)} className="bg-gray-50 border border-gray-200 rounded-xl px-4 py-2 text-xs font-bold outline-none">
+                                    {targetOptions.map(o => <option key={o} value={o}>{o}</option>)}
+                                </select>
+                            )}
+                            <span className="text-[10px] text-gray-400 font-bold">グラフは直近 {Math.min(MAX_CHART_VINTAGES, vintageSeries.length)} 回分を表示</span>
+                        </div>
+
+                        {/* Forecast paths across vintages */}
+                        <div className="bg-white p-6 rounded-3xl shadow-sm border border-gray-100 h-[420px] flex flex-col">
+                            <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 font-display">予測の推移 (Vintage Paths) <span className="normal-case">({unitLabel})</span></h3>
+                            <div className="flex-1">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={chartData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                                        <XAxis dataKey="month" tick={{ fontSize: 9 }} />
+                                        <YAxis tick={{ fontSize: 9 }} />
+                                        <Tooltip formatter={(v: number) => v?.toLocaleString()} />
+                                        <Legend wrapperStyle={{ fontSize: 9 }} />
+                                        {targetMonth && <ReferenceLine x={targetMonth} stroke="#cbd5e1" strokeDasharray="3 3" />}
+                                        <Line type="monotone" dataKey="actual" name="実績" stroke="#1A1A1A" strokeWidth={3} dot={false} connectNulls={false} />
+                                        {chartVintages.map((x, i) => (
+                                            <Line key={x.vintage.id} type="monotone" dataKey={x.vintage.id} name={`${formatRunAt(x.vintage.runAt)} (〜${x.vintage.cutoff})`} stroke={VINTAGE_COLORS[i % VINTAGE_COLORS.length]} strokeWidth={2} strokeDasharray="5 5" dot={false} />
+                                        ))}
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+
+                        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                            {/* Vintage accuracy */}
+                            <div className="xl:col-span-2 bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden">
+                                <div className="p-4 bg-gray-50 border-b border-gray-100 flex items-center gap-2">
+                                    <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">予測回ごとの外れ幅 (実績確定分)</h3>
+                                    <HelpTooltip title="外れ幅" content="各回の予測のうち、現在のデータで実績が出ている月だけを比較します。Lead = 予測時点のデータ最終月から何ヶ月先の予測だったか。プラスは予測が実績を上回った（楽観）ことを示します。" />
+                                </div>
+                                <div className="overflow-x-auto">
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-[10px] text-gray-400 font-black uppercase">
+                                                <th className="text-left px-4 py-2">実行日時</th>
+                                                <th className="text-left px-2 py-2">データ最終月</th>
+                                                <th className="text-right px-2 py-2">比較月数</th>
+                                                <th className="text-right px-2 py-2">MAPE</th>
+                                                <th className="text-right px-2 py-2">Bias</th>
+                                                <th className="text-right px-2 py-2">Lead 1</th>
+                                                <th className="text-right px-2 py-2">Lead 3</th>
+                                                <th className="text-right px-2 py-2">Lead 6</th>
+                                                <th className="text-right px-2 py-2">Lead 12</th>
+                                                <th className="text-left px-2 py-2">エンジン設定</th>
+                                                <th className="px-4 py-2"></th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-50">
+                                            {vintageAccuracy.map(a => (
+                                                <tr key={a.vintage.id} className="hover:bg-gray-50">
+                                                    <td className="px-4 py-2 font-bold text-gray-600">{formatRunAt(a.vintage.runAt)}</td>
+                                                    <td className="px-2 py-2 font-mono text-gray-500">{a.vintage.cutoff}</td>
+                                                    <td className="text-right px-2 py-2 font-mono text-gray-500">{a.n}</td>
+                                                    <td className="text-right px-2 py-2 font-mono text-gray-700">{a.mape === null ? '-' : `${a.mape.toFixed(1)}%`}</td>
+                                                    <td className={`text-right px-2 py-2 font-mono ${pctColor(a.bias)}`}>{fmtPct(a.bias)}</td>
+                                                    {[a.lead1, a.lead3, a.lead6, a.lead12].map((v, i) => (
+                                                        <td key={i} className={`text-right px-2 py-2 font-mono ${pctColor(v)}`}>{fmtPct(v)}</td>
+                                                    ))}
+                                                    <td className="px-2 py-2 text-gray-500 whitespace-nowrap" title={describeEngineConfig(a.vintage.config, a.vintage.dataType).detail}>{describeEngineConfig(a.vintage.config, a.vintage.dataType).label}</td>
+                                                    <td className="px-4 py-2 text-right">
+                                                        <button onClick={() => handleDelete(a.vintage.id)} className="text-gray-300 hover:text-red-500" title="削除"><i className="fas fa-trash-alt"></i></button>
+                                                    </td>
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            </div>
+
+                            {/* What was forecast for one month */}
+                            <div className="bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden">
+                                <div className="p-4 bg-gray-50 border-b border-gray-100 flex items-center justify-between gap-2">
+                                    <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">対象月の予測履歴</h3>
+                                    <select value={targetMonth} onChange={e => setTargetMonth(e.target.value)} className="bg-white border border-gray-200 rounded-lg px-2 py-1 text-[10px] font-bold outline-none">
+                                        {monthOptions.map(m => <option key={m} value={m}>{m}</option>)}
+                                    </select>
+                                </div>
+                                <div className="p-4 text-[10px] font-bold text-gray-400">
+                                    実績: <span className="text-sm font-black text-gray-800">{actuals.has(monthIndex(targetMonth || '0-01')) ? Math.round(actuals.get(monthIndex(targetMonth))!).toLocaleString() : '未確定'}</span>
+                                </div>
+                                <table className="w-full text-xs">
+                                    <thead>
+                                        <tr className="text-[10px] text-gray-400 font-black uppercase">
+                                            <th className="text-left px-4 py-2">実行日時</th>
+                                            <th className="text-right px-2 py-2">何ヶ月前</th>
+                                            <th className="text-right px-2 py-2">予測</th>
+                                            <th className="text-right px-4 py-2">誤差</th>
+                                        </tr>
+                                    </thead>
+                                    <tbody className="divide-y divide-gray-50">
+                                        {monthHistory.map(r => (
+                                            <tr key={r.vintage.id}>
+                                                <td className="px-4 py-2 font-bold text-gray-600">{formatRunAt(r.vintage.runAt)}</td>
+                                                <td className="text-right px-2 py-2 font-mono text-gray-500">{r.lead}</td>
+                                                <td className="text-right px-2 py-2 font-mono text-gray-700">{Math.round(r.forecast).toLocaleString()}</td>
+                                                <td className={`text-right px-4 py-2 font-mono ${pctColor(r.errorPct)}`}>{fmtPct(r.errorPct)}</td>
+                                            </tr>
+                                        ))}
+                                    </tbody>
+                                </table>
+                            </div>
+                        </div>
+                    </>
+                )}
+            </div>
+        </div>
+    );
+};
+
+export default ForecastArchiveView;
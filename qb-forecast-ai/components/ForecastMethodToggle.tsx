@@ -0,0 +1,26 @@
+import React from 'react';
+import { ReconciliationMethod } from '../types';
+
+// How area totals are forecast: the plain sum of store forecasts or one of the reconciled hierarchies
+export const FORECAST_METHODS: { id: ReconciliationMethod | 'sum'; label: string }[] = [
+    { id: 'sum', label: '単純合算' },
+    { id: 'top_down', label: 'Top-down' },
+    { id: 'ols', label: 'OLS' },
+    { id: 'mint', label: 'MinT' },
+];
+
+interface ForecastMethodToggleProps {
+    value: ReconciliationMethod | 'sum';
+    onChange: (method: ReconciliationMethod | 'sum') => void;
+    className?: string;
+}
+
+const ForecastMethodToggle: React.FC<ForecastMethodToggleProps> = ({ value, onChange, className = '' }) => (
+    <div className={`flex bg-gray-100 p-0.5 rounded-lg normal-case tracking-normal ${className}`}>
+        {FORECAST_METHODS.map(m => (
+            <button key={m.id} onClick={() => onChange(m.id)} className={`px-2 py-1 rounded-md text-[9px] font-black ${value === m.id ? 'bg-white text-[#005EB8] shadow-sm' : 'text-gray-400'}`}>{m.label}</button>
+        ))}
+    </div>
+);
+
+export default ForecastMethodToggle;
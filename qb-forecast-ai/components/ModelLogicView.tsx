@@ -1,7 +1,20 @@
 
-import React, { useState } from 'react';
+import React, { useState, useMemo } from 'react';
 import katex from 'katex';
 import { marked } from 'marked';
+import { StoreData, CurveFamily } from '../types';
+import { getCurveFamily } from '../services/analysisEngine';
+
+interface ModelLogicViewProps {
+    allStores?: { [name: string]: StoreData };
+}
+
+const FAMILY_LABELS: Record<CurveFamily, { label: string; color: string }> = {
+    logistic: { label: 'Logistic', color: 'bg-blue-100 text-blue-700' },
+    gompertz: { label: 'Gompertz', color: 'bg-emerald-100 text-emerald-700' },
+    richards: { label: 'Richards', color: 'bg-amber-100 text-amber-700' },
+    damped_trend: { label: 'Damped Trend', color: 'bg-rose-100 text-rose-700' }
+};
 
 const BlockMath = ({ math }: { math: string }) => {
     const html = katex.renderToString(math, { displayMode: true, throwOnError: false });
@@ -50,19 +63,39 @@ const Callout = ({ title, children, type = 'info' }: { title: string, children?:
 const SECTIONS = [
     { id: 'philosophy', title: '0. 予測エンジンの哲学' },
     { id: 'math_core', title: '1. 増分ロジスティック数学' },
-    { id: 'modes', title: '2. 5つの戦略的モデル定義' },
+    { id: 'modes', title: '2. 戦略的モデル定義' },
     { id: 'shock', title: '3. 構造変化(Shock)の検知' },
-    { id: 'nudge', title: '4. 永続ナッジ(Persistent Nudge)' },
+    { id: 'nudge', title: '4. 適応ナッジ(Adaptive Nudge)' },
     { id: 'optimization', title: '5. Nelder-Mead 最適化アルゴリズム' },
     { id: 'regularization', title: '6. 正則化とオッカムの剃刀' },
-    { id: 'aic', title: '7. AICによる自動モデル選択' },
+    { id: 'aic', title: '7. AICcによる自動モデル選択' },
     { id: 'seasonality', title: '8. 季節性DNAの抽出' },
     { id: 'business', title: '9. 経営管理への応用ガイド' }
 ];
 
-const ModelLogicView: React.FC = () => {
+const ModelLogicView: React.FC<ModelLogicViewProps> = ({ allStores = {} }) => {
     const [activeSection, setActiveSection] = useState<string>('philosophy');
 
+    // Which curve family each fitted store received, with the AICc gap to the runner-up family
+    const familyAssignments = useMemo(() => {
+        const rows = (Object.values(allStores) as StoreData[])
+            .filter(s => !s.error && s.fit.mode !== 'startup')
+            .map(s => {
+                const family = getCurveFamily(s.fit.mode);
+                const others = (s.fit.candidates || []).filter(c => getCurveFamily(c.mode) !== family && isFinite(c.aicc));
+                const runnerUp = others.sort((a, b) => a.aicc - b.aicc)[0];
+                return {
+                    name: s.name, mode: s.fit.mode, family, aicc: s.fit.aicc,
+                    runnerUp: runnerUp ? getCurveFamily(runnerUp.mode) : null,
+                    gap: runnerUp && s.fit.aicc !== undefined ? runnerUp.aicc - s.fit.aicc : null
+                };
+            })
+            .sort((a, b) => a.name.localeCompare(b.name));
+        const counts = { logistic: 0, gompertz: 0, richards: 0, damped_trend: 0 } as Record<CurveFamily, number>;
+        rows.forEach(r => counts[r.family]++);
+        return { rows, counts };
+    }, [allStores]);
+
     return (
         <div className="absolute inset-0 overflow-y-auto bg-[#F8FAFC] text-slate-800 font-sans">
             <div className="flex flex-col lg:flex-row min-h-full">
@@ -161,7 +194,7 @@ const ModelLogicView: React.FC = () => {
 
                         {/* SECTION 2: Modes */}
                         <section id="modes" className={activeSection === 'modes' ? 'animate-fadeIn' : 'hidden'}>
-                            <SectionHeader number="02" title="5つの戦略的モデル定義" sub="店舗のフェーズに合わせてAIが物語を選択する" />
+                            <SectionHeader number="02" title="戦略的モデル定義" sub="店舗のフェーズに合わせてAIが物語を選択する" />
                             <div className="space-y-12">
                                 <p className="text-lg leading-loose text-slate-600 font-medium">
                                     全店舗に同じ数式を当てはめることは不可能です。AIは各店舗の履歴をスキャンし、最も適合する「モード」を自動選択します。
@@ -170,10 +203,13 @@ const ModelLogicView: React.FC = () => {
                                 <div className="space-y-8">
                                     {[
                                         { title: 'Standard (標準モデル)', desc: '開業から現在まで、大きな波がなく順調に成長している店舗。最も信頼性の高い予測が可能です。', color: 'border-l-blue-500' },
-                                        { title: 'Startup (新規店モデル)', desc: 'データが13ヶ月未満の店舗。自店舗のデータだけでは予測不能なため、全社の「平均的な成長カーブ」を強制合成します。', color: 'border-l-orange-500' },
+                                        { title: 'Startup (新規店モデル)', desc: 'データが13ヶ月未満の店舗。自店舗のデータだけでは予測不能なため、同じエリア・開業年代の「仲間の店舗」の成長カーブと季節性を強制合成します。', color: 'border-l-orange-500' },
                                         { title: 'Shift (構造変化モデル)', desc: '増席、改装、競合出現、または価格改定など。過去の延長線上にはない「段差」を検知し、新しい基準で予測をリセットします。', color: 'border-l-purple-500' },
                                         { title: 'Dual Shift (二段階変化)', desc: 'コロナによる下落とその後の回復など、二度の大きな環境変化を乗り越えた成熟店向けの高度なモデルです。', color: 'border-l-indigo-600' },
-                                        { title: 'Recovery (特殊回帰)', desc: '一時的なショック（商業施設の臨時休業など）から、元の売上水準へ「自律反発」しようとする力を測定します。', color: 'border-l-emerald-500' }
+                                        { title: 'Recovery (特殊回帰)', desc: '一時的なショック（商業施設の臨時休業など）から、元の売上水準へ「自律反発」しようとする力を測定します。', color: 'border-l-emerald-500' },
+                                        { title: 'Gompertz (早期立ち上がり)', desc: '開業直後に一気に立ち上がり、その後ゆっくりと上限に近づく店舗。ロジスティックより早い時期に成長のピークを迎えます。', color: 'border-l-teal-500' },
+                                        { title: 'Richards (一般化ロジスティック)', desc: '形状パラメータνで成長カーブの非対称性を調整します。ν=1 で標準ロジスティックと一致し、ν<1 では上限への接近が緩やかになります。', color: 'border-l-amber-500' },
+                                        { title: 'Damped (減衰トレンド)', desc: '成熟店向けのHolt-Winters型モデル。直近の水準とトレンドを追従し、トレンドは係数φで徐々に減衰して一定水準に収束します。', color: 'border-l-rose-500' }
                                     ].map((m, i) => (
                                         <div key={i} className={`bg-white p-8 rounded-3xl shadow-sm border border-slate-100 border-l-8 ${m.color} hover:shadow-md transition-all`}>
                                             <h4 className="text-xl font-black text-slate-800 mb-3">{m.title}</h4>
@@ -181,6 +217,13 @@ const ModelLogicView: React.FC = () => {
                                         </div>
                                     ))}
                                 </div>
+                                <Callout title="仲間の店舗からの事前分布 (Hierarchical Shrinkage)" type="math">
+                                    開業36ヶ月未満の店舗は、成長速度 k と上限 L を「ブロック → 都道府県 → エリア → 全社」の最も近い仲間グループの値に引き寄せて推定します（開業年代のコホート差も補正）。
+                                    <BlockMath math="\text{Score} = \frac{\text{MSE}}{\sigma^2}\left(1 + \frac{1}{n}\sum_{\theta \in \{k, L\}} \left(\frac{\ln\theta - \ln\theta_{\text{peer}}}{\tau_\theta}\right)^2\right)" />
+                                    <p className="text-sm font-black text-center opacity-70 mt-4">
+                                        ※ τ は成熟店の ln k・ln L のばらつき。n（有効月数）が増えるほど自店舗のデータが優先されます。小さなグループの値は上位グループに寄せてから使います。
+                                    </p>
+                                </Callout>
                             </div>
                         </section>
 
@@ -189,11 +232,12 @@ const ModelLogicView: React.FC = () => {
                             <SectionHeader number="03" title="構造変化(Shock)の検知" sub="「例外的な出来事」を見逃さない仕組み" />
                             <div className="space-y-10 text-lg leading-loose text-slate-600 font-medium">
                                 <p>
-                                    AIは全期間のデータを移動平均でスキャンし、前後の期間で売上の「平均レベル」が統計的に有意に変化した地点（Shock Index）を探します。
+                                    AIは季節性を除去した全期間のデータを区分的な直線で近似し、売上の「水準」が不連続に変化した地点（Change Point）を<strong>いくつでも</strong>探します。
                                 </p>
                                 <Callout title="検知のアルゴリズム" type="math">
-                                    前後6ヶ月ずつの窓（ウィンドウ）を設定し、その平均の差分比率が 12% を超えた場合に「構造変化の疑い」としてフラグを立てます。
-                                    その後、Nelder-Mead法によるパラメータ探索を行い、その地点で「Shift」を発生させた方が全体の誤差（AIC）が小さくなる場合のみ、この構造変化を採用します。
+                                    二分割探索（Binary Segmentation）で、区間を2本の直線に分けたときの誤差減少がBICペナルティを上回る限り分割を繰り返します（各区間は最低6ヶ月）。
+                                    各変化点の確信度は <InlineMath math="1 / (1 + e^{-\Delta\text{BIC}/2})" /> で算出されます。
+                                    その後、確信度の高い順に変化点を1つずつShiftとして追加してNelder-Mead法で再推定し、AICcが改善する場合のみ採用します（変化点1つにつき位置と大きさの2パラメータ）。
                                 </Callout>
                                 <p>
                                     これにより、「単なる月ごとのバラつき」と「店長交代や改装などの本質的な変化」を峻別しています。
@@ -201,9 +245,9 @@ const ModelLogicView: React.FC = () => {
                             </div>
                         </section>
 
-                        {/* SECTION 4: Persistent Nudge */}
+                        {/* SECTION 4: Adaptive Nudge */}
                         <section id="nudge" className={activeSection === 'nudge' ? 'animate-fadeIn' : 'hidden'}>
-                            <SectionHeader number="04" title="Persistent Nudge (永続ナッジ)" sub="最新の勢いを「一時的なもの」で終わらせない" />
+                            <SectionHeader number="04" title="Adaptive Nudge (適応ナッジ)" sub="足元の乖離がどれだけ続くかを、店舗ごとにデータで決める" />
                             <div className="space-y-10 text-lg leading-loose text-slate-600 font-medium">
                                 <p>
                                     予測理論における最大の難問は「足元の絶好調（または不調）を、将来の予測にどう織り込むか」です。
@@ -211,17 +255,21 @@ const ModelLogicView: React.FC = () => {
                                 </p>
                                 <p>
                                     旧来のモデル（v15.0以前）では、直近の乖離を「一過性のノイズ」とみなし、24ヶ月かけて徐々にゼロに戻る（減衰させる）ように設計していました。
-                                    しかし、最新の <strong>v15.5</strong> では、この減衰ロジックを完全に撤廃しました。
+                                    v15.5 では減衰を撤廃し（Decay = 1.0 固定）乖離を永続させましたが、一過性のイベントまで将来に持ち越してしまう弱点がありました。
+                                    現在は、減衰率を<strong>店舗ごとに残差から推定</strong>しています。
                                 </p>
-                                <Callout title="永続ナッジの数理定義" type="math">
-                                    <BlockMath math="\text{Final Forecast}(t) = \text{Logistic}(t) + \text{Nudge} \times (1.0)^{\Delta t}" />
+                                <Callout title="適応ナッジの数理定義" type="math">
+                                    <BlockMath math="\text{Final Forecast}(t) = \left(\text{Logistic}(t) + \text{Nudge} \times \phi^{\Delta t}\right) \times \text{Season}(t)" />
+                                    <BlockMath math="\hat\phi = \frac{\sum_t e_t e_{t-1}}{\sum_t e_{t-1}^2}, \quad e_t = \frac{\text{残差}_t}{\text{Season}(t)}" />
                                     <p className="text-sm font-black text-center opacity-70 mt-4">
-                                        ※ 指数項（Decay Factor）を 1.0 に固定。直近12ヶ月の平均乖離（Nudge）を、そのまま将来の「一定のオフセット」として永続的に加算し続けます。
+                                        ※ 季節調整後の残差に AR(1) を当てはめ、その係数 φ（0〜1）を減衰率とします。Nudge は直近12ヶ月の残差の中央値です。
                                     </p>
                                 </Callout>
                                 <p>
-                                    これは、<strong>「今の勢い（乖離）は、現場の努力によって勝ち取った『新しい実力値（ベースライン）』である」</strong>という経営的な信頼を数式に反映したものです。
-                                    「いずれ元に戻るだろう」という悲観的な予測を排除し、現場の「今」を肯定する、より攻撃的で実務的なロジックへと進化しました。
+                                    推定された φ により、乖離は自動的に3種類に分類されます。
+                                    <strong>構造変化</strong>（φ ≥ 0.95: 永続として Decay = 1.0）、<strong>実力変化</strong>（0.3 ≤ φ &lt; 0.95: 緩やかに減衰）、<strong>一時的</strong>（φ &lt; 0.3: 数ヶ月で消滅）です。
+                                    残差が12組に満たない店舗や立ち上げ期の店舗は、従来どおり永続ナッジとして扱います。
+                                    ダッシュボード・予算策定・比較・精度検証のすべての予測で同じ減衰率を使い、店舗分析画面では手動で分類を切り替えることもできます。
                                 </p>
                             </div>
                         </section>
@@ -242,8 +290,13 @@ const ModelLogicView: React.FC = () => {
                                     2. 誤差の大きい点を捨て、反対側へ移動（反転）<br/>
                                     3. そっちの方向が良さそうなら、さらに足を伸ばす（拡大）<br/>
                                     4. 行き過ぎたら、中心へ向かってギュッと縮む（縮小）<br/>
-                                    5. 最大2,500回の試行で収束...
+                                    5. 頂点の位置と誤差の両方が揃ったら収束（最大2,500回）<br/>
+                                    6. 別の初期値（シード固定）からも探索し、最良解から再スタートして仕上げ
                                 </div>
+                                <p>
+                                    反転・拡大・縮小の係数はパラメータ数に応じて自動調整され（適応型Nelder-Mead）、各頂点の誤差は一度だけ計算してキャッシュします。
+                                    「Lが巨大でkが極小」といった局所解に捕まるのを防ぐため、標準モデルは3つの初期値から探索します。収束しなかった店舗はモデル精度検証画面で警告されます。
+                                </p>
                             </div>
                         </section>
 
@@ -270,12 +323,17 @@ const ModelLogicView: React.FC = () => {
 
                         {/* SECTION 7: AIC */}
                         <section id="aic" className={activeSection === 'aic' ? 'animate-fadeIn' : 'hidden'}>
-                            <SectionHeader number="07" title="AICによる自動モデル選択" sub="複雑さと精度のトレードオフ" />
+                            <SectionHeader number="07" title="AICcによる自動モデル選択" sub="複雑さと精度のトレードオフ" />
                             <div className="space-y-10 text-lg leading-loose text-slate-600 font-medium">
                                 <p>
                                     「複雑な数式を使えば実績に合わせることは簡単だが、将来の予測には役立たない」――これを防ぐのが <strong>AIC（赤池情報量規準）</strong> です。
                                 </p>
                                 <BlockMath math="\text{AIC} = n \ln(\text{SSE}/n) + 2k" />
+                                <p>
+                                    データ点が少ない若い店舗では AIC でも複雑なモデルが選ばれやすいため、小標本補正を加えた <strong>AICc</strong> で比較します。
+                                    ロジスティック・Gompertz・Richards・減衰トレンドの全候補を同じ Nelder-Mead と目的関数で当てはめ、AICc が最小のものを採用します。
+                                </p>
+                                <BlockMath math="\text{AICc} = \text{AIC} + \frac{2k(k+1)}{n-k-1}" />
                                 <p>
                                     数式のパラメータ数（複雑さ）をペナルティとして加算します。
                                     構造変化（Shift）を1回認めるためには、その「複雑さのコスト」を上回るほどの圧倒的な「予測誤差の減少」が証明されなければなりません。
@@ -283,6 +341,38 @@ const ModelLogicView: React.FC = () => {
                                 <p>
                                     本エンジンはこの計算を店舗ごとに瞬時に行い、「今は何も起きていないと判断すべきか」「変化を認めるべきか」を論理的に決着させています。
                                 </p>
+
+                                {familyAssignments.rows.length > 0 && (
+                                    <div className="bg-white p-8 rounded-3xl shadow-sm border border-slate-100">
+                                        <h4 className="text-sm font-black text-slate-800 uppercase tracking-widest mb-6">店舗別 採用カーブ (Current Data)</h4>
+                                        <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-6">
+                                            {(Object.keys(FAMILY_LABELS) as CurveFamily[]).map(f => (
+                                                <div key={f} className={`rounded-2xl p-4 ${FAMILY_LABELS[f].color}`}>
+                                                    <p className="text-[10px] font-black uppercase tracking-widest">{FAMILY_LABELS[f].label}</p>
+                                                    <p className="text-2xl font-black font-display">{familyAssignments.counts[f]}<span className="text-xs ml-1">店</span></p>
+                                                </div>
+                                            ))}
+                                        </div>
+                                        <div className="max-h-[400px] overflow-y-auto custom-scrollbar">
+                                            <table className="w-full text-sm">
+                                                <thead className="text-[10px] font-black text-slate-400 uppercase tracking-widest sticky top-0 bg-white">
+                                                    <tr><th className="text-left py-2">店舗</th><th className="text-left">Mode</th><th className="text-left">Family</th><th className="text-right">AICc</th><th className="text-right">次点との差 (ΔAICc)</th></tr>
+                                                </thead>
+                                                <tbody>
+                                                    {familyAssignments.rows.map(r => (
+                                                        <tr key={r.name} className="border-t border-slate-50">
+                                                            <td className="py-2 font-bold text-slate-700">{r.name}</td>
+                                                            <td className="font-mono text-xs">{r.mode}</td>
+                                                            <td><span className={`px-2 py-0.5 rounded text-[10px] font-black ${FAMILY_LABELS[r.family].color}`}>{FAMILY_LABELS[r.family].label}</span></td>
+                                                            <td className="text-right font-mono text-xs">{r.aicc !== undefined && isFinite(r.aicc) ? r.aicc.toFixed(1) : '-'}</td>
+                                                            <td className="text-right font-mono text-xs">{r.gap !== null ? `${r.gap.toFixed(1)} (${FAMILY_LABELS[r.runnerUp as CurveFamily].label})` : '-'}</td>
+                                                        </tr>
+                                                    ))}
+                                                </tbody>
+                                            </table>
+                                        </div>
+                                    </div>
+                                )}
                             </div>
                         </section>
 
@@ -301,6 +391,24 @@ const ModelLogicView: React.FC = () => {
                                     各月のインデックスの合計が 12.0 になるように正規化されます。
                                     データ不足の店舗に対しては、全店舗の平均的な「季節性DNA」を適用することで、季節による短期的な変動を予言します。
                                 </Callout>
+                                <p>
+                                    ただし12ヶ月のインデックスは「平均的なカレンダー」しか表せません。土日が5回ある月、ゴールデンウィークが平日に重なる年、うるう年の2月、店舗の休業日などは、
+                                    <strong>営業日カレンダー（祝日・お盆・年末年始を含む）</strong>による回帰で別途補正しています。
+                                </p>
+                                <Callout title="営業日回帰 (Trading-Day Regressor)" type="math">
+                                    <BlockMath math="\text{Season}(t) = S_{\text{month}} \times \exp\left(\beta_{wd}\,\Delta\text{平日}_t + \beta_{hd}\,\Delta\text{休日}_t\right)" />
+                                    <p className="text-sm font-black text-center opacity-70 mt-4">
+                                        ※ Δ は営業する平日・休日（土日祝・お盆・年末年始）の日数と、同じ月の長期平均との差。休業日はどちらにも数えません。
+                                        β は店舗ごとに推定し、データが少ない店舗は「1日 = 1/30.4」の事前値に近づけます。将来月の予測にもその月の実カレンダーが反映されます。
+                                    </p>
+                                </Callout>
+                                <p>
+                                    価格改定・販促・競合出店などの<strong>外部要因（ドライバー）</strong>をファイルで与えた場合は、成長曲線と同時にその効果も推定します。
+                                    将来月は計画値（または予算・シミュレーション画面で入力した値）と直近実績月の値との差だけが予測に反映されます。
+                                </p>
+                                <Callout title="外部要因回帰 (Exogenous Drivers)" type="math">
+                                    <BlockMath math="y_t = \text{Trend}(t) \times \left(1 + \sum_j \gamma_j\,(x_{j,t} - x_{j,\text{last}})\right) \times \text{Season}(t)" />
+                                </Callout>
                             </div>
                         </section>
 
@@ -1,7 +1,11 @@
 
-import React, { useState, useMemo, useCallback } from 'react';
-import { StoreData } from '../types';
-import { analyzeStore, logisticModel } from '../services/analysisEngine';
+import React, { useState, useMemo, useCallback, useRef } from 'react';
+import { StoreData, HierarchyAccuracy, HierarchyLevel, ReconciliationMethod, FitConvergence, CvMethod, CvSummary, CvGroup } from '../types';
+import { curveForecastAt } from '../services/analysisEngine';
+import { runTieredBatch, isAbortError, AnalysisTask } from '../services/workerPool';
+import { resolveEngineConfig } from '../services/engineConfig';
+import { prepareHierarchy, reconcileHierarchy, scoreHierarchy, HIERARCHY_LEVELS } from '../services/reconciliation';
+import { runRollingOriginCv, CV_METHODS, CV_MIN_LENGTH } from '../services/rollingOrigin';
 import HelpTooltip from './HelpTooltip';
 import {
     LineChart, Line, BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ReferenceLine, ScatterChart, Scatter, Cell, LabelList
@@ -24,18 +28,51 @@ interface BacktestResult {
     trainingK: number;
     trainingL: number;
     trainingMode: string;
+    trainingConvergence?: FitConvergence;
+    poorlyConverged: boolean; // Training fit or current fit stopped at the iteration cap
 }
 
+const RECONCILIATION_METHODS: { id: ReconciliationMethod; label: string }[] = [
+    { id: 'base', label: '個別予測' },
+    { id: 'bottom_up', label: 'Bottom-up' },
+    { id: 'top_down', label: 'Top-down' },
+    { id: 'ols', label: 'OLS' },
+    { id: 'mint', label: 'MinT' },
+];
+
+const LEVEL_LABELS: Record<HierarchyLevel, string> = {
+    total: '全社', region: '地方', prefecture: '都道府県', block: 'ブロック', store: '店舗'
+};
+
+const CV_METHOD_LABELS: Record<CvMethod, string> = { engine: 'AIエンジン', snaive: '季節ナイーブ', ma: '移動平均(3M)' };
+const CV_METHOD_COLORS: Record<CvMethod, string> = { engine: '#005EB8', snaive: '#F59E0B', ma: '#94A3B8' };
+
+// Engine skill over the seasonal-naive baseline: 1 - MASE ratio (positive = engine better); NaN without a MASE scale
+const cvSkill = (g: Pick<CvGroup, 'metrics'>) => {
+    const { engine, snaive } = g.metrics;
+    return Number.isFinite(engine.mase) && Number.isFinite(snaive.mase) && snaive.mase > 0 ? 1 - engine.mase / snaive.mase : NaN;
+};
+
+// MASE is NaN when no store had a seasonal-naive scale
+const formatMase = (mase: number) => (Number.isFinite(mase) ? mase.toFixed(2) : '–');
+
 const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, dataType }) => {
     const [isProcessing, setIsProcessing] = useState(false);
     const [progress, setProgress] = useState(0);
+    const abortRef = useRef<AbortController | null>(null);
     const [results, setResults] = useState<BacktestResult[]>([]);
+    const [levelAccuracy, setLevelAccuracy] = useState<HierarchyAccuracy[]>([]);
     const [selectedStoreName, setSelectedStoreName] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState("");
     
     // Test Period Selection
     const [testPeriod, setTestPeriod] = useState<number>(12);
 
+    // Rolling-origin cross-validation
+    const [validationMode, setValidationMode] = useState<'single' | 'rolling'>('single');
+    const [cvOrigins, setCvOrigins] = useState<number>(6);
+    const [cvSummary, setCvSummary] = useState<CvSummary | null>(null);
+
     const isSales = dataType === 'sales';
     const unitLabel = isSales ? '千円' : '人';
 
@@ -43,6 +80,7 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
         setIsProcessing(true);
         setProgress(0);
         setResults([]);
+        setLevelAccuracy([]);
         setSelectedStoreName(null);
 
         // Ensure we have enough data for the selected period plus minimum training (e.g. 12 months)
@@ -50,84 +88,98 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
         const eligibleStores = (Object.values(allStores) as StoreData[]).filter(s => s.isActive && s.raw.length >= minDataLength);
         
         const tempResults: BacktestResult[] = [];
-        const total = eligibleStores.length;
-
-        for (let i = 0; i < total; i++) {
-            const store = eligibleStores[i];
-            try {
-                // 1. Split Data: Last N months as Test set, rest as Training set
-                const cutoff = testPeriod;
-                const trainRaw = store.raw.slice(0, -cutoff);
-                const trainDates = store.dates.slice(0, -cutoff);
-                const testRaw = store.raw.slice(-cutoff);
-                const testDates = store.dates.slice(-cutoff);
-                
-                // Final training date for reference
-                const lastTrainDateStr = trainDates[trainDates.length - 1].replace(/\//g, '-');
-                const lastTrainDate = new Date(lastTrainDateStr);
-
-                // 2. Train Model on Training Set
-                const result = analyzeStore(store.name, trainRaw, trainDates, lastTrainDate);
-                if (result.error) continue;
-
-                // 3. Forecast the "Future" (The hidden N months)
-                const forecasts: number[] = [];
-                let sumAbsPercError = 0;
-                let sumSqError = 0;
-                let sumError = 0;
-                let sumAbsError = 0; 
-                const n = testDates.length;
-
-                testDates.forEach((d, idx) => {
-                    const t = trainRaw.length + idx;
-                    const dObj = new Date(d.replace(/\//g, '-'));
-                    
-                    // Core Logistic Trend
-                    const tr = logisticModel(t, result.fit.params, result.fit.mode, result.fit.shockIdx);
-                    
-                    // Seasonality from training
-                    const sea = result.seasonal[dObj.getMonth()] || 1.0;
-                    
-                    // Persistent Nudge (No decay as requested)
-                    const nudgeEffect = result.nudge; // decay factor is 1.0
-                    
-                    const pred = Math.max(0, (tr + nudgeEffect) * sea);
-                    const actual = testRaw[idx];
-                    forecasts.push(Math.round(pred));
-
-                    if (actual > 0) {
-                        const err = actual - pred;
-                        sumError += err;
-                        sumAbsError += Math.abs(err);
-                        sumSqError += err * err;
-                        sumAbsPercError += Math.abs(err / actual);
-                    }
-                });
-
-                const mad = sumAbsError / n;
-                tempResults.push({
-                    name: store.name,
-                    mape: (sumAbsPercError / n) * 100,
-                    rmse: Math.sqrt(sumSqError / n),
-                    bias: sumError / n,
-                    trackingSignal: mad !== 0 ? sumError / mad : 0,
-                    actuals: testRaw,
-                    forecasts,
-                    dates: testDates,
-                    trainingK: result.params.k,
-                    trainingL: result.params.L,
-                    trainingMode: result.fit.mode
-                });
-            } catch (e) {
-                console.warn(`Backtest failed for ${store.name}:`, e);
-            }
+        const trainedStores: StoreData[] = [];
+        const controller = new AbortController();
+        abortRef.current = controller;
+
+        try {
+            // 1. Split Data: Last N months as Test set, rest as Training set (training cut = each store's own "now")
+            const tasks: AnalysisTask[] = eligibleStores.map(store => {
+                const trainDates = store.dates.slice(0, -testPeriod);
+                return {
+                    name: store.name, raw: store.raw.slice(0, -testPeriod), dates: trainDates,
+                    block: store.block, region: store.region, prefecture: store.prefecture, closures: store.calendar?.closures,
+                    drivers: store.drivers && Object.fromEntries(store.drivers.map(d => [d.variable, d.values])),
+                    maskOverrides: store.maskOverrides, capacity: store.capacity, missingMonths: store.missingMonths,
+                    maxDate: new Date(trainDates[trainDates.length - 1].replace(/\//g, '-'))
+                };
+            });
+
+            // 2. Train Models on Training Sets (worker pool; store backtest = first 80%), young stores with priors from the training fits
+            const trained = await runTieredBatch(tasks, {
+                globalMaxDate: new Date(), signal: controller.signal, engine: resolveEngineConfig(dataType),
+                onProgress: (done, total) => setProgress(Math.round((done / total) * 80))
+            });
+
+            eligibleStores.forEach((store, i) => {
+                const result = trained[i];
+                if (!result || result.error) return;
+                trainedStores.push(result);
+                const testRaw = store.raw.slice(-testPeriod);
+                const testDates = store.dates.slice(-testPeriod);
+                try {
+                    // 3. Forecast the "Future" (The hidden N months)
+                    const forecasts: number[] = [];
+                    let sumAbsPercError = 0;
+                    let sumSqError = 0;
+                    let sumError = 0;
+                    let sumAbsError = 0; 
+                    const n = testDates.length;
 
-            // Update progress every 10 stores
-            if (i % 10 === 0 || i === total - 1) {
-                setProgress(Math.round(((i + 1) / total) * 100));
-                await new Promise(r => setTimeout(r, 0));
+                    testDates.forEach((_, idx) => {
+                        // Trend, seasonality and the nudge fading at the decay estimated on the training window
+                        const pred = curveForecastAt(result, idx + 1);
+                        const actual = testRaw[idx];
+                        forecasts.push(Math.round(pred));
+
+                        if (actual > 0) {
+                            const err = actual - pred;
+                            sumError += err;
+                            sumAbsError += Math.abs(err);
+                            sumSqError += err * err;
+                            sumAbsPercError += Math.abs(err / actual);
+                        }
+                    });
+
+                    const mad = sumAbsError / n;
+                    tempResults.push({
+                        name: store.name,
+                        mape: (sumAbsPercError / n) * 100,
+                        rmse: Math.sqrt(sumSqError / n),
+                        bias: sumError / n,
+                        trackingSignal: mad !== 0 ? sumError / mad : 0,
+                        actuals: testRaw,
+                        forecasts,
+                        dates: testDates,
+                        trainingK: result.params.k,
+                        trainingL: result.params.L,
+                        trainingMode: result.fit.mode,
+                        trainingConvergence: result.fit.convergence,
+                        poorlyConverged: result.fit.convergence?.converged === false || store.fit.convergence?.converged === false
+                    });
+                } catch (e) {
+                    console.warn(`Backtest failed for ${store.name}:`, e);
+                }
+            });
+
+            // Hierarchy backtest: forecast every level from the same training cut and reconcile
+            if (trainedStores.length > 0) {
+                try {
+                    const prep = await prepareHierarchy(trainedStores, testPeriod, (pct) => setProgress(80 + Math.round(pct * 0.2)), controller.signal);
+                    setLevelAccuracy(RECONCILIATION_METHODS.flatMap(m => scoreHierarchy(reconcileHierarchy(prep, m.id), allStores)));
+                } catch (e) {
+                    if (isAbortError(e)) throw e;
+                    console.warn('Hierarchy backtest failed:', e);
+                }
             }
+        } catch (e) {
+            abortRef.current = null;
+            setIsProcessing(false);
+            setProgress(0);
+            if (!isAbortError(e)) console.warn('Backtest failed:', e);
+            return;
         }
+        abortRef.current = null;
 
         // Sort by accuracy (MAPE asc)
         tempResults.sort((a, b) => a.mape - b.mape);
@@ -136,6 +188,34 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
         if (tempResults.length > 0) setSelectedStoreName(tempResults[0].name);
     };
 
+    const runRollingCv = async () => {
+        setIsProcessing(true);
+        setProgress(0);
+        setCvSummary(null);
+        const controller = new AbortController();
+        abortRef.current = controller;
+        const eligibleStores = (Object.values(allStores) as StoreData[]).filter(s => s.isActive && !s.error && s.raw.length >= CV_MIN_LENGTH);
+        try {
+            setCvSummary(await runRollingOriginCv(eligibleStores, cvOrigins, setProgress, controller.signal, resolveEngineConfig(dataType)));
+        } catch (e) {
+            if (!isAbortError(e)) console.warn('Rolling-origin CV failed:', e);
+            setProgress(0);
+        }
+        abortRef.current = null;
+        setIsProcessing(false);
+    };
+
+    const overallSkill = cvSummary ? cvSkill({ metrics: cvSummary.overall }) : NaN;
+
+    const cvHorizonData = useMemo(() => {
+        if (!cvSummary) return [];
+        return cvSummary.byHorizon.map(g => ({
+            h: `${g.h}M`,
+            ...Object.fromEntries(CV_METHODS.map(m => [m, Number.isFinite(g.metrics[m].mase) ? Number(g.metrics[m].mase.toFixed(3)) : null])),
+            coverage: g.metrics.engine.coverage !== undefined ? Number(g.metrics.engine.coverage.toFixed(1)) : null
+        }));
+    }, [cvSummary]);
+
     const filteredResults = useMemo(() => {
         return results.filter(r => r.name.toLowerCase().includes(searchTerm.toLowerCase()));
     }, [results, searchTerm]);
@@ -155,6 +235,17 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
         return { avgMape, medianMape, goodRate, totalBias };
     }, [results]);
 
+    const poorlyConvergedCount = useMemo(() => results.filter(r => r.poorlyConverged).length, [results]);
+
+    // level -> method -> accuracy
+    const levelAccuracyTable = useMemo(() => {
+        return HIERARCHY_LEVELS.map(level => {
+            const row = levelAccuracy.filter(a => a.level === level);
+            const best = row.length > 0 ? Math.min(...row.map(a => a.mape)) : 0;
+            return { level, nodes: row[0]?.nodes || 0, best, byMethod: Object.fromEntries(row.map(a => [a.method, a])) as Record<string, HierarchyAccuracy> };
+        }).filter(r => r.nodes > 0);
+    }, [levelAccuracy]);
+
     const mapeDistData = useMemo(() => {
         if (results.length === 0) return [];
         const buckets = Array(10).fill(0); // 0-5, 5-10, ... 45-50+
@@ -188,9 +279,38 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                             モデル精度検証 (Backtest Strategy)
                             <HelpTooltip title="バックテスト" content={`過去${testPeriod}ヶ月のデータを「未知のもの」として隠し、それ以前のデータだけでモデルを学習させます。その後、隠していた${testPeriod}ヶ月間を予測し、実際の実績と照らし合わせることで、AIモデルの『真の予測力』を測定します。`} />
                         </h2>
-                        <p className="text-xs text-gray-500 font-bold mt-1">検証条件: 過去{testPeriod}ヶ月ブラインドテスト / 永続ナッジ適用(Decay=1.0)</p>
+                        <p className="text-xs text-gray-500 font-bold mt-1">
+                            {validationMode === 'single'
+                                ? `検証条件: 過去${testPeriod}ヶ月ブラインドテスト / 適応ナッジ適用(Decay=AR(1)推定)`
+                                : `検証条件: ローリング起点 ${cvOrigins}時点 × 予測ホライズン1〜12ヶ月 / ベースライン比較(季節ナイーブ・移動平均)`}
+                        </p>
                     </div>
                     <div className="flex flex-col items-end gap-3">
+                        <div className="flex bg-slate-100 p-1 rounded-xl">
+                            {([['single', '単一分割'], ['rolling', 'ローリング検証']] as const).map(([id, label]) => (
+                                <button
+                                    key={id}
+                                    onClick={() => setValidationMode(id)}
+                                    disabled={isProcessing}
+                                    className={`px-4 py-2 rounded-lg text-xs font-black transition-all ${validationMode === id ? 'bg-[#0F2540] text-white shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                                >
+                                    {label}
+                                </button>
+                            ))}
+                        </div>
+                        {validationMode === 'rolling' ? (
+                        <div className="flex bg-slate-100 p-1 rounded-xl">
+                            {[3, 6, 9].map((n) => (
+                                <button
+                                    key={n}
+                                    onClick={() => setCvOrigins(n)}
+                                    className={`px-4 py-2 rounded-lg text-xs font-black transition-all ${cvOrigins === n ? 'bg-white text-[#0F2540] shadow-sm' : 'text-gray-400 hover:text-gray-600'}`}
+                                >
+                                    起点{n}
+                                </button>
+                            ))}
+                        </div>
+                        ) : (
                         <div className="flex bg-slate-100 p-1 rounded-xl">
                             {[1, 3, 6, 12].map((m) => (
                                 <button
@@ -202,19 +322,120 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                 </button>
                             ))}
                         </div>
+                        )}
                         <button 
-                            onClick={runBacktest} 
+                            onClick={validationMode === 'rolling' ? runRollingCv : runBacktest} 
                             disabled={isProcessing}
                             className={`px-10 py-3 rounded-xl font-black text-xs uppercase tracking-widest shadow-xl transition-all transform active:scale-95 flex items-center gap-3 ${isProcessing ? 'bg-gray-200 text-gray-400 cursor-not-allowed' : 'bg-[#0F2540] text-white hover:bg-[#1e3a8a]'}`}
                         >
                             {isProcessing ? (
                                 <><svg className="animate-spin h-4 w-4" viewBox="0 0 24 24"><circle className="opacity-25" cx="12" cy="12" r="10" stroke="currentColor" strokeWidth="4"></circle><path className="opacity-75" fill="currentColor" d="M4 12a8 8 0 018-8V0C5.373 0 0 5.373 0 12h4zm2 5.291A7.962 7.962 0 014 12H0c0 3.042 1.135 5.824 3 7.938l3-2.647z"></path></svg> 検証中... {progress}%</>
-                            ) : 'バックテストを実行'}
+                            ) : validationMode === 'rolling' ? 'ローリング検証を実行' : 'バックテストを実行'}
                         </button>
+                        {isProcessing && (
+                            <button onClick={() => abortRef.current?.abort()} className="text-[10px] font-black text-gray-400 hover:text-red-500 uppercase tracking-widest transition-colors">
+                                中止 (Cancel)
+                            </button>
+                        )}
                     </div>
                 </div>
 
-                {results.length > 0 ? (
+                {validationMode === 'rolling' && cvSummary ? (
+                    <div className="flex flex-col gap-6 pb-10">
+                        {/* CV KPIs */}
+                        <div className="grid grid-cols-2 md:grid-cols-5 gap-4">
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+                                <p className="text-[10px] text-gray-400 font-black uppercase mb-1">MASE (AIエンジン)</p>
+                                <p className="text-3xl font-black text-[#0F2540] font-display">{formatMase(cvSummary.overall.engine.mase)}</p>
+                                <p className="text-[9px] text-gray-400 font-bold mt-1">季節ナイーブ {formatMase(cvSummary.overall.snaive.mase)} / 移動平均 {formatMase(cvSummary.overall.ma.mase)}</p>
+                            </div>
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+                                <p className="text-[10px] text-gray-400 font-black uppercase mb-1">スキル (対 季節ナイーブ)</p>
+                                <p className={`text-3xl font-black font-display ${!Number.isFinite(overallSkill) ? 'text-gray-300' : overallSkill >= 0 ? 'text-green-500' : 'text-red-500'}`}>
+                                    {Number.isFinite(overallSkill) ? `${overallSkill >= 0 ? '+' : ''}${(overallSkill * 100).toFixed(1)}%` : '–'}
+                                </p>
+                            </div>
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+                                <p className="text-[10px] text-gray-400 font-black uppercase mb-1">sMAPE</p>
+                                <p className="text-3xl font-black text-gray-800 font-display">{cvSummary.overall.engine.smape.toFixed(1)}%</p>
+                            </div>
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+                                <p className="text-[10px] text-gray-400 font-black uppercase mb-1">バイアス (Bias)</p>
+                                <p className={`text-3xl font-black font-display ${cvSummary.overall.engine.bias > 0 ? 'text-blue-500' : 'text-red-500'}`}>
+                                    {cvSummary.overall.engine.bias > 0 ? '+' : ''}{cvSummary.overall.engine.bias.toFixed(1)}%
+                                </p>
+                            </div>
+                            <div className="bg-white p-5 rounded-2xl shadow-sm border border-gray-100 text-center">
+                                <p className="text-[10px] text-gray-400 font-black uppercase mb-1">90%区間 カバー率</p>
+                                <p className={`text-3xl font-black font-display ${Math.abs((cvSummary.overall.engine.coverage ?? 0) - 90) <= 5 ? 'text-green-500' : 'text-orange-500'}`}>
+                                    {cvSummary.overall.engine.coverage !== undefined ? `${cvSummary.overall.engine.coverage.toFixed(1)}%` : '-'}
+                                </p>
+                                <p className="text-[9px] text-gray-400 font-bold mt-1">{cvSummary.stores}店舗 / {cvSummary.overall.engine.n.toLocaleString()}予測</p>
+                            </div>
+                        </div>
+
+                        {/* MASE by horizon */}
+                        <div className="bg-white p-6 rounded-3xl shadow-sm border border-gray-100 h-[340px] flex flex-col">
+                            <h3 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 font-display flex items-center gap-2">
+                                ホライズン別 MASE
+                                <HelpTooltip title="MASE" content="予測誤差を「学習期間で前年同月をそのまま予測した場合の平均誤差」で割った値です。1.0未満なら前年同月並み以上の精度、ベースラインの線より下にあるホライズンでAIエンジンが付加価値を出しています。" />
+                            </h3>
+                            <div className="flex-1">
+                                <ResponsiveContainer width="100%" height="100%">
+                                    <LineChart data={cvHorizonData} margin={{ top: 5, right: 10, left: 0, bottom: 0 }}>
+                                        <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
+                                        <XAxis dataKey="h" tick={{fontSize:9}} />
+                                        <YAxis tick={{fontSize:9}} />
+                                        <Tooltip />
+                                        <Legend wrapperStyle={{fontSize:9}} />
+                                        <ReferenceLine y={1} stroke="#cbd5e1" strokeDasharray="3 3" />
+                                        {CV_METHODS.map(m => (
+                                            <Line key={m} type="monotone" dataKey={m} name={CV_METHOD_LABELS[m]} stroke={CV_METHOD_COLORS[m]} strokeWidth={m === 'engine' ? 3 : 2} strokeDasharray={m === 'engine' ? undefined : '5 5'} dot={m === 'engine' ? {r:3} : false} />
+                                        ))}
+                                    </LineChart>
+                                </ResponsiveContainer>
+                            </div>
+                        </div>
+
+                        {/* Breakdowns */}
+                        <div className="grid grid-cols-1 xl:grid-cols-3 gap-6">
+                            {([['モデル種別 (fit.mode)', cvSummary.byMode], ['店齢 (学習期間)', cvSummary.byAge], ['地方', cvSummary.byRegion]] as [string, CvGroup[]][]).map(([title, groups]) => (
+                                <div key={title} className="bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden">
+                                    <div className="p-4 bg-gray-50 border-b border-gray-100">
+                                        <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">{title}</h3>
+                                    </div>
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-[10px] text-gray-400 font-black uppercase">
+                                                <th className="text-left px-4 py-2">区分</th>
+                                                <th className="text-right px-2 py-2">MASE</th>
+                                                <th className="text-right px-2 py-2">ナイーブ</th>
+                                                <th className="text-right px-2 py-2">スキル</th>
+                                                <th className="text-right px-2 py-2">Bias</th>
+                                                <th className="text-right px-4 py-2">Cover</th>
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-50">
+                                            {groups.map(g => {
+                                                const skill = cvSkill(g);
+                                                return (
+                                                    <tr key={g.key}>
+                                                        <td className="px-4 py-2 font-bold text-gray-600">{g.key} <span className="text-[9px] text-gray-300 ml-1">({g.metrics.engine.n})</span></td>
+                                                        <td className="text-right px-2 py-2 font-mono text-gray-700">{formatMase(g.metrics.engine.mase)}</td>
+                                                        <td className="text-right px-2 py-2 font-mono text-gray-400">{formatMase(g.metrics.snaive.mase)}</td>
+                                                        <td className={`text-right px-2 py-2 font-mono font-black ${skill >= 0 ? 'text-green-600' : 'text-red-500'}`}>{Number.isFinite(skill) ? `${(skill * 100).toFixed(0)}%` : '–'}</td>
+                                                        <td className="text-right px-2 py-2 font-mono text-gray-500">{g.metrics.engine.bias.toFixed(1)}%</td>
+                                                        <td className="text-right px-4 py-2 font-mono text-gray-500">{g.metrics.engine.coverage !== undefined ? `${g.metrics.engine.coverage.toFixed(0)}%` : '-'}</td>
+                                                    </tr>
+                                                );
+                                            })}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            ))}
+                        </div>
+                    </div>
+                ) : validationMode === 'single' && results.length > 0 ? (
                     <div className="flex flex-col lg:flex-row gap-6 flex-1 min-h-0">
                         
                         {/* Left Sidebar: Results List */}
@@ -228,7 +449,7 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                     className="w-full px-4 py-2 bg-gray-50 border-none rounded-xl text-xs font-bold outline-none focus:ring-2 focus:ring-[#0F2540]"
                                 />
                                 <div className="flex justify-between mt-3 text-[10px] font-black text-gray-400 uppercase tracking-widest px-1">
-                                    <span>店舗名 ({filteredResults.length})</span>
+                                    <span>店舗名 ({filteredResults.length}){poorlyConvergedCount > 0 && <span className="text-amber-500 normal-case ml-1">⚠ 収束不良 {poorlyConvergedCount}</span>}</span>
                                     <span>MAPE (精度)</span>
                                 </div>
                             </div>
@@ -239,7 +460,10 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                         onClick={() => setSelectedStoreName(r.name)}
                                         className={`w-full flex justify-between items-center px-4 py-3 rounded-xl transition-all ${selectedStoreName === r.name ? 'bg-blue-50 text-[#0F2540] shadow-sm border-l-4 border-[#0F2540]' : 'hover:bg-gray-50 text-gray-600'}`}
                                     >
-                                        <span className="text-xs font-bold truncate pr-2">{r.name}</span>
+                                        <span className="text-xs font-bold truncate pr-2">
+                                            {r.poorlyConverged && <span className="text-amber-500 mr-1" title="最適化が収束していません（反復上限で停止）">⚠</span>}
+                                            {r.name}
+                                        </span>
                                         <span className={`text-xs font-black ${r.mape < 10 ? 'text-green-500' : r.mape > 20 ? 'text-red-500' : 'text-orange-500'}`}>
                                             {r.mape.toFixed(1)}%
                                         </span>
@@ -273,6 +497,40 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                 </div>
                             </div>
 
+                            {/* Hierarchy Accuracy (per level x reconciliation method) */}
+                            {levelAccuracyTable.length > 0 && (
+                                <div className="bg-white rounded-3xl shadow-sm border border-gray-100 overflow-hidden flex-shrink-0">
+                                    <div className="p-4 bg-gray-50 border-b border-gray-100 flex items-center gap-2">
+                                        <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">階層別精度 (Hierarchy Backtest / MAPE)</h3>
+                                        <HelpTooltip title="階層整合" content="全社・地方・都道府県・ブロックの合計も直接予測し、店舗予測と足し算が合うように整合させた結果の精度です。個別予測は整合前（合計が一致しない）、MinTは各階層の予測誤差の分散で重み付けした整合です。セル下段はWAPE（誤差総額/実績総額）。" />
+                                    </div>
+                                    <table className="w-full text-xs">
+                                        <thead>
+                                            <tr className="text-[10px] text-gray-400 font-black uppercase">
+                                                <th className="text-left px-6 py-3">階層</th>
+                                                {RECONCILIATION_METHODS.map(m => <th key={m.id} className="text-right px-4 py-3">{m.label}</th>)}
+                                            </tr>
+                                        </thead>
+                                        <tbody className="divide-y divide-gray-50">
+                                            {levelAccuracyTable.map(row => (
+                                                <tr key={row.level}>
+                                                    <td className="px-6 py-3 font-bold text-gray-600">{LEVEL_LABELS[row.level]} <span className="text-[10px] text-gray-300 ml-1">({row.nodes})</span></td>
+                                                    {RECONCILIATION_METHODS.map(m => {
+                                                        const a = row.byMethod[m.id];
+                                                        return (
+                                                            <td key={m.id} className={`text-right px-4 py-3 font-mono ${a && a.mape === row.best ? 'text-green-600 font-black' : 'text-gray-600'}`}>
+                                                                {a ? `${a.mape.toFixed(1)}%` : '-'}
+                                                                {a && <span className="block text-[9px] text-gray-300">{a.wape.toFixed(1)}%</span>}
+                                                            </td>
+                                                        );
+                                                    })}
+                                                </tr>
+                                            ))}
+                                        </tbody>
+                                    </table>
+                                </div>
+                            )}
+
                             {/* Charts Grid */}
                             <div className="grid grid-cols-1 lg:grid-cols-2 gap-6 flex-shrink-0">
                                 {/* Error Distribution */}
@@ -322,7 +580,7 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                     <div className="p-4 bg-gray-50 border-b border-gray-100">
                                         <h3 className="text-[10px] font-black text-gray-400 uppercase tracking-widest">Statistical Accuracy Report: {selectedStore.name}</h3>
                                     </div>
-                                    <div className="grid grid-cols-2 md:grid-cols-4 divide-x divide-gray-100">
+                                    <div className="grid grid-cols-2 md:grid-cols-5 divide-x divide-gray-100">
                                         <div className="p-6">
                                             <p className="text-[9px] text-gray-400 font-black uppercase mb-1">RMSE (標準誤差)</p>
                                             <p className="text-xl font-black text-gray-800 font-display">{Math.round(selectedStore.rmse).toLocaleString()}</p>
@@ -343,6 +601,15 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                             <p className="text-[9px] text-gray-400 font-black uppercase mb-1">Training k-Factor</p>
                                             <p className="text-xl font-black text-orange-500 font-display">{selectedStore.trainingK.toFixed(3)}</p>
                                         </div>
+                                        <div className="p-6">
+                                            <p className="text-[9px] text-gray-400 font-black uppercase mb-1">Optimizer (収束)</p>
+                                            <p className={`text-xl font-black font-display ${selectedStore.poorlyConverged ? 'text-amber-500' : 'text-green-500'}`}>
+                                                {selectedStore.poorlyConverged ? '収束不良' : '収束'}
+                                            </p>
+                                            {selectedStore.trainingConvergence && (
+                                                <p className="text-[9px] text-gray-400 font-bold mt-1">{selectedStore.trainingConvergence.iterations.toLocaleString()} iter / {selectedStore.trainingConvergence.restarts} restarts</p>
+                                            )}
+                                        </div>
                                     </div>
                                 </div>
                             )}
@@ -360,12 +627,12 @@ const ModelValidationView: React.FC<ModelValidationViewProps> = ({ allStores, da
                                      </svg>
                                      <span className="absolute text-lg font-black text-[#0F2540]">{progress}%</span>
                                  </div>
-                                 <p className="text-sm">大規模バックテストを実行中...</p>
+                                 <p className="text-sm">{validationMode === 'rolling' ? 'ローリング検証を実行中...' : '大規模バックテストを実行中...'}</p>
                              </div>
                         ) : (
                             <div className="text-center space-y-4">
                                 <svg className="w-16 h-16 mx-auto mb-2 text-gray-100" fill="none" stroke="currentColor" viewBox="0 0 24 24"><path strokeLinecap="round" strokeLinejoin="round" strokeWidth="2" d="M9 17v-2m3 2v-4m3 2v-6m-8 13h11a2 2 0 002-2V5a2 2 0 00-2-2H5a2 2 0 00-2 2v11a2 2 0 002 2z"></path></svg>
-                                <p className="text-xs">検証期間を選択し、ボタンを押して予測モデルの精度を検証してください</p>
+                                <p className="text-xs">{validationMode === 'rolling' ? `起点数を選択し、ボタンを押してください（${CV_MIN_LENGTH}ヶ月以上の店舗が対象）` : '検証期間を選択し、ボタンを押して予測モデルの精度を検証してください'}</p>
                             </div>
                         )}
                     </div>
@@ -1,8 +1,10 @@
 
 import React, { useState, useMemo, useCallback } from 'react';
-import { StoreData } from '../types';
+import { StoreData, ReconciliationMethod, HierarchyForecast } from '../types';
 import HelpTooltip from './HelpTooltip';
-import { calculatePearsonCorrelation, logisticModel } from '../services/analysisEngine';
+import ForecastMethodToggle from './ForecastMethodToggle';
+import { calculatePearsonCorrelation } from '../services/analysisEngine';
+import { hierarchyForecastDates, storeForecastLookup } from '../services/reconciliation';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
     ScatterChart, Scatter, ZAxis, Legend, Cell, ReferenceLine, PieChart, Pie, LineChart, Line, ComposedChart, AreaChart, Area
@@ -11,6 +13,10 @@ import {
 interface RegionalAnalysisDetailViewProps {
     allStores: { [name: string]: StoreData };
     dataType: 'sales' | 'customers';
+    forecastMethod: ReconciliationMethod | 'sum';
+    setForecastMethod: (method: ReconciliationMethod | 'sum') => void;
+    reconciled: HierarchyForecast | null;
+    isReconciling: boolean;
 }
 
 type AnalysisLevel = 'region' | 'prefecture' | 'block';
@@ -26,7 +32,7 @@ const calculateGini = (values: number[]) => {
     return den === 0 ? 0 : (2 * num) / den - (n + 1) / n;
 };
 
-const RegionalAnalysisDetailView: React.FC<RegionalAnalysisDetailViewProps> = ({ allStores, dataType }) => {
+const RegionalAnalysisDetailView: React.FC<RegionalAnalysisDetailViewProps> = ({ allStores, dataType, forecastMethod, setForecastMethod, reconciled, isReconciling }) => {
     const [level, setLevel] = useState<AnalysisLevel>('region');
     const [selectedValue, setSelectedValue] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState("");
@@ -80,7 +86,7 @@ const RegionalAnalysisDetailView: React.FC<RegionalAnalysisDetailViewProps> = ({
         const areaEfficiency = totalL > 0 ? (totalLastYear / 12) / totalL * 100 : 0;
 
         const abc = { A: 0, B: 0, C: 0 };
-        const modes = { standard: 0, shift: 0, dual_shift: 0, recovery: 0, startup: 0 };
+        const modes = { standard: 0, shift: 0, recovery: 0, startup: 0, gompertz: 0, richards: 0, damped: 0 };
         storesInScope.forEach(s => { 
             if(s.stats?.abcRank) abc[s.stats.abcRank]++;
             if(s.fit.mode) modes[s.fit.mode]++;
@@ -106,23 +112,21 @@ const RegionalAnalysisDetailView: React.FC<RegionalAnalysisDetailViewProps> = ({
         storesInScope.forEach(s => s.seasonal.forEach((v, i) => areaSeasonality[i] += v));
         const avgSeasonality = areaSeasonality.map(v => v / count);
 
-        // Future Forecast Aggregate (3 Year)
-        const forecastDates = [];
+        // Future Forecast Aggregate (3 Year): the same months and store forecasts as the hierarchy, so the
+        // plain sum equals bottom-up and a reconciled method gives the area's reconciled total
         const forecastValues = [];
-        let totalForecastY1 = 0;
         const lastYearTotal = totalLastYear;
+        const storeForecast = storeForecastLookup(reconciled);
+        const forecastDates = hierarchyForecastDates(Object.values(allStores) as StoreData[], 36);
 
-        for (let t = 1; t <= 36; t++) {
+        forecastDates.forEach((key, i) => {
             let monthSum = 0;
             storesInScope.forEach(s => {
-                const tr = logisticModel(s.raw.length + t - 1, s.fit.params, s.fit.mode, s.fit.shockIdx);
-                const sIdx = (new Date().getMonth() + t) % 12;
-                monthSum += tr * (s.seasonal[sIdx] || 1.0);
+                if (!s.error && s.raw.length > 0) monthSum += storeForecast(s, key);
             });
-            forecastValues.push({ t, val: monthSum });
-            if (t <= 12) totalForecastY1 += monthSum;
-        }
-        const cagr3y = (Math.pow((forecastValues[35].val * 12) / lastYearTotal, 1/3) - 1) * 100;
+            forecastValues.push({ t: i + 1, val: monthSum });
+        });
+        const cagr3y = forecastValues.length > 0 ? (Math.pow((forecastValues[forecastValues.length - 1].val * 12) / lastYearTotal, 1/3) - 1) * 100 : 0;
 
         // Area Z-Chart (MAT)
         const datesSet = new Set<string>();
@@ -153,7 +157,7 @@ const RegionalAnalysisDetailView: React.FC<RegionalAnalysisDetailViewProps> = ({
             count, totalLastYear, totalPrevYear, yoy, avgK, avgL, avgAge, avgCV, areaEfficiency, areaCohesion, gini, cagr3y,
             abc, modes, zChartData, avgSeasonality, matrix, topStoreNames: top5.map(s=>s.name), forecastValues
         };
-    }, [storesInScope]);
+    }, [storesInScope, allStores, reconciled]);
 
     const internalRankingData = useMemo(() => {
         return [...storesInScope].sort((a, b) => (b.stats?.lastYearSales || 0) - (a.stats?.lastYearSales || 0));
@@ -442,9 +446,11 @@ const RegionalAnalysisDetailView: React.FC<RegionalAnalysisDetailViewProps> = ({
                             <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-6 h-[400px] flex flex-col">
                                 <h4 className="text-xs font-black text-gray-400 uppercase tracking-widest mb-4 font-display flex items-center gap-2">
                                     9. エリア将来予測ファンチャート
-                                    <HelpTooltip title="将来予測" content="エリア内全店舗のロジスティック回帰モデルを統合。今後3年間のエリア総売上の予測軌道。" />
+                                    <HelpTooltip title="将来予測" content="エリア内全店舗のロジスティック回帰モデルを統合。今後3年間のエリア総売上の予測軌道。Top-down/OLS/MinTを選ぶと、エリア合計も直接予測したうえで全社〜店舗の全階層の足し算が合うように整合させた値を表示します。" />
+                                    <ForecastMethodToggle value={forecastMethod} onChange={setForecastMethod} className="ml-auto" />
                                 </h4>
-                                <div className="flex-1">
+                                <div className="flex-1 relative">
+                                    {isReconciling && <div className="absolute inset-0 z-10 flex items-center justify-center bg-white/70 text-[10px] font-black text-gray-400">階層予測を計算中...</div>}
                                     <ResponsiveContainer width="100%" height="100%">
                                         <AreaChart data={metrics.forecastValues}>
                                             <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f1f5f9" />
@@ -1,9 +1,11 @@
 
 import React, { useState, useMemo } from 'react';
-import { StoreData } from '../types';
+import { StoreData, ReconciliationMethod, HierarchyForecast } from '../types';
 import { GoogleGenAI } from "@google/genai";
 import { marked } from 'marked';
 import HelpTooltip from './HelpTooltip';
+import ForecastMethodToggle from './ForecastMethodToggle';
+import { hierarchyForecastDates, storeForecastLookup } from '../services/reconciliation';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
     Cell, ComposedChart, Line, ScatterChart, Scatter, ReferenceLine, 
@@ -13,10 +15,14 @@ import {
 interface RegionalStrategyViewProps {
     allStores: { [name: string]: StoreData };
     dataType: 'sales' | 'customers';
+    forecastMethod: ReconciliationMethod | 'sum';
+    setForecastMethod: (method: ReconciliationMethod | 'sum') => void;
+    reconciled: HierarchyForecast | null;
+    isReconciling: boolean;
 }
 
 type ScopeType = 'region' | 'prefecture' | 'block';
-type SortField = 'name' | 'sales' | 'budget' | 'achievement' | 'diff' | 'yoy' | 'efficiency' | 'lUtil' | 'gini';
+type SortField = 'name' | 'sales' | 'budget' | 'achievement' | 'diff' | 'yoy' | 'forecast' | 'efficiency' | 'lUtil' | 'gini';
 type SortOrder = 'asc' | 'desc';
 
 // --- Helper Functions ---
@@ -30,7 +36,7 @@ const calculateGini = (values: number[]) => {
     return den === 0 ? 0 : (2 * num) / den - (n + 1) / n;
 };
 
-const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores, dataType }) => {
+const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores, dataType, forecastMethod, setForecastMethod, reconciled, isReconciling }) => {
     // --- State ---
     const [scope, setScope] = useState<ScopeType>('region');
     const [sortField, setSortField] = useState<SortField>('achievement');
@@ -71,6 +77,10 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
             curr.setMonth(curr.getMonth() + 1);
         }
 
+        // Next 12 months after the latest month, added up with the app's forecast method
+        const storeForecast = storeForecastLookup(reconciled);
+        const forecastDates = hierarchyForecastDates(stores, 12);
+
         // 2. Aggregate by Scope
         const groups = new Map<string, any>();
         let totalSales = 0;
@@ -92,6 +102,7 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
                     budget: 0,
                     prevYear: 0,
                     L: 0,
+                    forecast: 0,
                     storeValues: [] as number[],
                     riskyCount: 0
                 });
@@ -123,6 +134,7 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
             g.budget += sBudget;
             g.prevYear += sPrev;
             g.L += s.params.L; // Monthly L capacity
+            if (s.raw.length > 0) forecastDates.forEach(m => { g.forecast += storeForecast(s, m); });
             g.storeValues.push(sSales); // For Gini
 
             // Risk check (YoY < 95%)
@@ -171,7 +183,7 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
                 activeStores: stores.length
             }
         };
-    }, [allStores, scope, sortField, sortOrder, isSales]);
+    }, [allStores, scope, sortField, sortOrder, isSales, reconciled]);
 
     // --- AI Insight ---
     const handleGenerateAI = async () => {
@@ -440,6 +452,10 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
                 <div className="bg-white rounded-[2rem] shadow-sm border border-gray-100 overflow-hidden flex flex-col">
                     <div className="p-6 border-b border-gray-50 flex justify-between items-center bg-gray-50/30">
                         <h3 className="text-sm font-black text-gray-600 uppercase tracking-widest flex items-center gap-2"><i className="fas fa-table"></i> 詳細クロス集計表</h3>
+                        <div className="flex items-center gap-2" title="次12ヶ月予測の合算方法 (Top-down/OLS/MinTは全社〜店舗の階層で整合させた値)">
+                            {isReconciling && <span className="text-[10px] font-black text-gray-400">階層予測を計算中...</span>}
+                            <ForecastMethodToggle value={forecastMethod} onChange={setForecastMethod} />
+                        </div>
                     </div>
                     <div className="overflow-x-auto custom-scrollbar">
                         <table className="min-w-full text-left text-xs whitespace-nowrap">
@@ -451,6 +467,7 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
                                     <th className="p-4 text-right cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('diff'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>差異 (Diff)</th>
                                     <th className="p-4 text-center cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('achievement'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>達成率</th>
                                     <th className="p-4 text-center cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('yoy'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>昨対比</th>
+                                    <th className="p-4 text-right cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('forecast'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>次12ヶ月予測</th>
                                     <th className="p-4 text-right cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('efficiency'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>効率 (Avg)</th>
                                     <th className="p-4 text-center cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('lUtil'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>L消化率</th>
                                     <th className="p-4 text-center cursor-pointer hover:text-[#005EB8]" onClick={() => {setSortField('gini'); setSortOrder(sortOrder==='asc'?'desc':'asc')}}>不平等度 (Gini)</th>
@@ -469,6 +486,7 @@ const RegionalStrategyView: React.FC<RegionalStrategyViewProps> = ({ allStores,
                                             </span>
                                         </td>
                                         <td className={`p-4 text-center ${row.yoy >= 0 ? 'text-green-500' : 'text-red-500'}`}>{row.yoy > 0 ? '+' : ''}{row.yoy.toFixed(1)}%</td>
+                                        <td className="p-4 text-right text-[#005EB8]">{Math.round(row.forecast).toLocaleString()}</td>
                                         <td className="p-4 text-right text-gray-500">{Math.round(row.efficiency).toLocaleString()}</td>
                                         <td className="p-4 text-center text-purple-500">{row.lUtil.toFixed(1)}%</td>
                                         <td className={`p-4 text-center ${row.gini > 0.4 ? 'text-red-500' : 'text-gray-400'}`}>{row.gini.toFixed(3)}</td>
@@ -3,7 +3,8 @@ import React, { useState, useMemo, useCallback } from 'react';
 import { StoreData } from '../types';
 import HelpTooltip from './HelpTooltip';
 import { generateRegionalReport } from '../services/geminiService';
-import { logisticModel, calculatePearsonCorrelation } from '../services/analysisEngine';
+import { calculatePearsonCorrelation } from '../services/analysisEngine';
+import { forecastAt } from '../services/jointForecast';
 import { marked } from 'marked';
 import {
     BarChart, Bar, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer,
@@ -98,7 +99,6 @@ const RegionalView: React.FC<RegionalViewProps> = ({ allStores, dataType }) => {
         const datesSet = new Set<string>();
         (Object.values(allStores) as StoreData[]).forEach(s => s.dates.forEach(d => datesSet.add(d)));
         const sortedDates = Array.from(datesSet).sort((a,b) => new Date(a).getTime() - new Date(b).getTime());
-        const lastDate = sortedDates.length > 0 ? new Date(sortedDates[sortedDates.length-1].replace(/\//g,'-')) : new Date();
         
         const historyLength = 24;
         const trendDates = sortedDates.slice(-historyLength);
@@ -165,13 +165,8 @@ const RegionalView: React.FC<RegionalViewProps> = ({ allStores, dataType }) => {
             });
 
             for (let t = 1; t <= 36; t++) {
-                const futureIdx = s.raw.length + t - 1;
-                const tr = logisticModel(futureIdx, s.fit.params, s.fit.mode, s.fit.shockIdx);
-                const d = new Date(lastDate);
-                d.setMonth(lastDate.getMonth() + t);
-                const sea = s.seasonal[d.getMonth()] || 1.0;
-                const val = Math.max(0, tr * sea); 
-                
+                const val = forecastAt(s, t);
+
                 if (t <= 12) g.forecastY1 += val;
                 else if (t <= 24) g.forecastY2 += val;
                 else g.forecastY3 += val;
@@ -0,0 +1,40 @@
+import React from 'react';
+import { WorkbookSheet } from '../services/workbook';
+
+interface SheetPickerProps {
+    fileName: string;
+    sheets: WorkbookSheet[];
+    onPick: (sheet: WorkbookSheet) => void;
+    onCancel: () => void;
+}
+
+const PREVIEW_ROWS = 3;
+
+const SheetPicker: React.FC<SheetPickerProps> = ({ fileName, sheets, onPick, onCancel }) => (
+    <div className="fixed inset-0 z-50 flex items-center justify-center bg-slate-900/60 backdrop-blur-sm p-4 animate-fadeIn">
+        <div className="bg-white rounded-[2rem] p-8 w-full max-w-3xl shadow-2xl max-h-[90vh] flex flex-col">
+            <h3 className="text-lg font-black text-slate-800 font-display">シートの選択 (Excel)</h3>
+            <p className="text-xs text-gray-400 font-bold mt-1 mb-4">{fileName} — 読み込むシートを選んでください。</p>
+            <div className="flex-1 overflow-y-auto space-y-3">
+                {sheets.map(sheet => (
+                    <button key={sheet.name} onClick={() => onPick(sheet)} className="w-full text-left border border-slate-100 rounded-xl p-4 hover:border-[#005EB8] hover:bg-blue-50/40 transition-all group">
+                        <div className="flex justify-between items-center mb-2">
+                            <span className="text-sm font-black text-slate-700 group-hover:text-[#005EB8]"><i className="fas fa-table mr-2 text-slate-300 group-hover:text-[#005EB8]"></i>{sheet.name}</span>
+                            <span className="text-[10px] font-bold text-slate-400">{sheet.rows.length.toLocaleString()}行 × {Math.max(...sheet.rows.map(r => r.length))}列</span>
+                        </div>
+                        <table className="w-full text-[10px] font-mono text-slate-400">
+                            <tbody>
+                                {sheet.rows.slice(0, PREVIEW_ROWS).map((row, r) => (
+                                    <tr key={r}>{row.slice(0, 8).map((c, i) => <td key={i} className="pr-3 truncate max-w-[120px]">{c}</td>)}</tr>
+                                ))}
+                            </tbody>
+                        </table>
+                    </button>
+                ))}
+            </div>
+            <button onClick={onCancel} className="mt-6 text-xs font-bold text-gray-400 hover:text-gray-600">Cancel</button>
+        </div>
+    </div>
+);
+
+export default SheetPicker;
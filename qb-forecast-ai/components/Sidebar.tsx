@@ -45,6 +45,8 @@ const MENU_ITEMS: MenuConfigItem[] = [
     { id: 'bench', label: '比較ベンチマーク', icon: 'fa-layer-group', access: 'all', isVisible: true, group: 'system' },
     { id: 'validate', label: 'モデル精度検証', icon: 'fa-check-double', access: 'executive', isVisible: true, group: 'system' },
     { id: 'validate_budget', label: '予算精度検証', icon: 'fa-clipboard-check', access: 'executive', isVisible: true, group: 'system' },
+    { id: 'forecast_archive', label: '予測アーカイブ', icon: 'fa-archive', access: 'executive', isVisible: true, group: 'system' },
+    { id: 'engine_config', label: 'エンジン設定', icon: 'fa-sliders-h', access: 'executive', isVisible: true, group: 'system' },
     { id: 'logic', label: 'ロジック仕様書', icon: 'fa-code', access: 'executive', isVisible: true, group: 'system' },
     { id: 'guide', label: '操作ガイド', icon: 'fa-book', access: 'executive', isVisible: true, group: 'system' },
     { id: 'version_history', label: '更新履歴', icon: 'fa-history', access: 'all', isVisible: true, group: 'system' },
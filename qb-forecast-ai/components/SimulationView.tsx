@@ -1,7 +1,10 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { StoreData } from '../types';
+import { StoreData, LocationType } from '../types';
 import HelpTooltip from './HelpTooltip';
+import { forecastNewStore } from '../services/newStoreForecast';
+import { LOCATION_TYPE_LABELS } from '../services/storeMaster';
+import { loadStoreMaster } from '../utils/storage';
 import {
     LineChart, Line, XAxis, YAxis, CartesianGrid, Tooltip, ResponsiveContainer, Legend, ComposedChart, Area,
     Bar, Cell, BarChart, ReferenceLine
@@ -39,6 +42,14 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
     const [graphMode, setGraphMode] = useState<'gross' | 'net'>('net');
     const [refSearchTerm, setRefSearchTerm] = useState("");
     const [initialInvestment, setInitialInvestment] = useState<number>(30000); // 30M (in k unit)
+    const [driverScenario, setDriverScenario] = useState<Record<string, number>>({}); // Planned driver values for the new store
+
+    // Attributes of the planned store for the attribute model (store master supplies location type / chairs of existing stores)
+    const [storeMaster] = useState(() => loadStoreMaster());
+    const [planRegion, setPlanRegion] = useState<string>('');
+    const [planPrefecture, setPlanPrefecture] = useState<string>('');
+    const [planLocation, setPlanLocation] = useState<LocationType | ''>('');
+    const [planChairs, setPlanChairs] = useState<number>(0);
 
     // Scenarios State
     const [params, setParams] = useState<Record<ScenarioType, ScenarioParams>>({
@@ -52,6 +63,24 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
     // Filter valid stores for reference
     const eligibleStores = useMemo(() => (Object.values(allStores) as StoreData[]).filter(s => s.isActive && s.raw.length > 12), [allStores]);
 
+    const attributeOptions = useMemo(() => {
+        const rows = [...(Object.values(allStores) as StoreData[]), ...storeMaster];
+        const uniq = (vals: (string | undefined)[]) => [...new Set(vals.filter((v): v is string => !!v))].sort((a, b) => a.localeCompare(b, 'ja'));
+        return {
+            regions: uniq(rows.map(r => r.region)),
+            prefectures: uniq(rows.filter(r => !planRegion || r.region === planRegion).map(r => r.prefecture))
+        };
+    }, [allStores, storeMaster, planRegion]);
+
+    // Pre-opening forecast from the attribute regressions (independent of the hand-picked reference stores)
+    const aiForecast = useMemo(() => forecastNewStore(Object.values(allStores) as StoreData[], storeMaster, {
+        region: planRegion || undefined,
+        prefecture: planPrefecture || undefined,
+        locationType: planLocation || undefined,
+        chairs: planChairs > 0 ? planChairs : undefined,
+        openDate
+    }), [allStores, storeMaster, planRegion, planPrefecture, planLocation, planChairs, openDate]);
+
     // Calculate Reference Stats (Ghost Lines & Auto-params)
     const refStats = useMemo(() => {
         if (selectedRefStores.length === 0) return null;
@@ -79,7 +108,17 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
             return s.raw.slice(0, maxLen).map((val, i) => ({ month: i, val }));
         });
 
-        return { avgL, avgK, avgBase, stdL, stdK, avgSeasonality, ghostLines };
+        // Driver coefficients fitted on the reference stores (median per variable)
+        const driverMap = new Map<string, { coefs: number[]; bases: number[] }>();
+        targets.forEach(s => s.drivers?.forEach(d => {
+            const e = driverMap.get(d.variable) || { coefs: [], bases: [] };
+            e.coefs.push(d.coef); e.bases.push(d.base);
+            driverMap.set(d.variable, e);
+        }));
+        const median = (arr: number[]) => { const s = [...arr].sort((a, b) => a - b); return s[Math.floor(s.length / 2)]; };
+        const drivers = Array.from(driverMap.entries()).map(([variable, e]) => ({ variable, coef: median(e.coefs), base: median(e.bases), stores: e.coefs.length }));
+
+        return { avgL, avgK, avgBase, stdL, stdK, avgSeasonality, ghostLines, drivers };
     }, [selectedRefStores, allStores]);
 
     // Auto-populate params when refStats change (only if user hasn't manually heavily edited, 
@@ -130,6 +169,13 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
         // Profit Margin Assumption (e.g., 20%)
         const margin = 0.2; 
 
+        // Driver what-if: the reference stores' response to each variable, relative to their latest level
+        let driverFactor = 1;
+        refStats?.drivers.forEach(d => {
+            if (driverScenario[d.variable] !== undefined) driverFactor += d.coef * (driverScenario[d.variable] - d.base);
+        });
+        driverFactor = Math.max(0.05, driverFactor);
+
         for (let t = 0; t < months; t++) {
             const current = new Date(start);
             current.setMonth(start.getMonth() + t);
@@ -154,6 +200,10 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
                 cannibalLoss: Math.round(cannibalLoss) 
             };
 
+            // Attribute-model band (p10-p90) and median
+            const ai = aiForecast?.months[t];
+            if (ai) { row.ai_band = [ai.p10, ai.p90]; row.ai_p50 = ai.p50; }
+
             // Ghost Lines
             if (refStats && refStats.ghostLines) {
                 refStats.ghostLines.forEach((line, idx) => {
@@ -164,7 +214,7 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
             (['conservative', 'standard', 'optimistic'] as const).forEach(scen => {
                 const p = params[scen];
                 const trend = p.base + (p.L / (1 + Math.exp(-p.k * (t - t0))));
-                const sales = Math.round(Math.max(0, trend * sea));
+                const sales = Math.round(Math.max(0, trend * sea * driverFactor));
                 const net = sales - Math.round(cannibalLoss);
 
                 row[scen] = sales;
@@ -194,7 +244,7 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
         }
 
         return { data, summary };
-    }, [params, openDate, cannibalStores, allStores, refStats, initialInvestment, isSales]);
+    }, [params, openDate, cannibalStores, allStores, refStats, initialInvestment, isSales, driverScenario, aiForecast]);
 
 
     // --- Handlers ---
@@ -255,6 +305,74 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
                     {/* LEFT: SETTINGS (5 cols) */}
                     <div className="lg:col-span-5 flex flex-col gap-6">
                         
+                        {/* 0. Attribute Model */}
+                        <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-5">
+                            <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest mb-3 flex justify-between items-center">
+                                <span>0. 属性モデルによる出店予測</span>
+                                <HelpTooltip title="属性モデル (Pre-Opening Forecast)" content="既存店のL・k・初年度立上り率を、エリア・都道府県・立地・席数・開店月で回帰し、出店予定店の予測分布(p10〜p90)を算出します。立地・席数は店舗マスタ(データ読込画面)がある場合のみ使われます。" />
+                            </h3>
+                            <div className="grid grid-cols-2 gap-2 mb-3">
+                                <select value={planRegion} onChange={e => { setPlanRegion(e.target.value); setPlanPrefecture(''); }} className="bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-1 focus:ring-orange-500">
+                                    <option value="">エリア未指定</option>
+                                    {attributeOptions.regions.map(r => <option key={r} value={r}>{r}</option>)}
+                                </select>
+                                <select value={planPrefecture} onChange={e => setPlanPrefecture(e.target.value)} className="bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-1 focus:ring-orange-500">
+                                    <option value="">都道府県未指定</option>
+                                    {attributeOptions.prefectures.map(p => <option key={p} value={p}>{p}</option>)}
+                                </select>
+                                <select value={planLocation} onChange={e => setPlanLocation(e.target.value as LocationType | '')} className="bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-1 focus:ring-orange-500">
+                                    <option value="">立地未指定</option>
+                                    {(Object.keys(LOCATION_TYPE_LABELS) as LocationType[]).map(l => <option key={l} value={l}>{LOCATION_TYPE_LABELS[l]}</option>)}
+                                </select>
+                                <input type="number" min={0} placeholder="席数" value={planChairs || ''} onChange={e => setPlanChairs(Number(e.target.value))} className="bg-gray-50 border border-gray-200 rounded-xl px-3 py-2 text-xs font-bold outline-none focus:ring-1 focus:ring-orange-500" />
+                            </div>
+                            {aiForecast ? (
+                                <>
+                                    <div className="grid grid-cols-3 gap-2 mb-3 text-center">
+                                        <div className="bg-orange-50 rounded-xl p-2">
+                                            <div className="text-[9px] font-black text-orange-400 uppercase">L (潜在規模)</div>
+                                            <div className="text-sm font-black text-orange-700">{Math.round(aiForecast.params.L).toLocaleString()}</div>
+                                        </div>
+                                        <div className="bg-orange-50 rounded-xl p-2">
+                                            <div className="text-[9px] font-black text-orange-400 uppercase">k (立上り)</div>
+                                            <div className="text-sm font-black text-orange-700">{aiForecast.params.k.toFixed(3)}</div>
+                                        </div>
+                                        <div className="bg-orange-50 rounded-xl p-2">
+                                            <div className="text-[9px] font-black text-orange-400 uppercase">初年度立上り率</div>
+                                            <div className="text-sm font-black text-orange-700">{(aiForecast.ramp * 100).toFixed(0)}%</div>
+                                        </div>
+                                    </div>
+                                    <p className="text-[9px] text-gray-400 font-bold mb-2">
+                                        学習: {aiForecast.trainedOn}店 (立上り率 {aiForecast.rampTrainedOn}店) · 説明変数: {aiForecast.features.length > 0 ? aiForecast.features.join(' / ') : '全社平均のみ'}
+                                    </p>
+                                    <div className="text-[10px] font-black text-gray-400 uppercase mb-1">類似既存店 (根拠)</div>
+                                    <div className="space-y-1 mb-3">
+                                        {aiForecast.analogues.map(a => (
+                                            <div key={a.name} className="flex justify-between items-center px-2 py-1 rounded-lg bg-gray-50 text-[10px] font-bold text-gray-600">
+                                                <span className="truncate">{a.name}</span>
+                                                <span className="flex gap-2 text-gray-400 shrink-0">
+                                                    <span>距離 {a.distance.toFixed(2)}</span>
+                                                    <span>L:{Math.round(a.L / 1000)}k</span>
+                                                    <span>k:{a.k.toFixed(2)}</span>
+                                                    {a.firstYearAvg !== undefined && <span>初年度 {Math.round(a.firstYearAvg / valueDivider).toLocaleString()}{displayUnit}/月</span>}
+                                                </span>
+                                            </div>
+                                        ))}
+                                    </div>
+                                    <div className="grid grid-cols-2 gap-2">
+                                        <button onClick={() => setParams(aiForecast.scenarios)} className="py-2 rounded-xl bg-orange-500 hover:bg-orange-600 text-white text-[10px] font-black transition-colors">
+                                            p10/p50/p90をシナリオに反映
+                                        </button>
+                                        <button onClick={() => setSelectedRefStores(aiForecast.analogues.map(a => a.name).filter(n => allStores[n]))} className="py-2 rounded-xl bg-gray-100 hover:bg-gray-200 text-gray-600 text-[10px] font-black transition-colors">
+                                            類似店を参照モデルに設定
+                                        </button>
+                                    </div>
+                                </>
+                            ) : (
+                                <div className="text-center text-[10px] text-gray-400 py-4">成長曲線が推定された既存店が不足しています</div>
+                            )}
+                        </div>
+
                         {/* 1. Reference Selection */}
                         <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-5 flex flex-col h-[320px]">
                             <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest mb-3 flex justify-between items-center">
@@ -352,6 +470,36 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
                             </div>
                         </div>
 
+                        {/* 4. Exogenous Driver Scenario */}
+                        {refStats && refStats.drivers.length > 0 && (
+                            <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-5">
+                                <h3 className="text-xs font-black text-gray-500 uppercase tracking-widest mb-3 flex items-center gap-1">
+                                    4. 外部要因シナリオ
+                                    <HelpTooltip title="外部要因シナリオ" content="参考店舗で推定された価格・販促などの効果(係数の中央値)を使い、新店で想定する値を入力すると全シナリオの売上に反映します。空欄は参考店舗の直近水準と同じ扱いです。" />
+                                </h3>
+                                <div className="space-y-2">
+                                    {refStats.drivers.map(d => (
+                                        <div key={d.variable} className="flex items-center justify-between bg-amber-50 p-2 rounded-lg border border-amber-100">
+                                            <div>
+                                                <div className="text-[10px] font-black text-amber-800">{d.variable}</div>
+                                                <div className="text-[9px] text-amber-500 font-bold">{(d.coef * 100).toFixed(2)}%/単位 · 直近 {d.base.toLocaleString()} ({d.stores}店)</div>
+                                            </div>
+                                            <input
+                                                type="number" placeholder={String(d.base)}
+                                                value={driverScenario[d.variable] ?? ''}
+                                                onChange={e => setDriverScenario(prev => {
+                                                    const next = { ...prev };
+                                                    if (e.target.value === '') delete next[d.variable]; else next[d.variable] = Number(e.target.value);
+                                                    return next;
+                                                })}
+                                                className="w-20 bg-white border border-amber-200 rounded text-center text-xs font-black text-amber-700 outline-none"
+                                            />
+                                        </div>
+                                    ))}
+                                </div>
+                            </div>
+                        )}
+
                     </div>
 
                     {/* RIGHT: RESULTS (7 cols) */}
@@ -425,7 +573,7 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
                                         <CartesianGrid strokeDasharray="3 3" vertical={false} stroke="#f3f4f6" />
                                         <XAxis dataKey="month" tick={{fontSize: 9}} minTickGap={30} />
                                         <YAxis tick={{fontSize: 9}} />
-                                        <Tooltip formatter={(v:number)=>Math.round(v).toLocaleString()} contentStyle={{borderRadius:'12px', border:'none', boxShadow:'0 10px 15px -3px rgba(0,0,0,0.1)'}} />
+                                        <Tooltip formatter={(v: number | number[]) => Array.isArray(v) ? v.map(x => Math.round(x).toLocaleString()).join(' - ') : Math.round(v).toLocaleString()} contentStyle={{borderRadius:'12px', border:'none', boxShadow:'0 10px 15px -3px rgba(0,0,0,0.1)'}} />
                                         <Legend wrapperStyle={{fontSize: '10px', paddingTop: '10px'}} />
                                         
                                         {/* Ghost Lines (Reference Stores) */}
@@ -438,6 +586,10 @@ const SimulationView: React.FC<SimulationViewProps> = ({ allStores, dataType })
                                                 {/* Range Area */}
                                                 <Area type="monotone" dataKey="optimistic" stroke="none" fill="#E0F2FE" fillOpacity={0.4} />
                                                 <Area type="monotone" dataKey="conservative" stroke="none" fill="#fff" fillOpacity={1} />
+
+                                                {/* Attribute-model band */}
+                                                {aiForecast && <Area type="monotone" dataKey="ai_band" name="属性モデル p10-p90" stroke="none" fill="#FDBA74" fillOpacity={0.25} />}
+                                                {aiForecast && <Line type="monotone" dataKey="ai_p50" name="属性モデル p50" stroke="#F97316" strokeWidth={1.5} dot={false} strokeDasharray="2 3" />}
                                                 
                                                 <Line type="monotone" dataKey="standard" name="標準 (Standard)" stroke="#64748B" strokeWidth={2} dot={false} />
                                                 <Line type="monotone" dataKey="conservative" name="保守 (Cons)" stroke="#3B82F6" strokeWidth={2} dot={false} strokeDasharray="5 5" />
@@ -1,7 +1,11 @@
 
 import React, { useState, useMemo, useEffect, useCallback, useRef } from 'react';
-import { StoreData, ChartDataPoint } from '../types';
-import { logisticModel, calculatePearsonCorrelation } from '../services/analysisEngine';
+import { StoreData, ChartDataPoint, NudgeType, OutlierKind, OutlierStatus, MaskOverride } from '../types';
+import { logisticModel, calculatePearsonCorrelation, curveForecastAt, getSeasonalFactor, GlobalStats } from '../services/analysisEngine';
+import { forecastAt, forecastBandAt } from '../services/jointForecast';
+import { refitStore } from '../services/workerPool';
+import { resolveEngineConfig } from '../services/engineConfig';
+import { saveStoreMaskOverrides } from '../utils/storage';
 import { generateStoreReport } from '../services/geminiService';
 import { marked } from 'marked';
 import HelpTooltip from './HelpTooltip';
@@ -14,11 +18,26 @@ interface StoreAnalysisViewProps {
     allStores: { [name: string]: StoreData };
     forecastMonths: number;
     dataType: 'sales' | 'customers';
+    globalMaxDate: Date;
+    globalStats?: GlobalStats;
+    onStoreUpdated: (store: StoreData) => void;
 }
 
-type NudgeReason = 'structural' | 'trend' | 'event';
+type NudgeReason = 'auto' | NudgeType;
 
-const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, forecastMonths, dataType }) => {
+const NUDGE_TYPE_LABELS: Record<NudgeType, string> = { structural: '構造', trend: '実力', event: '一時' };
+
+const OUTLIER_KIND_LABELS: Record<OutlierKind, string> = { additive: 'AO 単発', temporary: 'TC 一時変化', level_shift: 'LS 水準変化' };
+const OUTLIER_STATUS_STYLES: Record<OutlierStatus, [string, string]> = {
+    excluded: ['除外 (自動)', 'bg-red-50 text-red-500 border-red-100'],
+    rescued: ['採用 (救済)', 'bg-green-50 text-green-600 border-green-100'],
+    forced_out: ['除外 (手動)', 'bg-red-100 text-red-700 border-red-200'],
+    forced_in: ['採用 (手動)', 'bg-green-100 text-green-700 border-green-200']
+};
+
+const toMonthKey = (date: string) => date.replace(/\//g, '-').slice(0, 7);
+
+const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, forecastMonths, dataType, globalMaxDate, globalStats, onStoreUpdated }) => {
     const [selectedStore, setSelectedStore] = useState<string | null>(null);
     const [searchTerm, setSearchTerm] = useState("");
     const [filterBlock, setFilterBlock] = useState(""); 
@@ -27,7 +46,7 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
     
     const [activeTab, setActiveTab] = useState<string>('forecast');
     
-    const [confidence, setConfidence] = useState(95);
+    const [confidence, setConfidence] = useState<50 | 90>(90);
     const [aiReport, setAiReport] = useState<string | null>(null);
     const [aiLoading, setAiLoading] = useState(false);
     const [expandedChart, setExpandedChart] = useState<string | null>(null);
@@ -38,7 +57,11 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
     const [simK, setSimK] = useState(1.0); 
 
     // Adaptive Nudge State
-    const [nudgeReason, setNudgeReason] = useState<NudgeReason>('structural');
+    const [nudgeReason, setNudgeReason] = useState<NudgeReason>('auto');
+
+    // Mask edits (outlier exclusions), saved per store and applied by refitting the store
+    const [newOverride, setNewOverride] = useState<MaskOverride>({ month: '', action: 'exclude', note: '' });
+    const [refitting, setRefitting] = useState(false);
 
     // Benchmark State
     const [comparisonTargets, setComparisonTargets] = useState<string[]>([]);
@@ -85,10 +108,31 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
         setSimMode(false); 
         setSimL(1.0);
         setSimK(1.0);
-        setNudgeReason('structural');
+        setNudgeReason('auto');
         setComparisonTargets([]); // Reset comparisons on store change
+        setNewOverride({ month: '', action: 'exclude', note: '' });
     }, [selectedStore]);
 
+    // Replaces the store's saved mask edits and refits it with them
+    const applyOverrides = async (overrides: MaskOverride[]) => {
+        if (!currentStore || refitting) return;
+        saveStoreMaskOverrides(currentStore.name, overrides);
+        setRefitting(true);
+        try {
+            onStoreUpdated(await refitStore(currentStore, overrides, { globalMaxDate, globalStats, engine: resolveEngineConfig(dataType) }));
+        } catch (e) {
+            console.error(e);
+            alert('再推定に失敗しました');
+        } finally {
+            setRefitting(false);
+        }
+    };
+
+    const setOverride = (month: string, action: MaskOverride['action'] | null, note?: string) => {
+        const rest = (currentStore?.maskOverrides || []).filter(o => o.month !== month);
+        applyOverrides(action ? [...rest, { month, action, ...(note ? { note } : {}) }].sort((a, b) => a.month.localeCompare(b.month)) : rest);
+    };
+
     // Handle click outside to close dropdown
     useEffect(() => {
         function handleClickOutside(event: MouseEvent) {
@@ -191,7 +235,8 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
     const chartData = useMemo(() => {
         if (!currentStore) return [];
         const d = currentStore;
-        const z = confidence === 99 ? 2.58 : (confidence === 95 ? 1.96 : (confidence === 80 ? 1.28 : 0.67));
+        // Fallback only: stores without bootstrap quantiles use a Gaussian band
+        const z = confidence === 90 ? 1.645 : 0.674;
         const data: (ChartDataPoint & { simulated?: number | null; outlier?: number | null })[] = [];
 
         d.dates.forEach((date, i) => {
@@ -206,7 +251,7 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
         });
 
         const lastDate = new Date(d.dates[d.dates.length - 1].replace(/\//g, '-'));
-        const decay = nudgeReason === 'structural' ? 1.0 : (nudgeReason === 'trend' ? 0.9 : 0.0);
+        const decay = nudgeReason === 'auto' ? d.nudgeDecay : (nudgeReason === 'structural' ? 1.0 : (nudgeReason === 'trend' ? 0.9 : 0.0));
 
         for (let t = 1; t <= forecastMonths; t++) {
             const idx = d.raw.length + t - 1;
@@ -215,20 +260,32 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
             const label = `${fd.getFullYear()}-${String(fd.getMonth() + 1).padStart(2, '0')}`;
             
             const tr = logisticModel(idx, d.fit.params, d.fit.mode, d.fit.shockIdx);
-            const sea = d.seasonal[fd.getMonth()] || 1.0;
+            const sea = getSeasonalFactor(d, fd);
             const nudgeComp = d.nudge * Math.pow(decay, t);
-            
-            const baseValRaw = (tr + nudgeComp) * sea;
-            const unc = d.stdDev * (1 + t * 0.05);
-            
-            const baseVal = baseValRaw < 0 ? 0 : baseValRaw;
-            const upper = Math.max(0, baseVal + z * unc);
-            const lower = Math.max(0, baseVal - z * unc);
+
+            // The engine forecast is customers x unit price when the store has a joint model;
+            // the nudge scenario and the simulation move it by what they change on the sales curve
+            const engineVal = forecastAt(d, t);
+            const jointShift = engineVal - curveForecastAt(d, t);
+            const baseVal = Math.max(0, Math.max(0, (tr + nudgeComp) * sea) + jointShift);
+
+            // Bootstrap band was built with the engine's decay; shift it by the selected nudge scenario
+            let upper: number, lower: number;
+            const band = forecastBandAt(d, t, confidence);
+            if (band) {
+                const offset = baseVal - engineVal;
+                lower = Math.max(0, band[0] + offset);
+                upper = Math.max(0, band[1] + offset);
+            } else {
+                const unc = d.stdDev * (1 + t * 0.05);
+                upper = Math.max(0, baseVal + z * unc);
+                lower = Math.max(0, baseVal - z * unc);
+            }
 
             let simVal: number | null = null;
             if (simMode) {
                 const simParams = { ...d.fit.params };
-                if (d.fit.mode === 'shift' || d.fit.mode === 'dual_shift') {
+                if (d.fit.mode === 'shift') {
                     simParams.L += (simParams.L * (simL - 1));
                 } else {
                     simParams.L *= simL;
@@ -236,7 +293,7 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
                 simParams.k *= simK;
 
                 const trSim = logisticModel(idx, simParams, d.fit.mode, d.fit.shockIdx);
-                let targetVal = (trSim + nudgeComp) * sea;
+                let targetVal = (trSim + nudgeComp) * sea + jointShift;
                 if (targetVal < 0) targetVal = 0;
 
                 const transitionMonths = 24;
@@ -316,15 +373,21 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
                 <YAxis tick={{fontSize:9}} label={{ value: unitLabel, angle: -90, position: 'left', offset: 0, fontSize: 9 }} />
                 <Tooltip formatter={valueFormatter} labelStyle={{color:'black'}} contentStyle={{borderRadius:'16px', border:'none', boxShadow:'0 10px 15px -3px rgba(0,0,0,0.1)'}} />
                 <Legend wrapperStyle={{ fontSize: '9px', paddingTop: '10px' }} iconSize={8} />
-                {!simMode && <Area type="monotone" dataKey="range" fill="#005EB8" fillOpacity={0.1} stroke="transparent" name={`信頼区間 (${confidence}%)`} />}
+                {!simMode && <Area type="monotone" dataKey="range" fill="#005EB8" fillOpacity={0.1} stroke="transparent" name={`予測区間 (${confidence}%)`} />}
                 <Line type="monotone" dataKey="forecast" stroke="#005EB8" strokeWidth={3} strokeDasharray={simMode ? "3 3" : "0"} dot={false} name="AI予測 (Base)" strokeOpacity={simMode ? 0.5 : 1} />
-                {simMode && <Line type="monotone" dataKey="simulated" stroke="#9333EA" strokeWidth={3} dot={false} name="Simulation (Persistent Nudge)" animationDuration={300} />}
+                {simMode && <Line type="monotone" dataKey="simulated" stroke="#9333EA" strokeWidth={3} dot={false} name="Simulation (Nudge)" animationDuration={300} />}
                 <Line type="monotone" dataKey="actual" stroke="#1A1A1A" strokeWidth={2} dot={{r:2, fill:'#1A1A1A'}} name="実績" />
                 <Scatter dataKey="outlier" fill="#EF4444" name="外れ値 (除外)" shape="cross" />
+                {currentStore?.capacity && (
+                    <ReferenceLine y={currentStore.capacity.ceiling} stroke="#EF4444" strokeDasharray="6 3" label={{ value: '処理能力上限', position: 'insideTopRight', fontSize: 8, fill: '#EF4444' }} />
+                )}
+                {currentStore?.fit.breaks?.map(b => (
+                    <ReferenceLine key={b.idx} x={currentStore.dates[b.idx]} stroke="#8B5CF6" strokeDasharray="4 2" label={{ value: `Shift ${Math.round(b.confidence * 100)}%`, position: 'insideTopLeft', fontSize: 8, fill: '#8B5CF6' }} />
+                ))}
                 <Brush dataKey="date" height={20} stroke="#cbd5e1" fill="#f8fafc" />
             </ComposedChart>
         </ResponsiveContainer>
-    ), [chartData, simMode, unitLabel, valueFormatter, confidence]);
+    ), [chartData, simMode, unitLabel, valueFormatter, confidence, currentStore]);
 
     const renderBenchmarkChart = useCallback(() => {
         // Guard against empty data
@@ -510,6 +573,16 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
                                          <span className="bg-blue-50 text-[#005EB8] px-2 py-0.5 rounded text-[10px] font-bold border border-blue-100">Rank: {currentStore.stats?.abcRank}</span>
                                          <span className="bg-orange-50 text-orange-600 px-2 py-0.5 rounded text-[10px] font-bold border border-orange-100">Mode: {currentStore.fit.mode}</span>
                                          {currentStore.block && <span className="bg-gray-100 text-gray-600 px-2 py-0.5 rounded text-[10px] font-bold border border-gray-200">{currentStore.block}</span>}
+                                         {currentStore.prior && (
+                                             <span className="bg-purple-50 text-purple-600 px-2 py-0.5 rounded text-[10px] font-bold border border-purple-100" title={`事前分布: k=${currentStore.prior.k.toFixed(3)}, L=${Math.round(currentStore.prior.L).toLocaleString()}${currentStore.prior.cohort ? ` (開業コホート ${currentStore.prior.cohort})` : ''}`}>
+                                                 Prior: {currentStore.prior.group}{currentStore.prior.weight !== undefined ? ` ${Math.round(currentStore.prior.weight * 100)}%` : ''}
+                                             </span>
+                                         )}
+                                         {currentStore.capacity && (
+                                             <span className={`px-2 py-0.5 rounded text-[10px] font-bold border ${(currentStore.capacity.utilisation ?? 0) > 0.9 ? 'bg-red-50 text-red-600 border-red-100' : 'bg-teal-50 text-teal-600 border-teal-100'}`} title={`処理能力: ${currentStore.capacity.chairs}席 × ${currentStore.capacity.staffedHours}時間 = ${Math.round(currentStore.capacity.customers).toLocaleString()}人/月 (上限 ${Math.round(currentStore.capacity.ceiling).toLocaleString()}${isSales ? '千円' : '人'})${currentStore.capacity.potentialShare !== undefined ? ` / 潜在規模は上限の${Math.round(currentStore.capacity.potentialShare * 100)}%` : ''}`}>
+                                                 稼働率: {currentStore.capacity.utilisation !== undefined ? `${Math.round(currentStore.capacity.utilisation * 100)}%` : '-'}
+                                             </span>
+                                         )}
                                      </div>
                                  </div>
                                  
@@ -538,6 +611,7 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
                                             <div className="flex items-center gap-2 border-r border-gray-300 pr-4 mr-2">
                                                 <span className="text-[10px] font-bold text-gray-500 whitespace-nowrap">乖離要因 (Nudge):</span>
                                                 <div className="flex bg-white rounded-lg p-0.5 border border-gray-200">
+                                                    <button onClick={() => setNudgeReason('auto')} className={`px-3 py-1 rounded-md text-[10px] font-black transition-all ${nudgeReason === 'auto' ? 'bg-emerald-100 text-emerald-700 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`} title={`自動推定 (AR(1): Decay=${(currentStore?.nudgeDecay ?? 1).toFixed(2)})`}>自動{currentStore?.nudgeType ? `: ${NUDGE_TYPE_LABELS[currentStore.nudgeType]}` : ''}</button>
                                                     <button onClick={() => setNudgeReason('structural')} className={`px-3 py-1 rounded-md text-[10px] font-black transition-all ${nudgeReason === 'structural' ? 'bg-purple-100 text-purple-700 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`} title="構造変化 (Decay=1.0: 永続)">構造</button>
                                                     <button onClick={() => setNudgeReason('trend')} className={`px-3 py-1 rounded-md text-[10px] font-black transition-all ${nudgeReason === 'trend' ? 'bg-blue-100 text-blue-700 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`} title="実力変化 (Decay=0.9: 緩やか)">実力</button>
                                                     <button onClick={() => setNudgeReason('event')} className={`px-3 py-1 rounded-md text-[10px] font-black transition-all ${nudgeReason === 'event' ? 'bg-orange-100 text-orange-700 shadow-sm' : 'text-gray-400 hover:text-gray-600'}`} title="一時的 (Decay=0.0: 一過性)">一時</button>
@@ -545,15 +619,15 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
                                             </div>
 
                                             <div className="flex items-center gap-2 border-r border-gray-300 pr-4 mr-2">
-                                                <span className="text-[10px] font-bold text-gray-500 whitespace-nowrap">信頼区間:</span>
+                                                <span className="text-[10px] font-bold text-gray-500 whitespace-nowrap">予測区間:</span>
                                                 <select 
                                                     value={confidence} 
-                                                    onChange={(e) => setConfidence(parseInt(e.target.value))}
+                                                    onChange={(e) => setConfidence(parseInt(e.target.value) === 50 ? 50 : 90)}
                                                     className="bg-transparent text-xs font-black text-[#005EB8] outline-none cursor-pointer"
+                                                    title="ブートストラップ予測分位点 (P05-P95 / P25-P75)"
                                                 >
-                                                    <option value={80}>80%</option>
-                                                    <option value={95}>95%</option>
-                                                    <option value={99}>99%</option>
+                                                    <option value={50}>50% (P25-P75)</option>
+                                                    <option value={90}>90% (P05-P95)</option>
                                                 </select>
                                             </div>
 
@@ -668,6 +742,72 @@ const StoreAnalysisView: React.FC<StoreAnalysisViewProps> = ({ allStores, foreca
                                          </div>
                                      </div>
                                  </div>
+
+                                 <div>
+                                     <h3 className="text-lg font-black text-slate-800 border-b pb-2 mb-4 font-display flex items-center gap-2">
+                                         2. 外れ値・除外月 (Outliers & Exclusions)
+                                         <HelpTooltip title="外れ値の分類" content="IQR(1.5倍)の範囲外の月を、AO(単月のスパイク)・TC(数ヶ月で元に戻る一時変化)・LS(その後も続く水準変化)に分類します。改装休業などで除外したい月や、逆に採用したい月を指定すると店舗ごとに保存され、再分析のたびに適用されます。" />
+                                         {refitting && <span className="text-[10px] font-bold text-[#005EB8] ml-auto"><i className="fas fa-circle-notch fa-spin mr-1"></i>再推定中...</span>}
+                                     </h3>
+                                     <div className="bg-white rounded-3xl shadow-sm border border-gray-100 p-6">
+                                         <div className="flex flex-wrap gap-2 items-center mb-4">
+                                             <select value={newOverride.month} onChange={e => setNewOverride(o => ({ ...o, month: e.target.value }))} className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-bold outline-none">
+                                                 <option value="">月を選択...</option>
+                                                 {[...currentStore.dates].reverse().map(d => <option key={d} value={toMonthKey(d)}>{toMonthKey(d)}</option>)}
+                                             </select>
+                                             <select value={newOverride.action} onChange={e => setNewOverride(o => ({ ...o, action: e.target.value as MaskOverride['action'] }))} className="bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-bold outline-none">
+                                                 <option value="exclude">除外する</option>
+                                                 <option value="include">必ず採用する</option>
+                                             </select>
+                                             <input type="text" placeholder="理由 (例: 改装のため休業)" value={newOverride.note || ''} onChange={e => setNewOverride(o => ({ ...o, note: e.target.value }))} className="flex-1 min-w-[160px] bg-gray-50 border border-gray-200 rounded-lg px-2 py-1.5 text-xs font-bold outline-none" />
+                                             <button
+                                                 disabled={!newOverride.month || refitting}
+                                                 onClick={() => { setOverride(newOverride.month, newOverride.action, newOverride.note?.trim()); setNewOverride({ month: '', action: 'exclude', note: '' }); }}
+                                                 className="px-3 py-1.5 rounded-lg bg-[#005EB8] text-white text-xs font-black disabled:opacity-40"
+                                             >
+                                                 追加して再推定
+                                             </button>
+                                         </div>
+                                         {(currentStore.outliers || []).length > 0 ? (
+                                             <div className="overflow-x-auto max-h-[360px] custom-scrollbar">
+                                                 <table className="w-full text-xs">
+                                                     <thead className="text-[10px] font-black text-gray-400 uppercase bg-gray-50 sticky top-0">
+                                                         <tr>
+                                                             <th className="p-2 text-left">月</th>
+                                                             <th className="p-2 text-right">実績</th>
+                                                             <th className="p-2 text-left">分類</th>
+                                                             <th className="p-2 text-left">理由</th>
+                                                             <th className="p-2 text-left">状態</th>
+                                                             <th className="p-2"></th>
+                                                         </tr>
+                                                     </thead>
+                                                     <tbody className="divide-y divide-gray-50 font-bold text-gray-600">
+                                                         {(currentStore.outliers || []).map(o => {
+                                                             const month = toMonthKey(o.date);
+                                                             const [label, style] = OUTLIER_STATUS_STYLES[o.status];
+                                                             return (
+                                                                 <tr key={o.idx}>
+                                                                     <td className="p-2 font-mono">{month}</td>
+                                                                     <td className="p-2 text-right">{o.value.toLocaleString()}</td>
+                                                                     <td className="p-2">{o.kind ? OUTLIER_KIND_LABELS[o.kind] : '-'}</td>
+                                                                     <td className="p-2 text-[10px] text-gray-500">{o.reason}</td>
+                                                                     <td className="p-2"><span className={`px-2 py-0.5 rounded border text-[10px] ${style}`}>{label}</span></td>
+                                                                     <td className="p-2 text-right whitespace-nowrap">
+                                                                         {o.status === 'excluded' && <button disabled={refitting} onClick={() => setOverride(month, 'include')} className="text-[10px] text-green-600 hover:underline disabled:opacity-40">採用する</button>}
+                                                                         {o.status === 'rescued' && <button disabled={refitting} onClick={() => setOverride(month, 'exclude')} className="text-[10px] text-red-500 hover:underline disabled:opacity-40">除外する</button>}
+                                                                         {(o.status === 'forced_out' || o.status === 'forced_in') && <button disabled={refitting} onClick={() => setOverride(month, null)} className="text-[10px] text-gray-500 hover:underline disabled:opacity-40">自動に戻す</button>}
+                                                                     </td>
+                                                                 </tr>
+                                                             );
+                                                         })}
+                                                     </tbody>
+                                                 </table>
+                                             </div>
+                                         ) : (
+                                             <div className="text-center text-xs text-gray-400 py-6">除外・救済された月はありません</div>
+                                         )}
+                                     </div>
+                                 </div>
                              </div>
                          )}
 
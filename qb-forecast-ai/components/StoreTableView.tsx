@@ -1,7 +1,10 @@
 
 import React, { useState, useMemo, useEffect } from 'react';
-import { StoreData } from '../types';
+import { StoreData, LocationType } from '../types';
+import { LOCATION_TYPE_LABELS, lifecycleStatus } from '../services/storeMaster';
 import HelpTooltip from './HelpTooltip';
+import StoreMarkerMap from './shared/StoreMarkerMap';
+import TradeAreaMap from './shared/TradeAreaMap';
 
 interface StoreTableViewProps {
     allStores: { [name: string]: StoreData };
@@ -10,7 +13,11 @@ interface StoreTableViewProps {
 
 type SortField = 'region' | 'prefecture' | 'block' | 'name' | 'sales' | 'budget' | 'diff' | 'achievement' | 'yoy' | 'abc' | 'k' | 'L' | 'age' | 'status';
 type SortOrder = 'asc' | 'desc';
-type ViewMode = 'list' | 'matrix';
+type ViewMode = 'list' | 'matrix' | 'map';
+
+const MAP_WIDTH = 900;
+const MAP_HEIGHT = 600;
+const TRADE_AREA_RADII = [1, 2, 3, 5];
 
 const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType }) => {
     const [viewMode, setViewMode] = useState<ViewMode>('list');
@@ -19,7 +26,12 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
     const [filterText, setFilterText] = useState('');
     const [filterABC, setFilterABC] = useState<string>('All');
     const [filterMode, setFilterMode] = useState<string>('All');
+    const [filterFormat, setFilterFormat] = useState<string>('All');
+    const [filterLocation, setFilterLocation] = useState<string>('All');
     const [showInactive, setShowInactive] = useState(false);
+
+    // Map view: trade area circles of the chosen radius (km), 0 = store markers only
+    const [tradeRadius, setTradeRadius] = useState(0);
     
     // Date Range Filters (YYYY-MM format)
     const [filterStartDate, setFilterStartDate] = useState<string>('');
@@ -42,6 +54,16 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
         });
     }, [allStores]);
 
+    // Latest month of the data (stores opened within a year of it are shown as new)
+    const asOf = useMemo(() => {
+        const last = allUniqueDates[allUniqueDates.length - 1];
+        return last ? new Date(last.replace(/\//g, '-')) : new Date();
+    }, [allUniqueDates]);
+
+    // Formats listed in the store master (filter options)
+    const formats = useMemo(() => Array.from(new Set<string>(Object.values(allStores).map((s: StoreData) => s.master?.format || '').filter(Boolean))).sort(), [allStores]);
+    const hasLocationTypes = useMemo(() => Object.values(allStores).some((s: StoreData) => s.master?.locationType), [allStores]);
+
     // Initialize Date Filters to Min/Max
     useEffect(() => {
         if (allUniqueDates.length > 0 && !filterStartDate) {
@@ -82,15 +104,20 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                 // Status Filter
                 if (!showInactive && !s.isActive) return false;
                 
-                // Text Filter (Name, Block, Region, Prefecture)
+                // Text Filter (Name, Block, Region, Prefecture; code, address and manager from the store master)
                 if (filterText) {
                     const search = filterText.toLowerCase();
                     const nameMatch = s.name.toLowerCase().includes(search);
                     const blockMatch = (s.block || "").toLowerCase().includes(search);
                     const regionMatch = (s.region || "").toLowerCase().includes(search);
                     const prefMatch = (s.prefecture || "").toLowerCase().includes(search);
-                    if (!nameMatch && !blockMatch && !regionMatch && !prefMatch) return false;
+                    const masterMatch = [s.master?.code, s.master?.address, s.master?.manager].some(v => (v || "").toLowerCase().includes(search));
+                    if (!nameMatch && !blockMatch && !regionMatch && !prefMatch && !masterMatch) return false;
                 }
+
+                // Store Master Filters
+                if (filterFormat !== 'All' && s.master?.format !== filterFormat) return false;
+                if (filterLocation !== 'All' && s.master?.locationType !== filterLocation) return false;
                 
                 // ABC Filter
                 if (filterABC !== 'All') {
@@ -100,8 +127,10 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
 
                 // Mode Filter
                 if (filterMode !== 'All') {
-                    // mode in data is 'standard'|'shift'|'dual_shift'|'recovery'|'startup'
-                    if (s.fit.mode !== filterMode) return false;
+                    // 'multi_shift' is a pseudo-mode: shift fits with two or more level shifts
+                    if (filterMode === 'multi_shift') {
+                        if (s.fit.mode !== 'shift' || (s.fit.breaks?.length || 0) < 2) return false;
+                    } else if (s.fit.mode !== filterMode) return false;
                 }
 
                 return true;
@@ -131,7 +160,22 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                 if (valA > valB) return sortOrder === 'asc' ? 1 : -1;
                 return 0;
             });
-    }, [baseData, showInactive, filterText, filterABC, filterMode, sortField, sortOrder]);
+    }, [baseData, showInactive, filterText, filterABC, filterMode, filterFormat, filterLocation, sortField, sortOrder]);
+
+    // Map markers: filtered stores with coordinates in the store master, framed to fit the map
+    const mapStores = useMemo(() => sortedFilteredData
+        .filter(s => s.master?.lat !== undefined && s.master?.lng !== undefined)
+        .map(s => ({ id: s.master?.code || s.name, name: s.name, lat: s.master!.lat!, lng: s.master!.lng!, value: s.latestSales, status: lifecycleStatus(s, asOf), region: s.region })),
+    [sortedFilteredData, asOf]);
+
+    const mapFrame = useMemo(() => {
+        if (mapStores.length === 0) return { center: undefined, zoom: undefined };
+        const lats = mapStores.map(s => s.lat), lngs = mapStores.map(s => s.lng);
+        const center: [number, number] = [(Math.min(...lats) + Math.max(...lats)) / 2, (Math.min(...lngs) + Math.max(...lngs)) / 2];
+        // StoreMarkerMap draws zoom x 100 px per degree
+        const span = Math.max((Math.max(...lngs) - Math.min(...lngs)) / MAP_WIDTH, (Math.max(...lats) - Math.min(...lats)) / MAP_HEIGHT, 0.05 / MAP_HEIGHT);
+        return { center, zoom: 0.9 / span / 100 };
+    }, [mapStores]);
 
     // 3. Matrix View Helpers (Filtered Headers)
     const matrixHeaders = useMemo(() => {
@@ -171,8 +215,8 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
     };
 
     const handleDownloadCSV = () => {
-        if (viewMode === 'list') {
-            const headers = ["地方", "都道府県", "ブロック", "店舗名", "ステータス", "ABCランク", "稼働月数", isSales ? "直近月商(k)" : "直近客数(人)", "予算", "差異", "達成率", "昨対比(YoY)", "成長率(k)", "潜在需要(L)", "モード", "変動率(CV)"];
+        if (viewMode !== 'matrix') {
+            const headers = ["地方", "都道府県", "ブロック", "店舗名", "店舗コード", "業態", "ステータス", "ABCランク", "稼働月数", isSales ? "直近月商(k)" : "直近客数(人)", "予算", "差異", "達成率", "昨対比(YoY)", "成長率(k)", "潜在需要(L)", "モード", "変動率(CV)", "次12ヶ月予測P05", "次12ヶ月予測P50", "次12ヶ月予測P95"];
             let csv = headers.join(",") + "\n";
             
             sortedFilteredData.forEach(s => {
@@ -181,7 +225,9 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                     `"${s.prefecture || '-'}"`,
                     `"${s.block || '-'}"`,
                     `"${s.name}"`,
-                    s.isActive ? "稼働中" : "閉店/休業",
+                    `"${s.master?.code || '-'}"`,
+                    `"${s.master?.format || '-'}"`,
+                    s.isActive ? "稼働中" : s.master?.closeDate ? `閉店 (${s.master.closeDate})` : "閉店/休業",
                     s.stats?.abcRank || "-",
                     s.age,
                     s.latestSales,
@@ -192,7 +238,10 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                     s.params.k.toFixed(4),
                     Math.round(s.params.L),
                     s.fit.mode,
-                    (s.stats?.cv ? (s.stats.cv * 100).toFixed(1) : 0) + "%"
+                    (s.stats?.cv ? (s.stats.cv * 100).toFixed(1) : 0) + "%",
+                    s.quantiles ? Math.round(s.quantiles.next12.p05) : "-",
+                    s.quantiles ? Math.round(s.quantiles.next12.p50) : "-",
+                    s.quantiles ? Math.round(s.quantiles.next12.p95) : "-"
                 ];
                 csv += row.join(",") + "\n";
             });
@@ -262,6 +311,12 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                             >
                                 月次推移表
                             </button>
+                            <button 
+                                onClick={() => setViewMode('map')}
+                                className={`px-4 py-1.5 rounded-md transition-all ${viewMode === 'map' ? 'bg-white text-[#005EB8] shadow-sm' : 'text-gray-500 hover:text-gray-700'}`}
+                            >
+                                店舗マップ
+                            </button>
                         </div>
                     </div>
 
@@ -303,11 +358,47 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                                 <option value="All">Mode: 全て</option>
                                 <option value="standard">Standard (安定)</option>
                                 <option value="shift">Shift (構造変化)</option>
-                                <option value="dual_shift">Dual Shift (コロナ+α)</option>
+                                <option value="multi_shift">Multi Shift (複数構造変化)</option>
                                 <option value="recovery">Recovery (回復)</option>
                                 <option value="startup">Startup (新規)</option>
+                                <option value="gompertz">Gompertz (早期成長)</option>
+                                <option value="richards">Richards (非対称)</option>
+                                <option value="damped">Damped (減衰トレンド)</option>
                             </select>
 
+                            {formats.length > 0 && (
+                                <select 
+                                    value={filterFormat} 
+                                    onChange={(e) => setFilterFormat(e.target.value)}
+                                    className="px-3 py-2 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 focus:outline-none focus:ring-2 focus:ring-[#005EB8] bg-gray-50 hover:bg-white transition-colors cursor-pointer"
+                                >
+                                    <option value="All">業態: 全て</option>
+                                    {formats.map(f => <option key={f} value={f}>{f}</option>)}
+                                </select>
+                            )}
+
+                            {hasLocationTypes && (
+                                <select 
+                                    value={filterLocation} 
+                                    onChange={(e) => setFilterLocation(e.target.value)}
+                                    className="px-3 py-2 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 focus:outline-none focus:ring-2 focus:ring-[#005EB8] bg-gray-50 hover:bg-white transition-colors cursor-pointer"
+                                >
+                                    <option value="All">立地: 全て</option>
+                                    {(Object.keys(LOCATION_TYPE_LABELS) as LocationType[]).map(t => <option key={t} value={t}>{LOCATION_TYPE_LABELS[t]}</option>)}
+                                </select>
+                            )}
+
+                            {viewMode === 'map' && (
+                                <select 
+                                    value={tradeRadius} 
+                                    onChange={(e) => setTradeRadius(Number(e.target.value))}
+                                    className="px-3 py-2 rounded-lg border border-gray-200 text-xs font-bold text-gray-600 focus:outline-none focus:ring-2 focus:ring-[#005EB8] bg-gray-50 hover:bg-white transition-colors cursor-pointer"
+                                >
+                                    <option value={0}>商圏: 表示しない</option>
+                                    {TRADE_AREA_RADII.map(r => <option key={r} value={r}>商圏: 半径{r}km</option>)}
+                                </select>
+                            )}
+
                              {/* Sort Dropdown (Visible mainly for Matrix View or Mobile) */}
                              <select 
                                 value={sortField} 
@@ -389,14 +480,17 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                                     {sortedFilteredData.map((s) => (
                                         <tr key={s.name} className="hover:bg-blue-50/50 transition-colors">
                                             <td className="px-4 py-3 text-xs whitespace-nowrap">
-                                                <span className={`px-2 py-0.5 rounded-full font-bold ${s.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`}>
+                                                <span className={`px-2 py-0.5 rounded-full font-bold ${s.isActive ? 'bg-green-100 text-green-700' : 'bg-gray-100 text-gray-500'}`} title={s.master?.closeDate ? `閉店: ${s.master.closeDate}` : undefined}>
                                                     {s.isActive ? 'ACTIVE' : 'CLOSED'}
                                                 </span>
                                             </td>
                                             <td className="px-4 py-3 text-xs font-bold text-gray-500 whitespace-nowrap">{s.region || "-"}</td>
                                             <td className="px-4 py-3 text-xs font-bold text-gray-500 whitespace-nowrap">{s.prefecture || "-"}</td>
                                             <td className="px-4 py-3 text-xs font-bold text-gray-500 whitespace-nowrap">{s.block || "-"}</td>
-                                            <td className="px-4 py-3 text-xs font-bold text-gray-800 whitespace-nowrap">{s.name}</td>
+                                            <td className="px-4 py-3 text-xs font-bold text-gray-800 whitespace-nowrap" title={[s.master?.address, s.master?.manager && `店長: ${s.master.manager}`].filter(Boolean).join(' / ') || undefined}>
+                                                {s.name}
+                                                {s.master?.code && <span className="ml-2 text-[10px] font-mono text-gray-400">{s.master.code}</span>}
+                                            </td>
                                             <td className="px-4 py-3 text-xs font-black">
                                                 <span className={`
                                                     ${s.stats?.abcRank === 'A' ? 'text-yellow-500' : s.stats?.abcRank === 'B' ? 'text-blue-500' : 'text-gray-400'}
@@ -425,12 +519,12 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                                             <td className="px-4 py-3 text-xs font-mono text-right text-[#005EB8]">{Math.round(s.params.L).toLocaleString()}</td>
                                             <td className="px-4 py-3 text-xs text-gray-500 whitespace-nowrap">
                                                 <span className={`px-2 py-0.5 rounded text-[10px] uppercase font-bold
-                                                    ${s.fit.mode === 'dual_shift' ? 'bg-indigo-100 text-indigo-600' :
+                                                    ${s.fit.mode === 'shift' && (s.fit.breaks?.length || 0) > 1 ? 'bg-indigo-100 text-indigo-600' :
                                                       s.fit.mode === 'shift' ? 'bg-purple-100 text-purple-600' : 
                                                       s.fit.mode === 'startup' ? 'bg-orange-100 text-orange-600' : 
                                                       'bg-gray-100 text-gray-500'}
                                                 `}>
-                                                    {s.fit.mode}
+                                                    {s.fit.mode}{s.fit.mode === 'shift' && (s.fit.breaks?.length || 0) > 1 ? ` ×${s.fit.breaks!.length}` : ''}
                                                 </span>
                                             </td>
                                             <td className="px-4 py-3 text-xs text-right text-gray-500">
@@ -442,7 +536,7 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                                 </tbody>
                             </table>
                         </div>
-                    ) : (
+                    ) : viewMode === 'matrix' ? (
                         <div className="overflow-auto flex-1">
                             <table className="min-w-full divide-y divide-gray-200 border-separate" style={{borderSpacing: 0}}>
                                 <thead className="bg-white sticky top-0 z-10 shadow-sm">
@@ -486,6 +580,25 @@ const StoreTableView: React.FC<StoreTableViewProps> = ({ allStores, dataType })
                                 </tbody>
                             </table>
                         </div>
+                    ) : (
+                        <div className="overflow-auto flex-1 p-4">
+                            {mapStores.length === 0 ? (
+                                <p className="text-xs font-bold text-gray-400 text-center py-20">
+                                    緯度・経度のある店舗がありません。店舗マスタに「緯度」「経度」列を追加して読み込んでください。
+                                </p>
+                            ) : tradeRadius > 0 ? (
+                                <TradeAreaMap
+                                    tradeAreas={mapStores.map(s => ({ storeId: s.id, storeName: s.name, center: [s.lat, s.lng] as [number, number], radius: tradeRadius, value: s.value }))}
+                                    width={MAP_WIDTH}
+                                    height={MAP_HEIGHT}
+                                />
+                            ) : (
+                                <StoreMarkerMap stores={mapStores} center={mapFrame.center} zoom={mapFrame.zoom} width={MAP_WIDTH} height={MAP_HEIGHT} />
+                            )}
+                            {mapStores.length < sortedFilteredData.length && (
+                                <p className="text-[10px] font-bold text-gray-400 mt-2">{sortedFilteredData.length - mapStores.length}店舗は緯度・経度が未登録のため表示していません</p>
+                            )}
+                        </div>
                     )}
                 </div>
             </div>
@@ -24,34 +24,19 @@ const WaterfallChart: React.FC<WaterfallChartProps> = ({
     negativeColor = '#EF4444',
     totalColor = '#0F2540'
 }) => {
-    // Calculate cumulative values for waterfall effect
-    const processedData: Array<WaterfallDataPoint & { displayValue: number }> = data.map((item, index) => {
-        if (index === 0) {
-            return {
-                ...item,
-                start: 0,
-                end: item.value,
-                displayValue: item.value
-            };
-        }
-
-        const prevEnd = processedData[index - 1].end || 0;
-
-        if (item.isTotal) {
-            return {
-                ...item,
-                start: 0,
-                end: item.value,
-                displayValue: item.value
-            };
-        }
-
-        return {
+    // Calculate cumulative values for waterfall effect (each step floats from the previous end)
+    const processedData: Array<WaterfallDataPoint & { displayValue: number; range: [number, number] }> = [];
+    data.forEach((item, index) => {
+        const prevEnd = index === 0 ? 0 : processedData[index - 1].end || 0;
+        const start = index === 0 || item.isTotal ? 0 : prevEnd;
+        const end = start + item.value;
+        processedData.push({
             ...item,
-            start: prevEnd,
-            end: prevEnd + item.value,
-            displayValue: item.value
-        };
+            start,
+            end,
+            displayValue: item.value,
+            range: [Math.min(start, end), Math.max(start, end)]
+        });
     });
 
     const CustomBar = (props: any) => {
@@ -76,9 +61,9 @@ const WaterfallChart: React.FC<WaterfallChartProps> = ({
                 {!isTotal && props.index < processedData.length - 1 && (
                     <line
                         x1={x + width}
-                        y1={y + height / 2}
+                        y1={isPositive ? y : y + height}
                         x2={x + width + 10}
-                        y2={y + height / 2}
+                        y2={isPositive ? y : y + height}
                         stroke="#CBD5E1"
                         strokeWidth={2}
                         strokeDasharray="3 3"
@@ -110,14 +95,17 @@ const WaterfallChart: React.FC<WaterfallChartProps> = ({
                         border: 'none',
                         boxShadow: '0 10px 30px -5px rgba(0,0,0,0.1)'
                     }}
-                    formatter={(value: number) => [
-                        `${value >= 0 ? '+' : ''}${value.toLocaleString()}`,
-                        'Change'
-                    ]}
+                    formatter={(_: unknown, __: unknown, item: any) => {
+                        const value: number = item.payload.displayValue;
+                        return [
+                            item.payload.isTotal ? value.toLocaleString() : `${value >= 0 ? '+' : ''}${value.toLocaleString()}`,
+                            item.payload.isTotal ? 'Total' : 'Change'
+                        ];
+                    }}
                 />
                 <ReferenceLine y={0} stroke="#CBD5E1" strokeWidth={2} />
                 <Bar
-                    dataKey="displayValue"
+                    dataKey="range"
                     shape={<CustomBar />}
                     radius={[4, 4, 4, 4]}
                 />
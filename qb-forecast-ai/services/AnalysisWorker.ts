@@ -1,4 +1,24 @@
+// Analysis worker: runs analyzeStore off the main thread for workerPool.ts.
+import { StoreData } from '../types';
+import { analyzeStore } from './analysisEngine';
+import type { WorkerRequest, WorkerResponse } from './workerPool';
 
-// Worker disabled to ensure compatibility across all environments.
-// Logic has been moved back to DataView.tsx with async chunking.
-export {};
+const ctx = self as unknown as {
+    postMessage: (msg: WorkerResponse) => void;
+    onmessage: ((e: MessageEvent<WorkerRequest>) => void) | null;
+};
+
+ctx.onmessage = (e) => {
+    const { batchId, tasks, globalStats, engine } = e.data;
+    const results = tasks.map(task => {
+        let data: StoreData;
+        try {
+            data = analyzeStore(task.name, Array.from(task.raw), task.dates, new Date(task.maxDate), globalStats, task.block, task.region, task.prefecture, task.closures, task.drivers, task.maskOverrides, engine, task.capacity, task.missingMonths);
+        } catch (err) {
+            data = { name: task.name, error: true, msg: String(err) } as StoreData;
+        }
+        ctx.postMessage({ type: 'progress', batchId });
+        return { index: task.index, data };
+    });
+    ctx.postMessage({ type: 'result', batchId, results });
+};
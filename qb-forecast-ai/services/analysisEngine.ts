@@ -1,11 +1,65 @@
 
-import { StoreData } from '../types';
+import { StoreData, ForecastQuantiles, QuantileSet, FitMode, CurveFamily, ModelCandidate, StructuralBreak, FitConvergence, ParamInterval, ParamIntervals, NudgeType, TradingDayEffect, DriverEffect, PeerLevel, PeerPriorInfo, OutlierKind, OutlierPoint, MaskOverride, EngineConfig, StoreCapacity, SeasonalYearProfile } from '../types';
+import { detectChangePoints } from './changePoints';
+import { getTradingDayFactor, getTradingDayRegressors, toClosureSet } from './businessCalendar';
+import { DriverValues, getDriverValue } from './drivers';
+import { ENGINE_PRESETS } from './engineConfig';
+import { withUtilisation } from './capacity';
 
 // --- Domain Constants (Grounded in QB HOUSE Reality) ---
-const MAX_K_THRESHOLD = 2.0;         // Allow higher physical limit for search, but penalize heavily
-const ABSOLUTE_MAX_L = 10000;        // 10 Million JPY is the hard physical ceiling
-const RARE_L_THRESHOLD = 5000;       // 5 Million JPY is extremely rare
-const NUDGE_DECAY_24MO = 1.0;        // MODIFIED: No decay (Persistent Nudge)
+// Scale-dependent limits and regularisation weights live in EngineConfig (services/engineConfig.ts)
+const AIC_PREFERENCE_MARGIN = 2.0;   // A model with more parameters must win by this much
+const STARTUP_NUDGE_DECAY = 1.0;     // Startup nudge re-anchors the generic curve to the store's own level
+
+// --- Nudge Decay (AR(1) on de-seasonalized residuals) ---
+const NUDGE_MIN_PAIRS = 12;          // Fewer residual pairs keep the persistent nudge
+const NUDGE_STRUCTURAL_PHI = 0.95;   // At or above: indistinguishable from a permanent level change
+const NUDGE_EVENT_PHI = 0.3;         // Below: a one-off deviation that is gone within a couple of months
+
+// --- Trading-Day Effect (Calendar Regressor) ---
+const TD_PRIOR = 1 / 30.4;           // Prior log effect of one extra open day (every day worth the same)
+const TD_PRIOR_MONTHS = 12;          // Ridge weight of the prior, in months of data
+const TD_MAX_EFFECT = 0.15;          // Upper clip of a single day's log effect
+
+// --- Exogenous Drivers ---
+const MAX_DRIVERS = 5;
+const DRIVER_RIDGE = 1e-6;           // Relative ridge keeping the driver system solvable
+const DRIVER_MIN_FACTOR = 0.05;      // Floor of the driver multiplier
+
+// --- Peer Priors (hierarchical shrinkage of young stores) ---
+const PEER_MIN_STORES = 3;           // Smaller groups fall back to their parent
+const PEER_POOL_STORES = 5;          // The parent's value counts as this many stores when pooling a group
+const PRIOR_MAX_MONTHS = 36;         // Stores with this many valid months are fitted without a prior
+const PRIOR_MIN_SPREAD = 0.15;       // Floor of the log-scale prior spread
+const SEASONAL_PRIOR_OBS = 2;        // Peer seasonality counts as this many observations of each month
+const COHORT_YEARS = 3;              // Opening-year bucket width
+const UNASSIGNED_PEER = '(未設定)';
+
+// --- Outlier Classification ---
+const OUTLIER_CONTEXT = 6;           // Normal months on each side that set the reference level
+const LEVEL_SHIFT_PERSIST = 0.5;     // Share of the excursion still present afterwards that makes it a level shift
+
+// --- Optimizer Settings (Nelder-Mead) ---
+const NM_MAX_ITER = 2500;
+const NM_STEP = 0.05;                // Initial simplex edge, relative to each coordinate
+const NM_X_TOL = 1e-4;               // Relative vertex spread
+const NM_F_TOL = 1e-6;               // Objective spread across vertices
+const NM_STARTS = 3;                 // Seeded starts for the standard fit, which seeds every other family
+const NM_START_SPREAD = 0.5;         // Log-scale spread of the extra starts
+const INFEASIBLE = 1e15;             // objectiveFunction's score outside the parameter domain
+
+// --- Parameter Uncertainty (Numerical Hessian) ---
+const HESSIAN_REL_STEP = 1e-3;       // Finite-difference step relative to each parameter
+const Z_95 = 1.96;
+
+// --- Bootstrap Settings (Forecast Quantiles) ---
+export const QUANTILE_HORIZON = 60;  // Months of forecast distribution kept on StoreData
+const BOOTSTRAP_REFITS = 20;         // Resampled series refitted per store
+const BOOTSTRAP_PATHS_PER_FIT = 10;  // Future residual paths drawn per refit
+const BOOTSTRAP_BLOCK = 6;           // Block length (months) keeps residual autocorrelation
+const BOOTSTRAP_MAX_ITER = 400;      // Refits start at the optimum, so they converge quickly
+const MIN_RESIDUAL_POOL = 6;
+const FALLBACK_REL_SPREAD = 0.15;    // Relative spread used when too few residuals exist (startup)
 
 // --- Statistical Helper Functions ---
 
@@ -25,6 +79,49 @@ const calculateIQRStats = (data: number[]) => {
     return { lower, upper, median };
 };
 
+const medianOf = (arr: number[]) => { const s = [...arr].sort((a, b) => a - b); return s[Math.floor(s.length / 2)]; };
+
+/**
+ * Classifies the months outside the IQR range. Consecutive months on the same side form one episode, compared with the
+ * normal months around it: a single month is an additive spike, an episode followed by the old level is a temporary
+ * change, and one whose level persists afterwards (or runs to the last month for 3+ months, or starts the series) is a level shift.
+ */
+const classifyOutliers = (raw: number[], outside: boolean[], upper: number): Map<number, { kind: OutlierKind; reason: string }> => {
+    const out = new Map<number, { kind: OutlierKind; reason: string }>();
+    const normal = (i: number) => raw[i] > 0 && !outside[i];
+    const firstActive = raw.findIndex(v => v > 0);
+    let i = 0;
+    while (i < raw.length) {
+        if (!outside[i]) { i++; continue; }
+        const high = raw[i] > upper;
+        let end = i;
+        while (end + 1 < raw.length && outside[end + 1] && (raw[end + 1] > upper) === high) end++;
+
+        const before: number[] = [], after: number[] = [];
+        for (let j = i - 1; j >= 0 && before.length < OUTLIER_CONTEXT; j--) if (normal(j)) before.push(raw[j]);
+        for (let j = end + 1; j < raw.length && after.length < OUTLIER_CONTEXT; j++) if (normal(j)) after.push(raw[j]);
+        const ref = before.length > 0 ? medianOf(before) : (after.length > 0 ? medianOf(after) : 0);
+        const level = medianOf(raw.slice(i, end + 1));
+        const dev = ref > 0 ? level / ref - 1 : 0;
+        const afterDev = before.length > 0 && after.length > 0 ? medianOf(after) / ref - 1 : 0;
+        const persists = before.length > 0 && after.length > 0 && Math.sign(afterDev) === Math.sign(dev) && Math.abs(afterDev) >= LEVEL_SHIFT_PERSIST * Math.abs(dev);
+        const len = end - i + 1;
+
+        let kind: OutlierKind, detail: string;
+        if (i === firstActive && !high) { kind = 'level_shift'; detail = '開業初期の立上り'; }
+        else if (persists) { kind = 'level_shift'; detail = `以降も${afterDev >= 0 ? '+' : ''}${Math.round(afterDev * 100)}%の水準が継続`; }
+        else if (after.length === 0 && len >= 3) { kind = 'level_shift'; detail = `直近まで${len}ヶ月継続`; }
+        else if (len === 1) { kind = 'additive'; detail = '単月のスパイク'; }
+        else { kind = 'temporary'; detail = `${len}ヶ月後に元の水準へ回復`; }
+
+        const rule = high ? 'IQR上限超' : 'IQR下限未満';
+        const pct = ref > 0 ? ` (周辺比 ${dev >= 0 ? '+' : ''}${Math.round(dev * 100)}%)` : '';
+        for (let j = i; j <= end; j++) out.set(j, { kind, reason: `${rule}${pct}: ${detail}` });
+        i = end + 1;
+    }
+    return out;
+};
+
 export const calculatePearsonCorrelation = (x: number[], y: number[]) => {
     const n = Math.min(x.length, y.length);
     if (n < 2) return 0;
@@ -131,22 +228,127 @@ export const logisticModel = (t: number, p: any, mode: string, tShock: number):
         return base + (p.L / (1 + Math.exp(-p.k * (t - p.t0))));
     }
     
+    // N level shifts: p.shocks[j] is the first index at which p.shifts[j] applies
     if (mode === 'shift') {
-        const currentBase = t >= tShock ? (base + (p.shift || 0)) : base;
+        let currentBase = base;
+        if (p.shocks) {
+            for (let j = 0; j < p.shocks.length; j++) if (t >= p.shocks[j]) currentBase += (p.shifts[j] || 0);
+        } else if (t >= tShock) {
+            currentBase += (p.shift || 0);
+        }
         return currentBase + (p.L / (1 + Math.exp(-p.k * (t - p.t0))));
     }
 
-    if (mode === 'dual_shift') {
-        const shock2 = p.shockIdx2 || -1;
-        let currentBase = base;
-        if (t >= tShock) currentBase += (p.shift || 0); 
-        if (shock2 !== -1 && t >= shock2) currentBase += (p.shift2 || 0); 
-        return currentBase + (p.L / (1 + Math.exp(-p.k * (t - p.t0))));
+    // Gompertz: fast ramp-up, slow approach to L
+    if (mode === 'gompertz') {
+        return base + p.L * Math.exp(-Math.exp(-p.k * (t - p.t0)));
+    }
+
+    // Richards (generalised logistic): nu < 1 levels off slowly, nu = 1 is the logistic curve
+    if (mode === 'richards') {
+        const nu = p.nu || 1;
+        return base + p.L / Math.pow(1 + nu * Math.exp(-p.k * (t - p.t0)), 1 / nu);
+    }
+
+    // Damped-trend Holt: in-sample one-step-ahead path, then a damped extrapolation from the last state
+    if (mode === 'damped') {
+        if (t <= p.tEnd) return p.path[Math.max(0, Math.round(t))];
+        const h = t - p.tEnd;
+        return p.level + p.trend * (p.phi * (1 - Math.pow(p.phi, h)) / (1 - p.phi));
     }
     
     return base + (p.L / (1 + Math.exp(-p.k * (t - p.t0))));
 };
 
+export const getCurveFamily = (mode: FitMode): CurveFamily => {
+    if (mode === 'gompertz') return 'gompertz';
+    if (mode === 'richards') return 'richards';
+    if (mode === 'damped') return 'damped_trend';
+    return 'logistic';
+};
+
+const unpackParams = (params: number[], config: any): any => {
+    const base = config.base || 0;
+    if (config.mode === 'richards') return { base, L: params[0], k: params[1], t0: params[2], nu: params[3] };
+    if (config.mode === 'shift') {
+        const shifts = params.slice(3);
+        return { base, L: params[0], k: params[1], t0: params[2], shocks: config.shocks, shifts, shift: shifts.reduce((a, b) => a + b, 0) };
+    }
+    if (config.mode === 'startup') return { base, L: params[0], k: config.fixedK, t0: params[1] };
+    return { base, L: params[0], k: params[1], t0: params[2] };
+};
+
+/**
+ * Damped-trend Holt smoothing with params [alpha, beta, phi].
+ * L is reported as the rise of the long-run level the damped trend converges to over base (as L is for the
+ * growth curves, so base + L is the potential of every family) and k as the trend decay rate (-ln phi),
+ * so damped fits stay comparable with the growth curves in rankings and constraints.
+ */
+const runDampedTrend = (params: number[], data: number[], mask: boolean[], config: any) => {
+    const [alpha, beta, phi] = params;
+    let level = config.level0, trend = config.trend0;
+    const path: number[] = [];
+    for (let i = 0; i < data.length; i++) {
+        const pred = level + phi * trend;
+        path.push(pred);
+        if (mask[i]) {
+            const next = alpha * (data[i] / (config.seasonalAt?.[i] || 1.0)) + (1 - alpha) * pred;
+            trend = beta * (next - level) + (1 - beta) * phi * trend;
+            level = next;
+        } else {
+            level = pred;
+            trend = phi * trend;
+        }
+    }
+    const tEnd = data.length - 1;
+    const base = config.base || 0;
+    return { base, L: level + trend * phi / (1 - phi) - base, k: -Math.log(phi), t0: tEnd, alpha, beta, phi, level, trend, tEnd, path };
+};
+
+const resolveParams = (params: number[], data: number[], mask: boolean[], config: any): any => {
+    if (config.mode === 'damped') return runDampedTrend(params, data, mask, config);
+    return unpackParams(params, config);
+};
+
+// Least-squares coefficients of data = pred * (1 + Σ β_j x_j) for a fixed curve; profiling β out this way
+// fits the drivers jointly with the curve without adding dimensions to the simplex.
+const solveDriverCoefs = (pred: number[], data: number[], mask: boolean[], X: number[][]): number[] => {
+    const k = X.length;
+    const A = Array.from({ length: k }, () => new Array(k).fill(0));
+    const b = new Array(k).fill(0);
+    for (let i = 0; i < data.length; i++) {
+        if (!mask[i]) continue;
+        const r = data[i] - pred[i];
+        for (let a = 0; a < k; a++) {
+            const za = pred[i] * X[a][i];
+            b[a] += za * r;
+            for (let c = 0; c <= a; c++) A[a][c] += za * pred[i] * X[c][i];
+        }
+    }
+    let trace = 0;
+    for (let a = 0; a < k; a++) { for (let c = 0; c < a; c++) A[c][a] = A[a][c]; trace += A[a][a]; }
+    for (let a = 0; a < k; a++) A[a][a] += DRIVER_RIDGE * Math.max(trace, 1);
+    const inv = invertSPD(A);
+    if (!inv) return new Array(k).fill(0);
+    return inv.map(row => row.reduce((s, v, c) => s + v * b[c], 0));
+};
+
+const driverMultiplier = (beta: number[], X: number[][], i: number) => {
+    let f = 1;
+    for (let j = 0; j < beta.length; j++) f += beta[j] * X[j][i];
+    return Math.max(DRIVER_MIN_FACTOR, f);
+};
+
+// In-sample prediction of resolved params, with the driver effect (config.drivers = centred regressors) applied.
+// config.driverBeta fixes the coefficients instead of profiling them (damped fits, whose level would absorb them).
+const predictFit = (p: any, data: number[], mask: boolean[], config: any): { pred: number[]; beta: number[] | null } => {
+    const pred = data.map((_, i) => logisticModel(i, p, config.mode, config.shockIdx));
+    const X: number[][] | undefined = config.drivers;
+    if (!X || X.length === 0) return { pred, beta: null };
+    const beta: number[] = config.driverBeta ?? solveDriverCoefs(pred, data, mask, X);
+    return { pred: pred.map((v, i) => v * driverMultiplier(beta, X, i)), beta };
+};
+
 /**
  * OBJECTIVE FUNCTION
  * Implements "Occam's Razor" via Regularization.
@@ -155,37 +357,41 @@ function objectiveFunction(params: number[], data: number[], mask: boolean[], co
     let errSqSum = 0, n = 0;
     const mode = config.mode;
     const base = config.base || 0;
-    
-    let p: any;
-    if (mode === 'dual_shift') {
-        p = { base: base, L: params[0], k: params[1], t0: params[2], shift: params[3], shift2: params[4], shockIdx2: config.shockIdx2 };
-    } else if (mode === 'shift') {
-        p = { base: base, L: params[0], k: params[1], t0: params[2], shift: params[3] };
-    } else if (mode === 'startup') {
-        p = { base: base, L: params[0], k: config.fixedK, t0: params[1] };
-    } else {
-        p = { base: base, L: params[0], k: params[1], t0: params[2] };
+
+    // Family-specific domains
+    if (mode === 'damped') {
+        const [alpha, beta, phi] = params;
+        if (alpha <= 0 || alpha > 1 || beta < 0 || beta > 1 || phi < 0.8 || phi > 0.995) return INFEASIBLE;
     }
+    if (mode === 'richards' && (params[3] < 0.05 || params[3] > 20)) return INFEASIBLE;
+
+    const p = resolveParams(params, data, mask, config);
+    const engine: EngineConfig = config.engine || ENGINE_PRESETS.sales;
     
     // --- 1. Hard Constraints (Physical Limits) ---
     const minK = 0.0001; 
     
-    if (mode !== 'startup' && (p.k < minK || p.k > MAX_K_THRESHOLD)) return 1e15;
+    if (mode !== 'startup' && (p.k < minK || p.k > engine.maxK)) return INFEASIBLE;
     
-    const totalPotential = base + p.L + (p.shift || 0) + (p.shift2 || 0);
-    if (totalPotential > ABSOLUTE_MAX_L) return 1e15; 
+    const totalPotential = base + p.L + (p.shift || 0);
+    if (totalPotential > engine.absoluteMaxL) return INFEASIBLE; 
     
-    // Rare Case Penalty (> 5M)
+    // Rare Case Penalty
     let hardPenalty = 0;
-    if (totalPotential > RARE_L_THRESHOLD) {
-        hardPenalty += Math.pow(totalPotential - RARE_L_THRESHOLD, 2) * 0.1;
+    if (totalPotential > engine.rareL) {
+        hardPenalty += Math.pow(totalPotential - engine.rareL, 2) * engine.rarePenalty;
+    }
+
+    // Capacity ceiling (chairs x staffed hours): a soft bound, so stores already above it still fit
+    if (config.ceiling > 0 && totalPotential > config.ceiling) {
+        hardPenalty += engine.capacityPenalty * Math.pow((totalPotential - config.ceiling) / config.ceiling, 2);
     }
 
     // --- 2. Calculate MSE ---
+    const { pred } = predictFit(p, data, mask, config);
     for (let i = 0; i < data.length; i++) {
         if (!mask[i]) continue;
-        const pred = logisticModel(i, p, mode, config.shockIdx);
-        const res = data[i] - pred;
+        const res = data[i] - pred[i];
         errSqSum += res * res;
         n++;
     }
@@ -199,80 +405,141 @@ function objectiveFunction(params: number[], data: number[], mask: boolean[], co
 
     const currentMax = config.maxVal || 1000;
     const lRatio = totalPotential / currentMax;
-    // Quadratic penalty starts after 1.2x
-    const regL = lRatio > 1.2 ? 0.1 * Math.pow(lRatio - 1.2, 2) : 0;
+    // Quadratic penalty starts after regLStart (1.2x by default)
+    const regL = lRatio > engine.regLStart ? engine.regL * Math.pow(lRatio - engine.regLStart, 2) : 0;
 
-    const regK = 0.05 * (p.k * p.k);
+    const regK = engine.regK * (p.k * p.k);
 
     let regShift = 0;
-    if (p.shift) regShift += 0.1 * Math.pow(p.shift / currentMax, 2);
-    if (p.shift2) regShift += 0.1 * Math.pow(p.shift2 / currentMax, 2);
+    if (p.shifts) p.shifts.forEach((s: number) => { regShift += engine.regShift * Math.pow(s / currentMax, 2); });
 
-    return (normalizedError + hardPenalty + regL + regK + regShift);
+    // Peer-group prior (young stores): log-normal on k and/or L, worth D/n of the fit error,
+    // i.e. the Gaussian likelihood with the prior folded in as extra squared deviations
+    let priorFactor = 1;
+    if (config.prior && n > 0) {
+        const { k: pk, L: pL, spread } = config.prior;
+        let D = 0;
+        if (pk > 0) D += Math.pow(Math.log(Math.max(p.k, 1e-9) / pk) / spread.k, 2);
+        if (pL > 0) D += Math.pow(Math.log(Math.max(p.L, 1e-9) / pL) / spread.L, 2);
+        priorFactor = 1 + D / n;
+    }
+
+    return (normalizedError * priorFactor + hardPenalty + regL + regK + regShift);
 }
 
-function nelderMead(f: any, x0: number[], d: number[], m: boolean[], extra: any) {
-    let dim = x0.length;
-    let simplex = [x0];
-    const step = 0.05; 
-    
+interface NelderMeadOptions {
+    maxIter?: number;
+    starts?: number;   // 1 = caller's guess only
+    polish?: boolean;  // Restart the winner from a fresh simplex (default true)
+}
+
+// One simplex run from x0. Coefficients follow Gao & Han (2012), which scale expansion,
+// contraction and shrink with the dimension; every vertex score is computed once and cached.
+const simplexSearch = (fx: (x: number[]) => number, x0: number[], maxIter: number) => {
+    const dim = x0.length;
+    const beta = 1 + 2 / dim, gamma = 0.75 - 1 / (2 * dim), delta = 1 - 1 / dim;
+    let simplex = [x0.slice()];
     for (let i = 0; i < dim; i++) {
-        let x = [...x0];
-        x[i] = x[i] === 0 ? 0.001 : x[i] * (1 + step);
+        const x = x0.slice();
+        x[i] = x[i] === 0 ? 0.001 : x[i] * (1 + NM_STEP);
         simplex.push(x);
     }
-    
-    for (let iter = 0; iter < 2500; iter++) {
-        simplex.sort((a, b) => f(a, d, m, extra) - f(b, d, m, extra));
-        let bestScore = f(simplex[0], d, m, extra);
-        let worstScore = f(simplex[dim], d, m, extra);
-        if (Math.abs(worstScore - bestScore) < 1e-6) break;
+    let scores = simplex.map(fx);
+    let evaluations = dim + 1, iterations = 0, converged = false;
+
+    for (; iterations < maxIter; iterations++) {
+        const order = scores.map((_, i) => i).sort((a, b) => scores[a] - scores[b]);
+        simplex = order.map(i => simplex[i]);
+        scores = order.map(i => scores[i]);
 
-        let ctr = new Array(dim).fill(0);
+        // Converged when the vertices agree in both position (relative) and score
+        let xSpread = 0;
+        for (let i = 1; i <= dim; i++) {
+            for (let j = 0; j < dim; j++) xSpread = Math.max(xSpread, Math.abs(simplex[i][j] - simplex[0][j]) / (1 + Math.abs(simplex[0][j])));
+        }
+        const fSpread = scores[dim] - scores[0];
+        if (xSpread <= NM_X_TOL && fSpread <= NM_F_TOL) { converged = true; break; }
+        if (scores[0] >= INFEASIBLE && fSpread === 0) break; // Every vertex is outside the domain
+
+        const ctr = new Array(dim).fill(0);
         for (let i = 0; i < dim; i++) {
-            for (let j = 0; j < dim; j++) ctr[j] += simplex[i][j];
+            for (let j = 0; j < dim; j++) ctr[j] += simplex[i][j] / dim;
         }
-        for (let j = 0; j < dim; j++) ctr[j] /= dim;
-        
-        let xr = ctr.map((v, i) => v + 1.0 * (v - simplex[dim][i]));
-        let fr = f(xr, d, m, extra);
-        if (fr < bestScore) {
-            let xe = ctr.map((v, i) => v + 2.0 * (xr[i] - ctr[i]));
-            simplex[dim] = f(xe, d, m, extra) < fr ? xe : xr;
-        } else if (fr < f(simplex[dim - 1], d, m, extra)) {
-            simplex[dim] = xr;
+        const worst = simplex[dim];
+        const xr = ctr.map((v, j) => 2 * v - worst[j]);
+        const fr = fx(xr); evaluations++;
+        if (fr < scores[0]) {
+            const xe = ctr.map((v, j) => v + beta * (xr[j] - v));
+            const fe = fx(xe); evaluations++;
+            if (fe < fr) { simplex[dim] = xe; scores[dim] = fe; } else { simplex[dim] = xr; scores[dim] = fr; }
+        } else if (fr < scores[dim - 1]) {
+            simplex[dim] = xr; scores[dim] = fr;
         } else {
-            let xc = ctr.map((v, i) => v + 0.5 * (simplex[dim][i] - ctr[i]));
-            if (f(xc, d, m, extra) < worstScore) simplex[dim] = xc;
-            else {
-                for (let i = 1; i <= dim; i++) simplex[i] = simplex[i].map((v, j) => simplex[0][j] + 0.5 * (v - simplex[0][j]));
+            // Outside contraction if the reflection beat the worst vertex, inside otherwise
+            const outside = fr < scores[dim];
+            const xc = ctr.map((v, j) => v + gamma * ((outside ? xr[j] : worst[j]) - v));
+            const fc = fx(xc); evaluations++;
+            if (fc < (outside ? fr : scores[dim])) {
+                simplex[dim] = xc; scores[dim] = fc;
+            } else {
+                for (let i = 1; i <= dim; i++) {
+                    simplex[i] = simplex[i].map((v, j) => simplex[0][j] + delta * (v - simplex[0][j]));
+                    scores[i] = fx(simplex[i]);
+                }
+                evaluations += dim;
             }
         }
     }
-    
-    const bestParams = simplex[0];
+
+    let best = 0;
+    for (let i = 1; i <= dim; i++) if (scores[i] < scores[best]) best = i;
+    return { x: simplex[best], f: scores[best], iterations, evaluations, converged };
+};
+
+// Multi-start Nelder-Mead. Extra starts are seeded log-normal perturbations of x0 (reproducible for
+// the same guess); the winner is then restarted from a fresh simplex, since a collapsed simplex can
+// stall short of the minimum. The last run decides the converged flag.
+function nelderMead(f: any, x0: number[], d: number[], m: boolean[], extra: any, options: NelderMeadOptions = {}) {
+    const maxIter = options.maxIter ?? NM_MAX_ITER;
+    const starts = options.starts ?? 1;
+    const fx = (x: number[]) => f(x, d, m, extra);
+
+    let run = simplexSearch(fx, x0, maxIter);
+    let iterations = run.iterations, evaluations = run.evaluations, restarts = 0;
+    const rng = createRng(x0.map(v => v.toPrecision(6)).join(','));
+    for (let s = 1; s < starts; s++) {
+        const xs = x0.map(v => v * Math.exp(NM_START_SPREAD * gaussian(rng)));
+        evaluations++;
+        if (!(fx(xs) < INFEASIBLE)) continue;
+        const r = simplexSearch(fx, xs, maxIter);
+        iterations += r.iterations; evaluations += r.evaluations; restarts++;
+        if (r.f < run.f) run = r;
+    }
+    if (options.polish !== false) {
+        const polish = simplexSearch(fx, run.x, maxIter);
+        iterations += polish.iterations; evaluations += polish.evaluations; restarts++;
+        run = polish.f <= run.f ? polish : { ...run, converged: polish.converged };
+    }
+    const convergence: FitConvergence = { iterations, evaluations, converged: run.converged, restarts };
+
+    const bestParams = run.x;
     let pureMSE = 0;
     let n = 0;
     
-    const mode = extra.mode;
-    const base = extra.base;
     const config = extra;
-    let p: any;
-    if (mode === 'dual_shift') p = { base, L: bestParams[0], k: bestParams[1], t0: bestParams[2], shift: bestParams[3], shift2: bestParams[4], shockIdx2: config.shockIdx2 };
-    else if (mode === 'shift') p = { base, L: bestParams[0], k: bestParams[1], t0: bestParams[2], shift: bestParams[3] };
-    else if (mode === 'startup') p = { base, L: bestParams[0], k: config.fixedK, t0: bestParams[1] };
-    else p = { base, L: bestParams[0], k: bestParams[1], t0: bestParams[2] };
+    const p = resolveParams(bestParams, d, m, config);
+    const { pred } = predictFit(p, d, m, config);
 
     for(let i=0; i<d.length; i++) {
         if(m[i]) {
-            const res = d[i] - logisticModel(i, p, mode, config.shockIdx);
+            const res = d[i] - pred[i];
             pureMSE += res*res;
             n++;
         }
     }
     pureMSE = n > 0 ? pureMSE / n : 0;
 
-    return { p: bestParams, sse: pureMSE * n, n };
+    return { p: bestParams, sse: pureMSE * n, n, convergence };
 }
 
 const calculateAIC = (sse: number, n: number, k: number) => {
@@ -280,12 +547,615 @@ const calculateAIC = (sse: number, n: number, k: number) => {
     return n * Math.log(sse / n) + 2 * k;
 };
 
+// Small-sample corrected AIC; young stores have few points per parameter
+const calculateAICc = (sse: number, n: number, k: number) => {
+    const aic = calculateAIC(sse, n, k);
+    if (n - k - 1 <= 0) return Infinity;
+    return aic + (2 * k * (k + 1)) / (n - k - 1);
+};
+
+// --- Parameter Uncertainty ---
+
+// Cholesky-based inverse of a symmetric matrix; null when not positive definite (flat or saddle optimum)
+export const invertSPD = (A: number[][]): number[][] | null => {
+    const n = A.length;
+    const Lc = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        for (let j = 0; j <= i; j++) {
+            let sum = A[i][j];
+            for (let k = 0; k < j; k++) sum -= Lc[i][k] * Lc[j][k];
+            if (i === j) {
+                if (!(sum > 0)) return null;
+                Lc[i][i] = Math.sqrt(sum);
+            } else {
+                Lc[i][j] = sum / Lc[j][j];
+            }
+        }
+    }
+    // inv(A) = inv(Lc)' inv(Lc)
+    const Li = Array.from({ length: n }, () => new Array(n).fill(0));
+    for (let i = 0; i < n; i++) {
+        Li[i][i] = 1 / Lc[i][i];
+        for (let j = 0; j < i; j++) {
+            let sum = 0;
+            for (let k = j; k < i; k++) sum -= Lc[i][k] * Li[k][j];
+            Li[i][j] = sum / Lc[i][i];
+        }
+    }
+    return Array.from({ length: n }, (_, i) => Array.from({ length: n }, (_, j) => {
+        let sum = 0;
+        for (let k = Math.max(i, j); k < n; k++) sum += Li[k][i] * Li[k][j];
+        return sum;
+    }));
+};
+
+/**
+ * Standard errors of L, k, t0 and the total shift from a numerical Hessian of the fitted objective.
+ * The objective is mse / V + penalties, i.e. a negative log-posterior scaled by 2σ² / (nV), so
+ * Cov(θ) = (2σ² / (nV)) · H⁻¹ with σ² = SSE / (n - p). L, k, t0 and shift are then propagated from the
+ * raw parameter vector by the delta method, which also covers damped fits (L and k are derived there).
+ * A Hessian that is not positive definite means the likelihood is flat: every interval is unbounded.
+ */
+const estimateParamIntervals = (x: number[], data: number[], mask: boolean[], config: any, sse: number, n: number): ParamIntervals | undefined => {
+    const dim = x.length;
+    if (n - dim <= 0 || sse <= 0) return undefined;
+    const f = (v: number[]) => objectiveFunction(v, data, mask, config);
+    const h = x.map(v => HESSIAN_REL_STEP * Math.max(Math.abs(v), 1e-3));
+    const at = (steps: [number, number][]) => {
+        const v = x.slice();
+        steps.forEach(([i, s]) => v[i] += s * h[i]);
+        return f(v);
+    };
+
+    const derived = (v: number[]) => {
+        const p = resolveParams(v, data, mask, config);
+        return { L: p.L, k: p.k, t0: p.t0, shift: p.shift } as Record<string, number | undefined>;
+    };
+    const keys = ['L', 'k', 't0', ...(config.mode === 'shift' ? ['shift'] : [])] as (keyof ParamIntervals)[];
+    const point = derived(x);
+    const unbounded = (): ParamIntervals => Object.fromEntries(keys.map(key => [key, { se: Infinity, lower: -Infinity, upper: Infinity }]));
+
+    const f0 = f(x);
+    const H = Array.from({ length: dim }, () => new Array(dim).fill(0));
+    for (let i = 0; i < dim; i++) {
+        const fp = at([[i, 1]]), fm = at([[i, -1]]);
+        if (fp >= INFEASIBLE || fm >= INFEASIBLE) return unbounded(); // Optimum sits on a domain edge
+        H[i][i] = (fp - 2 * f0 + fm) / (h[i] * h[i]);
+        for (let j = 0; j < i; j++) {
+            H[i][j] = H[j][i] = (at([[i, 1], [j, 1]]) - at([[i, 1], [j, -1]]) - at([[i, -1], [j, 1]]) + at([[i, -1], [j, -1]])) / (4 * h[i] * h[j]);
+        }
+    }
+    const Hinv = invertSPD(H);
+    if (!Hinv) return unbounded();
+
+    const sigma2 = sse / (n - dim);
+    const V = config.variance && config.variance > 100 ? config.variance : (config.maxVal * config.maxVal * 0.01); // As in objectiveFunction
+    const scale = 2 * sigma2 / (n * V);
+
+    const grads = x.map((_, i) => {
+        const up = x.slice(), down = x.slice();
+        up[i] += h[i]; down[i] -= h[i];
+        const gu = derived(up), gd = derived(down);
+        return Object.fromEntries(keys.map(key => [key, (((gu[key] ?? 0) - (gd[key] ?? 0)) / (2 * h[i]))]));
+    });
+
+    const result: ParamIntervals = {};
+    keys.forEach(key => {
+        let variance = 0;
+        for (let i = 0; i < dim; i++) {
+            for (let j = 0; j < dim; j++) variance += grads[i][key] * Hinv[i][j] * grads[j][key];
+        }
+        const se = Math.sqrt(Math.max(0, variance * scale));
+        const value = point[key] ?? 0;
+        const interval: ParamInterval = { se, lower: value - Z_95 * se, upper: value + Z_95 * se };
+        if (key === 'L' || key === 'k') interval.lower = Math.max(0, interval.lower);
+        result[key] = interval;
+    });
+    return result;
+};
+
+// --- Nudge Decay ---
+
+/**
+ * Estimates how fast the nudge (median of the last 12 residuals) should fade, as the AR(1) coefficient
+ * of the de-seasonalized residuals over the fitted months: the forecast adds nudge · φ^h at horizon h.
+ * φ near 1 is treated as a structural level change (no decay), a small φ as a one-off event.
+ */
+const estimateNudgeDecay = (residuals: number[], seasonal: number[], mask: boolean[]): { nudgeDecay: number; nudgeType: NudgeType } => {
+    const e = residuals.map((r, i) => r / (seasonal[i] || 1.0));
+    let num = 0, den = 0, pairs = 0;
+    for (let i = 1; i < e.length; i++) {
+        if (!mask[i] || !mask[i - 1]) continue;
+        num += e[i] * e[i - 1];
+        den += e[i - 1] * e[i - 1];
+        pairs++;
+    }
+    if (pairs < NUDGE_MIN_PAIRS || den <= 0) return { nudgeDecay: 1.0, nudgeType: 'structural' };
+
+    const phi = Math.max(0, Math.min(1, num / den));
+    if (phi >= NUDGE_STRUCTURAL_PHI) return { nudgeDecay: 1.0, nudgeType: 'structural' };
+    return { nudgeDecay: phi, nudgeType: phi < NUDGE_EVENT_PHI ? 'event' : 'trend' };
+};
+
+// --- Bootstrap Forecast Quantiles ---
+
+// Deterministic PRNG (mulberry32) seeded from the store name so reloads give identical bands.
+export const createRng = (seedText: string) => {
+    let seed = 0;
+    for (let i = 0; i < seedText.length; i++) seed = (Math.imul(31, seed) + seedText.charCodeAt(i)) | 0;
+    return () => {
+        seed = (seed + 0x6D2B79F5) | 0;
+        let t = Math.imul(seed ^ (seed >>> 15), 1 | seed);
+        t = (t + Math.imul(t ^ (t >>> 7), 61 | t)) ^ t;
+        return ((t ^ (t >>> 14)) >>> 0) / 4294967296;
+    };
+};
+
+// Standard normal draw (Box-Muller)
+const gaussian = (rng: () => number) => {
+    const u = Math.max(rng(), 1e-12);
+    return Math.sqrt(-2 * Math.log(u)) * Math.cos(2 * Math.PI * rng());
+};
+
+const quantileSorted = (sorted: number[], p: number) => {
+    if (sorted.length === 0) return 0;
+    const idx = p * (sorted.length - 1);
+    const lo = Math.floor(idx), hi = Math.ceil(idx);
+    return sorted[lo] + (sorted[hi] - sorted[lo]) * (idx - lo);
+};
+
+const toQuantileSet = (values: number[]): QuantileSet<number> => {
+    const sorted = [...values].sort((a, b) => a - b);
+    return {
+        p05: quantileSorted(sorted, 0.05), p25: quantileSorted(sorted, 0.25), p50: quantileSorted(sorted, 0.5),
+        p75: quantileSorted(sorted, 0.75), p95: quantileSorted(sorted, 0.95)
+    };
+};
+
+// Circular moving-block resample of the residual pool
+const resampleBlocks = (pool: number[], length: number, rng: () => number) => {
+    const out: number[] = [];
+    while (out.length < length) {
+        const start = Math.floor(rng() * pool.length);
+        for (let j = 0; j < BOOTSTRAP_BLOCK && out.length < length; j++) out.push(pool[(start + j) % pool.length]);
+    }
+    return out;
+};
+
+interface BootstrapInput {
+    raw: number[];
+    mask: boolean[];
+    fitted: number[];                   // In-sample fit (same scale as raw)
+    trend: (t: number) => number;       // Fitted trend at time index t
+    seasonalAt: (h: number) => number;  // Seasonal x calendar factor h months after the last actual
+    nudge: number;
+    nudgeDecay: number;
+    refit?: (series: number[]) => ((t: number) => number) | null;
+    rng: () => number;
+}
+
+/**
+ * Residual block-bootstrap forecast distribution.
+ * Residuals are relative (actual / fitted - 1), so the right skew of monthly data carries into the bands.
+ * Each resampled history is refitted, so parameter uncertainty widens the band with horizon.
+ */
+const bootstrapForecastQuantiles = (input: BootstrapInput): ForecastQuantiles => {
+    const { raw, mask, fitted, trend, seasonalAt, nudge, nudgeDecay, refit, rng } = input;
+    const n = raw.length;
+
+    let pool: number[] = [];
+    for (let i = 0; i < n; i++) {
+        if (mask[i] && fitted[i] > 0) pool.push(raw[i] / fitted[i] - 1);
+    }
+    if (pool.length < MIN_RESIDUAL_POOL) {
+        const d = FALLBACK_REL_SPREAD;
+        pool = pool.concat([-d, -d / 2, 0, d / 2, d]);
+    }
+
+    const trends: ((t: number) => number)[] = [];
+    if (refit) {
+        for (let b = 0; b < BOOTSTRAP_REFITS; b++) {
+            const resampled = resampleBlocks(pool, n, rng);
+            const series = raw.map((v, i) => mask[i] ? Math.max(0, fitted[i] * (1 + resampled[i])) : v);
+            const refitted = refit(series);
+            if (refitted) trends.push(refitted);
+        }
+    }
+    if (trends.length === 0) trends.push(trend);
+    const pathsPerTrend = Math.ceil((BOOTSTRAP_REFITS * BOOTSTRAP_PATHS_PER_FIT) / trends.length);
+
+    const byHorizon: number[][] = Array.from({ length: QUANTILE_HORIZON }, () => []);
+    const next12Totals: number[] = [];
+    trends.forEach(tr => {
+        const base: number[] = [];
+        for (let h = 1; h <= QUANTILE_HORIZON; h++) {
+            const sea = seasonalAt(h);
+            base.push((tr(n - 1 + h) + nudge * Math.pow(nudgeDecay, h)) * sea);
+        }
+        for (let p = 0; p < pathsPerTrend; p++) {
+            const noise = resampleBlocks(pool, QUANTILE_HORIZON, rng);
+            let total12 = 0;
+            for (let h = 0; h < QUANTILE_HORIZON; h++) {
+                const v = Math.max(0, base[h] * (1 + noise[h]));
+                byHorizon[h].push(v);
+                if (h < 12) total12 += v;
+            }
+            next12Totals.push(total12);
+        }
+    });
+
+    const monthly = byHorizon.map(toQuantileSet);
+    return {
+        p05: monthly.map(q => q.p05), p25: monthly.map(q => q.p25), p50: monthly.map(q => q.p50),
+        p75: monthly.map(q => q.p75), p95: monthly.map(q => q.p95),
+        next12: toQuantileSet(next12Totals),
+        paths: next12Totals.length
+    };
+};
+
+/**
+ * Central band for a forecast horizon (1-based), read from the bootstrap quantiles.
+ * coverage 90 -> [P05, P95], 50 -> [P25, P75]. Horizons past QUANTILE_HORIZON reuse the last month.
+ */
+export const getForecastBand = (store: StoreData, h: number, coverage: 50 | 90): [number, number] | null => {
+    const q = store.quantiles;
+    if (!q || q.p50.length === 0) return null;
+    const i = Math.min(Math.max(h, 1), q.p50.length) - 1;
+    return coverage === 90 ? [q.p05[i], q.p95[i]] : [q.p25[i], q.p75[i]];
+};
+
+/**
+ * Inverse CDF of the forecast distribution at horizon h for probability u (0-1).
+ * Piecewise-linear between the stored quantiles, with the outer segments extended into the tails.
+ */
+export const sampleForecastQuantile = (q: ForecastQuantiles, h: number, u: number): number => {
+    const i = Math.min(Math.max(h, 1), q.p50.length) - 1;
+    const ps = [0.05, 0.25, 0.5, 0.75, 0.95];
+    const vs = [q.p05[i], q.p25[i], q.p50[i], q.p75[i], q.p95[i]];
+    let seg = 0;
+    while (seg < ps.length - 2 && u > ps[seg + 1]) seg++;
+    const slope = (vs[seg + 1] - vs[seg]) / (ps[seg + 1] - ps[seg]);
+    return Math.max(0, vs[seg] + slope * (u - ps[seg]));
+};
+
+// Upper weighted median (equal weights give the plain upper median)
+const weightedMedian = (items: { v: number; w: number }[]): number => {
+    const sorted = [...items].sort((a, b) => a.v - b.v);
+    const half = sorted.reduce((a, x) => a + x.w, 0) / 2;
+    let cum = 0;
+    for (const x of sorted) {
+        cum += x.w;
+        if (cum > half) return x.v;
+    }
+    return sorted[sorted.length - 1].v;
+};
+
+/**
+ * 12-month multiplicative index: weighted median of actual / trend per calendar month, normalised to mean 1.
+ * Months are weighted by 0.5^(years from `centre` / halfLife), so the index can follow a shift in seasonality;
+ * halfLife 0 weights every month equally (one index for the whole history).
+ */
+const estimateSeasonality = (raw: number[], dates: string[], mask: boolean[], trend: (t: number) => number, centre = 0, halfLife = 0): number[] => {
+    const seaBuckets: { v: number; w: number }[][] = Array.from({ length: 12 }, () => []);
+    raw.forEach((v, i) => {
+        if (!mask[i]) return;
+        const tr = trend(i);
+        if (tr > 1) {
+            const dO = new Date(dates[i].replace(/\//g, '-'));
+            const w = halfLife > 0 ? Math.pow(0.5, Math.abs(i - centre) / 12 / halfLife) : 1;
+            seaBuckets[isNaN(dO.getTime()) ? 0 : dO.getMonth()].push({ v: v / tr, w });
+        }
+    });
+    const sea = seaBuckets.map(b => b.length === 0 ? 1.0 : weightedMedian(b));
+    const seaAvg = sea.reduce((a, b) => a + b, 0) / 12;
+    return sea.map(v => v / seaAvg);
+};
+
+/**
+ * Time-varying seasonality: one index per calendar year, weighted around the year's middle month. The last
+ * year's index is taken at the last actual, so it is the one the forecast carries on.
+ */
+const estimateSeasonalityByYear = (raw: number[], dates: string[], mask: boolean[], trend: (t: number) => number, halfLife: number, adjust: (sea: number[]) => number[] = (sea) => sea): SeasonalYearProfile[] => {
+    const yearIdx = new Map<number, number[]>();
+    dates.forEach((d, i) => {
+        const y = new Date(d.replace(/\//g, '-')).getFullYear();
+        if (!isNaN(y)) yearIdx.set(y, [...(yearIdx.get(y) || []), i]);
+    });
+    const years = Array.from(yearIdx.entries());
+    return years.map(([year, idx], j) => ({
+        year,
+        index: adjust(estimateSeasonality(raw, dates, mask, trend, j === years.length - 1 ? raw.length - 1 : (idx[0] + idx[idx.length - 1]) / 2, halfLife)),
+        months: idx.filter(i => mask[i]).length
+    }));
+};
+
+// Seasonal index of each month of the series from its year's profile
+const seasonalIndexAt = (profiles: SeasonalYearProfile[], dates: string[]): number[] => {
+    const byYear = new Map(profiles.map(p => [p.year, p.index]));
+    return dates.map(d => {
+        const dO = new Date(d.replace(/\//g, '-'));
+        return isNaN(dO.getTime()) ? 1.0 : (byYear.get(dO.getFullYear())?.[dO.getMonth()] || 1.0);
+    });
+};
+
+// Each month's own index weighted by its observation count against SEASONAL_PRIOR_OBS of the peer index
+const blendSeasonality = (own: number[], peer: number[], dates: string[], mask: boolean[]): number[] => {
+    const counts = Array(12).fill(0);
+    dates.forEach((d, i) => {
+        if (!mask[i]) return;
+        const dO = new Date(d.replace(/\//g, '-'));
+        counts[isNaN(dO.getTime()) ? 0 : dO.getMonth()]++;
+    });
+    const peerAvg = peer.reduce((a, b) => a + b, 0) / 12 || 1;
+    const sea = own.map((v, m) => {
+        const w = counts[m] / (counts[m] + SEASONAL_PRIOR_OBS);
+        return w * v + (1 - w) * (peer[m] / peerAvg);
+    });
+    const seaAvg = sea.reduce((a, b) => a + b, 0) / 12;
+    return sea.map(v => v / seaAvg);
+};
+
+/**
+ * Trading-day coefficients from log(actual / (trend x seasonal)) regressed on the month's open weekday /
+ * holiday-like day deviations (centred, ridge towards TD_PRIOR). Short histories stay close to the prior,
+ * so closures still cut the forecast of a young store.
+ */
+const estimateTradingDayEffect = (raw: number[], dates: string[], mask: boolean[], expected: number[], closures?: string[]): TradingDayEffect => {
+    const closureSet = toClosureSet(closures);
+    const rows: { y: number; x: [number, number] }[] = [];
+    raw.forEach((v, i) => {
+        if (!mask[i] || v <= 0 || !(expected[i] > 0)) return;
+        rows.push({ y: Math.log(v / expected[i]), x: getTradingDayRegressors(dates[i], closureSet) });
+    });
+    const prior: TradingDayEffect = { weekday: TD_PRIOR, holiday: TD_PRIOR, closures };
+    if (rows.length < 3) return prior;
+
+    const my = rows.reduce((a, r) => a + r.y, 0) / rows.length;
+    const mx = [0, 1].map(j => rows.reduce((a, r) => a + r.x[j], 0) / rows.length);
+    let s11 = 0, s12 = 0, s22 = 0, s1y = 0, s2y = 0;
+    rows.forEach(r => {
+        const x1 = r.x[0] - mx[0], x2 = r.x[1] - mx[1], y = r.y - my;
+        s11 += x1 * x1; s12 += x1 * x2; s22 += x2 * x2; s1y += x1 * y; s2y += x2 * y;
+    });
+    const lambda = TD_PRIOR_MONTHS * Math.max(0.25, (s11 + s22) / (2 * rows.length));
+    const a11 = s11 + lambda, a22 = s22 + lambda, b1 = s1y + lambda * TD_PRIOR, b2 = s2y + lambda * TD_PRIOR;
+    const det = a11 * a22 - s12 * s12;
+    if (!(det > 0)) return prior;
+    const clip = (v: number) => Math.max(0, Math.min(TD_MAX_EFFECT, v));
+    return { weekday: clip((b1 * a22 - s12 * b2) / det), holiday: clip((a11 * b2 - s12 * b1) / det), closures };
+};
+
+// Coefficient standard errors from the linearised driver system at the optimum
+const estimateDriverEffects = (beta: number[], X: number[][], variables: string[], base: number[], values: DriverValues, curve: number[], data: number[], mask: boolean[], sse: number, n: number): DriverEffect[] => {
+    const k = beta.length;
+    const A = Array.from({ length: k }, () => new Array(k).fill(0));
+    for (let i = 0; i < data.length; i++) {
+        if (!mask[i]) continue;
+        for (let a = 0; a < k; a++) for (let c = 0; c < k; c++) A[a][c] += curve[i] * X[a][i] * curve[i] * X[c][i];
+    }
+    const inv = invertSPD(A);
+    const sigma2 = n - k > 0 ? sse / (n - k) : Infinity;
+    return variables.map((variable, j) => ({
+        variable, coef: beta[j], base: base[j], values: values[variable],
+        se: inv ? Math.sqrt(Math.max(0, sigma2 * inv[j][j])) : Infinity
+    }));
+};
+
+const driverFactorAt = (effects: DriverEffect[] | undefined, date: Date, scenario?: Record<string, number>): number => {
+    if (!effects || effects.length === 0) return 1.0;
+    const key = `${date.getFullYear()}-${String(date.getMonth() + 1).padStart(2, '0')}`;
+    let f = 1;
+    effects.forEach(e => { f += e.coef * ((scenario?.[e.variable] ?? getDriverValue(e.values, key)) - e.base); });
+    return Math.max(DRIVER_MIN_FACTOR, f);
+};
+
+/**
+ * Driver multiplier of a future month: planned driver values from the file (or `scenario` overrides, for what-if)
+ * against the last actual month. 1.0 when nothing changes.
+ */
+export const getDriverFactor = (store: StoreData, date: Date, scenario?: Record<string, number>): number =>
+    driverFactorAt(store.drivers, date, scenario);
+
+/** Multiplicative factor of a calendar month for a store: 12-month index x trading-day factor x planned drivers. */
+export const getSeasonalFactor = (store: StoreData, date: Date): number =>
+    (store.seasonal[date.getMonth()] || 1.0) * getTradingDayFactor(store.calendar, date) * driverFactorAt(store.drivers, date);
+
+// Month `h` months after a YYYY-MM date string
+const monthAfter = (dateStr: string, h: number): Date => {
+    const d = new Date(dateStr.replace(/\//g, '-'));
+    return isNaN(d.getTime()) ? new Date(NaN) : new Date(d.getFullYear(), d.getMonth() + h, 1);
+};
+
+/**
+ * Sales forecast of a fitted store `h` months after its own last month: (trend + nudge * decay^h) * seasonal factor.
+ * `decay` defaults to the fitted nudge decay; the nudge scenarios pass their own.
+ */
+export const curveForecastAt = (store: StoreData, h: number, decay = store.nudgeDecay): number => {
+    const tr = logisticModel(store.raw.length - 1 + h, store.fit.params, store.fit.mode, store.fit.shockIdx);
+    const nudge = (store.nudge || 0) * Math.pow(decay, Math.max(0, h));
+    return Math.max(0, (tr + nudge) * getSeasonalFactor(store, monthAfter(store.dates[store.dates.length - 1], h)));
+};
+
+/** Months from a store's last month to `date` (1 = the month after). */
+export const monthsAfterLast = (store: StoreData, date: Date): number => {
+    const last = new Date(store.dates[store.dates.length - 1].replace(/\//g, '-'));
+    return (date.getFullYear() - last.getFullYear()) * 12 + (date.getMonth() - last.getMonth());
+};
+
+// Pooled growth prior of one peer group (k and L pooled toward the parent group in log space)
+export interface PeerGroupStats {
+    k: number;
+    L: number;
+    seasonality: number[];
+    stores: number;
+}
+
 export interface GlobalStats {
     medianK: number; 
     standardGrowthL: number; 
     medianSeasonality: number[];
+    spread?: { k: number; L: number };       // Robust log-scale spread of k and L across mature stores
+    peers?: Record<string, PeerGroupStats>;  // 'region:R', 'prefecture:R/P', 'block:R/P/B', 'cohort:YYYY'
+}
+
+export const calculatePercentile = (data: number[], percentile: number) => {
+    if (data.length === 0) return 0;
+    const sorted = [...data].sort((a, b) => a - b);
+    const index = (percentile / 100) * (sorted.length - 1);
+    const lower = Math.floor(index);
+    const upper = Math.ceil(index);
+    const weight = index - lower;
+    if (upper >= sorted.length) return sorted[sorted.length - 1];
+    return sorted[lower] * (1 - weight) + sorted[upper] * weight;
+};
+
+// Median seasonal index of a set of stores, normalised to sum 12
+const medianSeasonality = (stores: StoreData[]): number[] => {
+    const buckets: number[][] = Array.from({ length: 12 }, () => []);
+    stores.forEach(s => s.seasonal.forEach((val, m) => buckets[m].push(val)));
+    const sea = buckets.map(arr => arr.length === 0 ? 1.0 : [...arr].sort((a, b) => a - b)[Math.floor(arr.length * 0.5)]);
+    const sum = sea.reduce((a, b) => a + b, 0);
+    return sum > 0 ? sea.map(v => (v / sum) * 12) : sea;
+};
+
+const openingYear = (raw: number[], dates: string[]): number | null => {
+    const i = raw.findIndex(v => v > 0);
+    const y = i >= 0 ? parseInt(dates[i], 10) : NaN;
+    return isNaN(y) ? null : y;
+};
+
+const cohortKey = (year: number) => {
+    const from = Math.floor(year / COHORT_YEARS) * COHORT_YEARS;
+    return `${from}-${from + COHORT_YEARS - 1}`;
+};
+
+// Robust spread (scaled MAD) of log values
+const logSpread = (values: number[]) => {
+    const logs = values.filter(v => v > 0).map(Math.log);
+    if (logs.length < 2) return PRIOR_MIN_SPREAD;
+    const med = calculatePercentile(logs, 50);
+    return Math.max(PRIOR_MIN_SPREAD, 1.4826 * calculatePercentile(logs.map(v => Math.abs(v - med)), 50));
+};
+
+/**
+ * Priors for stores fitted after the mature ones: company-wide k (65th percentile), L (median) and seasonality,
+ * plus the same per region, prefecture, block and opening-year cohort. Each group's values are pooled toward
+ * its parent (block -> prefecture -> region -> company, cohort -> company) with PEER_POOL_STORES of weight on
+ * the parent, so small groups stay close to it.
+ */
+export const buildGlobalStats = (matureStores: StoreData[], engine: EngineConfig = ENGINE_PRESETS.sales): GlobalStats => {
+    const k65 = calculatePercentile(matureStores.map(s => s.params.k), 65);
+    const medL = calculatePercentile(matureStores.map(s => s.params.L), 50);
+    const company: PeerGroupStats = {
+        k: k65 > 0 ? k65 : 0.1,
+        L: medL > 0 ? medL : engine.initialL,
+        seasonality: matureStores.length > 0 ? medianSeasonality(matureStores) : Array(12).fill(1.0),
+        stores: matureStores.length
+    };
+
+    const peers: Record<string, PeerGroupStats> = {};
+    const pool = (members: StoreData[], parent: PeerGroupStats): PeerGroupStats => {
+        const n = members.length, w = n / (n + PEER_POOL_STORES);
+        const k = calculatePercentile(members.map(s => s.params.k), 65), L = calculatePercentile(members.map(s => s.params.L), 50);
+        const own = medianSeasonality(members);
+        return {
+            k: k > 0 ? Math.exp(w * Math.log(k) + (1 - w) * Math.log(parent.k)) : parent.k,
+            L: L > 0 ? Math.exp(w * Math.log(L) + (1 - w) * Math.log(parent.L)) : parent.L,
+            seasonality: own.map((v, m) => w * v + (1 - w) * parent.seasonality[m]),
+            stores: n
+        };
+    };
+    const groupBy = (keyOf: (s: StoreData) => string | null) => {
+        const groups = new Map<string, StoreData[]>();
+        matureStores.forEach(s => {
+            const key = keyOf(s);
+            if (key === null) return;
+            if (!groups.has(key)) groups.set(key, []);
+            groups.get(key)!.push(s);
+        });
+        return groups;
+    };
+    const path = (s: StoreData) => [s.region || UNASSIGNED_PEER, s.prefecture || UNASSIGNED_PEER, s.block || UNASSIGNED_PEER];
+
+    // Location chain: each level pools toward the nearest ancestor that has its own entry
+    groupBy(s => `region:${path(s)[0]}`).forEach((members, key) => {
+        if (members.length >= PEER_MIN_STORES) peers[key] = pool(members, company);
+    });
+    groupBy(s => `prefecture:${path(s).slice(0, 2).join('/')}`).forEach((members, key) => {
+        const parent = peers[`region:${path(members[0])[0]}`] || company;
+        if (members.length >= PEER_MIN_STORES) peers[key] = pool(members, parent);
+    });
+    groupBy(s => `block:${path(s).join('/')}`).forEach((members, key) => {
+        const p = path(members[0]);
+        const parent = peers[`prefecture:${p[0]}/${p[1]}`] || peers[`region:${p[0]}`] || company;
+        if (members.length >= PEER_MIN_STORES) peers[key] = pool(members, parent);
+    });
+    groupBy(s => { const y = openingYear(s.raw, s.dates); return y === null ? null : `cohort:${cohortKey(y)}`; }).forEach((members, key) => {
+        if (members.length >= PEER_MIN_STORES) peers[key] = pool(members, company);
+    });
+
+    return {
+        medianK: company.k,
+        standardGrowthL: company.L,
+        medianSeasonality: company.seasonality,
+        spread: { k: logSpread(matureStores.map(s => s.params.k)), L: logSpread(matureStores.map(s => s.params.L)) },
+        peers
+    };
+};
+
+interface ResolvedPrior {
+    k: number;
+    L: number;
+    seasonality: number[];
+    spread: { k: number; L: number };
+    info: PeerPriorInfo;
 }
 
+/**
+ * Prior of one store: the most specific location group with an entry (block, prefecture, region, else company),
+ * with k and L scaled by the opening cohort's ratio to the company values. A cohort with no mature stores yet
+ * (a recent one) borrows the nearest cohort that has them.
+ */
+const resolvePeerPrior = (stats: GlobalStats, region?: string, prefecture?: string, block?: string, openYear?: number | null): ResolvedPrior => {
+    const [r, p, b] = [region || UNASSIGNED_PEER, prefecture || UNASSIGNED_PEER, block || UNASSIGNED_PEER];
+    const peers = stats.peers || {};
+    const chain: [PeerLevel, string, string][] = [
+        ['block', `block:${r}/${p}/${b}`, `${r} / ${p} / ${b}`],
+        ['prefecture', `prefecture:${r}/${p}`, `${r} / ${p}`],
+        ['region', `region:${r}`, r]
+    ];
+    const found = chain.find(([, key]) => peers[key]);
+    const loc = found ? peers[found[1]] : { k: stats.medianK, L: stats.standardGrowthL, seasonality: stats.medianSeasonality, stores: 0 };
+
+    let k = loc.k, L = loc.L, cohort: string | undefined;
+    if (openYear != null) {
+        const cohorts = Object.keys(peers).filter(key => key.startsWith('cohort:')).map(key => key.slice(7));
+        const nearest = cohorts.sort((a, c) => Math.abs(parseInt(a, 10) - openYear) - Math.abs(parseInt(c, 10) - openYear))[0];
+        if (nearest && stats.medianK > 0 && stats.standardGrowthL > 0) {
+            const c = peers[`cohort:${nearest}`];
+            k *= c.k / stats.medianK;
+            L *= c.L / stats.standardGrowthL;
+            cohort = nearest;
+        }
+    }
+    return {
+        k, L,
+        seasonality: loc.seasonality.length === 12 ? loc.seasonality : Array(12).fill(1.0),
+        spread: stats.spread || { k: PRIOR_MIN_SPREAD, L: PRIOR_MIN_SPREAD },
+        info: { group: found ? found[2] : '全社', level: found ? found[0] : 'company', cohort, k, L }
+    };
+};
+
+// Share of the prior in a posterior log-scale estimate: posterior variance over prior variance
+const priorShare = (ci: ParamIntervals | undefined, p: { k: number; L: number }, spread: { k: number; L: number }): number | undefined => {
+    const shares = (['k', 'L'] as const).map(key => {
+        const se = ci?.[key]?.se;
+        if (se === undefined || !isFinite(se) || !isFinite(spread[key]) || p[key] <= 0) return null;
+        return Math.min(1, Math.pow(se / p[key], 2) / Math.pow(spread[key], 2));
+    }).filter((v): v is number => v !== null);
+    return shares.length > 0 ? shares.reduce((a, b) => a + b, 0) / shares.length : undefined;
+};
+
 export function analyzeStore(
     name: string, 
     raw: number[], 
@@ -294,31 +1164,62 @@ export function analyzeStore(
     globalStats?: GlobalStats, 
     block?: string,
     region?: string,
-    prefecture?: string
+    prefecture?: string,
+    closures?: string[],
+    drivers?: DriverValues,
+    maskOverrides?: MaskOverride[],
+    engine: EngineConfig = ENGINE_PRESETS.sales,
+    capacity?: StoreCapacity,
+    missingMonths?: string[]
 ): StoreData {
+    const ceiling = capacity?.ceiling;
+    // Months absent from the file hold interpolated values: shown, never learned from
+    const missingSet = new Set(missingMonths || []);
+    const isMissing = dates.map(d => missingSet.has(d.replace(/\//g, '-').slice(0, 7)));
     const lastDateStr = dates[dates.length - 1]?.replace(/\//g, '-');
     const lastDate = new Date(lastDateStr);
     const isActive = !isNaN(lastDate.getTime()) && (globalMaxDate.getTime() - lastDate.getTime()) < (1000 * 60 * 60 * 24 * 60);
 
-    const stats = calculateIQRStats(raw.filter(v => v > 0));
-    const mask = raw.map(v => v >= stats.lower && v <= stats.upper && v > 0);
+    const stats = calculateIQRStats(raw.filter((v, i) => v > 0 && !isMissing[i]));
+    const mask = raw.map((v, i) => v >= stats.lower && v <= stats.upper && v > 0 && !isMissing[i]);
+    const outside = raw.map((v, i) => v > 0 && !mask[i] && !isMissing[i]);
 
     const seqLength = raw.length;
-    const rescueStart = Math.max(0, seqLength - 24);
+    const rescueStart = Math.max(0, seqLength - engine.rescueMonths);
     for (let i = rescueStart; i < seqLength; i++) {
         let sum = 0, count = 0;
         for (let j = 0; i - j >= 0 && j < 12; j++) {
             const idx = i - j;
-            if (raw[idx] > 0) { sum += raw[idx]; count++; }
+            if (raw[idx] > 0 && !isMissing[idx]) { sum += raw[idx]; count++; }
         }
-        if (count >= 6) { 
+        if (count >= 6 && !isMissing[i]) { 
             const ma = sum / count;
-            const lowerBound = ma * 0.89;
-            const upperBound = ma * 1.11;
+            const lowerBound = ma * (1 - engine.rescueBand);
+            const upperBound = ma * (1 + engine.rescueBand);
             if (raw[i] >= lowerBound && raw[i] <= upperBound) mask[i] = true;
         }
     }
 
+    // Reasons for every excluded or rescued month, then the user's edits on top (months without sales or rows cannot be included)
+    const classified = classifyOutliers(raw, outside, stats.upper);
+    const outliers: OutlierPoint[] = [];
+    const overrideAt = new Map((maskOverrides || []).map(o => [o.month, o]));
+    raw.forEach((v, i) => {
+        const auto = classified.get(i);
+        const override = overrideAt.get(dates[i]?.replace(/\//g, '-').slice(0, 7));
+        if (isMissing[i]) {
+            outliers.push({ idx: i, date: dates[i], value: v, reason: '欠測 (前後の月から補間)', status: 'excluded' });
+        } else if (override?.action === 'exclude') {
+            mask[i] = false;
+            outliers.push({ idx: i, date: dates[i], value: v, kind: auto?.kind, reason: override.note || '手動で除外', status: 'forced_out' });
+        } else if (override?.action === 'include' && v > 0) {
+            mask[i] = true;
+            outliers.push({ idx: i, date: dates[i], value: v, kind: auto?.kind, reason: override.note || '手動で採用', status: 'forced_in' });
+        } else if (auto) {
+            outliers.push({ idx: i, date: dates[i], value: v, kind: auto.kind, reason: mask[i] ? `${auto.reason} (直近12ヶ月平均±${Math.round(engine.rescueBand * 100)}%以内のため採用)` : auto.reason, status: mask[i] ? 'rescued' : 'excluded' });
+        }
+    });
+
     const validCount = mask.filter(b => b).length;
     const validValues = raw.filter((_, i) => mask[i]);
     const maxVal = Math.max(...validValues);
@@ -334,13 +1235,14 @@ export function analyzeStore(
     
     let storeResult: StoreData;
 
+    // Peer-group prior (region/prefecture/block, opening cohort) for stores without enough history of their own
+    const peer = globalStats ? resolvePeerPrior(globalStats, region, prefecture, block, openingYear(raw, dates)) : null;
+
     // --- STARTUP MODE (<13 months) ---
     if (validCount < 13) {
         if (isActive) {
-            const fixedK = globalStats ? Math.min(globalStats.medianK, MAX_K_THRESHOLD) : 0.1;
-            const fixedSea = (globalStats && globalStats.medianSeasonality.length === 12) 
-                ? globalStats.medianSeasonality 
-                : Array(12).fill(1.0);
+            const fixedK = peer ? Math.min(peer.k, engine.maxK) : 0.1;
+            const fixedSea = peer ? peer.seasonality : Array(12).fill(1.0);
             
             let calcBase = 0;
             if (raw.length >= 2) {
@@ -356,16 +1258,22 @@ export function analyzeStore(
             }
             if (calcBase <= 0) calcBase = base;
 
-            const fixedGrowthL = globalStats ? globalStats.standardGrowthL : 3000;
+            // The generic curve may not promise more than the shop can serve
+            const fixedGrowthL = Math.min(peer ? peer.L : engine.initialL, ceiling ? Math.max(0, ceiling - calcBase) : Infinity);
             const fixedT0 = 12;
 
             const fitP = { base: calcBase, L: fixedGrowthL, k: fixedK, t0: fixedT0 };
+            const calendar: TradingDayEffect = { weekday: TD_PRIOR, holiday: TD_PRIOR, closures };
+            const seaAt = (dateStr: string) => {
+                const dO = new Date(dateStr.replace(/\//g, '-'));
+                return isNaN(dO.getTime()) ? (fixedSea[0] || 1.0) : (fixedSea[dO.getMonth()] || 1.0) * getTradingDayFactor(calendar, dO);
+            };
             
             const comp = { t: [] as number[], s: [] as number[], r: [] as number[] };
             const residuals: number[] = [];
             
             const lastIdx = raw.length - 1;
-            const lastSea = fixedSea[isNaN(new Date(dates[lastIdx].replace(/\//g, '-')).getTime()) ? 0 : new Date(dates[lastIdx].replace(/\//g, '-')).getMonth()] || 1.0;
+            const lastSea = seaAt(dates[lastIdx]);
             const lastActualDeSea = raw[lastIdx] / lastSea;
             const modelAtLast = logisticModel(lastIdx, fitP, 'startup', -1);
             
@@ -373,8 +1281,7 @@ export function analyzeStore(
 
             raw.forEach((v, i) => {
                 const tr = logisticModel(i, fitP, 'startup', -1);
-                const dO = new Date(dates[i].replace(/\//g, '-'));
-                const s = fixedSea[isNaN(dO.getTime()) ? 0 : dO.getMonth()];
+                const s = seaAt(dates[i]);
                 comp.t.push(tr); comp.s.push(s);
                 const fittedVal = (tr + nudge) * s; 
                 const realResidual = v - fittedVal;
@@ -383,135 +1290,195 @@ export function analyzeStore(
 
             const stdDev = Math.sqrt(residuals.reduce((s, r) => s + r*r, 0) / Math.max(1, residuals.length));
 
+            const quantiles = bootstrapForecastQuantiles({
+                raw, mask,
+                fitted: comp.t.map((tr, i) => (tr + nudge) * comp.s[i]),
+                trend: (t) => logisticModel(t, fitP, 'startup', -1),
+                seasonalAt: (h) => { const d = monthAfter(dates[lastIdx], h); return isNaN(d.getTime()) ? 1.0 : (fixedSea[d.getMonth()] || 1.0) * getTradingDayFactor(calendar, d); },
+                nudge, nudgeDecay: STARTUP_NUDGE_DECAY,
+                rng: createRng(name)
+            });
+
             storeResult = {
                 name, block, region, prefecture, raw, dates, mask, isActive: true, 
-                nudge, nudgeDecay: NUDGE_DECAY_24MO, seasonal: fixedSea, components: comp,
+                nudge, nudgeDecay: STARTUP_NUDGE_DECAY, nudgeType: 'structural', calendar, seasonal: fixedSea, components: comp,
                 params: { L: fitP.L, k: fitP.k, t0: fitP.t0, base: fitP.base },
                 fit: { params: fitP, mode: 'startup', shockIdx: -1, aic: 0 },
-                stdDev, cv: { logistic: stdDev }
+                stdDev, cv: { logistic: stdDev }, quantiles,
+                prior: peer ? { ...peer.info, weight: 1 } : undefined,
+                capacity: capacity && withUtilisation(capacity, raw, fitP.base + fitP.L),
+                outliers, maskOverrides, missingMonths
             };
         } else {
-            storeResult = { name, block, region, prefecture, raw, dates, mask: [], isActive: false, nudge: 0, nudgeDecay: 0, seasonal: [], components: {t:[],s:[],r:[]}, params: {L:0,k:0,t0:0,base:0}, fit: {params:[],mode:'standard',shockIdx:0, aic:0}, stdDev:0, cv:{logistic:0}, error: true, msg: "Insuffient Data" };
+            storeResult = { name, block, region, prefecture, raw, dates, mask: [], isActive: false, nudge: 0, nudgeDecay: 0, seasonal: [], components: {t:[],s:[],r:[]}, params: {L:0,k:0,t0:0,base:0}, fit: {params:[],mode:'standard',shockIdx:0, aic:0}, stdDev:0, cv:{logistic:0}, error: true, msg: "Insuffient Data", maskOverrides, capacity, missingMonths };
         }
         return calculateAdvancedStats(storeResult);
     }
 
     // --- GROWTH & MATURE MODES ---
     
-    // Multi-Shock Scanning (Up to 2 points)
-    let bestShocks: { idx: number, guess: number }[] = [];
-    if (raw.length >= 24) {
-        const margin = 12; // Min distance between shocks
-        let candidates: { idx: number, guess: number, score: number }[] = [];
-        
-        for (let i = margin; i < raw.length - margin; i++) {
-            let preSum = 0, preCnt = 0, postSum = 0, postCnt = 0;
-            for(let j=1; j<=6; j++) {
-                if(mask[i-j]) { preSum += raw[i-j]; preCnt++; }
-                if(mask[i+j-1]) { postSum += raw[i+j-1]; postCnt++; }
-            }
-            if (preCnt >= 3 && postCnt >= 3) {
-                const preMean = preSum / preCnt, postMean = postSum / postCnt;
-                const ratio = Math.abs(postMean - preMean) / Math.max(preMean, postMean, 1);
-                if (ratio > 0.12) {
-                    candidates.push({ idx: i, guess: postMean - preMean, score: ratio });
-                }
-            }
-        }
-        candidates.sort((a,b) => b.score - a.score);
-        if (candidates.length > 0) {
-            bestShocks.push(candidates[0]);
-            const second = candidates.find(c => Math.abs(c.idx - bestShocks[0].idx) >= 12);
-            if (second) bestShocks.push(second);
-        }
-    }
+    // Change-point detection: any number of level shifts, each with a BIC-based confidence
+    const months = dates.map(d => {
+        const dO = new Date(d.replace(/\//g, '-'));
+        return isNaN(dO.getTime()) ? 0 : dO.getMonth();
+    });
+    const detectedBreaks = raw.length >= 24 ? detectChangePoints(raw, mask, months, engine.minShiftRatio) : [];
+
+    // Exogenous drivers, centred on the last actual month; variables that never move over the fitted months are dropped
+    const driverVars = Object.keys(drivers || {}).filter(v => {
+        const xs = dates.filter((_, i) => mask[i]).map(d => getDriverValue(drivers![v], d));
+        return xs.some(x => x !== xs[0]);
+    }).slice(0, MAX_DRIVERS);
+    const driverBase = driverVars.map(v => getDriverValue(drivers![v], dates[dates.length - 1]));
+    const driverX = driverVars.length > 0 ? driverVars.map((v, j) => dates.map(d => getDriverValue(drivers![v], d) - driverBase[j])) : undefined;
 
-    const growthL = Math.max(3000, maxVal * 0.2); 
+    const growthL = Math.max(engine.initialL, maxVal * 0.2); 
     const initK = 0.1; 
     const initT0 = raw.length / 2;
 
+    // Growth curves of young stores are shrunk toward the peer prior; its pull fades as months accumulate
+    const usePrior = peer !== null && validCount < PRIOR_MAX_MONTHS;
+    const prior = usePrior ? { k: peer!.k, L: peer!.L, spread: peer!.spread } : undefined;
+    const priorL = usePrior ? { k: 0, L: peer!.L, spread: peer!.spread } : undefined; // Other families: k has a different meaning
+
+    // Model selection by AICc. Every fit is recorded as a candidate; a fit with more
+    // parameters than the current best must win by AIC_PREFERENCE_MARGIN.
+    const candidates: ModelCandidate[] = [];
+    let bestAIC = Infinity, bestAICc = Infinity, bestParamCount = 0;
+    const accept = (mode: FitMode, res: { sse: number; n: number }, curveParams: number) => {
+        const nParams = curveParams + driverVars.length;
+        const aic = calculateAIC(res.sse, res.n, nParams);
+        const aicc = calculateAICc(res.sse, res.n, nParams);
+        candidates.push({ mode, aic, aicc, nParams });
+        const margin = nParams > bestParamCount ? AIC_PREFERENCE_MARGIN : 0;
+        if (aicc < bestAICc - margin) {
+            bestAIC = aic; bestAICc = aicc; bestParamCount = nParams;
+            return true;
+        }
+        return false;
+    };
+
     // 1. Standard Model
-    const resStd = nelderMead(objectiveFunction, [growthL, initK, initT0], raw, mask, { 
-        mode: 'standard', shockIdx: -1, maxVal, base, variance
-    });
+    const stdConfig = { mode: 'standard', shockIdx: -1, maxVal, base, variance, drivers: driverX, prior, engine, ceiling };
+    const resStd = nelderMead(objectiveFunction, [growthL, initK, initT0], raw, mask, stdConfig, { starts: NM_STARTS });
     let bestRes = resStd;
-    let bestMode: any = 'standard';
-    let bestAIC = calculateAIC(resStd.sse, resStd.n, 3);
+    let bestConfig: any = stdConfig;
+    let bestMode = 'standard' as FitMode; // Reassigned inside callbacks, so keep the declared type wide
+    accept('standard', resStd, 3);
     let fitP: any = { base, L: resStd.p[0], k: resStd.p[1], t0: resStd.p[2] };
-    let bestShockIdx = -1, bestShockIdx2 = -1;
-
-    // 2. Single Shift (Best of detected shocks)
-    bestShocks.forEach(shock => {
-        const resShift = nelderMead(objectiveFunction, [resStd.p[0], resStd.p[1], resStd.p[2], shock.guess], raw, mask, { 
-            mode: 'shift', shockIdx: shock.idx, maxVal, base, variance 
-        });
-        const aicShift = calculateAIC(resShift.sse, resShift.n, 4);
-        if (aicShift < bestAIC - 2.0) { 
-            bestAIC = aicShift; bestRes = resShift; bestMode = 'shift';
-            fitP = { base, L: resShift.p[0], k: resShift.p[1], t0: resShift.p[2], shift: resShift.p[3] };
-            bestShockIdx = shock.idx;
-        }
-    });
+    let bestShockIdx = -1;
+    let bestBreaks: StructuralBreak[] = [];
 
-    // 3. Dual Shift (Mature only)
-    if (validCount >= 36 && bestShocks.length >= 2) {
-        const s1 = bestShocks[0], s2 = bestShocks[1];
-        const resDual = nelderMead(objectiveFunction, [bestRes.p[0], bestRes.p[1], bestRes.p[2], s1.guess, s2.guess], raw, mask, { 
-            mode: 'dual_shift', shockIdx: s1.idx, shockIdx2: s2.idx, maxVal, base, variance 
-        });
-        const aicDual = calculateAIC(resDual.sse, resDual.n, 5);
-        if (aicDual < bestAIC - 2.0) {
-            bestAIC = aicDual; bestRes = resDual; bestMode = 'dual_shift';
-            fitP = { base, L: resDual.p[0], k: resDual.p[1], t0: resDual.p[2], shift: resDual.p[3], shift2: resDual.p[4] };
-            bestShockIdx = s1.idx; bestShockIdx2 = s2.idx;
+    // 2. Level Shifts: add detected breaks in order of confidence (at most one per year of valid data).
+    // Each break costs 2 parameters (location and size), so AICc only keeps breaks that pay for themselves.
+    const rankedBreaks = [...detectedBreaks].sort((a, b) => b.confidence - a.confidence);
+    const maxBreaks = Math.min(rankedBreaks.length, Math.floor(validCount / 12));
+    for (let m = 1; m <= maxBreaks; m++) {
+        const used = rankedBreaks.slice(0, m).sort((a, b) => a.idx - b.idx);
+        const shiftConfig = { mode: 'shift', shockIdx: used[0].idx, shocks: used.map(b => b.idx), maxVal, base, variance, drivers: driverX, prior, engine, ceiling };
+        const resShift = nelderMead(objectiveFunction, [resStd.p[0], resStd.p[1], resStd.p[2], ...used.map(b => b.size)], raw, mask, shiftConfig);
+        if (accept('shift', resShift, 3 + 2 * m)) {
+            bestRes = resShift; bestMode = 'shift'; bestConfig = shiftConfig;
+            fitP = resolveParams(resShift.p, raw, mask, shiftConfig);
+            bestShockIdx = used[0].idx;
+            bestBreaks = used.map((b, j) => ({ idx: b.idx, size: resShift.p[3 + j], confidence: b.confidence }));
         }
     }
 
-    // Finalize Components
-    const seaBuckets: number[][] = Array.from({ length: 12 }, () => []);
-    raw.forEach((v, i) => {
-        if (!mask[i]) return;
-        const tr = logisticModel(i, fitP, bestMode, bestShockIdx);
-        if (tr > 1) {
-            const dO = new Date(dates[i].replace(/\//g, '-'));
-            seaBuckets[isNaN(dO.getTime()) ? 0 : dO.getMonth()].push(v / tr);
+    // 3. Alternative growth-curve families (started from the standard fit)
+    const familyFits: { mode: FitMode; x0: number[]; config: any; nParams: number }[] = [
+        // Gompertz peaks earlier for the same L; k scaled so the maximum slope matches the logistic fit
+        { mode: 'gompertz', x0: [resStd.p[0], resStd.p[1] * 0.7, resStd.p[2]], config: { mode: 'gompertz', shockIdx: -1, maxVal, base, variance, drivers: driverX, prior: priorL, engine, ceiling }, nParams: 3 },
+        { mode: 'richards', x0: [resStd.p[0], resStd.p[1], resStd.p[2], 1.0], config: { mode: 'richards', shockIdx: -1, maxVal, base, variance, drivers: driverX, prior: priorL, engine, ceiling }, nParams: 4 }
+    ];
+    if (validCount >= 36) {
+        // Damped-trend Holt-Winters (Mature only): smooths the series deseasonalised with the standard fit's
+        // (time-varying) seasonal index. Initial level/trend come from the first two years; the 2 initial states count as parameters.
+        const avg = (arr: number[]) => arr.reduce((a, b) => a + b, 0) / Math.max(1, arr.length);
+        const trend0 = (avg(validValues.slice(12, 24)) - avg(validValues.slice(0, 12))) / 12;
+        const sea0 = seasonalIndexAt(estimateSeasonalityByYear(raw, dates, mask, (t) => logisticModel(t, { base, L: resStd.p[0], k: resStd.p[1], t0: resStd.p[2] }, 'standard', -1), engine.seasonalHalfLife), dates);
+        // Drivers keep the standard fit's coefficients and are divided out of the smoothed series
+        const stdBeta = driverX ? predictFit(resolveParams(resStd.p, raw, mask, stdConfig), raw, mask, stdConfig).beta : null;
+        const seasonalAt = dates.map((_, i) => sea0[i] * (stdBeta ? driverMultiplier(stdBeta, driverX!, i) : 1));
+        familyFits.push({ mode: 'damped', x0: [0.3, 0.05, 0.9], config: { mode: 'damped', shockIdx: -1, maxVal, base, variance, level0: base, trend0, seasonalAt, drivers: driverX, driverBeta: stdBeta ?? undefined, engine, ceiling }, nParams: 5 });
+    }
+    familyFits.forEach(({ mode, x0, config, nParams }) => {
+        const res = nelderMead(objectiveFunction, x0, raw, mask, config);
+        if (accept(mode, res, nParams)) {
+            bestRes = res; bestMode = mode; bestConfig = config;
+            fitP = resolveParams(res.p, raw, mask, config);
+            bestShockIdx = -1; bestBreaks = [];
         }
     });
-    const sea = seaBuckets.map(b => b.length === 0 ? 1.0 : b.sort((a,b)=>a-b)[Math.floor(b.length/2)]);
-    const seaAvg = sea.reduce((a, b) => a + b, 0) / 12;
-    const finalSea = sea.map(v => v / seaAvg);
+
+    // Finalize Components
+    // In-sample trend carries the fitted driver effect; past the last actual it is 1 unless the plan changes (getDriverFactor)
+    const { beta: driverBeta } = predictFit(fitP, raw, mask, bestConfig);
+    const driverAt = raw.map((_, i) => driverBeta && driverX ? driverMultiplier(driverBeta, driverX, i) : 1);
+    const curveFn = (t: number) => logisticModel(t, fitP, bestMode, bestShockIdx);
+    const trendFn = (t: number) => curveFn(t) * (t >= 0 && t < raw.length ? driverAt[Math.round(t)] : 1);
+
+    // Seasonality is re-estimated on calendar-adjusted actuals once the trading-day effect is known
+    const monthOf = (dateStr: string) => { const dO = new Date(dateStr.replace(/\//g, '-')); return isNaN(dO.getTime()) ? 0 : dO.getMonth(); };
+    const rawSea = estimateSeasonality(raw, dates, mask, trendFn);
+    const calendar = estimateTradingDayEffect(raw, dates, mask, raw.map((_, i) => trendFn(i) * rawSea[monthOf(dates[i])]), closures);
+    const calAt = dates.map(d => getTradingDayFactor(calendar, new Date(d.replace(/\//g, '-'))));
+    const seasonalByYear = estimateSeasonalityByYear(raw.map((v, i) => v / calAt[i]), dates, mask, trendFn, engine.seasonalHalfLife,
+        (own) => peer && usePrior ? blendSeasonality(own, peer.seasonality, dates, mask) : own);
+    const finalSea = seasonalByYear.length > 0 ? seasonalByYear[seasonalByYear.length - 1].index : Array(12).fill(1.0);
+    const seaAt = seasonalIndexAt(seasonalByYear, dates);
 
     const comp = { t: [] as number[], s: [] as number[], r: [] as number[] };
     const residuals: number[] = [];
     raw.forEach((v, i) => {
-        const tr = logisticModel(i, fitP, bestMode, bestShockIdx);
-        const dO = new Date(dates[i].replace(/\//g, '-'));
-        const s = finalSea[isNaN(dO.getTime()) ? 0 : dO.getMonth()];
+        const tr = trendFn(i);
+        const s = seaAt[i] * calAt[i];
         comp.t.push(tr); comp.s.push(s);
         const res = v - (tr * s); comp.r.push(res); residuals.push(res); 
     });
 
-    // Calculate Nudge (Persistent Nudge Applied here)
-    let nudge = 0, nudgeDecay = NUDGE_DECAY_24MO, resLen = residuals.length;
-    if (resLen > 0) {
-        const recent = residuals.slice(-12).sort((a,b)=>a-b);
-        nudge = recent[Math.floor(recent.length/2)];
-    }
+    // Calculate Nudge (median of the last 12 months' residuals, fading at the estimated decay);
+    // outliers, excluded and interpolated months are left out
+    let nudge = 0, resLen = residuals.length;
+    const recent = residuals.filter((_, i) => i >= resLen - 12 && mask[i] && !isMissing[i]).sort((a,b)=>a-b);
+    if (recent.length > 0) nudge = recent[Math.floor(recent.length/2)];
+    const { nudgeDecay, nudgeType } = estimateNudgeDecay(residuals, comp.s, mask);
+    const driverEffects = driverBeta ? estimateDriverEffects(driverBeta, driverX!, driverVars, driverBase, drivers!, raw.map((_, i) => curveFn(i)), raw, mask, bestRes.sse, bestRes.n) : undefined;
+
+    const quantiles = bootstrapForecastQuantiles({
+        raw, mask,
+        fitted: comp.t.map((tr, i) => tr * comp.s[i]),
+        trend: trendFn,
+        seasonalAt: (h) => { const d = monthAfter(dates[dates.length - 1], h); return isNaN(d.getTime()) ? 1.0 : finalSea[d.getMonth()] * getTradingDayFactor(calendar, d) * driverFactorAt(driverEffects, d); },
+        nudge, nudgeDecay,
+        refit: (series) => {
+            const r = nelderMead(objectiveFunction, bestRes.p, series, mask, bestConfig, { maxIter: BOOTSTRAP_MAX_ITER, polish: false });
+            if (r.n === 0) return null;
+            const p = resolveParams(r.p, series, mask, bestConfig);
+            return (t) => logisticModel(t, p, bestMode, bestShockIdx);
+        },
+        rng: createRng(name)
+    });
 
     let effectiveBase = fitP.base;
-    if (bestMode === 'shift' && raw.length >= bestShockIdx) effectiveBase += (fitP.shift || 0);
-    if (bestMode === 'dual_shift') {
-        if (raw.length >= bestShockIdx) effectiveBase += (fitP.shift || 0);
-        if (raw.length >= bestShockIdx2) effectiveBase += (fitP.shift2 || 0);
-    }
+    if (bestMode === 'shift') effectiveBase += (fitP.shift || 0);
+
+    const ci = estimateParamIntervals(bestRes.p, raw, mask, bestConfig, bestRes.sse, bestRes.n);
+    const priorInfo: PeerPriorInfo | undefined = usePrior && bestConfig.prior
+        ? { ...peer!.info, weight: priorShare(ci, fitP, bestConfig.prior === priorL ? { k: Infinity, L: peer!.spread.L } : peer!.spread) }
+        : undefined;
 
     storeResult = {
-        name, block, region, prefecture, raw, dates, mask, isActive, nudge, nudgeDecay,
-        seasonal: finalSea, components: comp,
-        params: { base: effectiveBase, L: fitP.L, k: fitP.k, t0: fitP.t0, shift: fitP.shift, shift2: fitP.shift2 },
-        fit: { params: fitP, mode: bestMode, shockIdx: bestShockIdx, shockIdx2: bestShockIdx2, aic: bestAIC },
+        name, block, region, prefecture, raw, dates, mask, isActive, nudge, nudgeDecay, nudgeType, calendar, drivers: driverEffects,
+        seasonal: finalSea, seasonalByYear, components: comp,
+        params: { base: effectiveBase, L: fitP.L, k: fitP.k, t0: fitP.t0, shift: fitP.shift, ci },
+        fit: { params: fitP, mode: bestMode, shockIdx: bestShockIdx, breaks: bestBreaks, aic: bestAIC, aicc: bestAICc, candidates, convergence: bestRes.convergence },
         stdDev: Math.sqrt(residuals.reduce((s,r)=>s+r*r,0)/Math.max(1,resLen)),
-        cv: { logistic: 0 }
+        cv: { logistic: 0 },
+        quantiles,
+        prior: priorInfo,
+        capacity: capacity && withUtilisation(capacity, raw, (fitP.base || 0) + fitP.L + (fitP.shift || 0)),
+        outliers, maskOverrides, missingMonths
     };
     return calculateAdvancedStats(storeResult);
 }
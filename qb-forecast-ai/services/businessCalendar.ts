@@ -0,0 +1,201 @@
+import { TradingDayEffect } from '../types';
+
+// --- Japanese Business Calendar ---
+// National holidays are computed locally (Act on National Holidays, 2000 onwards, incl. the 2019-2021
+// one-off moves). Customary breaks (New Year, Obon) count as holiday-like days: most customers are off.
+
+export type DayKind = 'weekday' | 'holiday' | 'closed';
+
+export interface MonthCalendar {
+    days: number;
+    openWeekdays: number;          // Mon-Fri that are neither holidays nor closure days
+    openHolidays: number;          // Sat, Sun, national holidays and customary breaks that are not closure days
+    closedDays: number;
+    holidays: { date: string; name: string }[];
+}
+
+const CALENDAR_REFERENCE_YEARS = [1990, 2059]; // Long-run calendar each month is compared against
+
+const CUSTOMARY_BREAKS: [number, number, string][] = [
+    [1, 2, '年始休暇'], [1, 3, '年始休暇'],
+    [8, 13, 'お盆'], [8, 14, 'お盆'], [8, 15, 'お盆'], [8, 16, 'お盆'],
+    [12, 29, '年末休暇'], [12, 30, '年末休暇'], [12, 31, '年末休暇'],
+];
+
+const pad = (n: number) => String(n).padStart(2, '0');
+const dateKey = (y: number, m: number, d: number) => `${y}-${pad(m)}-${pad(d)}`;
+
+// Day of month of the n-th Monday (month 1-12)
+const nthMonday = (y: number, m: number, n: number) => {
+    const first = new Date(y, m - 1, 1).getDay();
+    return 1 + ((8 - first) % 7) + (n - 1) * 7;
+};
+
+const vernalEquinox = (y: number) => Math.floor(20.8431 + 0.242194 * (y - 1980) - Math.floor((y - 1980) / 4));
+const autumnalEquinox = (y: number) => Math.floor(23.2488 + 0.242194 * (y - 1980) - Math.floor((y - 1980) / 4));
+
+const holidayCache = new Map<number, Map<string, string>>();
+
+/** National holidays of a year, keyed by YYYY-MM-DD, including substitute and sandwiched (国民の休日) days. */
+export const getJapaneseHolidays = (y: number): Map<string, string> => {
+    const cached = holidayCache.get(y);
+    if (cached) return cached;
+
+    const base: [number, number, string][] = [
+        [1, 1, '元日'],
+        [1, nthMonday(y, 1, 2), '成人の日'],
+        [2, 11, '建国記念の日'],
+        [3, vernalEquinox(y), '春分の日'],
+        [4, 29, y >= 2007 ? '昭和の日' : 'みどりの日'],
+        [5, 3, '憲法記念日'],
+        [5, 5, 'こどもの日'],
+        [9, autumnalEquinox(y), '秋分の日'],
+        [11, 3, '文化の日'],
+        [11, 23, '勤労感謝の日'],
+    ];
+    if (y >= 2007) base.push([5, 4, 'みどりの日']);
+    if (y >= 2020) base.push([2, 23, '天皇誕生日']);
+    else if (y <= 2018) base.push([12, 23, '天皇誕生日']);
+
+    // Holidays moved for the Tokyo Olympics
+    if (y === 2020) base.push([7, 23, '海の日'], [7, 24, 'スポーツの日'], [8, 10, '山の日']);
+    else if (y === 2021) base.push([7, 22, '海の日'], [7, 23, 'スポーツの日'], [8, 8, '山の日']);
+    else {
+        base.push([7, y >= 2003 ? nthMonday(y, 7, 3) : 20, '海の日']);
+        base.push([10, nthMonday(y, 10, 2), y >= 2020 ? 'スポーツの日' : '体育の日']);
+        if (y >= 2016) base.push([8, 11, '山の日']);
+    }
+    base.push([9, y >= 2003 ? nthMonday(y, 9, 3) : 15, '敬老の日']);
+    if (y === 2019) base.push([5, 1, '天皇の即位の日'], [10, 22, '即位礼正殿の儀']);
+
+    const holidays = new Map<string, string>();
+    base.forEach(([m, d, name]) => holidays.set(dateKey(y, m, d), name));
+
+    // 国民の休日: a weekday sandwiched between two holidays
+    const sorted = [...holidays.keys()].sort();
+    sorted.forEach(key => {
+        const d = new Date(`${key}T00:00:00`);
+        const next = new Date(d); next.setDate(d.getDate() + 1);
+        const after = new Date(d); after.setDate(d.getDate() + 2);
+        const nextKey = dateKey(next.getFullYear(), next.getMonth() + 1, next.getDate());
+        const afterKey = dateKey(after.getFullYear(), after.getMonth() + 1, after.getDate());
+        if (!holidays.has(nextKey) && holidays.has(afterKey) && next.getDay() !== 0) holidays.set(nextKey, '国民の休日');
+    });
+
+    // 振替休日: a holiday on Sunday moves to the next day that is not already a holiday
+    [...holidays.keys()].sort().forEach(key => {
+        const d = new Date(`${key}T00:00:00`);
+        if (d.getDay() !== 0) return;
+        const sub = new Date(d);
+        do { sub.setDate(sub.getDate() + 1); } while (holidays.has(dateKey(sub.getFullYear(), sub.getMonth() + 1, sub.getDate())));
+        if (sub.getFullYear() === y) holidays.set(dateKey(y, sub.getMonth() + 1, sub.getDate()), '振替休日');
+    });
+
+    holidayCache.set(y, holidays);
+    return holidays;
+};
+
+/**
+ * Day counts of a month (month 0-11). `closures` holds YYYY-MM-DD closure days of the store;
+ * a closed day counts as neither a weekday nor a holiday.
+ */
+export const getMonthCalendar = (y: number, month: number, closures?: Set<string>): MonthCalendar => {
+    const national = getJapaneseHolidays(y);
+    const days = new Date(y, month + 1, 0).getDate();
+    const cal: MonthCalendar = { days, openWeekdays: 0, openHolidays: 0, closedDays: 0, holidays: [] };
+    for (let d = 1; d <= days; d++) {
+        const key = dateKey(y, month + 1, d);
+        const customary = CUSTOMARY_BREAKS.find(([m, day]) => m === month + 1 && day === d)?.[2];
+        const name = national.get(key) || customary;
+        if (name) cal.holidays.push({ date: key, name });
+        if (closures?.has(key)) { cal.closedDays++; continue; }
+        const dow = new Date(y, month, d).getDay();
+        if (name || dow === 0 || dow === 6) cal.openHolidays++; else cal.openWeekdays++;
+    }
+    return cal;
+};
+
+let referenceMeans: { weekdays: number; holidays: number }[] | null = null;
+
+// Average open weekdays / holiday-like days per calendar month over the reference years (no closures)
+const getReferenceMeans = () => {
+    if (referenceMeans) return referenceMeans;
+    const sums = Array.from({ length: 12 }, () => ({ weekdays: 0, holidays: 0 }));
+    const [from, to] = CALENDAR_REFERENCE_YEARS;
+    for (let y = from; y <= to; y++) {
+        for (let m = 0; m < 12; m++) {
+            const cal = getMonthCalendar(y, m);
+            sums[m].weekdays += cal.openWeekdays;
+            sums[m].holidays += cal.openHolidays;
+        }
+    }
+    const years = to - from + 1;
+    referenceMeans = sums.map(s => ({ weekdays: s.weekdays / years, holidays: s.holidays / years }));
+    return referenceMeans;
+};
+
+const parseYearMonth = (ym: string | Date): [number, number] | null => {
+    if (ym instanceof Date) return isNaN(ym.getTime()) ? null : [ym.getFullYear(), ym.getMonth()];
+    const m = ym.match(/^(\d{4})[-/](\d{1,2})/);
+    return m ? [Number(m[1]), Number(m[2]) - 1] : null;
+};
+
+/**
+ * Trading-day regressors of a month: open weekdays and open holiday-like days minus their long-run
+ * average for that calendar month. The 12-month seasonal index absorbs the average calendar, so only
+ * these deviations (five Saturdays, a leap February, a Golden Week on weekdays, closures) are left to explain.
+ */
+export const getTradingDayRegressors = (ym: string | Date, closures?: Set<string>): [number, number] => {
+    const parsed = parseYearMonth(ym);
+    if (!parsed) return [0, 0];
+    const [y, m] = parsed;
+    const cal = getMonthCalendar(y, m, closures);
+    const ref = getReferenceMeans()[m];
+    return [cal.openWeekdays - ref.weekdays, cal.openHolidays - ref.holidays];
+};
+
+const closureSets = new WeakMap<string[], Set<string>>();
+
+// Set view of a closure list, built once per list
+export const toClosureSet = (closures?: string[]): Set<string> | undefined => {
+    if (!closures || closures.length === 0) return undefined;
+    let set = closureSets.get(closures);
+    if (!set) { set = new Set(closures); closureSets.set(closures, set); }
+    return set;
+};
+
+/** Multiplicative calendar factor of a month for a store's estimated trading-day effect (1.0 without one). */
+export const getTradingDayFactor = (effect: TradingDayEffect | undefined, ym: string | Date): number => {
+    if (!effect) return 1.0;
+    const [weekdays, holidays] = getTradingDayRegressors(ym, toClosureSet(effect.closures));
+    return Math.exp(effect.weekday * weekdays + effect.holiday * holidays);
+};
+
+/**
+ * Expands a closure list file (rows of store, from[, to]) into YYYY-MM-DD days per store.
+ * '*' or '全店' as the store applies the row to every store.
+ */
+export const parseClosureRows = (rows: string[][]): Record<string, string[]> => {
+    const out: Record<string, Set<string>> = {};
+    const toDate = (s: string) => {
+        const m = s.trim().replace(/[./年月]/g, '-').replace(/日$/, '').match(/^(\d{4})-(\d{1,2})-(\d{1,2})$/);
+        return m ? new Date(Number(m[1]), Number(m[2]) - 1, Number(m[3])) : null;
+    };
+    rows.forEach(row => {
+        if (row.length < 2) return;
+        const store = String(row[0]).trim();
+        const from = toDate(String(row[1]));
+        const to = row[2] ? toDate(String(row[2])) : from;
+        if (!store || !from || !to || to < from) return;
+        const key = store === '全店' ? '*' : store;
+        if (!out[key]) out[key] = new Set();
+        for (const d = new Date(from); d <= to; d.setDate(d.getDate() + 1)) out[key].add(dateKey(d.getFullYear(), d.getMonth() + 1, d.getDate()));
+    });
+    return Object.fromEntries(Object.entries(out).map(([k, v]) => [k, [...v].sort()]));
+};
+
+// Closure days of one store: its own rows plus the chain-wide ('*') rows
+export const getStoreClosures = (calendar: Record<string, string[]>, storeName: string): string[] | undefined => {
+    const days = [...(calendar['*'] || []), ...(calendar[storeName] || [])];
+    return days.length > 0 ? [...new Set(days)].sort() : undefined;
+};
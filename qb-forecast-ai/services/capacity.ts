@@ -0,0 +1,34 @@
+import { StoreCapacity, StoreMasterRecord, EngineConfig } from '../types';
+
+// --- Store Capacity (physical ceiling of a 10-minute cut shop) ---
+// Customers a month = chairs x staffed hours x 60 / serviceMinutes. The engine penalises potentials above it
+// (EngineConfig.capacityPenalty), so it acts as a soft upper bound on L rather than an infeasible region:
+// a store whose actuals already beat the ceiling still gets a fit, and shows a utilisation above 100%.
+
+const UTILISATION_MONTHS = 12;
+
+/** Ceiling of a store from its master record, in the unit of the series; undefined without chairs and hours. */
+export const storeCapacity = (record: StoreMasterRecord | undefined, dataType: 'sales' | 'customers', engine: EngineConfig): StoreCapacity | undefined => {
+    if (!record?.chairs || !record.staffedHours || engine.serviceMinutes <= 0) return undefined;
+    const customers = record.chairs * record.staffedHours * 60 / engine.serviceMinutes;
+    return {
+        chairs: record.chairs,
+        staffedHours: record.staffedHours,
+        customers,
+        ceiling: dataType === 'sales' ? customers * engine.customerToSales : customers
+    };
+};
+
+/** Utilisation of the latest actual months and the fitted potential's share of the ceiling. */
+export const withUtilisation = (capacity: StoreCapacity, raw: number[], potential: number): StoreCapacity => {
+    const recent = raw.slice(-UTILISATION_MONTHS).filter(v => v > 0);
+    return {
+        ...capacity,
+        utilisation: recent.length > 0 ? recent.reduce((a, b) => a + b, 0) / recent.length / capacity.ceiling : undefined,
+        potentialShare: potential / capacity.ceiling
+    };
+};
+
+/** Months (YYYY-MM) whose value is above the store's monthly ceiling. */
+export const monthsOverCapacity = (capacity: StoreCapacity | undefined, months: string[], values: number[]): string[] =>
+    capacity ? months.filter((_, i) => values[i] > capacity.ceiling) : [];
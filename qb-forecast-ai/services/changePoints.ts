@@ -0,0 +1,98 @@
+import { StructuralBreak } from '../types';
+
+// --- Change-Point Detection (Binary Segmentation + BIC) ---
+const MIN_SEGMENT = 6;          // Months on each side of a break
+const MAX_BREAKS = 5;
+const MIN_SHIFT_RATIO = 0.03;   // Jumps smaller than 3% of the local level are slope changes, not level shifts
+const PARAMS_PER_BREAK = 3;     // New intercept, new slope, break location
+
+interface Segment { start: number; end: number } // Positions in the masked series, end exclusive
+
+// Least-squares line over masked points [start, end)
+const fitLine = (x: number[], y: number[], start: number, end: number) => {
+    const n = end - start;
+    let sx = 0, sy = 0, sxx = 0, sxy = 0;
+    for (let i = start; i < end; i++) { sx += x[i]; sy += y[i]; sxx += x[i] * x[i]; sxy += x[i] * y[i]; }
+    const denom = n * sxx - sx * sx;
+    const slope = denom !== 0 ? (n * sxy - sx * sy) / denom : 0;
+    const intercept = (sy - slope * sx) / n;
+    let sse = 0;
+    for (let i = start; i < end; i++) { const r = y[i] - (intercept + slope * x[i]); sse += r * r; }
+    return { intercept, slope, sse };
+};
+
+// Crude multiplicative seasonal index (ratio to centred 12-month moving average), so that
+// recurring peaks are not mistaken for breaks. Returns 1.0 everywhere for short series.
+const crudeSeasonalIndex = (raw: number[], mask: boolean[], months: number[]) => {
+    const buckets: number[][] = Array.from({ length: 12 }, () => []);
+    for (let i = 6; i < raw.length - 6; i++) {
+        if (!mask[i]) continue;
+        let sum = 0, cnt = 0;
+        for (let j = i - 6; j <= i + 6; j++) {
+            if (!mask[j]) continue;
+            const w = (j === i - 6 || j === i + 6) ? 0.5 : 1;
+            sum += raw[j] * w; cnt += w;
+        }
+        if (cnt >= 9 && sum > 0) buckets[months[i]].push(raw[i] / (sum / cnt));
+    }
+    const idx = buckets.map(b => b.length < 2 ? 1.0 : b.sort((a, b2) => a - b2)[Math.floor(b.length / 2)]);
+    const avg = idx.reduce((a, b) => a + b, 0) / 12;
+    return idx.map(v => v / avg);
+};
+
+/**
+ * Detects any number of level shifts in a monthly series.
+ * Segments are modelled as straight lines (so organic growth is not a break), split by binary
+ * segmentation while the cost reduction beats the BIC penalty. Confidence is the Schwarz
+ * approximation of the posterior probability of the break: 1 / (1 + exp(-ΔBIC / 2)).
+ */
+export const detectChangePoints = (raw: number[], mask: boolean[], months: number[], minShiftRatio: number = MIN_SHIFT_RATIO): StructuralBreak[] => {
+    const sea = raw.length >= 24 ? crudeSeasonalIndex(raw, mask, months) : Array(12).fill(1.0);
+    const x: number[] = [], y: number[] = [];
+    raw.forEach((v, i) => {
+        if (mask[i]) { x.push(i); y.push(v / (sea[months[i]] || 1.0)); }
+    });
+    const n = y.length;
+    if (n < MIN_SEGMENT * 2) return [];
+
+    // Robust noise scale from first differences (MAD), insensitive to the breaks themselves
+    const diffs = y.slice(1).map((v, i) => Math.abs(v - y[i])).sort((a, b) => a - b);
+    const mad = diffs[Math.floor(diffs.length / 2)];
+    const sigma2 = Math.max(Math.pow(mad / (0.6745 * Math.SQRT2), 2), 1e-6);
+    const penalty = PARAMS_PER_BREAK * Math.log(n);
+
+    const found: StructuralBreak[] = [];
+    const queue: Segment[] = [{ start: 0, end: n }];
+    while (queue.length > 0 && found.length < MAX_BREAKS) {
+        const seg = queue.shift()!;
+        if (seg.end - seg.start < MIN_SEGMENT * 2) continue;
+        const whole = fitLine(x, y, seg.start, seg.end);
+
+        let best = { pos: -1, gain: 0, jump: 0, level: 0 };
+        for (let pos = seg.start + MIN_SEGMENT; pos <= seg.end - MIN_SEGMENT; pos++) {
+            const left = fitLine(x, y, seg.start, pos);
+            const right = fitLine(x, y, pos, seg.end);
+            const gain = whole.sse - left.sse - right.sse;
+            if (gain > best.gain) {
+                const t = x[pos];
+                const before = left.intercept + left.slope * t;
+                const after = right.intercept + right.slope * t;
+                best = { pos, gain, jump: after - before, level: Math.max(Math.abs(before), Math.abs(after), 1) };
+            }
+        }
+        if (best.pos === -1) continue;
+
+        const deltaBIC = best.gain / sigma2 - penalty;
+        if (deltaBIC <= 0) continue;
+
+        queue.push({ start: seg.start, end: best.pos }, { start: best.pos, end: seg.end });
+        if (Math.abs(best.jump) / best.level < minShiftRatio) continue;
+        found.push({
+            idx: x[best.pos],
+            size: best.jump, // Deseasonalised scale, the same scale as the trend curve's base
+            confidence: 1 / (1 + Math.exp(-deltaBIC / 2))
+        });
+    }
+
+    return found.sort((a, b) => a.idx - b.idx);
+};
@@ -0,0 +1,117 @@
+import { SeriesField, ColumnMapping, MappingProfile } from '../types';
+
+// --- Column Mapping of Monthly Series Files ---
+// With a header row, columns are found by name (or by a saved profile with the same header row) and the
+// content fills in whatever the names do not give away. Without one, the layout is read from the column count:
+// 6+ = エリア, 都道府県, ブロック, 店舗名, 年月, 値 / 4-5 = ブロック, 店舗名, 年月, 値 / 3 = 店舗名, 年月, 値
+
+export const SERIES_FIELD_LABELS: Record<SeriesField, string> = {
+    region: 'エリア',
+    prefecture: '都道府県',
+    block: 'ブロック',
+    storeName: '店舗名',
+    date: '年月',
+    value: '値 (売上・客数)',
+    ignore: '(使わない)'
+};
+
+export const REQUIRED_SERIES_FIELDS: SeriesField[] = ['storeName', 'date', 'value'];
+
+const SAMPLE_ROWS = 20;
+
+// Order matters: a column taken by an earlier field is not offered to later ones (月間売上 is a value, not a month)
+const HEADER_ALIASES: [SeriesField, string[]][] = [
+    ['storeName', ['店舗名', '店名', '店舗', 'store name', 'store', 'name']],
+    ['region', ['エリア', '地域', 'region', 'area']],
+    ['prefecture', ['都道府県', '県', 'prefecture']],
+    ['block', ['ブロック', 'block']],
+    ['value', ['売上', '客数', '実績', '値', '金額', 'sales', 'customers', 'value', 'amount']],
+    ['date', ['年月', '対象月', '月度', '日付', 'date', 'month', 'period']]
+];
+
+const cellText = (c: unknown) => String(c ?? '').trim();
+
+export const isDateCell = (c: unknown) => /^\d{4}\s*[-/.年]?\s*\d{1,2}/.test(cellText(c));
+
+export const isNumberCell = (c: unknown) => {
+    const v = cellText(c).replace(/[０-９]/g, (s) => String.fromCharCode(s.charCodeAt(0) - 0xFEE0)).replace(/[¥,"]/g, '');
+    return v !== '' && /^-?\d+(\.\d+)?$/.test(v);
+};
+
+/** Whether the first row is a header: none of its cells looks like a month or a number while the next row's do. */
+export const detectHeader = (rows: unknown[][]): boolean => {
+    if (rows.length < 2) return false;
+    const [first, second] = rows;
+    return !first.some(c => isDateCell(c) || isNumberCell(c)) && second.some(c => isDateCell(c) || isNumberCell(c));
+};
+
+/** Normalised header row; files with the same signature reuse the same saved mapping. */
+export const headerSignature = (header: unknown[]): string =>
+    header.map(c => cellText(c).toLowerCase().replace(/\s+/g, '')).join('|');
+
+const positionalMapping = (width: number): SeriesField[] => {
+    const layout: SeriesField[] = width >= 6 ? ['region', 'prefecture', 'block', 'storeName', 'date', 'value']
+        : width >= 4 ? ['block', 'storeName', 'date', 'value']
+        : ['storeName', 'date', 'value'];
+    return Array.from({ length: width }, (_, i) => layout[i] || 'ignore');
+};
+
+// Share of the sample rows whose cell in column i passes the test
+const columnShare = (rows: unknown[][], i: number, test: (c: unknown) => boolean) =>
+    rows.length === 0 ? 0 : rows.filter(r => test(r[i])).length / rows.length;
+
+/** Best guess of the layout: header names first, then the content (months, numbers, text) of the sample rows. */
+export const guessMapping = (rows: unknown[][]): ColumnMapping => {
+    const hasHeader = detectHeader(rows);
+    const sample = rows.slice(hasHeader ? 1 : 0, SAMPLE_ROWS + 1);
+    const width = Math.max(0, ...rows.slice(0, SAMPLE_ROWS + 1).map(r => r.length));
+    if (!hasHeader) return { hasHeader, columns: positionalMapping(width) };
+
+    const cells = rows[0].map(c => cellText(c).toLowerCase());
+    const columns: SeriesField[] = Array(width).fill('ignore');
+    const free = (i: number) => columns[i] === 'ignore';
+    // An exact name beats a partial one (店舗名 over 店舗コード)
+    HEADER_ALIASES.forEach(([field, aliases]) => {
+        let idx = cells.findIndex((c, i) => free(i) && aliases.includes(c));
+        if (idx < 0) idx = cells.findIndex((c, i) => free(i) && aliases.some(a => c.includes(a)));
+        if (idx >= 0) columns[idx] = field;
+    });
+
+    const unassigned = Array.from({ length: width }, (_, i) => i).filter(free);
+    if (!columns.includes('date')) {
+        const i = unassigned.find(i => columnShare(sample, i, isDateCell) > 0.8);
+        if (i !== undefined) columns[i] = 'date';
+    }
+    if (!columns.includes('value')) {
+        const i = [...unassigned].reverse().find(i => free(i) && columnShare(sample, i, isNumberCell) > 0.8);
+        if (i !== undefined) columns[i] = 'value';
+    }
+    if (!columns.includes('storeName')) {
+        const i = unassigned.find(i => free(i) && columnShare(sample, i, c => cellText(c) !== '' && !isNumberCell(c) && !isDateCell(c)) > 0.8);
+        if (i !== undefined) columns[i] = 'storeName';
+    }
+    // Unrecognised header: keep the old positional reading rather than drop every row
+    return validateMapping({ hasHeader, columns }).length === 0 ? { hasHeader, columns } : { hasHeader, columns: positionalMapping(width) };
+};
+
+/** Saved profile for the file's header row, else the best guess. */
+export const resolveMapping = (rows: unknown[][], profiles: MappingProfile[]): { mapping: ColumnMapping; profile?: MappingProfile } => {
+    if (detectHeader(rows)) {
+        const signature = headerSignature(rows[0]);
+        const profile = profiles.find(p => p.signature === signature);
+        if (profile) return { mapping: profile.mapping, profile };
+    }
+    return { mapping: guessMapping(rows) };
+};
+
+/** Problems that keep a mapping from being used (missing or repeated fields); empty when it is usable. */
+export const validateMapping = (mapping: ColumnMapping): string[] => {
+    const errors: string[] = [];
+    REQUIRED_SERIES_FIELDS.forEach(f => {
+        if (!mapping.columns.includes(f)) errors.push(`「${SERIES_FIELD_LABELS[f]}」の列を選んでください`);
+    });
+    (Object.keys(SERIES_FIELD_LABELS) as SeriesField[]).filter(f => f !== 'ignore').forEach(f => {
+        if (mapping.columns.filter(c => c === f).length > 1) errors.push(`「${SERIES_FIELD_LABELS[f]}」が複数の列に割り当てられています`);
+    });
+    return errors;
+};
@@ -0,0 +1,151 @@
+import { DataQualityIssue, DataQualityKind, DataQualityReport, StoreMasterRecord } from '../types';
+
+// --- Pre-analysis Data Quality Check ---
+// Runs on the parsed rows before any store is fitted, so the user sees what the engine would otherwise
+// silently absorb: months missing from a store's series, the same month twice, negative or sudden zero
+// values, rows that could not be read, store names that are probably the same shop, and budget or store
+// master rows whose store is not in the data.
+
+export interface QualityPoint {
+    storeName: string;
+    date: Date;
+    value: number;
+}
+
+export interface RejectedRow {
+    row: number;              // 1-based line of the file
+    kind: 'bad_date' | 'bad_value' | 'no_store';
+    detail: string;
+}
+
+export const DATA_QUALITY_LABELS: Record<DataQualityKind, string> = {
+    gap: '欠測月',
+    duplicate: '重複',
+    negative: 'マイナス値',
+    sudden_zero: '突然の0',
+    bad_date: '日付を読めない行',
+    bad_value: '値を読めない行',
+    no_store: '店舗名のない行',
+    name_variant: '表記ゆれの疑い',
+    budget_unmatched: '予算の店舗不一致',
+    master_unmatched: 'マスタの店舗不一致'
+};
+
+const monthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+
+const nextMonth = (key: string) => {
+    const [y, m] = key.split('-').map(Number);
+    return m === 12 ? `${y + 1}-01` : `${y}-${String(m + 1).padStart(2, '0')}`;
+};
+
+/** Key under which spellings of the same shop meet: full/half width, spaces and a trailing 店 do not count. */
+export const normalizeStoreName = (name: string) =>
+    name.normalize('NFKC').replace(/\s+/g, '').replace(/店$/, '').toLowerCase();
+
+/** Fills null months by straight lines between the nearest known months (the ends are held flat). */
+export const interpolateGaps = (values: (number | null)[]): number[] => {
+    const known = values.map((v, i) => (v === null ? -1 : i)).filter(i => i >= 0);
+    if (known.length === 0) return values.map(() => 0);
+    return values.map((v, i) => {
+        if (v !== null) return v;
+        const prev = [...known].reverse().find(k => k < i);
+        const next = known.find(k => k > i);
+        if (prev === undefined) return values[next!]!;
+        if (next === undefined) return values[prev]!;
+        return values[prev]! + (values[next]! - values[prev]!) * (i - prev) / (next - prev);
+    });
+};
+
+/**
+ * Months between a store's first and last month that have no row (YYYY-MM, in time order).
+ * The engine's gap policy applies to exactly these months.
+ */
+export const missingMonthsOf = (dates: Date[]): string[] => {
+    if (dates.length === 0) return [];
+    const present = new Set(dates.map(monthKey));
+    const sorted = Array.from(present).sort();
+    const missing: string[] = [];
+    for (let key = sorted[0]; key < sorted[sorted.length - 1]; key = nextMonth(key)) {
+        if (!present.has(key)) missing.push(key);
+    }
+    return missing;
+};
+
+const countIssues = (issues: DataQualityIssue[]) => {
+    const counts = Object.fromEntries(Object.keys(DATA_QUALITY_LABELS).map(k => [k, 0])) as Record<DataQualityKind, number>;
+    issues.forEach(i => { counts[i.kind]++; });
+    return counts;
+};
+
+/**
+ * Everything worth a look before the analysis starts.
+ * rows is the number of data lines read; budgetNames are the store names of the budget file, if any, and
+ * unmatchedMaster the store master rows that no store in the data resolved to (see matchStoreMaster).
+ */
+export const buildDataQualityReport = (rows: number, points: QualityPoint[], rejected: RejectedRow[], budgetNames: string[] = [], unmatchedMaster: StoreMasterRecord[] = []): DataQualityReport => {
+    const issues: DataQualityIssue[] = rejected.map(r => ({ kind: r.kind, row: r.row, detail: r.detail }));
+
+    const byStore = new Map<string, QualityPoint[]>();
+    points.forEach(p => { if (!byStore.has(p.storeName)) byStore.set(p.storeName, []); byStore.get(p.storeName)!.push(p); });
+
+    byStore.forEach((storePoints, store) => {
+        const byMonth = new Map<string, number[]>();
+        storePoints.forEach(p => {
+            const key = monthKey(p.date);
+            if (!byMonth.has(key)) byMonth.set(key, []);
+            byMonth.get(key)!.push(p.value);
+        });
+        const months = Array.from(byMonth.keys()).sort();
+
+        byMonth.forEach((values, month) => {
+            if (values.length > 1) issues.push({ kind: 'duplicate', store, month, detail: `${values.length}行 (${values.map(v => v.toLocaleString()).join(' / ')}) — 最後の行を使用` });
+            if (values[values.length - 1] < 0) issues.push({ kind: 'negative', store, month, detail: `${values[values.length - 1].toLocaleString()} (学習から除外)` });
+        });
+
+        // Runs of consecutive missing months, one issue per run
+        const missing = missingMonthsOf(storePoints.map(p => p.date));
+        let runStart = 0;
+        missing.forEach((month, i) => {
+            if (i + 1 < missing.length && missing[i + 1] === nextMonth(month)) return;
+            const n = i - runStart + 1;
+            issues.push({ kind: 'gap', store, month: missing[runStart], detail: n === 1 ? `${month} (1ヶ月)` : `${missing[runStart]}〜${month} (${n}ヶ月)` });
+            runStart = i + 1;
+        });
+
+        // A 0 between two months with sales is more likely a closure or a missed entry than a real month
+        const last = (m: string) => byMonth.get(m)![byMonth.get(m)!.length - 1];
+        months.forEach((month, i) => {
+            if (i === 0 || i === months.length - 1 || last(month) !== 0) return;
+            if (last(months[i - 1]) > 0 && last(months[i + 1]) > 0) issues.push({ kind: 'sudden_zero', store, month, detail: '前後の月は実績あり (休業・入力漏れの可能性)' });
+        });
+    });
+
+    // Names that only differ in width, spacing or a trailing 店
+    const variants = new Map<string, string[]>();
+    byStore.forEach((_, name) => {
+        const key = normalizeStoreName(name);
+        if (!variants.has(key)) variants.set(key, []);
+        variants.get(key)!.push(name);
+    });
+    variants.forEach(names => {
+        if (names.length > 1) issues.push({ kind: 'name_variant', store: names[0], detail: `${names.map(n => `「${n}」`).join('')}は同じ店舗の可能性 (別店舗として分析)` });
+    });
+
+    Array.from(new Set(budgetNames.filter(Boolean))).forEach(name => {
+        if (byStore.has(name)) return;
+        const hint = variants.get(normalizeStoreName(name));
+        issues.push({ kind: 'budget_unmatched', store: name, detail: hint ? `実績に一致する店舗なし (候補: ${hint.join(', ')})` : '実績に一致する店舗なし (予算は読み込まれません)' });
+    });
+
+    unmatchedMaster.forEach(r => {
+        issues.push({ kind: 'master_unmatched', store: r.code ? `${r.name} (${r.code})` : r.name, detail: '実績に一致する店舗なし (店舗名・店舗コードとも不一致のため、マスタ情報は使われません)' });
+    });
+
+    return { rows, stores: byStore.size, issues, counts: countIssues(issues) };
+};
+
+/** The report of a second file (e.g. the customer counts) added to the main one, its issues tagged with `label`. */
+export const mergeDataQualityReports = (main: DataQualityReport, other: DataQualityReport, label: string): DataQualityReport => {
+    const issues = [...main.issues, ...other.issues.map(i => ({ ...i, detail: `[${label}] ${i.detail}` }))];
+    return { rows: main.rows + other.rows, stores: main.stores, issues, counts: countIssues(issues) };
+};
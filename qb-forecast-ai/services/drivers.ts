@@ -0,0 +1,84 @@
+// --- Exogenous Drivers (price level, promotion flags, competitor openings, ...) ---
+// Driver file rows: month, scope, variable, value. Scope is 'all' / '全店', 'region:<name>' or 'store:<name>';
+// a five-column variant (month, all|region|store, target, variable, value) is accepted too.
+// A value holds from its month until the next row of the same variable; months before the first row are 0.
+
+export type DriverScope = 'all' | 'region' | 'store';
+
+export interface DriverRecord {
+    month: string;      // YYYY-MM
+    scope: DriverScope;
+    target?: string;    // Region or store name
+    variable: string;
+    value: number;
+}
+
+// variable -> YYYY-MM -> value (only the months that were listed)
+export type DriverValues = Record<string, Record<string, number>>;
+
+const SCOPE_PRIORITY: Record<DriverScope, number> = { all: 0, region: 1, store: 2 };
+
+const toMonthKey = (s: string): string | null => {
+    const m = s.trim().replace(/[./年]/g, '-').replace(/月$/, '').match(/^(\d{4})-?(\d{1,2})/);
+    return m ? `${m[1]}-${m[2].padStart(2, '0')}` : null;
+};
+
+const parseScope = (s: string): { scope: DriverScope; target?: string } | null => {
+    const raw = s.trim();
+    const lower = raw.toLowerCase();
+    if (lower === 'all' || raw === '全店' || raw === '全社' || raw === '*') return { scope: 'all' };
+    const m = raw.match(/^(region|store|地域|エリア|店舗)\s*[:：]\s*(.+)$/i);
+    if (!m) return null;
+    const kind = m[1].toLowerCase();
+    return { scope: kind === 'store' || kind === '店舗' ? 'store' : 'region', target: m[2].trim() };
+};
+
+/** Parses driver file rows (header rows and unreadable rows are skipped). */
+export const parseDriverRows = (rows: string[][]): DriverRecord[] => {
+    const records: DriverRecord[] = [];
+    rows.forEach(row => {
+        const cells = row.map(c => String(c ?? '').trim());
+        let month: string | null, scope: { scope: DriverScope; target?: string } | null, variable: string, valueStr: string;
+        if (cells.length >= 5 && ['all', 'region', 'store'].includes(cells[1].toLowerCase())) {
+            month = toMonthKey(cells[0]);
+            const kind = cells[1].toLowerCase() as DriverScope;
+            scope = kind === 'all' ? { scope: 'all' } : (cells[2] ? { scope: kind, target: cells[2] } : null);
+            variable = cells[3]; valueStr = cells[4];
+        } else if (cells.length >= 4) {
+            month = toMonthKey(cells[0]);
+            scope = parseScope(cells[1]);
+            variable = cells[2]; valueStr = cells[3];
+        } else return;
+        const value = parseFloat(valueStr.replace(/,/g, ''));
+        if (!month || !scope || !variable || isNaN(value)) return;
+        records.push({ month, ...scope, variable, value });
+    });
+    return records;
+};
+
+/** Driver values that apply to one store: a store row beats a region row, which beats an 'all' row. */
+export const resolveDriverValues = (records: DriverRecord[], storeName: string, region?: string): DriverValues | undefined => {
+    const best: Record<string, Record<string, { value: number; priority: number }>> = {};
+    records.forEach(r => {
+        if (r.scope === 'store' && r.target !== storeName) return;
+        if (r.scope === 'region' && r.target !== region) return;
+        const priority = SCOPE_PRIORITY[r.scope];
+        const byMonth = best[r.variable] || (best[r.variable] = {});
+        if (!byMonth[r.month] || byMonth[r.month].priority <= priority) byMonth[r.month] = { value: r.value, priority };
+    });
+    const variables = Object.keys(best);
+    if (variables.length === 0) return undefined;
+    return Object.fromEntries(variables.map(v => [v, Object.fromEntries(Object.entries(best[v]).map(([m, e]) => [m, e.value]))]));
+};
+
+/** Value of a driver in a month (YYYY-MM or YYYY/MM): the latest listed month at or before it, else 0. */
+export const getDriverValue = (values: Record<string, number>, date: string): number => {
+    const month = toMonthKey(date);
+    if (!month) return 0;
+    let bestKey = '';
+    for (const key in values) if (key <= month && key > bestKey) bestKey = key;
+    return bestKey ? values[bestKey] : 0;
+};
+
+// Variables named in a set of records, in first-seen order
+export const listDriverVariables = (records: DriverRecord[]): string[] => [...new Set(records.map(r => r.variable))];
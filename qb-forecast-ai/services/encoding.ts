@@ -0,0 +1,62 @@
+// --- Text Encoding Detection for Uploaded CSVs ---
+// POS and accounting exports are usually Shift_JIS (CP932), sometimes EUC-JP, and newer tools write UTF-8.
+// A BOM settles it, and so does a sample that decodes as UTF-8 (legacy Japanese bytes almost never form valid
+// UTF-8); otherwise each candidate decodes the sample strictly and the one whose text looks most like Japanese
+// wins. Half-width katakana and Latin-1 letters (¥, ©, ...) are ordinary in real files, so only replacement and
+// private-use characters count against a decoding.
+
+export type TextEncodingName = 'UTF-8' | 'Shift_JIS' | 'EUC-JP' | 'UTF-16LE' | 'UTF-16BE';
+
+export interface EncodingGuess {
+    encoding: TextEncodingName;
+    source: 'bom' | 'ascii' | 'heuristic';
+    candidates: TextEncodingName[];   // Encodings that decode the sample without errors, best first
+}
+
+export const ENCODING_OPTIONS: TextEncodingName[] = ['UTF-8', 'Shift_JIS', 'EUC-JP', 'UTF-16LE', 'UTF-16BE'];
+
+const SAMPLE_BYTES = 64 * 1024;
+const HEURISTIC_ORDER: TextEncodingName[] = ['UTF-8', 'Shift_JIS', 'EUC-JP'];
+
+// Characters that appear in real Japanese business text vs those that mostly come from a wrong decoding
+const JAPANESE = /[\u3000-\u30FF\u4E00-\u9FFF\uFF01-\uFF5E]/g;
+const SUSPICIOUS = /[\uFFFD\uE000-\uF8FF]/g;
+
+const decodeStrict = (bytes: Uint8Array, encoding: TextEncodingName): string | null => {
+    try {
+        return new TextDecoder(encoding, { fatal: true }).decode(bytes);
+    } catch {
+        return null;
+    }
+};
+
+const score = (text: string) => (text.match(JAPANESE)?.length || 0) - 3 * (text.match(SUSPICIOUS)?.length || 0);
+
+/** Whether a decoded string looks garbled (replacement or private-use characters). */
+export const looksGarbled = (text: string): boolean => new RegExp(SUSPICIOUS.source).test(text);
+
+/** Guesses the encoding of a byte sample. */
+export const detectEncoding = (bytes: Uint8Array): EncodingGuess => {
+    if (bytes[0] === 0xEF && bytes[1] === 0xBB && bytes[2] === 0xBF) return { encoding: 'UTF-8', source: 'bom', candidates: ['UTF-8'] };
+    if (bytes[0] === 0xFF && bytes[1] === 0xFE) return { encoding: 'UTF-16LE', source: 'bom', candidates: ['UTF-16LE'] };
+    if (bytes[0] === 0xFE && bytes[1] === 0xFF) return { encoding: 'UTF-16BE', source: 'bom', candidates: ['UTF-16BE'] };
+    if (bytes.every(b => b < 0x80)) return { encoding: 'UTF-8', source: 'ascii', candidates: HEURISTIC_ORDER };
+
+    // Cut at the last line break so a multi-byte character is never split (0x0A is never a trail byte)
+    const cut = bytes.lastIndexOf(0x0A);
+    const sample = cut > 0 ? bytes.subarray(0, cut + 1) : bytes;
+    const ranked = HEURISTIC_ORDER
+        .map((encoding, order) => {
+            const text = decodeStrict(sample, encoding);
+            return { encoding, order, s: text === null ? -Infinity : score(text) };
+        })
+        .filter(c => c.s > -Infinity)
+        .sort((a, b) => Number(b.encoding === 'UTF-8') - Number(a.encoding === 'UTF-8') || b.s - a.s || a.order - b.order);
+    // Nothing decodes cleanly: CP932 with vendor characters is the most likely culprit
+    if (ranked.length === 0) return { encoding: 'Shift_JIS', source: 'heuristic', candidates: [] };
+    return { encoding: ranked[0].encoding, source: 'heuristic', candidates: ranked.map(c => c.encoding) };
+};
+
+/** Guesses the encoding of a file from its first 64 KB. */
+export const detectFileEncoding = async (file: File): Promise<EncodingGuess> =>
+    detectEncoding(new Uint8Array(await file.slice(0, SAMPLE_BYTES).arrayBuffer()));
@@ -0,0 +1,88 @@
+import { EngineConfig } from '../types';
+import { loadEngineConfigOverrides } from '../utils/storage';
+
+// --- Engine Configuration Presets ---
+// Sales are monthly k JPY; customer counts are monthly visitors. Level-type limits of the customer preset
+// are the sales ones divided by the customer-to-sales rate (about 1,389 JPY per visit).
+const CUSTOMER_TO_SALES = 1.389;
+
+export const ENGINE_PRESETS: Record<'sales' | 'customers', EngineConfig> = {
+    sales: {
+        maxK: 2.0,
+        absoluteMaxL: 10000,   // 10 Million JPY is the hard physical ceiling
+        rareL: 5000,           // 5 Million JPY is extremely rare
+        rarePenalty: 0.1,
+        regLStart: 1.2,
+        regL: 0.1,
+        regK: 0.05,
+        regShift: 0.1,
+        minShiftRatio: 0.03,
+        rescueMonths: 24,
+        rescueBand: 0.11,
+        initialL: 3000,
+        customerToSales: CUSTOMER_TO_SALES,
+        serviceMinutes: 12,
+        capacityPenalty: 50,
+        seasonalHalfLife: 2
+    },
+    customers: {
+        maxK: 2.0,
+        absoluteMaxL: 7200,
+        rareL: 3600,
+        rarePenalty: 0.19,     // Same penalty per JPY as sales
+        regLStart: 1.2,
+        regL: 0.1,
+        regK: 0.05,
+        regShift: 0.1,
+        minShiftRatio: 0.03,
+        rescueMonths: 24,
+        rescueBand: 0.11,
+        initialL: 2200,
+        customerToSales: CUSTOMER_TO_SALES,
+        serviceMinutes: 12,
+        capacityPenalty: 50,
+        seasonalHalfLife: 2
+    }
+};
+
+// Editor metadata, in display order
+export const ENGINE_CONFIG_FIELDS: { key: keyof EngineConfig; label: string; hint: string; step: number; group: string }[] = [
+    { key: 'absoluteMaxL', label: '潜在規模の上限', hint: 'Base + L (+ Shift) がこれを超える解は採用しない', step: 100, group: '物理的制約' },
+    { key: 'rareL', label: '希少水準', hint: 'これを超える潜在規模にはペナルティ', step: 100, group: '物理的制約' },
+    { key: 'rarePenalty', label: '希少水準ペナルティ', hint: '超過分の2乗にかける重み', step: 0.01, group: '物理的制約' },
+    { key: 'maxK', label: '成長速度 k の上限', hint: '探索範囲の上限', step: 0.1, group: '物理的制約' },
+    { key: 'regLStart', label: 'L正則化の開始倍率', hint: '潜在規模 / 実績最大値 がこれを超えると罰則', step: 0.05, group: '正則化 (オッカムの剃刀)' },
+    { key: 'regL', label: 'L正則化の重み', hint: '', step: 0.01, group: '正則化 (オッカムの剃刀)' },
+    { key: 'regK', label: 'k正則化の重み', hint: 'k² にかける重み', step: 0.01, group: '正則化 (オッカムの剃刀)' },
+    { key: 'regShift', label: 'Shift正則化の重み', hint: '(段差 / 実績最大値)² にかける重み', step: 0.01, group: '正則化 (オッカムの剃刀)' },
+    { key: 'minShiftRatio', label: '最小の段差', hint: '局所水準に対する割合。これ未満の変化点は段差とみなさない', step: 0.01, group: '構造変化・外れ値' },
+    { key: 'rescueMonths', label: '救済対象の直近月数', hint: 'IQRで外れても直近この月数は平均付近なら採用', step: 1, group: '構造変化・外れ値' },
+    { key: 'rescueBand', label: '救済の許容幅', hint: '12ヶ月平均に対する ± の割合', step: 0.01, group: '構造変化・外れ値' },
+    { key: 'initialL', label: '初期 L', hint: '探索の初期値、および仲間の店舗統計がない新店のL', step: 100, group: '初期値・換算' },
+    { key: 'customerToSales', label: '客数→売上 換算係数', hint: '客数ベースの予算を売上モードで読む時の 千円/人', step: 0.001, group: '初期値・換算' },
+    { key: 'serviceMinutes', label: '1人あたり席占有時間 (分)', hint: 'カット10分 + 入れ替え。処理能力 = 席数 × 稼働時間 × 60 / この値', step: 0.5, group: '処理能力 (店舗マスタの席数・稼働時間)' },
+    { key: 'capacityPenalty', label: '処理能力超過ペナルティ', hint: '潜在規模が処理能力を超えた割合の2乗にかける重み', step: 1, group: '処理能力 (店舗マスタの席数・稼働時間)' },
+    { key: 'seasonalHalfLife', label: '季節性の半減期 (年)', hint: '何年前の月で重みが半分になるか。0 = 全期間で一つの季節指数', step: 0.5, group: '季節性' }
+];
+
+/** Preset of a data type with the admin's saved edits on top. */
+export const resolveEngineConfig = (dataType: 'sales' | 'customers'): EngineConfig => ({
+    ...ENGINE_PRESETS[dataType],
+    ...(loadEngineConfigOverrides()[dataType] || {})
+});
+
+/** Fields of a recorded config that differ from the data type's preset (empty when the run used the preset). */
+export const changedEngineFields = (config: EngineConfig, dataType: 'sales' | 'customers'): (keyof EngineConfig)[] =>
+    ENGINE_CONFIG_FIELDS.map(f => f.key).filter(key => config[key] !== ENGINE_PRESETS[dataType][key]);
+
+/** One-line label of a recorded config for run lists, with the changed values as a tooltip. */
+export const describeEngineConfig = (config: EngineConfig | undefined, dataType: 'sales' | 'customers'): { label: string; detail: string } => {
+    if (!config) return { label: '-', detail: '設定の記録なし' };
+    const changed = changedEngineFields(config, dataType);
+    if (changed.length === 0) return { label: '標準', detail: '標準設定' };
+    const labelOf = (key: keyof EngineConfig) => ENGINE_CONFIG_FIELDS.find(f => f.key === key)!.label;
+    return {
+        label: `変更 ${changed.length}項目`,
+        detail: changed.map(key => `${labelOf(key)}: ${ENGINE_PRESETS[dataType][key]} → ${config[key]}`).join('\n')
+    };
+};
@@ -0,0 +1,106 @@
+import { StoreData, ForecastVintage, VintageStoreForecast, EngineConfig } from '../types';
+import { forecastAt, forecastBandAt } from './jointForecast';
+
+// --- Forecast Vintage Archive (IndexedDB) ---
+const DB_NAME = 'qb_forecast_archive';
+const DB_VERSION = 1;
+const VINTAGE_STORE = 'vintages';
+export const VINTAGE_HORIZON = 24; // Months of forecast kept per store and run
+
+const toMonthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+
+// "2024-03" -> months since year 0, for lining up vintages and actuals
+export const monthIndex = (key: string): number => {
+    const [y, m] = key.replace(/\//g, '-').split('-').map(Number);
+    return y * 12 + (m - 1);
+};
+
+export const monthKeyAt = (index: number): string => `${Math.floor(index / 12)}-${String((index % 12) + 1).padStart(2, '0')}`;
+
+const storeForecast = (s: StoreData): VintageStoreForecast | null => {
+    if (s.error || s.raw.length === 0) return null;
+    const last = new Date(s.dates[s.dates.length - 1].replace(/\//g, '-'));
+    if (isNaN(last.getTime())) return null;
+    const values: number[] = [], p05: number[] = [], p95: number[] = [];
+    for (let h = 1; h <= VINTAGE_HORIZON; h++) {
+        values.push(Math.round(forecastAt(s, h)));
+        const band = forecastBandAt(s, h, 90);
+        if (band) { p05.push(Math.round(band[0])); p95.push(Math.round(band[1])); }
+    }
+    return {
+        name: s.name, block: s.block, region: s.region, prefecture: s.prefecture,
+        start: toMonthKey(new Date(last.getFullYear(), last.getMonth() + 1, 1)),
+        values,
+        ...(p05.length === values.length ? { p05, p95 } : {})
+    };
+};
+
+/** Snapshot of the current forecasts of every active store. */
+export const buildVintage = (stores: { [name: string]: StoreData }, cutoff: Date, dataType: 'sales' | 'customers', config?: EngineConfig): ForecastVintage => {
+    const runAt = new Date().toISOString();
+    return {
+        id: `${runAt}_${dataType}`,
+        runAt,
+        cutoff: toMonthKey(cutoff),
+        dataType,
+        config,
+        stores: (Object.values(stores) as StoreData[])
+            .filter(s => s.isActive)
+            .map(storeForecast)
+            .filter((v): v is VintageStoreForecast => v !== null)
+    };
+};
+
+const openDb = (): Promise<IDBDatabase> => new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') { reject(new Error('IndexedDB is not available')); return; }
+    const req = indexedDB.open(DB_NAME, DB_VERSION);
+    req.onupgradeneeded = () => {
+        if (!req.result.objectStoreNames.contains(VINTAGE_STORE)) req.result.createObjectStore(VINTAGE_STORE, { keyPath: 'id' });
+    };
+    req.onsuccess = () => resolve(req.result);
+    req.onerror = () => reject(req.error);
+});
+
+const withStore = async <T>(mode: IDBTransactionMode, fn: (store: IDBObjectStore) => IDBRequest<T>): Promise<T> => {
+    const db = await openDb();
+    try {
+        return await new Promise<T>((resolve, reject) => {
+            const tx = db.transaction(VINTAGE_STORE, mode);
+            const req = fn(tx.objectStore(VINTAGE_STORE));
+            tx.oncomplete = () => resolve(req.result);
+            tx.onerror = () => reject(tx.error);
+            tx.onabort = () => reject(tx.error);
+        });
+    } finally {
+        db.close();
+    }
+};
+
+export const saveVintage = async (vintage: ForecastVintage): Promise<void> => {
+    await withStore('readwrite', s => s.put(vintage));
+};
+
+/** All archived runs, oldest first. */
+export const listVintages = async (): Promise<ForecastVintage[]> => {
+    const all = await withStore<ForecastVintage[]>('readonly', s => s.getAll());
+    return all.sort((a, b) => a.runAt.localeCompare(b.runAt));
+};
+
+export const deleteVintage = async (id: string): Promise<void> => {
+    await withStore('readwrite', s => s.delete(id));
+};
+
+/** Long-format rows (one per run x store x month) for CSV export. */
+export const vintageRows = (vintages: ForecastVintage[]) => vintages.flatMap(v => v.stores.flatMap(s => s.values.map((value, i) => ({
+    run_at: v.runAt,
+    cutoff: v.cutoff,
+    data_type: v.dataType,
+    store: s.name,
+    region: s.region || '',
+    block: s.block || '',
+    month: monthKeyAt(monthIndex(s.start) + i),
+    horizon: i + 1,
+    forecast: value,
+    p05: s.p05?.[i] ?? '',
+    p95: s.p95?.[i] ?? ''
+}))));
@@ -0,0 +1,113 @@
+import { StoreData, HierarchyLevel, ForecastChangeDriver, ForecastChangeAttribution } from '../types';
+import { monthsAfterLast } from './analysisEngine';
+import { forecastAt } from './jointForecast';
+
+// --- Forecast Change Attribution (old run vs new run) ---
+// Each store's change is split by swapping the new run's pieces into the old forecast one at a time:
+// nudge (new actuals) -> curve parameters (same mode/breaks) or curve mode/breaks -> seasonality (incl. calendar, drivers).
+// Stores with a joint model swap the pieces of their customer curve and unit price the same way.
+// The order is fixed, so interaction effects land on the later step.
+const UNASSIGNED = '(未設定)';
+
+export const CHANGE_DRIVERS: ForecastChangeDriver[] = ['nudge', 'params', 'mode', 'seasonality', 'added', 'removed'];
+
+const emptyParts = (): Record<ForecastChangeDriver, number> => ({ nudge: 0, params: 0, mode: 0, seasonality: 0, added: 0, removed: 0 });
+
+// A run's decayed nudge at a month, on that run's own time axis
+const nudgeAt = (s: StoreData, date: Date): number =>
+    (s.nudge || 0) * Math.pow(s.nudgeDecay, Math.max(0, monthsAfterLast(s, date)));
+
+// The curve store with the nudge (frozen at `date`) and the seasonality of other runs
+const hybridStore = (curve: StoreData, nudgeFrom: StoreData, seasonFrom: StoreData, date: Date): StoreData => {
+    const joint = curve.joint && nudgeFrom.joint && seasonFrom.joint
+        ? {
+            ...curve.joint,
+            customers: hybridStore(curve.joint.customers, nudgeFrom.joint.customers, seasonFrom.joint.customers, date),
+            unitPrice: { ...curve.joint.unitPrice, seasonal: seasonFrom.joint.unitPrice.seasonal },
+        }
+        : curve.joint;
+    return {
+        ...curve,
+        nudge: nudgeAt(nudgeFrom, date), nudgeDecay: 1,
+        seasonal: seasonFrom.seasonal, calendar: seasonFrom.calendar, drivers: seasonFrom.drivers,
+        joint,
+    };
+};
+
+/**
+ * Forecast of one YYYY-MM month with the curve, nudge and seasonality each taken from a (possibly different) run.
+ * The curve is evaluated on its own run's time axis; with all three from one run it is that run's forecastAt.
+ */
+const hybridForecast = (curve: StoreData, nudgeFrom: StoreData, seasonFrom: StoreData, key: string): number => {
+    const [y, m] = key.split('-').map(Number);
+    const date = new Date(y, m - 1, 1);
+    return forecastAt(hybridStore(curve, nudgeFrom, seasonFrom, date), monthsAfterLast(curve, date));
+};
+
+// Indices of every level shift, so a moved or added break counts as a change of shape
+const breakIdx = (s: StoreData) => (s.fit.breaks || []).map(b => b.idx).join(',');
+
+const sumWindow = (window: string[], f: (key: string) => number) => window.reduce((a, key) => a + f(key), 0);
+
+const storeAttribution = (prev: StoreData | undefined, cur: StoreData | undefined, window: string[]) => {
+    const parts = emptyParts();
+    if (prev && !cur) {
+        const previous = sumWindow(window, k => hybridForecast(prev, prev, prev, k));
+        parts.removed = -previous;
+        return { previous, current: 0, parts };
+    }
+    if (!prev && cur) {
+        const current = sumWindow(window, k => hybridForecast(cur, cur, cur, k));
+        parts.added = current;
+        return { previous: 0, current, parts };
+    }
+    const p = prev!, c = cur!;
+    const f0 = sumWindow(window, k => hybridForecast(p, p, p, k));
+    const f1 = sumWindow(window, k => hybridForecast(p, c, p, k));
+    const f2 = sumWindow(window, k => hybridForecast(c, c, p, k));
+    const f3 = sumWindow(window, k => hybridForecast(c, c, c, k));
+    const sameShape = p.fit.mode === c.fit.mode && p.fit.shockIdx === c.fit.shockIdx && breakIdx(p) === breakIdx(c);
+    parts.nudge = f1 - f0;
+    parts[sameShape ? 'params' : 'mode'] = f2 - f1;
+    parts.seasonality = f3 - f2;
+    return { previous: f0, current: f3, parts };
+};
+
+const isLive = (s: StoreData | undefined): s is StoreData => !!s && s.isActive && !s.error && s.raw.length > 0;
+
+/**
+ * Splits the change of every store's and every hierarchy node's forecast over `window` (YYYY-MM months)
+ * between two runs. Nodes come out as total, regions, prefectures, blocks, then stores.
+ */
+export const attributeForecastChange = (
+    previous: { [name: string]: StoreData },
+    current: { [name: string]: StoreData },
+    window: string[]
+): ForecastChangeAttribution[] => {
+    const nodes = new Map<string, ForecastChangeAttribution>();
+    const add = (id: string, level: HierarchyLevel, name: string, r: ReturnType<typeof storeAttribution>) => {
+        let node = nodes.get(id);
+        if (!node) { node = { id, level, name, previous: 0, current: 0, parts: emptyParts() }; nodes.set(id, node); }
+        node.previous += r.previous;
+        node.current += r.current;
+        CHANGE_DRIVERS.forEach(d => { node!.parts[d] += r.parts[d]; });
+    };
+
+    const names = new Set([...Object.keys(previous), ...Object.keys(current)]);
+    names.forEach(name => {
+        const prev = isLive(previous[name]) ? previous[name] : undefined;
+        const cur = isLive(current[name]) ? current[name] : undefined;
+        if (!prev && !cur) return;
+        const r = storeAttribution(prev, cur, window);
+        const s = (cur || prev)!;
+        const region = s.region || UNASSIGNED, prefecture = s.prefecture || UNASSIGNED, block = s.block || UNASSIGNED;
+        add('total', 'total', '全社', r);
+        add(`region:${region}`, 'region', region, r);
+        add(`prefecture:${region}/${prefecture}`, 'prefecture', prefecture, r);
+        add(`block:${region}/${prefecture}/${block}`, 'block', block, r);
+        add(`store:${name}`, 'store', name, r);
+    });
+
+    const order: HierarchyLevel[] = ['total', 'region', 'prefecture', 'block', 'store'];
+    return Array.from(nodes.values()).sort((a, b) => order.indexOf(a.level) - order.indexOf(b.level) || a.name.localeCompare(b.name, 'ja'));
+};
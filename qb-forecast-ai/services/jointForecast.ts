@@ -0,0 +1,179 @@
+import { StoreData, UnitPriceModel, JointModel, PriceVolumeSplit } from '../types';
+import { curveForecastAt, getForecastBand, calculatePercentile } from './analysisEngine';
+
+// --- Unit Price (客単価) Model ---
+const PRICE_MIN_MONTHS = 6;        // Fewer months with both metrics: no joint model
+const PRICE_SEASONAL_MONTHS = 24;  // The seasonal index needs two full years
+const PRICE_TREND_MONTHS = 24;     // Drift = Theil-Sen slope of the latest months
+const PRICE_TREND_MIN = 12;        // Fewer: no drift
+const PRICE_LEVEL_MONTHS = 6;      // Level = median of the latest months, carried to the last month along the drift
+const PRICE_DAMPING = 0.97;        // Drift fades by 3% per month ahead (half-life about 2 years)
+const PRICE_MAX_DRIFT = 0.01;      // Cap on the monthly log drift (about ±12.7% a year)
+
+const DECOMPOSITION_MONTHS = 12;
+
+const parseDate = (d: string) => new Date(d.replace(/\//g, '-'));
+const monthKey = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+const monthOf = (d: string) => {
+    const o = parseDate(d);
+    return isNaN(o.getTime()) ? 0 : o.getMonth();
+};
+const median = (v: number[]) => calculatePercentile(v, 50);
+
+// Median of pairwise slopes; robust to the odd promotion month
+const theilSen = (x: number[], y: number[]): number => {
+    const slopes: number[] = [];
+    for (let i = 0; i < x.length; i++) {
+        for (let j = i + 1; j < x.length; j++) {
+            if (x[j] !== x[i]) slopes.push((y[j] - y[i]) / (x[j] - x[i]));
+        }
+    }
+    return slopes.length > 0 ? median(slopes) : 0;
+};
+
+/**
+ * Unit price model from monthly prices (null where a month lacks either metric).
+ * The seasonal index is the monthly median of log residuals around a Theil-Sen line; the drift is the
+ * Theil-Sen slope of the latest deseasonalised months and is damped into the future.
+ */
+export const fitUnitPrice = (prices: (number | null)[], dates: string[]): UnitPriceModel | null => {
+    const idx = prices.map((p, i) => (p !== null && p > 0 ? i : -1)).filter(i => i >= 0);
+    if (idx.length < PRICE_MIN_MONTHS) return null;
+    const logs = idx.map(i => Math.log(prices[i]!));
+
+    let seasonal: number[] = Array(12).fill(1.0);
+    if (idx.length >= PRICE_SEASONAL_MONTHS) {
+        const slope = theilSen(idx, logs);
+        const intercept = median(logs.map((v, j) => v - slope * idx[j]));
+        const byMonth: number[][] = Array.from({ length: 12 }, () => []);
+        idx.forEach((i, j) => byMonth[monthOf(dates[i])].push(logs[j] - intercept - slope * i));
+        const logIndex = byMonth.map(r => (r.length > 0 ? median(r) : 0));
+        const mean = logIndex.reduce((a, b) => a + b, 0) / 12;
+        seasonal = logIndex.map(v => Math.exp(v - mean));
+    }
+
+    const des = idx.map((i, j) => logs[j] - Math.log(seasonal[monthOf(dates[i])]));
+    const recentIdx = idx.slice(-PRICE_TREND_MONTHS), recentDes = des.slice(-PRICE_TREND_MONTHS);
+    const drift = recentIdx.length >= PRICE_TREND_MIN
+        ? Math.max(-PRICE_MAX_DRIFT, Math.min(PRICE_MAX_DRIFT, theilSen(recentIdx, recentDes)))
+        : 0;
+
+    const last = dates.length - 1;
+    const levelLog = median(des.slice(-PRICE_LEVEL_MONTHS).map((v, j, arr) => v + drift * (last - idx[idx.length - arr.length + j])));
+    return { level: Math.exp(levelLog), drift, damping: PRICE_DAMPING, seasonal, months: idx.length };
+};
+
+/** Unit price h months after the last actual sales month (h <= 0: the level with its seasonal factor). */
+export const unitPriceAt = (m: UnitPriceModel, h: number, date: Date): number => {
+    const cumDrift = h > 0 ? m.drift * m.damping * (1 - Math.pow(m.damping, h)) / (1 - m.damping) : 0;
+    return m.level * Math.exp(cumDrift) * (m.seasonal[date.getMonth()] || 1.0);
+};
+
+/** Joint model of a sales store and the customer-count fit of the same store; undefined when they barely overlap. */
+export const buildJointModel = (sales: StoreData, customers: StoreData): JointModel | undefined => {
+    if (sales.error || customers.error || customers.raw.length === 0) return undefined;
+    const byMonth = new Map<string, number>();
+    customers.dates.forEach((d, i) => {
+        if (customers.raw[i] > 0) byMonth.set(monthKey(parseDate(d)), customers.raw[i]);
+    });
+    const actualCustomers = sales.dates.map(d => byMonth.get(monthKey(parseDate(d))) ?? null);
+    const prices = sales.raw.map((v, i) => (v > 0 && sales.mask[i] && actualCustomers[i] ? v / actualCustomers[i]! : null));
+    const unitPrice = fitUnitPrice(prices, sales.dates);
+    return unitPrice ? { customers, unitPrice, actualCustomers } : undefined;
+};
+
+/** Customers, unit price and their product h months after the sales store's last actual month. */
+export const jointForecastAt = (store: StoreData, h: number): { customers: number; unitPrice: number; sales: number } | null => {
+    const joint = store.joint;
+    if (!joint) return null;
+    const last = parseDate(store.dates[store.dates.length - 1]);
+    const date = new Date(last.getFullYear(), last.getMonth() + h, 1);
+    // The customer series may end on a different month than the sales one
+    const custLast = parseDate(joint.customers.dates[joint.customers.dates.length - 1]);
+    const lag = (last.getFullYear() - custLast.getFullYear()) * 12 + last.getMonth() - custLast.getMonth();
+    const customers = curveForecastAt(joint.customers, h + lag);
+    const unitPrice = unitPriceAt(joint.unitPrice, h, date);
+    return { customers, unitPrice, sales: customers * unitPrice };
+};
+
+/**
+ * Sales forecast h months after the store's last actual month: customers x unit price when the store has a
+ * joint model, else the sales curve. Every sales forecast goes through here so the views agree with the
+ * price/volume split.
+ */
+export const forecastAt = (store: StoreData, h: number): number => {
+    const joint = h >= 1 ? jointForecastAt(store, h) : null;
+    return joint ? joint.sales : curveForecastAt(store, h);
+};
+
+/** Bootstrap band of the sales curve, moved onto forecastAt where the joint model replaces the curve. */
+export const forecastBandAt = (store: StoreData, h: number, coverage: 50 | 90): [number, number] | null => {
+    const band = getForecastBand(store, h, coverage);
+    if (!band || !store.joint) return band;
+    const shift = forecastAt(store, h) - curveForecastAt(store, h);
+    return [Math.max(0, band[0] + shift), Math.max(0, band[1] + shift)];
+};
+
+/** Unit price for a YYYY-MM month: the actual one where both metrics exist, else the model's. */
+export const unitPriceForMonth = (store: StoreData, key: string): number | null => {
+    const joint = store.joint;
+    if (!joint) return null;
+    const i = store.dates.findIndex(d => monthKey(parseDate(d)) === key);
+    const cust = i >= 0 ? joint.actualCustomers[i] : null;
+    if (i >= 0 && cust && store.raw[i] > 0) return store.raw[i] / cust;
+    const last = parseDate(store.dates[store.dates.length - 1]);
+    const [y, m] = key.split('-').map(Number);
+    const h = (y - last.getFullYear()) * 12 + (m - 1) - last.getMonth();
+    return unitPriceAt(joint.unitPrice, h, new Date(y, m - 1, 1));
+};
+
+// Logarithmic mean, the LMDI weight
+const logMean = (a: number, b: number) => (Math.abs(a - b) < 1e-9 ? a : (a - b) / (Math.log(a) - Math.log(b)));
+
+/** LMDI split of a sales change: volume = L(S1, S0) ln(C1/C0), price = L(S1, S0) ln(P1/P0). */
+export const splitPriceVolume = (s0: number, c0: number, s1: number, c1: number): PriceVolumeSplit => {
+    const split = { base: s0, current: s1, volume: 0, price: 0, baseCustomers: c0, currentCustomers: c1 };
+    if (s0 <= 0 || s1 <= 0 || c0 <= 0 || c1 <= 0) return split;
+    const w = logMean(s1, s0);
+    split.volume = w * Math.log(c1 / c0);
+    split.price = w * Math.log((s1 / c1) / (s0 / c0));
+    return split;
+};
+
+const addSplit = (a: PriceVolumeSplit, b: PriceVolumeSplit): PriceVolumeSplit => ({
+    base: a.base + b.base, current: a.current + b.current, volume: a.volume + b.volume, price: a.price + b.price,
+    baseCustomers: a.baseCustomers + b.baseCustomers, currentCustomers: a.currentCustomers + b.currentCustomers
+});
+
+const EMPTY_SPLIT: PriceVolumeSplit = { base: 0, current: 0, volume: 0, price: 0, baseCustomers: 0, currentCustomers: 0 };
+
+/**
+ * Price vs volume decomposition of the stores with a joint model, split per store and summed:
+ * actual = latest 12 months vs the 12 before (stores with both metrics in all 24 months),
+ * forecast = next 12 months (customers x unit price) vs the latest 12.
+ */
+export const priceVolumeDecomposition = (stores: StoreData[]): { actual: PriceVolumeSplit; forecast: PriceVolumeSplit; actualStores: number; forecastStores: number } => {
+    let actual = EMPTY_SPLIT, forecast = EMPTY_SPLIT, actualStores = 0, forecastStores = 0;
+    const n = DECOMPOSITION_MONTHS;
+    stores.forEach(s => {
+        if (!s.joint || !s.isActive || s.raw.length < n) return;
+        const len = s.raw.length;
+        const sum = (arr: (number | null)[], from: number, to: number) => arr.slice(from, to).reduce<number>((a, v) => a + (v || 0), 0);
+        const complete = (from: number) => s.raw.slice(from, from + n).every((v, j) => v > 0 && (s.joint!.actualCustomers[from + j] || 0) > 0);
+
+        if (!complete(len - n)) return;
+        const s1 = sum(s.raw, len - n, len), c1 = sum(s.joint.actualCustomers, len - n, len);
+        if (len >= 2 * n && complete(len - 2 * n)) {
+            actual = addSplit(actual, splitPriceVolume(sum(s.raw, len - 2 * n, len - n), sum(s.joint.actualCustomers, len - 2 * n, len - n), s1, c1));
+            actualStores++;
+        }
+        let s2 = 0, c2 = 0;
+        for (let h = 1; h <= n; h++) {
+            const f = jointForecastAt(s, h);
+            if (f) { s2 += f.sales; c2 += f.customers; }
+        }
+        forecast = addSplit(forecast, splitPriceVolume(s1, c1, s2, c2));
+        forecastStores++;
+    });
+    return { actual, forecast, actualStores, forecastStores };
+};
@@ -0,0 +1,221 @@
+import { StoreData, StoreMasterRecord, NewStorePlan, NewStoreForecast, NewStoreAnalogue, LocationType } from '../types';
+import { invertSPD, createRng, calculatePercentile, getCurveFamily } from './analysisEngine';
+import { matchStoreMaster } from './storeMaster';
+
+// --- Pre-Opening Forecast (planned stores) ---
+// Ridge regressions of every fitted store's log potential (base + L), log k and first-year ramp on its attributes.
+// One-hot categories shrink toward the company mean like a small peer group would (NEW_STORE_RIDGE stores of weight).
+const NEW_STORE_RIDGE = 3;
+const NEW_STORE_MONTHS = 36;
+const NEW_STORE_DRAWS = 500;
+const NEW_STORE_T0 = 12;          // Inflection month of the planned curve, as in the simulator
+const MIN_TRAIN_STORES = 5;
+const MIN_ATTRIBUTE_STORES = 3;   // A numeric attribute (chairs) enters the model once this many stores have it
+const ANALOGUE_COUNT = 5;
+
+interface StoreAttributes {
+    region?: string;
+    prefecture?: string;
+    locationType?: LocationType;
+    chairs?: number;
+    openMonth?: number; // 0-11
+}
+
+interface TrainingRow {
+    store: StoreData;
+    attrs: StoreAttributes;
+    logPotential: number;
+    logK: number;
+    ramp?: number;
+    firstYearAvg?: number;
+}
+
+const monthKey = (d: string) => d.replace(/\//g, '-').slice(0, 7);
+
+// Mean of the logistic part over the first year (t = 0..11), i.e. the ramp of a curve with no base
+const meanSigmoid = (k: number) => {
+    let sum = 0;
+    for (let t = 0; t < 12; t++) sum += 1 / (1 + Math.exp(-k * (t - NEW_STORE_T0)));
+    return sum / 12;
+};
+
+/**
+ * Attributes and targets of each fitted store. The first-year ramp is only taken when the opening is in the data:
+ * the master's opening month is on or after the first month, or (no master date) the series starts later than the earliest one.
+ */
+const buildTrainingRows = (stores: StoreData[], master: Map<string, StoreMasterRecord>): TrainingRow[] => {
+    const earliest = stores.reduce((min, s) => s.dates.length > 0 && monthKey(s.dates[0]) < min ? monthKey(s.dates[0]) : min, '9999-99');
+    return stores.filter(s => !s.error && s.fit.mode !== 'startup' && s.raw.length >= 13 && s.params.L > 0 && s.params.k > 0).map(s => {
+        const m = master.get(s.name);
+        const i0 = s.raw.findIndex(v => v > 0);
+        const openKey = m?.openDate || (i0 >= 0 ? monthKey(s.dates[i0]) : undefined);
+        const potential = (s.params.base || 0) + s.params.L;
+        const observed = m?.openDate ? m.openDate >= monthKey(s.dates[0]) : (i0 > 0 || monthKey(s.dates[0]) > earliest);
+        const start = m?.openDate ? s.dates.findIndex(d => monthKey(d) >= m.openDate!) : i0;
+        const firstYear = observed && start >= 0 && start + 12 <= s.raw.length ? s.raw.slice(start, start + 12) : null;
+        const firstYearAvg = firstYear ? firstYear.reduce((a, b) => a + b, 0) / 12 : undefined;
+        return {
+            store: s,
+            attrs: {
+                region: m?.region || s.region,
+                prefecture: m?.prefecture || s.prefecture,
+                locationType: m?.locationType,
+                chairs: m?.chairs,
+                openMonth: openKey ? parseInt(openKey.slice(5, 7), 10) - 1 : undefined
+            },
+            logPotential: Math.log(Math.max(potential, 1)),
+            logK: Math.log(s.params.k),
+            ramp: firstYearAvg !== undefined && potential > 0 ? Math.min(1.5, firstYearAvg / potential) : undefined,
+            firstYearAvg
+        };
+    });
+};
+
+// Design: intercept, one-hot region / prefecture / location type, centred log chairs, opening month on the unit circle
+const buildEncoder = (rows: TrainingRow[]) => {
+    const levels = (f: (a: StoreAttributes) => string | undefined) => [...new Set(rows.map(r => f(r.attrs)).filter((v): v is string => !!v))];
+    const regions = levels(a => a.region), prefectures = levels(a => a.prefecture), locations = levels(a => a.locationType);
+    const logChairs = rows.map(r => r.attrs.chairs).filter((v): v is number => v !== undefined && v > 0).map(Math.log);
+    const useChairs = logChairs.length >= MIN_ATTRIBUTE_STORES;
+    const chairMean = useChairs ? logChairs.reduce((a, b) => a + b, 0) / logChairs.length : 0;
+    const chairSd = useChairs ? Math.sqrt(logChairs.reduce((a, b) => a + (b - chairMean) ** 2, 0) / logChairs.length) || 1 : 1;
+    const useSeason = rows.filter(r => r.attrs.openMonth !== undefined).length >= MIN_ATTRIBUTE_STORES;
+
+    const encode = (a: StoreAttributes): number[] => [
+        1,
+        ...regions.map(v => a.region === v ? 1 : 0),
+        ...prefectures.map(v => a.prefecture === v ? 1 : 0),
+        ...locations.map(v => a.locationType === v ? 1 : 0),
+        ...(useChairs ? [a.chairs && a.chairs > 0 ? (Math.log(a.chairs) - chairMean) / chairSd : 0] : []),
+        ...(useSeason ? (a.openMonth === undefined ? [0, 0] : [Math.cos(a.openMonth / 6 * Math.PI), Math.sin(a.openMonth / 6 * Math.PI)]) : [])
+    ];
+    const features = [
+        ...(regions.length > 1 ? ['エリア'] : []),
+        ...(prefectures.length > 1 ? ['都道府県'] : []),
+        ...(locations.length > 0 ? ['立地'] : []),
+        ...(useChairs ? ['席数'] : []),
+        ...(useSeason ? ['開店月'] : [])
+    ];
+    // Distance for analogues: one per differing category, standardised chairs, opening months 6 apart = 1
+    const distance = (a: StoreAttributes, b: StoreAttributes) => {
+        const cat = (x?: string, y?: string) => x && y && x !== y ? 1 : 0;
+        let d = cat(a.region, b.region) ** 2 + cat(a.prefecture, b.prefecture) ** 2 + cat(a.locationType, b.locationType) ** 2;
+        if (useChairs && a.chairs && b.chairs) d += ((Math.log(a.chairs) - Math.log(b.chairs)) / chairSd) ** 2;
+        if (a.openMonth !== undefined && b.openMonth !== undefined) { const dm = Math.abs(a.openMonth - b.openMonth); d += (Math.min(dm, 12 - dm) / 6) ** 2; }
+        return Math.sqrt(d);
+    };
+    return { encode, features, distance };
+};
+
+interface RidgeFit {
+    beta: number[];
+    residuals: number[];
+    inflation: (x: number[]) => number; // Residual scale-up for a new store (degrees of freedom, leverage)
+}
+
+const fitRidge = (X: number[][], y: number[]): RidgeFit | null => {
+    const p = X[0].length, n = X.length;
+    const A = Array.from({ length: p }, (_, a) => Array.from({ length: p }, (_, c) => X.reduce((s, x) => s + x[a] * x[c], 0) + (a === c && a > 0 ? NEW_STORE_RIDGE : 0)));
+    const inv = invertSPD(A);
+    if (!inv) return null;
+    const b = Array.from({ length: p }, (_, a) => X.reduce((s, x, i) => s + x[a] * y[i], 0));
+    const beta = inv.map(row => row.reduce((s, v, c) => s + v * b[c], 0));
+    const leverage = (x: number[]) => x.reduce((s, xa, a) => s + xa * inv[a].reduce((t, v, c) => t + v * x[c], 0), 0);
+    const df = X.reduce((s, x) => s + leverage(x), 0);
+    const dfScale = Math.sqrt(n / Math.max(1, n - df));
+    return {
+        beta,
+        residuals: X.map((x, i) => y[i] - x.reduce((s, v, a) => s + v * beta[a], 0)),
+        inflation: (x) => dfScale * Math.sqrt(1 + leverage(x))
+    };
+};
+
+const predict = (fit: RidgeFit, x: number[]) => x.reduce((s, v, a) => s + v * fit.beta[a], 0);
+
+// Curve of a planned store from its potential, k and first-year ramp (the base takes whatever the ramp needs beyond the sigmoid)
+const curveFrom = (potential: number, k: number, ramp: number | null) => {
+    const m = meanSigmoid(k);
+    const base = ramp === null ? 0 : Math.min(0.9, Math.max(0, (ramp - m) / (1 - m))) * potential;
+    return { base, L: potential - base, k, t0: NEW_STORE_T0 };
+};
+
+/**
+ * Forecast of a planned store: median curve from the attribute regressions, a 36-month p10/p50/p90 band from
+ * bootstrapped regression residuals, and the closest existing stores by attribute as evidence.
+ * Returns null when fewer than MIN_TRAIN_STORES stores have a growth fit.
+ */
+export const forecastNewStore = (stores: StoreData[], masterRecords: StoreMasterRecord[], plan: NewStorePlan): NewStoreForecast | null => {
+    const master = matchStoreMaster(masterRecords, stores.map(s => s.name)).byStore;
+    const rows = buildTrainingRows(stores, master);
+    if (rows.length < MIN_TRAIN_STORES) return null;
+
+    const { encode, features, distance } = buildEncoder(rows);
+    const X = rows.map(r => encode(r.attrs));
+    const potentialFit = fitRidge(X, rows.map(r => r.logPotential));
+    // k means growth speed only for logistic-family fits (damped fits report a trend decay rate)
+    const logistic = rows.filter(r => getCurveFamily(r.store.fit.mode) === 'logistic');
+    const kRows = logistic.length >= MIN_TRAIN_STORES ? logistic : rows;
+    const kFit = fitRidge(kRows.map(r => encode(r.attrs)), kRows.map(r => r.logK));
+    if (!potentialFit || !kFit) return null;
+    const rampRows = rows.filter(r => r.ramp !== undefined);
+    const rampFit = rampRows.length >= MIN_TRAIN_STORES ? fitRidge(rampRows.map(r => encode(r.attrs)), rampRows.map(r => r.ramp!)) : null;
+
+    const [y, mo] = plan.openDate.split('-').map(Number);
+    const planAttrs: StoreAttributes = { region: plan.region, prefecture: plan.prefecture, locationType: plan.locationType, chairs: plan.chairs, openMonth: mo - 1 };
+    const x0 = encode(planAttrs);
+    const potential0 = predict(potentialFit, x0), logK0 = predict(kFit, x0);
+    const ramp0 = rampFit ? predict(rampFit, x0) : null;
+
+    const analogues: NewStoreAnalogue[] = rows
+        .map(r => ({ r, d: distance(planAttrs, r.attrs) }))
+        .sort((a, b) => a.d - b.d || b.r.store.raw.length - a.r.store.raw.length)
+        .slice(0, ANALOGUE_COUNT)
+        .map(({ r, d }) => ({ name: r.store.name, distance: d, L: r.store.params.L, k: r.store.params.k, firstYearAvg: r.firstYearAvg }));
+
+    // Seasonality of the analogues, normalised to mean 1
+    const seaStores = analogues.map(a => rows.find(r => r.store.name === a.name)!.store).filter(s => s.seasonal.length === 12);
+    const seaRaw = Array.from({ length: 12 }, (_, m) => seaStores.length > 0 ? seaStores.reduce((a, s) => a + s.seasonal[m], 0) / seaStores.length : 1);
+    const seaMean = seaRaw.reduce((a, b) => a + b, 0) / 12;
+    const seasonality = seaRaw.map(v => v / seaMean);
+
+    const path = (c: { base: number; L: number; k: number; t0: number }) => Array.from({ length: NEW_STORE_MONTHS }, (_, t) =>
+        Math.max(0, (c.base + c.L / (1 + Math.exp(-c.k * (t - c.t0)))) * seasonality[(mo - 1 + t) % 12]));
+
+    // Residual bootstrap: potential and k residuals are drawn from the same store (when it has both) to keep their correlation
+    const rng = createRng(`new-store:${plan.region}:${plan.prefecture}:${plan.locationType}:${plan.chairs}:${plan.openDate}`);
+    const inflP = potentialFit.inflation(x0), inflK = kFit.inflation(x0), inflR = rampFit ? rampFit.inflation(x0) : 0;
+    const draws = Array.from({ length: NEW_STORE_DRAWS }, () => {
+        const j = Math.floor(rng() * rows.length);
+        const jk = kRows === rows ? j : kRows.indexOf(rows[j]);
+        const ramp = rampFit ? ramp0! + inflR * rampFit.residuals[Math.floor(rng() * rampRows.length)] : null;
+        const curve = curveFrom(Math.exp(potential0 + inflP * potentialFit.residuals[j]), Math.exp(logK0 + inflK * kFit.residuals[jk >= 0 ? jk : Math.floor(rng() * kRows.length)]), ramp);
+        const values = path(curve);
+        return { curve, values, total: values.reduce((a, b) => a + b, 0) };
+    });
+
+    const months = Array.from({ length: NEW_STORE_MONTHS }, (_, t) => {
+        const vals = draws.map(d => d.values[t]);
+        const d = new Date(y, mo - 1 + t, 1);
+        return {
+            month: `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`,
+            p10: Math.round(calculatePercentile(vals, 10)), p50: Math.round(calculatePercentile(vals, 50)), p90: Math.round(calculatePercentile(vals, 90))
+        };
+    });
+    const byTotal = [...draws].sort((a, b) => a.total - b.total);
+    const scenarioAt = (q: number) => {
+        const c = byTotal[Math.min(byTotal.length - 1, Math.floor(q * byTotal.length))].curve;
+        return { base: Math.round(c.base), L: Math.round(c.L), k: parseFloat(c.k.toFixed(3)) };
+    };
+
+    const point = curveFrom(Math.exp(potential0), Math.exp(logK0), ramp0);
+    return {
+        params: point,
+        ramp: ramp0 ?? meanSigmoid(point.k),
+        months,
+        scenarios: { conservative: scenarioAt(0.1), standard: scenarioAt(0.5), optimistic: scenarioAt(0.9) },
+        analogues,
+        trainedOn: rows.length,
+        rampTrainedOn: rampRows.length,
+        features
+    };
+};
@@ -0,0 +1,303 @@
+import { StoreData, HierarchyLevel, ReconciliationMethod, HierarchyForecast, HierarchyAccuracy } from '../types';
+import { monthsAfterLast } from './analysisEngine';
+import { forecastAt } from './jointForecast';
+import { runAnalysisBatch, AnalysisTask } from './workerPool';
+
+// --- Hierarchical Reconciliation Settings ---
+const UNASSIGNED = '(未設定)';
+const TOP_DOWN_WINDOW = 12;         // Months of history behind the top-down split proportions
+const MIN_AGGREGATE_MONTHS = 13;    // Shorter aggregates are not fitted; their base is the sum of their stores
+const CG_MAX_ITER = 500;
+const CG_TOL = 1e-10;
+
+export const HIERARCHY_LEVELS: HierarchyLevel[] = ['total', 'region', 'prefecture', 'block', 'store'];
+
+interface TreeNode {
+    id: string;
+    level: HierarchyLevel;
+    name: string;
+    parent: string | null;
+    leaves: number[]; // Indices into HierarchyBase.stores
+}
+
+// Every node forecast independently; reconcileHierarchy() turns this into coherent numbers
+export interface HierarchyBase {
+    historyDates: string[];
+    dates: string[];
+    stores: StoreData[];
+    nodes: TreeNode[];
+    history: number[][];
+    base: number[][];
+    variance: number[]; // In-sample residual variance per node (MinT weights)
+}
+
+// "2024-03" / "2024/03" -> "2024-03"
+const toMonthKey = (d: string) => {
+    const [y, m] = d.replace(/\//g, '-').split('-').map(Number);
+    return `${y}-${String(m).padStart(2, '0')}`;
+};
+
+const addMonths = (key: string, n: number) => {
+    const [y, m] = key.split('-').map(Number);
+    const d = new Date(y, m - 1 + n, 1);
+    return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+};
+
+const monthsBetween = (from: string, to: string) => {
+    const [y1, m1] = from.split('-').map(Number);
+    const [y2, m2] = to.split('-').map(Number);
+    return (y2 - y1) * 12 + (m2 - m1);
+};
+
+const buildTree = (stores: StoreData[]): TreeNode[] => {
+    const nodes: TreeNode[] = [{ id: 'total', level: 'total', name: '全社', parent: null, leaves: [] }];
+    const index = new Map<string, TreeNode>([['total', nodes[0]]]);
+    const ensure = (id: string, level: HierarchyLevel, name: string, parent: string) => {
+        let node = index.get(id);
+        if (!node) {
+            node = { id, level, name, parent, leaves: [] };
+            index.set(id, node); nodes.push(node);
+        }
+        return node;
+    };
+    stores.forEach((s, i) => {
+        const region = s.region || UNASSIGNED, prefecture = s.prefecture || UNASSIGNED, block = s.block || UNASSIGNED;
+        const r = ensure(`region:${region}`, 'region', region, 'total');
+        const p = ensure(`prefecture:${region}/${prefecture}`, 'prefecture', prefecture, r.id);
+        const b = ensure(`block:${region}/${prefecture}/${block}`, 'block', block, p.id);
+        const leaf = ensure(`store:${s.name}`, 'store', s.name, b.id);
+        [nodes[0], r, p, b, leaf].forEach(n => n.leaves.push(i));
+    });
+    return nodes;
+};
+
+// Point forecast of a fitted series for the months after `lastKey` (the series may end earlier)
+const forecastPath = (s: StoreData, lastKey: string, horizon: number, scale = 1): number[] => {
+    const offset = monthsBetween(toMonthKey(s.dates[s.dates.length - 1]), lastKey);
+    return Array.from({ length: horizon }, (_, i) => forecastAt(s, offset + i + 1) * scale);
+};
+
+// Stores that enter the hierarchy
+const hierarchyStores = (allStores: StoreData[]) => allStores.filter(s => s.isActive && !s.error && s.raw.length > 0);
+
+/** The `horizon` months (YYYY-MM) a hierarchy forecast of these stores covers: they start after the latest month of any store. */
+export const hierarchyForecastDates = (allStores: StoreData[], horizon: number): string[] => {
+    const lastKey = hierarchyStores(allStores).reduce((a, s) => {
+        const key = toMonthKey(s.dates[s.dates.length - 1]);
+        return key > a ? key : a;
+    }, '');
+    return lastKey ? Array.from({ length: horizon }, (_, i) => addMonths(lastKey, i + 1)) : [];
+};
+
+/**
+ * Forecast of one store for a YYYY-MM month: its reconciled store node when `forecast` covers the month, else
+ * forecastAt (the plain sum of store forecasts). Views that add stores up go through this, so their aggregates
+ * show the reconciliation selected in the app.
+ */
+export const storeForecastLookup = (forecast: HierarchyForecast | null) => {
+    const byStore = new Map<string, number[]>();
+    forecast?.nodes.forEach(n => { if (n.level === 'store') byStore.set(n.name, n.reconciled); });
+    const column = new Map((forecast?.dates ?? []).map((d, h) => [d, h]));
+    return (s: StoreData, key: string): number => {
+        const row = byStore.get(s.name), h = column.get(key);
+        if (row && h !== undefined) return row[h];
+        const [y, m] = key.split('-').map(Number);
+        return forecastAt(s, monthsAfterLast(s, new Date(y, m - 1, 1)));
+    };
+};
+
+/**
+ * Forecasts every node of the region → prefecture → block → store tree.
+ * Stores reuse their own fits; aggregates are fitted with analyzeStore after dividing by the number of
+ * contributing stores, so the per-store priors (L ceilings, k range) stay meaningful.
+ */
+export const prepareHierarchy = async (
+    allStores: StoreData[],
+    horizon: number,
+    onProgress?: (pct: number) => void,
+    signal?: AbortSignal
+): Promise<HierarchyBase> => {
+    const stores = hierarchyStores(allStores);
+    const nodes = buildTree(stores);
+
+    const keys = new Set<string>();
+    stores.forEach(s => s.dates.forEach(d => keys.add(toMonthKey(d))));
+    const historyDates = Array.from(keys).sort();
+    const lastKey = historyDates[historyDates.length - 1];
+    const dates = Array.from({ length: horizon }, (_, i) => addMonths(lastKey, i + 1));
+    const position = new Map(historyDates.map((k, i) => [k, i]));
+
+    const storeHistory = stores.map(s => {
+        const row = Array(historyDates.length).fill(0);
+        s.dates.forEach((d, i) => { row[position.get(toMonthKey(d))!] += s.raw[i]; });
+        return row;
+    });
+    const storeBase = stores.map(s => forecastPath(s, lastKey, horizon));
+
+    const history = nodes.map(node => {
+        const hist = Array(historyDates.length).fill(0);
+        node.leaves.forEach(j => storeHistory[j].forEach((v, t) => hist[t] += v));
+        return hist;
+    });
+
+    // Aggregates long enough to fit, scaled to one store's size
+    const lastDate = new Date(lastKey + '-01');
+    const scales = nodes.map(node => Math.max(1, node.leaves.filter(j => storeHistory[j][historyDates.length - 1] > 0).length));
+    const aggregateTasks: AnalysisTask[] = [], taskNode: number[] = [];
+    nodes.forEach((node, n) => {
+        if (node.level === 'store') return;
+        const start = history[n].findIndex(v => v > 0);
+        if (start === -1 || historyDates.length - start < MIN_AGGREGATE_MONTHS) return;
+        aggregateTasks.push({ name: node.id, raw: history[n].slice(start).map(v => v / scales[n]), dates: historyDates.slice(start), maxDate: lastDate });
+        taskNode.push(n);
+    });
+    const fits = await runAnalysisBatch(aggregateTasks, {
+        globalMaxDate: lastDate, signal,
+        onProgress: onProgress ? (done, total) => onProgress(Math.round(done / total * 100)) : undefined
+    });
+    const fitOf = new Map<number, StoreData>();
+    fits.forEach((f, i) => { if (f && !f.error) fitOf.set(taskNode[i], f); });
+
+    const base: number[][] = [], variance: number[] = [];
+    for (let n = 0; n < nodes.length; n++) {
+        const node = nodes[n];
+        if (node.level === 'store') {
+            const s = stores[node.leaves[0]];
+            base.push(storeBase[node.leaves[0]]);
+            variance.push(s.stdDev * s.stdDev);
+            continue;
+        }
+
+        const fitted = fitOf.get(n);
+        if (fitted) {
+            base.push(forecastPath(fitted, lastKey, horizon, scales[n]));
+            variance.push(Math.pow(fitted.stdDev * scales[n], 2));
+        } else {
+            // Too short to fit on its own: behave like a bottom-up node
+            const sumBase = Array(horizon).fill(0);
+            node.leaves.forEach(j => storeBase[j].forEach((v, h) => sumBase[h] += v));
+            base.push(sumBase);
+            variance.push(node.leaves.reduce((a, j) => a + Math.pow(stores[j].stdDev, 2), 0));
+        }
+    }
+
+    return { historyDates, dates, stores, nodes, history, base, variance };
+};
+
+// Conjugate gradient for (S' W⁻¹ S) b = S' W⁻¹ ŷ. The matrix is applied through the tree
+// (one pass over each node's leaves), so the n×n system is never formed.
+const solveGLS = (nodes: TreeNode[], yhat: number[], weights: number[], nLeaves: number): number[] => {
+    const apply = (x: number[]) => {
+        const out = Array(nLeaves).fill(0);
+        nodes.forEach((node, n) => {
+            let sum = 0;
+            node.leaves.forEach(j => sum += x[j]);
+            node.leaves.forEach(j => out[j] += sum / weights[n]);
+        });
+        return out;
+    };
+    const rhs = Array(nLeaves).fill(0);
+    nodes.forEach((node, n) => node.leaves.forEach(j => rhs[j] += yhat[n] / weights[n]));
+
+    const x = Array(nLeaves).fill(0);
+    const r = [...rhs], p = [...rhs];
+    let rr = r.reduce((a, v) => a + v * v, 0);
+    const tol = CG_TOL * Math.max(rr, 1);
+    for (let iter = 0; iter < CG_MAX_ITER && rr > tol; iter++) {
+        const Ap = apply(p);
+        const pAp = p.reduce((a, v, j) => a + v * Ap[j], 0);
+        if (pAp <= 0) break;
+        const alpha = rr / pAp;
+        for (let j = 0; j < nLeaves; j++) { x[j] += alpha * p[j]; r[j] -= alpha * Ap[j]; }
+        const rrNew = r.reduce((a, v) => a + v * v, 0);
+        const beta = rrNew / rr;
+        for (let j = 0; j < nLeaves; j++) p[j] = r[j] + beta * p[j];
+        rr = rrNew;
+    }
+    return x;
+};
+
+/**
+ * Makes the node forecasts add up.
+ * - bottom_up: stores as forecast, aggregates are sums
+ * - top_down: total forecast split by each store's share of the last 12 months
+ * - ols / mint: least-squares projection onto coherent forecasts, with identity weights (OLS) or
+ *   each node's residual variance (MinT with a diagonal covariance, a.k.a. WLS-var)
+ * Negative store values are clipped to zero before summing up, which keeps the result coherent.
+ */
+export const reconcileHierarchy = (prep: HierarchyBase, method: ReconciliationMethod): HierarchyForecast => {
+    const { nodes, base, history, stores } = prep;
+    const nLeaves = stores.length;
+    const horizon = prep.dates.length;
+    const leafNode = nodes.map((n, i) => ({ n, i })).filter(({ n }) => n.level === 'store');
+
+    let bottom: number[][] = leafNode.map(({ i }) => base[i]); // [leaf][h]
+    if (method === 'top_down') {
+        const window = history[0].slice(-TOP_DOWN_WINDOW);
+        const totalRecent = window.reduce((a, b) => a + b, 0);
+        bottom = leafNode.map(({ i }) => {
+            const share = totalRecent > 0 ? history[i].slice(-TOP_DOWN_WINDOW).reduce((a, b) => a + b, 0) / totalRecent : 1 / nLeaves;
+            return base[0].map(v => v * share);
+        });
+    } else if (method === 'ols' || method === 'mint') {
+        const positive = prep.variance.filter(v => v > 0);
+        const floor = positive.length > 0 ? Math.min(...positive) : 1;
+        const weights = method === 'ols' ? nodes.map(() => 1) : prep.variance.map(v => Math.max(v, floor));
+        const solved = Array.from({ length: horizon }, (_, h) => solveGLS(nodes, base.map(b => b[h]), weights, nLeaves));
+        bottom = leafNode.map((_, j) => solved.map(col => col[j]));
+    }
+
+    // leaves are stored in store order, which is also the order of the store nodes
+    const byStore = Array(nLeaves);
+    leafNode.forEach(({ n }, j) => { byStore[n.leaves[0]] = bottom[j].map(v => Math.max(0, v)); });
+
+    return {
+        method,
+        historyDates: prep.historyDates,
+        dates: prep.dates,
+        nodes: nodes.map((node, i) => {
+            const reconciled = method === 'base' ? base[i].map(v => Math.max(0, v)) : Array(horizon).fill(0);
+            if (method !== 'base') node.leaves.forEach(j => byStore[j].forEach((v: number, h: number) => reconciled[h] += v));
+            return {
+                id: node.id, level: node.level, name: node.name, parent: node.parent,
+                stores: node.leaves.map(j => stores[j].name),
+                history: history[i], base: base[i], reconciled
+            };
+        })
+    };
+};
+
+/**
+ * Scores reconciled forecasts against actuals, level by level.
+ * `actualStores` holds the full series (the forecasts were made from truncated copies).
+ */
+export const scoreHierarchy = (forecast: HierarchyForecast, actualStores: { [name: string]: StoreData }): HierarchyAccuracy[] => {
+    const actualOf = (names: string[]) => forecast.dates.map(key => names.reduce((sum, name) => {
+        const s = actualStores[name];
+        if (!s) return sum;
+        const idx = s.dates.findIndex(d => toMonthKey(d) === key);
+        return sum + (idx === -1 ? 0 : s.raw[idx]);
+    }, 0));
+
+    return HIERARCHY_LEVELS.map(level => {
+        const levelNodes = forecast.nodes.filter(n => n.level === level);
+        let mapeSum = 0, mapeCount = 0, absErr = 0, absActual = 0;
+        levelNodes.forEach(node => {
+            const actual = actualOf(node.stores);
+            let pctSum = 0, pctCount = 0;
+            actual.forEach((a, h) => {
+                const err = Math.abs(a - node.reconciled[h]);
+                absErr += err; absActual += a;
+                if (a > 0) { pctSum += err / a; pctCount++; }
+            });
+            if (pctCount > 0) { mapeSum += pctSum / pctCount; mapeCount++; }
+        });
+        return {
+            level,
+            method: forecast.method,
+            mape: mapeCount > 0 ? (mapeSum / mapeCount) * 100 : 0,
+            wape: absActual > 0 ? (absErr / absActual) * 100 : 0,
+            nodes: levelNodes.length
+        };
+    });
+};
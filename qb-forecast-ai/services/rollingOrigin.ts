@@ -0,0 +1,157 @@
+import { StoreData, CvMethod, CvMetrics, CvGroup, CvSummary, EngineConfig } from '../types';
+import { curveForecastAt, getForecastBand } from './analysisEngine';
+import { runTieredBatch, AnalysisTask } from './workerPool';
+
+// --- Rolling-Origin Cross-Validation Settings ---
+export const CV_MAX_HORIZON = 12;
+export const CV_METHODS: CvMethod[] = ['engine', 'snaive', 'ma'];
+const CV_MIN_TRAIN = 24;        // Shortest training window (two seasons for the seasonal-naive scale)
+const CV_ORIGIN_STEP = 2;       // Months between successive cutoffs
+const MA_WINDOW = 3;            // Moving-average baseline: flat mean of the last N months
+const AGE_BUCKETS: [number, string][] = [[36, '〜3年'], [60, '3〜5年'], [Infinity, '5年〜']];
+export const CV_MIN_LENGTH = CV_MIN_TRAIN + CV_MAX_HORIZON; // Months a store needs for one cutoff
+
+// One scored forecast: a store, a cutoff and a horizon, with every method's prediction
+interface CvRecord {
+    h: number;
+    mode: string;
+    age: string;
+    region: string;
+    actual: number;
+    scale: number;
+    forecasts: Record<CvMethod, number>;
+    band: [number, number] | null;
+}
+
+// Mean absolute seasonal difference of the training window (lag 12, lag 1 when too short)
+const naiveScale = (train: number[]): number => {
+    const lag = train.length > 12 ? 12 : 1;
+    let sum = 0, n = 0;
+    for (let i = lag; i < train.length; i++) {
+        if (train[i] <= 0 || train[i - lag] <= 0) continue;
+        sum += Math.abs(train[i] - train[i - lag]); n++;
+    }
+    return n > 0 ? sum / n : 0;
+};
+
+// Cutoffs (training lengths) for a series: every origin is followed by a full CV_MAX_HORIZON of actuals
+const cutoffsFor = (length: number, origins: number): number[] => {
+    const cuts: number[] = [];
+    for (let k = 0; k < origins; k++) {
+        const cut = length - CV_MAX_HORIZON - k * CV_ORIGIN_STEP;
+        if (cut < CV_MIN_TRAIN) break;
+        cuts.push(cut);
+    }
+    return cuts;
+};
+
+const scoreRecords = (records: CvRecord[]): Record<CvMethod, CvMetrics> => {
+    const out = {} as Record<CvMethod, CvMetrics>;
+    CV_METHODS.forEach(method => {
+        let scaled = 0, smape = 0, err = 0, act = 0, nScaled = 0, inside = 0, banded = 0;
+        records.forEach(r => {
+            const f = r.forecasts[method];
+            if (r.scale > 0) { scaled += Math.abs(r.actual - f) / r.scale; nScaled++; }
+            smape += (200 * Math.abs(r.actual - f)) / (Math.abs(r.actual) + Math.abs(f) || 1);
+            err += f - r.actual; act += r.actual;
+            if (method === 'engine' && r.band) { banded++; if (r.actual >= r.band[0] && r.actual <= r.band[1]) inside++; }
+        });
+        const n = records.length;
+        out[method] = {
+            mase: nScaled > 0 ? scaled / nScaled : NaN,
+            smape: n > 0 ? smape / n : NaN,
+            bias: act > 0 ? (err / act) * 100 : NaN,
+            coverage: banded > 0 ? (inside / banded) * 100 : undefined,
+            n
+        };
+    });
+    return out;
+};
+
+const groupBy = (records: CvRecord[], key: (r: CvRecord) => string): CvGroup[] => {
+    const groups = new Map<string, CvRecord[]>();
+    records.forEach(r => {
+        const k = key(r);
+        if (!groups.has(k)) groups.set(k, []);
+        groups.get(k)!.push(r);
+    });
+    return Array.from(groups.entries())
+        .map(([k, rs]) => ({ key: k, metrics: scoreRecords(rs) }))
+        .sort((a, b) => b.metrics.engine.n - a.metrics.engine.n);
+};
+
+/**
+ * Rolling-origin evaluation: each store is re-trained at up to `origins` cutoffs (CV_ORIGIN_STEP months apart)
+ * and forecast 1-CV_MAX_HORIZON months ahead, next to seasonal-naive and moving-average baselines.
+ * Months with no sales (closures, gaps) are not scored. As in production, young stores are refitted with peer
+ * priors, rebuilt for every origin from the mature stores' training fits so no later month leaks into them.
+ */
+export const runRollingOriginCv = async (
+    stores: StoreData[], origins: number,
+    onProgress?: (pct: number) => void, signal?: AbortSignal, engine?: EngineConfig
+): Promise<CvSummary> => {
+    const tasks: AnalysisTask[] = [];
+    const meta: { store: StoreData; cut: number; origin: number }[] = [];
+    stores.forEach(store => {
+        cutoffsFor(store.raw.length, origins).forEach((cut, origin) => {
+            const trainDates = store.dates.slice(0, cut);
+            tasks.push({
+                name: store.name, raw: store.raw.slice(0, cut), dates: trainDates,
+                block: store.block, region: store.region, prefecture: store.prefecture, closures: store.calendar?.closures,
+                drivers: store.drivers && Object.fromEntries(store.drivers.map(d => [d.variable, d.values])),
+                maskOverrides: store.maskOverrides, capacity: store.capacity, missingMonths: store.missingMonths,
+                maxDate: new Date(trainDates[trainDates.length - 1].replace(/\//g, '-'))
+            });
+            meta.push({ store, cut, origin });
+        });
+    });
+
+    // One tiered fit per origin (the k-th cutoff of every store)
+    const trained: StoreData[] = new Array(tasks.length);
+    let fitted = 0;
+    for (let origin = 0; origin < origins; origin++) {
+        const idx = meta.map((_, i) => i).filter(i => meta[i].origin === origin);
+        if (idx.length === 0) break;
+        const results = await runTieredBatch(idx.map(i => tasks[i]), {
+            globalMaxDate: new Date(), signal, engine,
+            onProgress: (done) => onProgress?.(Math.round(((fitted + done) / tasks.length) * 100))
+        });
+        idx.forEach((i, j) => { trained[i] = results[j]; });
+        fitted += idx.length;
+    }
+
+    const records: CvRecord[] = [];
+    const scoredStores = new Set<string>();
+    trained.forEach((result, i) => {
+        if (!result || result.error) return;
+        const { store, cut } = meta[i];
+        const train = tasks[i].raw;
+        const scale = naiveScale(train);
+        const maWindow = train.slice(-MA_WINDOW).filter(v => v > 0);
+        const ma = maWindow.length > 0 ? maWindow.reduce((a, b) => a + b, 0) / maWindow.length : 0;
+        const age = AGE_BUCKETS.find(([limit]) => cut < limit)![1];
+
+        for (let h = 1; h <= CV_MAX_HORIZON; h++) {
+            const actual = store.raw[cut - 1 + h];
+            if (!(actual > 0)) continue;
+            const engine = curveForecastAt(result, h);
+            const snaive = train[cut - 12 + ((h - 1) % 12)]; // Same month last year (cut >= CV_MIN_TRAIN)
+            records.push({
+                h, mode: result.fit.mode, age, region: store.region || '(未設定)', actual, scale,
+                forecasts: { engine, snaive, ma },
+                band: getForecastBand(result, h, 90)
+            });
+        }
+        scoredStores.add(store.name);
+    });
+
+    return {
+        stores: scoredStores.size,
+        origins,
+        overall: scoreRecords(records),
+        byHorizon: Array.from({ length: CV_MAX_HORIZON }, (_, i) => ({ h: i + 1, key: `${i + 1}`, metrics: scoreRecords(records.filter(r => r.h === i + 1)) })),
+        byMode: groupBy(records, r => r.mode),
+        byAge: groupBy(records, r => r.age),
+        byRegion: groupBy(records, r => r.region)
+    };
+};
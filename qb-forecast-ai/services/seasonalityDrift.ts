@@ -0,0 +1,57 @@
+import { StoreData, SeasonalYearProfile, SeasonalDrift } from '../types';
+
+// --- Seasonality Drift Report ---
+// Compares each calendar year's seasonal index (StoreData.seasonalByYear) with the earliest and the previous one.
+const DRIFT_MIN_MONTHS = 6; // Years with fewer fitted months say little about their own season
+
+// Mean |difference| of two 12-month indices
+export const profileDistance = (a: number[], b: number[]): number =>
+    a.reduce((sum, v, m) => sum + Math.abs(v - (b[m] ?? 1)), 0) / 12;
+
+const peakMonth = (index: number[]) => index.indexOf(Math.max(...index)) + 1;
+
+const driftOf = (name: string, region: string | undefined, stores: number, profiles: SeasonalYearProfile[]): SeasonalDrift | null => {
+    if (profiles.length < 2) return null;
+    const first = profiles[0], last = profiles[profiles.length - 1], prev = profiles[profiles.length - 2];
+    return {
+        name, region, stores, profiles,
+        drift: profileDistance(last.index, first.index),
+        lastYearDrift: profileDistance(last.index, prev.index),
+        peakMonths: [peakMonth(first.index), peakMonth(last.index)]
+    };
+};
+
+/** Drift of one store over its years with enough fitted months; null with fewer than two such years. */
+export const storeSeasonalDrift = (store: StoreData): SeasonalDrift | null =>
+    store.error ? null : driftOf(store.name, store.region, 1, (store.seasonalByYear || []).filter(p => p.months >= DRIFT_MIN_MONTHS));
+
+/** Per-year mean of the member stores' indices (normalised to mean 1), for a region or the company. */
+export const pooledSeasonalProfiles = (stores: StoreData[]): SeasonalYearProfile[] => {
+    const byYear = new Map<number, { sum: number[]; n: number; months: number }>();
+    stores.forEach(s => (s.seasonalByYear || []).filter(p => p.months >= DRIFT_MIN_MONTHS).forEach(p => {
+        const acc = byYear.get(p.year) || { sum: Array(12).fill(0), n: 0, months: 0 };
+        p.index.forEach((v, m) => acc.sum[m] += v);
+        acc.n++; acc.months += p.months;
+        byYear.set(p.year, acc);
+    }));
+    return Array.from(byYear.entries()).sort((a, b) => a[0] - b[0]).map(([year, acc]) => {
+        const mean = acc.sum.map(v => v / acc.n);
+        const avg = mean.reduce((a, b) => a + b, 0) / 12 || 1;
+        return { year, index: mean.map(v => v / avg), months: acc.months };
+    });
+};
+
+/** Seasonality drift of every store and region, largest drift first. */
+export const seasonalityDriftReport = (stores: StoreData[]): { stores: SeasonalDrift[]; regions: SeasonalDrift[]; company: SeasonalDrift | null } => {
+    const byStore = stores.map(storeSeasonalDrift).filter((d): d is SeasonalDrift => d !== null).sort((a, b) => b.drift - a.drift);
+    const regionNames = Array.from(new Set(stores.map(s => s.region || '未設定')));
+    const regions = regionNames
+        .map(r => {
+            const members = stores.filter(s => !s.error && (s.region || '未設定') === r);
+            return driftOf(r, r, members.length, pooledSeasonalProfiles(members));
+        })
+        .filter((d): d is SeasonalDrift => d !== null)
+        .sort((a, b) => b.drift - a.drift);
+    const valid = stores.filter(s => !s.error);
+    return { stores: byStore, regions, company: driftOf('全社', undefined, valid.length, pooledSeasonalProfiles(valid)) };
+};
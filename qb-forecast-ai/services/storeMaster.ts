@@ -0,0 +1,151 @@
+import { StoreMasterRecord, StoreData, LocationType } from '../types';
+import { normalizeStoreName } from './dataQuality';
+
+// --- Store Master (optional file) ---
+// One row per store with a header row; columns are found by name, so order and extra columns do not matter.
+// 店舗名 (required), 店舗コード, エリア, 都道府県, ブロック, 業態, 立地 (モール / 駅 / ロードサイド), 席数, 稼働時間 (月間),
+// 開店日, 閉店日, 住所, 緯度, 経度, 店長
+
+export const LOCATION_TYPE_LABELS: Record<LocationType, string> = {
+    mall: 'モール・SC',
+    station: '駅・駅ナカ',
+    roadside: 'ロードサイド',
+    other: 'その他'
+};
+
+type MasterField = keyof StoreMasterRecord;
+
+// Order matters: a column taken by an earlier field is not offered to later ones (店舗コード is a code, not a name)
+const HEADER_ALIASES: [MasterField, string[]][] = [
+    ['code', ['店舗コード', '店番', '店舗番号', 'コード', 'store code', 'store id', 'code']],
+    ['name', ['店舗名', '店名', '店舗', 'store', 'name']],
+    ['region', ['エリア', '地域', 'region', 'area']],
+    ['prefecture', ['都道府県', '県', 'prefecture']],
+    ['block', ['ブロック', 'block']],
+    ['format', ['業態', 'ブランド', 'フォーマット', 'format', 'brand']],
+    ['locationType', ['立地', 'location', 'type']],
+    ['chairs', ['席数', 'チェア', '椅子', 'chairs', 'seats']],
+    ['staffedHours', ['稼働時間', '月間営業時間', '営業時間', 'staffed hours', 'hours']],
+    ['openDate', ['開店', '開業', 'オープン', 'open']],
+    ['closeDate', ['閉店', '閉業', 'クローズ', 'close']],
+    ['address', ['住所', '所在地', 'address']],
+    ['lat', ['緯度', 'latitude', 'lat']],
+    ['lng', ['経度', 'longitude', 'lng', 'lon']],
+    ['manager', ['店長', '責任者', 'マネージャー', 'manager']]
+];
+
+const toMonthKey = (s: string): string | undefined => {
+    const m = s.trim().replace(/[./年]/g, '-').match(/^(\d{4})-?(\d{1,2})/);
+    return m ? `${m[1]}-${m[2].padStart(2, '0')}` : undefined;
+};
+
+const toCoordinate = (s: string, limit: number): number | undefined => {
+    const v = parseFloat(s);
+    return isNaN(v) || v === 0 || Math.abs(v) > limit ? undefined : v;
+};
+
+export const parseLocationType = (s: string): LocationType | undefined => {
+    const v = s.trim().toLowerCase();
+    if (!v) return undefined;
+    if (/モール|sc|ショッピング|商業施設|百貨店|mall/.test(v)) return 'mall';
+    if (/駅|station|エキナカ/.test(v)) return 'station';
+    if (/ロードサイド|路面|郊外|road/.test(v)) return 'roadside';
+    return 'other';
+};
+
+// Column index of each field (an exact header match beats a partial one, e.g. 店舗名 over 店舗コード)
+const findColumns = (header: string[]): Partial<Record<MasterField, number>> | null => {
+    const cols: Partial<Record<MasterField, number>> = {};
+    const cells = header.map(c => String(c ?? '').trim().toLowerCase());
+    const free = (i: number) => !Object.values(cols).includes(i);
+    HEADER_ALIASES.forEach(([field, aliases]) => {
+        const names = aliases.map(a => a.toLowerCase());
+        let idx = cells.findIndex((c, i) => free(i) && names.includes(c));
+        if (idx < 0) idx = cells.findIndex((c, i) => free(i) && names.some(a => c.includes(a)));
+        if (idx >= 0) cols[field] = idx;
+    });
+    return cols.name !== undefined ? cols : null;
+};
+
+/**
+ * Parses store master rows (header row first). Rows without a store name are skipped; a repeated store code
+ * (or, for rows without one, a repeated name) keeps the last row.
+ */
+export const parseStoreMasterRows = (rows: string[][]): StoreMasterRecord[] => {
+    const headerIdx = rows.findIndex(r => findColumns(r) !== null);
+    if (headerIdx < 0) return [];
+    const cols = findColumns(rows[headerIdx])!;
+    const cell = (row: string[], field: MasterField) => cols[field] === undefined ? '' : String(row[cols[field]!] ?? '').trim();
+
+    const byKey = new Map<string, StoreMasterRecord>();
+    rows.slice(headerIdx + 1).forEach(row => {
+        const name = cell(row, 'name');
+        if (!name) return;
+        const chairs = parseFloat(cell(row, 'chairs').replace(/,/g, ''));
+        const staffedHours = parseFloat(cell(row, 'staffedHours').replace(/,/g, ''));
+        const lat = toCoordinate(cell(row, 'lat'), 90), lng = toCoordinate(cell(row, 'lng'), 180);
+        const record: StoreMasterRecord = {
+            name,
+            code: cell(row, 'code') || undefined,
+            region: cell(row, 'region') || undefined,
+            prefecture: cell(row, 'prefecture') || undefined,
+            block: cell(row, 'block') || undefined,
+            format: cell(row, 'format') || undefined,
+            locationType: parseLocationType(cell(row, 'locationType')),
+            chairs: chairs > 0 ? chairs : undefined,
+            staffedHours: staffedHours > 0 ? staffedHours : undefined,
+            openDate: toMonthKey(cell(row, 'openDate')),
+            closeDate: toMonthKey(cell(row, 'closeDate')),
+            address: cell(row, 'address') || undefined,
+            // A coordinate is only kept as a pair
+            lat: lat !== undefined && lng !== undefined ? lat : undefined,
+            lng: lat !== undefined && lng !== undefined ? lng : undefined,
+            manager: cell(row, 'manager') || undefined
+        };
+        byKey.set(record.code ? `code:${record.code}` : `name:${name}`, record);
+    });
+    return Array.from(byKey.values());
+};
+
+/**
+ * Master row of each store in the actuals. The code identifies a store through renames, so a store whose
+ * actuals name is a master code takes that row; then the exact name, then the same name up to width,
+ * spacing or a trailing 店. unmatched are the master rows no store took (usually a renamed or mistyped shop).
+ */
+export const matchStoreMaster = (records: StoreMasterRecord[], storeNames: string[]): { byStore: Map<string, StoreMasterRecord>; unmatched: StoreMasterRecord[] } => {
+    const byCode = new Map<string, StoreMasterRecord>(), byName = new Map<string, StoreMasterRecord>(), byAlias = new Map<string, StoreMasterRecord>();
+    records.forEach(r => {
+        if (r.code) byCode.set(r.code, r);
+        byName.set(r.name, r);
+        const alias = normalizeStoreName(r.name);
+        if (!byAlias.has(alias)) byAlias.set(alias, r);
+    });
+    const byStore = new Map<string, StoreMasterRecord>();
+    storeNames.forEach(name => {
+        const record = byCode.get(name) || byName.get(name) || byAlias.get(normalizeStoreName(name));
+        if (record) byStore.set(name, record);
+    });
+    const taken = new Set(byStore.values());
+    return { byStore, unmatched: records.filter(r => !taken.has(r)) };
+};
+
+const monthOf = (d: Date) => `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+
+/** Whether the master closes the store on or before the month of asOf. */
+export const isClosedBy = (record: StoreMasterRecord | undefined, asOf: Date): boolean =>
+    !!record?.closeDate && record.closeDate <= monthOf(asOf);
+
+/**
+ * Attaches the master row to an analysed store. An official close date makes the store inactive even when
+ * its last month is recent; without one, activity stays as inferred from the data (last month within 60 days).
+ */
+export const applyStoreMaster = (store: StoreData, record: StoreMasterRecord | undefined, asOf: Date): StoreData =>
+    record ? { ...store, master: record, isActive: store.isActive && !isClosedBy(record, asOf) } : store;
+
+/** Lifecycle for maps and filters: closed, opened within the last 12 months (master open date, else first month), or active. */
+export const lifecycleStatus = (store: StoreData, asOf: Date): 'active' | 'inactive' | 'new' => {
+    if (!store.isActive) return 'inactive';
+    const opened = store.master?.openDate || store.dates[0]?.replace(/\//g, '-').slice(0, 7);
+    const yearAgo = new Date(asOf.getFullYear(), asOf.getMonth() - 11, 1);
+    return opened && opened >= monthOf(yearAgo) ? 'new' : 'active';
+};
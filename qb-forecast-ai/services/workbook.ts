@@ -0,0 +1,81 @@
+import readXlsxFile from 'read-excel-file/browser';
+import Papa from 'papaparse';
+
+// --- Excel Workbooks (.xlsx / .xlsm / .xls) ---
+// A chosen sheet is turned into a UTF-8 CSV file, so it goes through exactly the same parsing as a CSV upload
+// (column mapping, budget merge, ...). Date cells become YYYY-MM-DD and numbers keep their full precision.
+// The legacy binary .xls format is read by SheetJS (the patched 0.20 line), loaded only when such a file is opened.
+
+export interface WorkbookSheet {
+    name: string;
+    rows: string[][];
+}
+
+export const WORKBOOK_ACCEPT = '.xlsx,.xlsm,.xls';
+
+export const isWorkbookFile = (file: File) => /\.(xlsx|xlsm|xls)$/i.test(file.name);
+
+const pad = (n: number) => String(n).padStart(2, '0');
+
+// Date cells arrive as Dates at UTC midnight of the cell's day
+const cellText = (value: unknown): string => {
+    if (value === undefined || value === null) return '';
+    if (value instanceof Date) return isNaN(value.getTime()) ? '' : `${value.getUTCFullYear()}-${pad(value.getUTCMonth() + 1)}-${pad(value.getUTCDate())}`;
+    if (typeof value === 'boolean') return value ? 'TRUE' : 'FALSE';
+    return String(value).trim();
+};
+
+const sheetRows = (data: unknown[][]): string[][] => {
+    const rows: string[][] = [];
+    data.forEach(cells => {
+        const row = cells.map(cellText);
+        // Trailing empty cells and blank rows carry no data
+        while (row.length > 0 && row[row.length - 1] === '') row.pop();
+        if (row.length > 0) rows.push(row);
+    });
+    return rows;
+};
+
+type SheetJS = typeof import('@e965/xlsx');
+
+// .xls cells as the same values read-excel-file gives: Dates at UTC midnight, errors as empty
+const xlsCellValue = (XLSX: SheetJS, cell: import('@e965/xlsx').CellObject | undefined): unknown => {
+    if (!cell || cell.t === 'e') return null;
+    if (cell.t === 'n' && cell.z && XLSX.SSF.is_date(cell.z)) {
+        const d = XLSX.SSF.parse_date_code(cell.v as number);
+        if (d) return new Date(Date.UTC(d.y, d.m - 1, d.d));
+    }
+    return cell.v;
+};
+
+const readXlsFile = async (file: File): Promise<{ sheet: string; data: unknown[][] }[]> => {
+    const XLSX = await import('@e965/xlsx');
+    const book = XLSX.read(await file.arrayBuffer(), { type: 'array', cellNF: true });
+    return book.SheetNames.map(name => {
+        const ws = book.Sheets[name];
+        if (!ws['!ref']) return { sheet: name, data: [] };
+        const range = XLSX.utils.decode_range(ws['!ref']);
+        const data: unknown[][] = [];
+        for (let r = range.s.r; r <= range.e.r; r++) {
+            const cells: unknown[] = [];
+            for (let c = range.s.c; c <= range.e.c; c++) cells.push(xlsCellValue(XLSX, ws[XLSX.utils.encode_cell({ r, c })]));
+            data.push(cells);
+        }
+        return { sheet: name, data };
+    });
+};
+
+/** Non-empty sheets of a workbook, in workbook order. */
+export const readWorkbook = async (file: File): Promise<WorkbookSheet[]> => {
+    const sheets = /\.xls$/i.test(file.name) ? await readXlsFile(file) : await readXlsxFile(file);
+    return sheets
+        .map(s => ({ name: s.sheet, rows: sheetRows(s.data) }))
+        .filter(s => s.rows.length > 0);
+};
+
+/** One sheet as a UTF-8 CSV file named after the workbook and the sheet. */
+export const sheetToCsvFile = (bookName: string, sheet: WorkbookSheet): File => {
+    const width = Math.max(...sheet.rows.map(r => r.length));
+    const csv = Papa.unparse(sheet.rows.map(r => Array.from({ length: width }, (_, i) => r[i] ?? '')));
+    return new File([csv], `${bookName.replace(/\.[^.]+$/, '')} [${sheet.name}].csv`, { type: 'text/csv' });
+};
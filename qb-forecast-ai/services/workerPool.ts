@@ -0,0 +1,241 @@
+import { StoreData, MaskOverride, EngineConfig, StoreCapacity } from '../types';
+import { analyzeStore, buildGlobalStats, GlobalStats } from './analysisEngine';
+import { DriverValues } from './drivers';
+
+// --- Worker Pool Settings ---
+const MAX_WORKERS = 4;
+const BATCH_SIZE = 8;          // Stores per message; also bounds how long a cancel takes to land
+const FALLBACK_CHUNK = 20;     // Main-thread chunk between yields to the UI
+const MATURE_MONTHS = 36;      // Months with sales a store needs to be fitted without peer priors (as on a data load)
+
+export interface AnalysisTask {
+    name: string;
+    raw: number[];
+    dates: string[];
+    block?: string;
+    region?: string;
+    prefecture?: string;
+    closures?: string[];       // YYYY-MM-DD closure days (business calendar)
+    drivers?: DriverValues;    // Exogenous driver values resolved for this store
+    maskOverrides?: MaskOverride[]; // User exclusions / forced inclusions (YYYY-MM)
+    capacity?: StoreCapacity;  // Chairs x staffed hours ceiling (store master)
+    missingMonths?: string[];  // YYYY-MM absent from the file (interpolated in raw, kept out of the fit)
+    maxDate?: Date;            // Overrides the batch's globalMaxDate (backtests cut each store differently)
+}
+
+export interface AnalysisBatchOptions {
+    globalMaxDate: Date;
+    globalStats?: GlobalStats;
+    engine?: EngineConfig;     // Presets of the data type when omitted by the caller (see resolveEngineConfig)
+    onProgress?: (done: number, total: number) => void;
+    signal?: AbortSignal;
+}
+
+// --- Wire protocol (shared with AnalysisWorker.ts) ---
+export interface WorkerTask {
+    index: number;
+    name: string;
+    raw: Float64Array;         // Transferred, not copied
+    dates: string[];
+    block?: string;
+    region?: string;
+    prefecture?: string;
+    closures?: string[];
+    drivers?: DriverValues;
+    maskOverrides?: MaskOverride[];
+    capacity?: StoreCapacity;
+    missingMonths?: string[];
+    maxDate: number;
+}
+
+export type WorkerRequest = { type: 'analyze'; batchId: number; tasks: WorkerTask[]; globalStats?: GlobalStats; engine?: EngineConfig };
+
+export type WorkerResponse =
+    | { type: 'progress'; batchId: number }
+    | { type: 'result'; batchId: number; results: { index: number; data: StoreData }[] };
+
+let pool: Worker[] | null = null;
+let workersUnavailable = false;
+let nextBatchId = 1;
+
+const getWorkers = (): Worker[] | null => {
+    if (workersUnavailable || typeof Worker === 'undefined') return null;
+    if (pool) return pool;
+    try {
+        const size = Math.max(1, Math.min(MAX_WORKERS, (navigator.hardwareConcurrency || 2) - 1));
+        pool = Array.from({ length: size }, () => new Worker(new URL('./AnalysisWorker.ts', import.meta.url), { type: 'module' }));
+        return pool;
+    } catch (e) {
+        console.warn('Analysis workers unavailable, using main thread:', e);
+        workersUnavailable = true;
+        return null;
+    }
+};
+
+const disposeWorkers = () => {
+    pool?.forEach(w => w.terminate());
+    pool = null;
+};
+
+const abortError = () => new DOMException('Analysis cancelled', 'AbortError');
+
+export const isAbortError = (e: unknown) => e instanceof DOMException && e.name === 'AbortError';
+
+const analyzeTask = (task: AnalysisTask, options: AnalysisBatchOptions): StoreData => {
+    try {
+        return analyzeStore(task.name, task.raw, task.dates, task.maxDate || options.globalMaxDate, options.globalStats, task.block, task.region, task.prefecture, task.closures, task.drivers, task.maskOverrides, options.engine, task.capacity, task.missingMonths);
+    } catch (e) {
+        return { name: task.name, error: true, msg: String(e) } as StoreData;
+    }
+};
+
+// Main-thread fallback: the original chunked loop, yielding to the UI between chunks
+const runOnMainThread = async (tasks: AnalysisTask[], indices: number[], results: StoreData[], options: AnalysisBatchOptions, doneBefore: number) => {
+    let done = doneBefore;
+    for (let i = 0; i < indices.length; i += FALLBACK_CHUNK) {
+        if (options.signal?.aborted) throw abortError();
+        indices.slice(i, i + FALLBACK_CHUNK).forEach(idx => { results[idx] = analyzeTask(tasks[idx], options); done++; });
+        options.onProgress?.(done, tasks.length);
+        await new Promise(resolve => setTimeout(resolve, 0));
+    }
+};
+
+// Batches are handed out only to idle workers (pull model), so cancelling just stops the hand-out;
+// batches already running finish in the background and their results are dropped.
+const runOnWorkers = (workers: Worker[], tasks: AnalysisTask[], results: StoreData[], options: AnalysisBatchOptions, completed: Set<number>) =>
+    new Promise<void>((resolve, reject) => {
+        const queue: number[][] = [];
+        for (let i = 0; i < tasks.length; i += BATCH_SIZE) queue.push(tasks.slice(i, i + BATCH_SIZE).map((_, j) => i + j));
+        const owned = new Map<number, Worker>(); // batchId -> worker
+        let done = 0, finished = false;
+
+        const cleanup = () => {
+            finished = true;
+            workers.forEach(w => { w.removeEventListener('message', onMessage); w.removeEventListener('error', onError); });
+            options.signal?.removeEventListener('abort', onAbort);
+        };
+
+        const dispatch = (worker: Worker) => {
+            const batch = queue.shift();
+            if (!batch) {
+                if (owned.size === 0) { cleanup(); resolve(); }
+                return;
+            }
+            const batchId = nextBatchId++;
+            owned.set(batchId, worker);
+            const wireTasks: WorkerTask[] = batch.map(index => {
+                const t = tasks[index];
+                return {
+                    index, name: t.name, raw: Float64Array.from(t.raw), dates: t.dates,
+                    block: t.block, region: t.region, prefecture: t.prefecture, closures: t.closures, drivers: t.drivers, maskOverrides: t.maskOverrides, capacity: t.capacity, missingMonths: t.missingMonths,
+                    maxDate: (t.maxDate || options.globalMaxDate).getTime()
+                };
+            });
+            const request: WorkerRequest = { type: 'analyze', batchId, tasks: wireTasks, globalStats: options.globalStats, engine: options.engine };
+            worker.postMessage(request, wireTasks.map(t => t.raw.buffer));
+        };
+
+        function onMessage(this: Worker, e: MessageEvent<WorkerResponse>) {
+            const msg = e.data;
+            if (finished || owned.get(msg.batchId) !== this) return;
+            if (msg.type === 'progress') {
+                done++;
+                options.onProgress?.(done, tasks.length);
+                return;
+            }
+            msg.results.forEach(r => { results[r.index] = r.data; completed.add(r.index); });
+            owned.delete(msg.batchId);
+            dispatch(this);
+        }
+
+        function onError(e: ErrorEvent) {
+            if (finished) return;
+            cleanup();
+            reject(e.error || new Error(e.message || 'Worker failed'));
+        }
+
+        function onAbort() {
+            if (finished) return;
+            cleanup();
+            reject(abortError());
+        }
+
+        workers.forEach(w => { w.addEventListener('message', onMessage); w.addEventListener('error', onError); });
+        options.signal?.addEventListener('abort', onAbort);
+        workers.forEach(w => dispatch(w));
+    });
+
+/**
+ * Runs analyzeStore over many series, in Web Workers when available.
+ * Results come back in task order. Rejects with an AbortError when `signal` fires;
+ * if a worker fails, the unfinished tasks are re-run on the main thread.
+ */
+export const runAnalysisBatch = async (tasks: AnalysisTask[], options: AnalysisBatchOptions): Promise<StoreData[]> => {
+    if (options.signal?.aborted) throw abortError();
+    const results: StoreData[] = new Array(tasks.length);
+    if (tasks.length === 0) return results;
+
+    const workers = getWorkers();
+    const completed = new Set<number>();
+    if (workers) {
+        try {
+            await runOnWorkers(workers, tasks, results, options, completed);
+            return results;
+        } catch (e) {
+            if (isAbortError(e)) throw e;
+            console.warn('Analysis worker failed, continuing on main thread:', e);
+            workersUnavailable = true;
+            disposeWorkers();
+        }
+    }
+
+    const remaining = tasks.map((_, i) => i).filter(i => !completed.has(i));
+    await runOnMainThread(tasks, remaining, results, options, completed.size);
+    return results;
+};
+
+// Months with sales, leaving out the ones interpolated over gaps in the file
+const salesMonths = (task: AnalysisTask): number => {
+    const gaps = new Set(task.missingMonths || []);
+    return task.raw.filter((v, i) => v > 0 && !gaps.has(task.dates[i].replace(/\//g, '-').slice(0, 7))).length;
+};
+
+/**
+ * Fits the tasks the way a data load does: stores with MATURE_MONTHS of sales first, then the younger ones with
+ * peer priors built from those fits alone. Backtests use it so the priors only see the training windows.
+ * Results come back in task order.
+ */
+export const runTieredBatch = async (tasks: AnalysisTask[], options: Omit<AnalysisBatchOptions, 'globalStats'>): Promise<StoreData[]> => {
+    const results: StoreData[] = new Array(tasks.length);
+    const mature = tasks.map((_, i) => i).filter(i => salesMonths(tasks[i]) >= MATURE_MONTHS);
+    const matureSet = new Set(mature);
+    const young = tasks.map((_, i) => i).filter(i => !matureSet.has(i));
+
+    const anchors = await runAnalysisBatch(mature.map(i => tasks[i]), {
+        ...options, onProgress: (done) => options.onProgress?.(done, tasks.length)
+    });
+    mature.forEach((i, j) => { results[i] = anchors[j]; });
+    const globalStats = buildGlobalStats(anchors.filter(s => !s.error && s.isActive && s.fit.mode !== 'startup'), options.engine);
+
+    const rest = await runAnalysisBatch(young.map(i => tasks[i]), {
+        ...options, globalStats, onProgress: (done) => options.onProgress?.(mature.length + done, tasks.length)
+    });
+    young.forEach((i, j) => { results[i] = rest[j]; });
+    return results;
+};
+
+/**
+ * Re-analyses one store with new mask edits, keeping its calendar, drivers, hierarchy and store master.
+ * The ABC rank is relative to all stores, so the current one is kept (as is an inactive status from a master close date).
+ */
+export const refitStore = async (store: StoreData, maskOverrides: MaskOverride[], options: AnalysisBatchOptions): Promise<StoreData> => {
+    const [result] = await runAnalysisBatch([{
+        name: store.name, raw: store.raw, dates: store.dates,
+        block: store.block, region: store.region, prefecture: store.prefecture, closures: store.calendar?.closures,
+        drivers: store.drivers && Object.fromEntries(store.drivers.map(d => [d.variable, d.values])),
+        maskOverrides: maskOverrides.length > 0 ? maskOverrides : undefined,
+        capacity: store.capacity, missingMonths: store.missingMonths
+    }], options);
+    const merged: StoreData = { ...result, master: store.master, isActive: result.isActive && store.isActive };
+    return merged.stats && store.stats ? { ...merged, stats: { ...merged.stats, abcRank: store.stats.abcRank } } : merged;
+};
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import {
+    normalizeStoreName, interpolateGaps, missingMonthsOf, buildDataQualityReport, mergeDataQualityReports, QualityPoint
+} from '../services/dataQuality';
+
+const month = (key: string) => {
+    const [y, m] = key.split('-').map(Number);
+    return new Date(y, m - 1, 1);
+};
+
+const points = (storeName: string, values: [string, number][]): QualityPoint[] =>
+    values.map(([key, value]) => ({ storeName, date: month(key), value }));
+
+describe('normalizeStoreName', () => {
+    it('ignores width, spacing, case and a trailing 店', () => {
+        expect(normalizeStoreName('新宿 東口店')).toBe(normalizeStoreName('新宿東口'));
+        expect(normalizeStoreName('ＡＢＣ渋谷')).toBe(normalizeStoreName('abc渋谷店'));
+        expect(normalizeStoreName('新宿店')).not.toBe(normalizeStoreName('新宿西'));
+    });
+});
+
+describe('interpolateGaps', () => {
+    it('draws straight lines between known months and holds the ends flat', () => {
+        expect(interpolateGaps([null, 10, null, null, 40, null])).toEqual([10, 10, 20, 30, 40, 40]);
+        expect(interpolateGaps([null, null])).toEqual([0, 0]);
+    });
+});
+
+describe('missingMonthsOf', () => {
+    it('lists the months without a row between the first and the last', () => {
+        expect(missingMonthsOf(['2023-11', '2024-03', '2023-12'].map(month))).toEqual(['2024-01', '2024-02']);
+        expect(missingMonthsOf([])).toEqual([]);
+    });
+});
+
+describe('buildDataQualityReport', () => {
+    const rows = [
+        ...points('新宿店', [['2024-01', 100], ['2024-02', 0], ['2024-03', 120], ['2024-03', 130], ['2024-06', 110], ['2024-07', -5]]),
+        ...points('新宿 店', [['2024-01', 50]]),
+        ...points('渋谷店', [['2024-01', 80], ['2024-02', 90]]),
+    ];
+    const report = buildDataQualityReport(9, rows, [{ row: 4, kind: 'bad_date', detail: '2024/13' }], ['渋谷店', '新宿', '池袋店'],
+        [{ name: '横浜店', code: 'S09' }]);
+    const issuesOf = (kind: string) => report.issues.filter(i => i.kind === kind);
+
+    it('counts rows, stores and issues by kind', () => {
+        expect(report.rows).toBe(9);
+        expect(report.stores).toBe(3);
+        Object.entries(report.counts).forEach(([kind, n]) => expect(n).toBe(issuesOf(kind).length));
+    });
+
+    it('reports one gap per run of missing months', () => {
+        expect(issuesOf('gap')).toEqual([{ kind: 'gap', store: '新宿店', month: '2024-04', detail: '2024-04〜2024-05 (2ヶ月)' }]);
+    });
+
+    it('flags duplicates, negatives and a zero between two months with sales', () => {
+        expect(issuesOf('duplicate').map(i => i.month)).toEqual(['2024-03']);
+        expect(issuesOf('negative').map(i => i.month)).toEqual(['2024-07']);
+        expect(issuesOf('sudden_zero').map(i => i.month)).toEqual(['2024-02']);
+    });
+
+    it('keeps the unreadable rows', () => {
+        expect(issuesOf('bad_date')).toEqual([{ kind: 'bad_date', row: 4, detail: '2024/13' }]);
+    });
+
+    it('points out name variants and budget stores missing from the actuals', () => {
+        expect(issuesOf('name_variant')).toHaveLength(1);
+        expect(issuesOf('name_variant')[0].detail).toContain('「新宿 店」');
+        const budget = issuesOf('budget_unmatched');
+        expect(budget.map(i => i.store)).toEqual(['新宿', '池袋店']);
+        expect(budget[0].detail).toContain('候補: 新宿店, 新宿 店');
+    });
+
+    it('lists store master rows that matched no store', () => {
+        expect(issuesOf('master_unmatched').map(i => i.store)).toEqual(['横浜店 (S09)']);
+    });
+});
+
+describe('mergeDataQualityReports', () => {
+    it('adds the second file tagged with its label and recounts', () => {
+        const main = buildDataQualityReport(2, points('新宿店', [['2024-01', 100], ['2024-03', 100]]), []);
+        const other = buildDataQualityReport(3, points('新宿店', [['2024-01', 10], ['2024-01', 12], ['2024-02', 11]]), []);
+        const merged = mergeDataQualityReports(main, other, '客数');
+        expect(merged.rows).toBe(5);
+        expect(merged.stores).toBe(1);
+        expect(merged.counts.gap).toBe(1);
+        expect(merged.counts.duplicate).toBe(1);
+        expect(merged.issues.find(i => i.kind === 'duplicate')!.detail).toMatch(/^\[客数\] /);
+    });
+});
@@ -0,0 +1,79 @@
+import { describe, it, expect } from 'vitest';
+import { detectEncoding, detectFileEncoding, looksGarbled } from '../services/encoding';
+
+// TextEncoder only writes UTF-8: legacy bytes come from a reverse map of TextDecoder's tables
+const legacyEncoder = (encoding: 'shift_jis' | 'euc-jp') => {
+    const decoder = new TextDecoder(encoding);
+    const bytesOf = new Map<string, number[]>();
+    const add = (bytes: number[]) => {
+        const ch = decoder.decode(new Uint8Array(bytes));
+        if (ch.length === 1 && ch !== '\uFFFD' && !bytesOf.has(ch)) bytesOf.set(ch, bytes);
+    };
+    for (let b = 0; b < 0x80; b++) add([b]);
+    for (let b = 0xA1; b <= 0xDF; b++) add(encoding === 'shift_jis' ? [b] : [0x8E, b]);
+    for (let lead = 0x81; lead <= 0xFE; lead++) for (let trail = 0x40; trail <= 0xFE; trail++) add([lead, trail]);
+    return (text: string) => new Uint8Array([...text].flatMap(ch => bytesOf.get(ch)!));
+};
+
+const sjis = legacyEncoder('shift_jis');
+const eucjp = legacyEncoder('euc-jp');
+const utf8 = (text: string) => new TextEncoder().encode(text);
+
+const KANJI = '店舗名,年月,売上\n新宿東口店,2024-01,1234\n渋谷店,2024-01,999\n';
+const HALF_WIDTH = '店舗名,年月,売上\nｼﾝｼﾞｭｸ,2024-01,1234\nｼﾌﾞﾔ ﾃﾝ,2024-02,999\n';
+
+describe('detectEncoding', () => {
+    it('trusts a byte order mark', () => {
+        expect(detectEncoding(new Uint8Array([0xEF, 0xBB, 0xBF, 0x41]))).toMatchObject({ encoding: 'UTF-8', source: 'bom' });
+        expect(detectEncoding(new Uint8Array([0xFF, 0xFE, 0x41, 0x00]))).toMatchObject({ encoding: 'UTF-16LE', source: 'bom' });
+        expect(detectEncoding(new Uint8Array([0xFE, 0xFF, 0x00, 0x41]))).toMatchObject({ encoding: 'UTF-16BE', source: 'bom' });
+    });
+
+    it('reads plain ASCII as UTF-8', () => {
+        expect(detectEncoding(utf8('store,month,sales\nA,2024-01,1\n'))).toMatchObject({ encoding: 'UTF-8', source: 'ascii' });
+    });
+
+    it.each([
+        ['Shift_JIS', sjis],
+        ['EUC-JP', eucjp],
+        ['UTF-8', utf8],
+    ] as const)('tells %s apart, with kanji or half-width katakana', (encoding, encode) => {
+        expect(detectEncoding(encode(KANJI))).toMatchObject({ encoding, source: 'heuristic' });
+        expect(detectEncoding(encode(HALF_WIDTH)).encoding).toBe(encoding);
+    });
+
+    it('keeps UTF-8 with Latin-1 signs such as ¥', () => {
+        const guess = detectEncoding(utf8('store,month,sales\nA,2024-01,¥1234\nカフェ・ド・パリ,2024-02,¥999\n'));
+        expect(guess.encoding).toBe('UTF-8');
+        expect(guess.candidates[0]).toBe('UTF-8');
+    });
+
+    it('does not count a character split at the end of the sample', () => {
+        const bytes = sjis(KANJI + '池袋店');
+        expect(detectEncoding(bytes.subarray(0, bytes.length - 1)).encoding).toBe('Shift_JIS');
+    });
+});
+
+describe('detectFileEncoding', () => {
+    it('reads the start of a file', async () => {
+        const guess = await detectFileEncoding(new File([sjis(KANJI)], 'sales.csv'));
+        expect(guess.encoding).toBe('Shift_JIS');
+    });
+});
+
+describe('looksGarbled', () => {
+    it('flags replacement and private-use characters', () => {
+        expect(looksGarbled('新宿\uFFFD店')).toBe(true);
+        expect(looksGarbled('\uE000渋谷')).toBe(true);
+    });
+
+    it('accepts half-width katakana and Latin-1 letters', () => {
+        expect(looksGarbled('ｼﾝｼﾞｭｸ店')).toBe(false);
+        expect(looksGarbled('¥1,234')).toBe(false);
+        expect(looksGarbled('Café 新宿')).toBe(false);
+    });
+
+    it('flags UTF-8 read as Shift_JIS', () => {
+        expect(looksGarbled(new TextDecoder('shift_jis').decode(utf8('新宿東口店')))).toBe(true);
+    });
+});
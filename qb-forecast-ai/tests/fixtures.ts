@@ -0,0 +1,34 @@
+import { StoreData } from '../types';
+import { analyzeStore } from '../services/analysisEngine';
+
+// --- Shared Test Fixtures ---
+// Synthetic monthly series fitted with the real engine, so the services are checked against genuine fits.
+
+/** `n` consecutive YYYY-MM months from `start`. */
+export const monthRange = (start: string, n: number): string[] => {
+    const [y, m] = start.split('-').map(Number);
+    return Array.from({ length: n }, (_, i) => {
+        const d = new Date(y, m - 1 + i, 1);
+        return `${d.getFullYear()}-${String(d.getMonth() + 1).padStart(2, '0')}`;
+    });
+};
+
+/** Logistic growth to `L` with a ±10% yearly season, rounded like POS totals. */
+export const growthSeries = (n: number, L: number, k = 0.15, t0 = 10): number[] =>
+    Array.from({ length: n }, (_, i) => Math.round(L / (1 + Math.exp(-k * (i - t0))) * (1 + 0.1 * Math.sin(2 * Math.PI * i / 12))));
+
+export interface FixtureStore {
+    name: string;
+    raw: number[];
+    start: string;
+    region?: string;
+    prefecture?: string;
+    block?: string;
+}
+
+/** Fits one fixture store as of `maxDate` (the month after the series by default). */
+export const fitStore = (s: FixtureStore, maxDate?: Date): StoreData => {
+    const dates = monthRange(s.start, s.raw.length);
+    const [y, m] = dates[dates.length - 1].split('-').map(Number);
+    return analyzeStore(s.name, s.raw, dates, maxDate ?? new Date(y, m, 1), undefined, s.block, s.region, s.prefecture);
+};
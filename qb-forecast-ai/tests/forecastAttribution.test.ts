@@ -0,0 +1,92 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { StoreData, ForecastChangeAttribution } from '../types';
+import { attributeForecastChange, CHANGE_DRIVERS } from '../services/forecastAttribution';
+import { monthsAfterLast } from '../services/analysisEngine';
+import { buildJointModel, forecastAt } from '../services/jointForecast';
+import { fitStore, growthSeries } from './fixtures';
+
+const WINDOW = ['2025-02', '2025-03', '2025-04', '2025-05', '2025-06', '2025-07'];
+
+// The same shop in two runs: the later one has January 2025 as well
+const runs = (name: string, raw: number[], region: string, withCustomers = false) => {
+    const pair = (n: number) => {
+        const sales = fitStore({ name, raw: raw.slice(0, n), start: '2021-01', region });
+        if (!withCustomers) return sales;
+        const customers = fitStore({ name, raw: raw.slice(0, n).map(v => Math.round(v / 0.8)), start: '2021-01', region });
+        return { ...sales, joint: buildJointModel(sales, customers) };
+    };
+    return [pair(raw.length - 1), pair(raw.length)];
+};
+
+const partsTotal = (a: ForecastChangeAttribution) => CHANGE_DRIVERS.reduce((sum, d) => sum + a.parts[d], 0);
+const windowTotal = (s: StoreData) => WINDOW.reduce((sum, key) => {
+    const [y, m] = key.split('-').map(Number);
+    return sum + forecastAt(s, monthsAfterLast(s, new Date(y, m - 1, 1)));
+}, 0);
+
+let previous: { [name: string]: StoreData }, current: { [name: string]: StoreData };
+
+beforeAll(() => {
+    const [a0, a1] = runs('本店', growthSeries(49, 1000).map((v, i) => (i === 48 ? v * 1.2 : v)), '関東');
+    const [b0, b1] = runs('駅前店', growthSeries(49, 700, 0.2, 6), '関東', true);
+    const [c0] = runs('閉店', growthSeries(49, 400), '関西');
+    const [, d1] = runs('新店', growthSeries(49, 500, 0.3, 30), '関西');
+    previous = { 本店: a0, 駅前店: b0, 閉店: c0 };
+    current = { 本店: a1, 駅前店: b1, 新店: d1 };
+});
+
+describe('attributeForecastChange', () => {
+    it('splits every node change into parts that add up to it', () => {
+        const result = attributeForecastChange(previous, current, WINDOW);
+        result.forEach(node => expect(partsTotal(node)).toBeCloseTo(node.current - node.previous, 6));
+    });
+
+    it('starts and ends on the forecasts the views show', () => {
+        const result = attributeForecastChange(previous, current, WINDOW);
+        const store = (name: string) => result.find(n => n.id === `store:${name}`)!;
+        ['本店', '駅前店'].forEach(name => {
+            expect(store(name).previous).toBeCloseTo(windowTotal(previous[name]), 6);
+            expect(store(name).current).toBeCloseTo(windowTotal(current[name]), 6);
+        });
+        expect(current['駅前店'].joint).toBeDefined();
+    });
+
+    it('books closed and new stores as removed and added', () => {
+        const result = attributeForecastChange(previous, current, WINDOW);
+        const closed = result.find(n => n.id === 'store:閉店')!, opened = result.find(n => n.id === 'store:新店')!;
+        expect(closed.current).toBe(0);
+        expect(closed.parts.removed).toBeCloseTo(-closed.previous, 9);
+        expect(opened.previous).toBe(0);
+        expect(opened.parts.added).toBeCloseTo(opened.current, 9);
+    });
+
+    it('orders nodes from the total down to the stores', () => {
+        const result = attributeForecastChange(previous, current, WINDOW);
+        expect(result[0]).toMatchObject({ id: 'total', level: 'total', name: '全社' });
+        expect(result.map(n => n.level)).toEqual([
+            'total', 'region', 'region', 'prefecture', 'prefecture', 'block', 'block', 'store', 'store', 'store', 'store'
+        ]);
+    });
+
+    it('shows no change between a run and itself', () => {
+        attributeForecastChange(current, current, WINDOW).forEach(node => {
+            expect(node.current).toBeCloseTo(node.previous, 9);
+            CHANGE_DRIVERS.forEach(d => expect(node.parts[d]).toBeCloseTo(0, 9));
+        });
+    });
+
+    it('counts a moved or added level shift as a change of curve shape', () => {
+        const base = current['本店'];
+        const flatter = { ...base, fit: { ...base.fit, params: { ...base.fit.params, L: base.fit.params.L * 0.9 } } };
+        const shifted = { ...base, fit: { ...base.fit, breaks: [{ idx: 20, size: 0, confidence: 1 }] } };
+        const store = (prev: StoreData, cur: StoreData) => attributeForecastChange({ 本店: prev }, { 本店: cur }, WINDOW).find(n => n.level === 'store')!;
+
+        const sameShape = store(flatter, base);
+        expect(sameShape.parts.params).not.toBeCloseTo(0, 3);
+        expect(sameShape.parts.mode).toBe(0);
+
+        const newBreak = store(flatter, shifted);
+        expect(newBreak.parts.mode).not.toBeCloseTo(0, 3);
+        expect(newBreak.parts.params).toBe(0);
+    });
+});
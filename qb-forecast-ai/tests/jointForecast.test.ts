@@ -0,0 +1,122 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { StoreData } from '../types';
+import { curveForecastAt, getForecastBand } from '../services/analysisEngine';
+import {
+    fitUnitPrice, unitPriceAt, buildJointModel, jointForecastAt, forecastAt, forecastBandAt,
+    unitPriceForMonth, splitPriceVolume, priceVolumeDecomposition
+} from '../services/jointForecast';
+import { fitStore, growthSeries, monthRange } from './fixtures';
+
+const PRICE = 0.8; // 千円 per customer
+
+let sales: StoreData, customers: StoreData, joint: StoreData;
+
+beforeAll(() => {
+    const visits = growthSeries(48, 1200);
+    customers = fitStore({ name: '本店', raw: visits, start: '2021-01' });
+    sales = fitStore({ name: '本店', raw: visits.map(c => c * PRICE), start: '2021-01' });
+    joint = { ...sales, joint: buildJointModel(sales, customers) };
+});
+
+describe('fitUnitPrice', () => {
+    const dates = monthRange('2021-01', 36);
+
+    it('needs six months with both metrics', () => {
+        expect(fitUnitPrice([1, 1, 1, 1, 1, null, null], dates)).toBeNull();
+        expect(fitUnitPrice([1, 1, 1, 1, 1, 1], dates)).not.toBeNull();
+    });
+
+    it('reads a flat price as a level with no drift or season', () => {
+        const m = fitUnitPrice(Array(36).fill(PRICE), dates)!;
+        expect(m.level).toBeCloseTo(PRICE, 9);
+        expect(m.drift).toBeCloseTo(0, 9);
+        m.seasonal.forEach(v => expect(v).toBeCloseTo(1, 9));
+        expect(m.months).toBe(36);
+    });
+
+    it('follows a steady price rise and caps a steep one', () => {
+        expect(fitUnitPrice(dates.map((_, i) => PRICE * Math.exp(0.004 * i)), dates)!.drift).toBeCloseTo(0.004, 6);
+        expect(fitUnitPrice(dates.map((_, i) => PRICE * Math.exp(0.05 * i)), dates)!.drift).toBe(0.01);
+    });
+});
+
+describe('unitPriceAt', () => {
+    const m = { level: 1, drift: 0.01, damping: 0.9, seasonal: Array(12).fill(1).map((_, i) => (i === 11 ? 1.2 : 1)), months: 36 };
+
+    it('applies the seasonal factor of the month to the level', () => {
+        expect(unitPriceAt(m, 0, new Date(2024, 11, 1))).toBeCloseTo(1.2, 12);
+        expect(unitPriceAt(m, -3, new Date(2024, 5, 1))).toBeCloseTo(1, 12);
+    });
+
+    it('accumulates a damped drift ahead', () => {
+        expect(unitPriceAt(m, 1, new Date(2025, 0, 1))).toBeCloseTo(Math.exp(0.009), 12);
+        expect(unitPriceAt(m, 2, new Date(2025, 1, 1))).toBeCloseTo(Math.exp(0.009 + 0.0081), 12);
+    });
+});
+
+describe('joint forecast', () => {
+    it('recovers the unit price from sales and customers', () => {
+        expect(joint.joint).toBeDefined();
+        expect(joint.joint!.unitPrice.level).toBeCloseTo(PRICE, 6);
+        expect(joint.joint!.actualCustomers).toEqual(customers.raw);
+    });
+
+    it('has no joint model when the customer fit failed', () => {
+        expect(buildJointModel(sales, { ...customers, error: true })).toBeUndefined();
+    });
+
+    it('forecasts sales as customers x unit price', () => {
+        const f = jointForecastAt(joint, 3)!;
+        expect(f.customers).toBeCloseTo(curveForecastAt(customers, 3), 9);
+        expect(f.sales).toBeCloseTo(f.customers * f.unitPrice, 9);
+        expect(jointForecastAt(sales, 3)).toBeNull();
+    });
+
+    it('routes forecastAt through the joint model ahead and the curve otherwise', () => {
+        expect(forecastAt(joint, 3)).toBe(jointForecastAt(joint, 3)!.sales);
+        expect(forecastAt(joint, 0)).toBe(curveForecastAt(joint, 0));
+        expect(forecastAt(sales, 3)).toBe(curveForecastAt(sales, 3));
+    });
+
+    it('moves the curve band onto the joint forecast', () => {
+        const band = getForecastBand(joint, 3, 90)!;
+        const shift = forecastAt(joint, 3) - curveForecastAt(joint, 3);
+        const moved = forecastBandAt(joint, 3, 90)!;
+        expect(moved[0]).toBeCloseTo(Math.max(0, band[0] + shift), 9);
+        expect(moved[1]).toBeCloseTo(Math.max(0, band[1] + shift), 9);
+        expect(forecastBandAt(sales, 3, 90)).toEqual(getForecastBand(sales, 3, 90));
+    });
+
+    it('gives the actual unit price for past months and the model for later ones', () => {
+        expect(unitPriceForMonth(joint, '2023-06')).toBeCloseTo(PRICE, 12);
+        expect(unitPriceForMonth(joint, '2025-02')).toBeCloseTo(unitPriceAt(joint.joint!.unitPrice, 2, new Date(2025, 1, 1)), 12);
+        expect(unitPriceForMonth(sales, '2023-06')).toBeNull();
+    });
+});
+
+describe('splitPriceVolume', () => {
+    it('splits a change exactly into volume and price', () => {
+        const split = splitPriceVolume(1000, 500, 1320, 600);
+        expect(split.volume + split.price).toBeCloseTo(320, 9);
+        expect(split.volume).toBeGreaterThan(0);
+        expect(split.price).toBeGreaterThan(0);
+    });
+
+    it('leaves the split empty when a side is zero', () => {
+        const split = splitPriceVolume(0, 0, 1320, 600);
+        expect(split.volume).toBe(0);
+        expect(split.price).toBe(0);
+        expect(split.current).toBe(1320);
+    });
+});
+
+describe('priceVolumeDecomposition', () => {
+    it('only counts stores with a joint model', () => {
+        const d = priceVolumeDecomposition([joint, sales]);
+        expect(d.actualStores).toBe(1);
+        expect(d.forecastStores).toBe(1);
+        // A constant unit price: every yen of last year's change is volume
+        expect(d.actual.price).toBeCloseTo(0, 6);
+        expect(d.actual.volume).toBeCloseTo(d.actual.current - d.actual.base, 6);
+    });
+});
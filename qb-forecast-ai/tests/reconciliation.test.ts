@@ -0,0 +1,102 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { ReconciliationMethod, StoreData } from '../types';
+import { hierarchyForecastDates, storeForecastLookup, prepareHierarchy, reconcileHierarchy, scoreHierarchy, HierarchyBase } from '../services/reconciliation';
+import { forecastAt } from '../services/jointForecast';
+import { fitStore, growthSeries } from './fixtures';
+
+const HORIZON = 6;
+
+let stores: StoreData[];
+let prep: HierarchyBase;
+
+beforeAll(async () => {
+    stores = [
+        fitStore({ name: '札幌店', raw: growthSeries(48, 1000), start: '2021-01', region: '北海道', prefecture: '北海道', block: '道央' }),
+        fitStore({ name: '旭川店', raw: growthSeries(40, 600, 0.2, 6), start: '2021-09', region: '北海道', prefecture: '北海道', block: '道北' }),
+        fitStore({ name: '新宿店', raw: growthSeries(48, 1500, 0.1), start: '2021-01', region: '関東', prefecture: '東京都', block: '新宿' }),
+        fitStore({ name: '横浜店', raw: growthSeries(30, 900, 0.25, 4), start: '2022-07', region: '関東', prefecture: '神奈川県', block: '横浜' }),
+    ];
+    prep = await prepareHierarchy(stores, HORIZON);
+});
+
+describe('hierarchyForecastDates', () => {
+    it('starts the month after the latest store month', () => {
+        expect(hierarchyForecastDates(stores, 3)).toEqual(['2025-01', '2025-02', '2025-03']);
+    });
+
+    it('ignores inactive and failed stores', () => {
+        const closed = { ...stores[0], dates: stores[0].dates.map(d => d.replace('2024', '2030')), isActive: false };
+        const failed = { ...stores[1], dates: ['2031-01'], error: true };
+        expect(hierarchyForecastDates([...stores, closed, failed], 1)).toEqual(['2025-01']);
+        expect(hierarchyForecastDates([], 3)).toEqual([]);
+    });
+});
+
+describe('reconcileHierarchy', () => {
+    const methods: ReconciliationMethod[] = ['bottom_up', 'top_down', 'ols', 'mint'];
+
+    it.each(methods)('%s forecasts add up at every node', method => {
+        const forecast = reconcileHierarchy(prep, method);
+        expect(forecast.dates).toEqual(hierarchyForecastDates(stores, HORIZON));
+        forecast.nodes.forEach(node => {
+            const children = forecast.nodes.filter(n => n.parent === node.id);
+            if (children.length === 0) return;
+            node.reconciled.forEach((v, h) => {
+                expect(v).toBeCloseTo(children.reduce((a, c) => a + c.reconciled[h], 0), 6);
+            });
+        });
+    });
+
+    it('bottom_up keeps the store forecasts', () => {
+        const forecast = reconcileHierarchy(prep, 'bottom_up');
+        stores.forEach(s => {
+            const node = forecast.nodes.find(n => n.id === `store:${s.name}`)!;
+            expect(node.reconciled).toEqual(node.base.map(v => Math.max(0, v)));
+        });
+    });
+
+    it('top_down splits the total base by recent shares', () => {
+        const forecast = reconcileHierarchy(prep, 'top_down');
+        const total = forecast.nodes.find(n => n.level === 'total')!;
+        total.reconciled.forEach((v, h) => expect(v).toBeCloseTo(Math.max(0, total.base[h]), 6));
+    });
+
+    it('base leaves every node as forecast', () => {
+        const forecast = reconcileHierarchy(prep, 'base');
+        forecast.nodes.forEach(n => expect(n.reconciled).toEqual(n.base.map(v => Math.max(0, v))));
+    });
+});
+
+describe('storeForecastLookup', () => {
+    it('falls back to forecastAt without a hierarchy forecast', () => {
+        const lookup = storeForecastLookup(null);
+        const s = stores[0];
+        expect(lookup(s, '2025-03')).toBeCloseTo(forecastAt(s, 3), 9);
+    });
+
+    it('reads reconciled store nodes inside the forecast window and forecastAt outside it', () => {
+        const forecast = reconcileHierarchy(prep, 'mint');
+        const lookup = storeForecastLookup(forecast);
+        const s = stores[2];
+        const node = forecast.nodes.find(n => n.id === `store:${s.name}`)!;
+        expect(lookup(s, forecast.dates[1])).toBe(node.reconciled[1]);
+        expect(lookup(s, '2026-06')).toBeCloseTo(forecastAt(s, 18), 9);
+    });
+});
+
+describe('scoreHierarchy', () => {
+    it('scores a forecast that matches the actuals as perfect', () => {
+        const forecast = reconcileHierarchy(prep, 'bottom_up');
+        const future: { [name: string]: StoreData } = {};
+        forecast.nodes.filter(n => n.level === 'store').forEach(n => {
+            future[n.name] = { ...stores.find(s => s.name === n.name)!, dates: forecast.dates, raw: n.reconciled };
+        });
+        const accuracy = scoreHierarchy(forecast, future);
+        expect(accuracy.map(a => a.level)).toEqual(['total', 'region', 'prefecture', 'block', 'store']);
+        accuracy.forEach(a => {
+            expect(a.mape).toBeCloseTo(0, 9);
+            expect(a.wape).toBeCloseTo(0, 9);
+        });
+        expect(accuracy.find(a => a.level === 'region')!.nodes).toBe(2);
+    });
+});
@@ -0,0 +1,58 @@
+import { describe, it, expect, beforeAll } from 'vitest';
+import { StoreData, CvSummary } from '../types';
+import { runRollingOriginCv, CV_MAX_HORIZON, CV_METHODS } from '../services/rollingOrigin';
+import { fitStore, growthSeries } from './fixtures';
+
+let mature: StoreData, young: StoreData, short: StoreData;
+let summary: CvSummary;
+
+beforeAll(async () => {
+    mature = fitStore({ name: '本店', raw: growthSeries(48, 1000), start: '2021-01', region: '関東' });
+    young = fitStore({ name: '新店', raw: growthSeries(40, 700, 0.3, 4), start: '2021-09', region: '関西' });
+    short = fitStore({ name: '開業店', raw: growthSeries(30, 500), start: '2022-07', region: '関西' });
+    summary = await runRollingOriginCv([mature, young, short], 2);
+});
+
+describe('runRollingOriginCv', () => {
+    it('scores every horizon of every cutoff, skipping stores too short for one', () => {
+        expect(summary.stores).toBe(2);
+        expect(summary.origins).toBe(2);
+        expect(summary.byHorizon.map(g => g.h)).toEqual(Array.from({ length: CV_MAX_HORIZON }, (_, i) => i + 1));
+        // Two cutoffs per store, each followed by a full horizon of actuals
+        CV_METHODS.forEach(m => expect(summary.overall[m].n).toBe(2 * 2 * CV_MAX_HORIZON));
+        summary.byHorizon.forEach(g => expect(g.metrics.engine.n).toBe(4));
+    });
+
+    it('reports finite errors for the engine and both baselines', () => {
+        CV_METHODS.forEach(m => {
+            expect(Number.isFinite(summary.overall[m].mase)).toBe(true);
+            expect(Number.isFinite(summary.overall[m].smape)).toBe(true);
+        });
+        expect(summary.overall.engine.coverage).toBeGreaterThanOrEqual(0);
+        expect(summary.overall.snaive.coverage).toBeUndefined();
+    });
+
+    it('groups records by region and store age', () => {
+        expect(summary.byRegion.map(g => g.key).sort()).toEqual(['関東', '関西']);
+        expect(summary.byAge.reduce((a, g) => a + g.metrics.engine.n, 0)).toBe(summary.overall.engine.n);
+    });
+
+    it('keeps months after the cutoff out of the peer priors of young stores', async () => {
+        // The young store is fitted with priors from the mature store's training fit; the mature store's
+        // test months change, so its own scores change, but the young store's must not
+        const altered = { ...mature, raw: mature.raw.map((v, i) => (i >= 36 ? v * 1.5 : v)) };
+        const [a, b] = await Promise.all([
+            runRollingOriginCv([mature, young], 1),
+            runRollingOriginCv([altered, young], 1),
+        ]);
+        const regionOf = (s: CvSummary, key: string) => s.byRegion.find(g => g.key === key)!.metrics;
+        expect(regionOf(b, '関西')).toEqual(regionOf(a, '関西'));
+        expect(regionOf(b, '関東').engine.smape).not.toBe(regionOf(a, '関東').engine.smape);
+    });
+
+    it('rejects when cancelled', async () => {
+        const controller = new AbortController();
+        controller.abort();
+        await expect(runRollingOriginCv([mature], 1, undefined, controller.signal)).rejects.toThrow('cancelled');
+    });
+});
@@ -0,0 +1,90 @@
+import { describe, it, expect } from 'vitest';
+import { StoreData } from '../types';
+import {
+    parseStoreMasterRows, parseLocationType, matchStoreMaster, isClosedBy, applyStoreMaster, lifecycleStatus
+} from '../services/storeMaster';
+
+describe('parseStoreMasterRows', () => {
+    it('finds columns by header name, in any order', () => {
+        const records = parseStoreMasterRows([
+            ['立地', '店舗コード', '店舗名', '席数', '開店日', '緯度', '経度', '備考'],
+            ['駅ナカ', 'S01', '新宿店', '1,200', '2019/4/1', '35.69', '139.70', '旗艦店'],
+            ['ロードサイド', '', '幕張店', '0', '2023年10月', '35.6', '', ''],
+        ]);
+        expect(records).toEqual([
+            expect.objectContaining({ name: '新宿店', code: 'S01', locationType: 'station', chairs: 1200, openDate: '2019-04', lat: 35.69, lng: 139.7 }),
+            expect.objectContaining({ name: '幕張店', code: undefined, locationType: 'roadside', chairs: undefined, openDate: '2023-10', lat: undefined, lng: undefined }),
+        ]);
+    });
+
+    it('keeps the last row of a repeated code and skips rows without a name', () => {
+        const records = parseStoreMasterRows([
+            ['店舗コード', '店舗名', 'エリア'],
+            ['S01', '新宿店', '関東'],
+            ['S01', '新宿東口店', '関東'],
+            ['S02', '', '関東'],
+        ]);
+        expect(records.map(r => r.name)).toEqual(['新宿東口店']);
+    });
+
+    it('returns nothing without a store name column', () => {
+        expect(parseStoreMasterRows([['コード', 'エリア'], ['S01', '関東']])).toEqual([]);
+    });
+});
+
+describe('parseLocationType', () => {
+    it('maps free-text locations', () => {
+        expect(parseLocationType('イオンモール')).toBe('mall');
+        expect(parseLocationType('Station')).toBe('station');
+        expect(parseLocationType('郊外')).toBe('roadside');
+        expect(parseLocationType('商店街')).toBe('other');
+        expect(parseLocationType(' ')).toBeUndefined();
+    });
+});
+
+describe('matchStoreMaster', () => {
+    const shinjuku = { name: '新宿東口店', code: 'S01' };
+    const shibuya = { name: '渋谷店', code: 'S02' };
+    const ikebukuro = { name: 'ＩＫＥ 池袋', code: 'S03' };
+    const yokohama = { name: '横浜店', code: 'S04' };
+
+    it('resolves by code, then exact name, then name variant', () => {
+        const { byStore, unmatched } = matchStoreMaster([shinjuku, shibuya, ikebukuro, yokohama], ['S01', '渋谷店', 'IKE池袋店', '川崎店']);
+        expect(byStore.get('S01')).toBe(shinjuku);
+        expect(byStore.get('渋谷店')).toBe(shibuya);
+        expect(byStore.get('IKE池袋店')).toBe(ikebukuro);
+        expect(byStore.has('川崎店')).toBe(false);
+        expect(unmatched).toEqual([yokohama]);
+    });
+
+    it('prefers a code over a name that happens to be equal', () => {
+        const named = { name: 'S01' };
+        expect(matchStoreMaster([named, shinjuku], ['S01']).byStore.get('S01')).toBe(shinjuku);
+    });
+});
+
+describe('store lifecycle', () => {
+    const asOf = new Date(2024, 11, 15);
+    const store = { name: '新宿店', isActive: true, dates: ['2021-01', '2024-12'] } as StoreData;
+
+    it('closes a store from the master close month on', () => {
+        expect(isClosedBy({ name: '新宿店', closeDate: '2024-12' }, asOf)).toBe(true);
+        expect(isClosedBy({ name: '新宿店', closeDate: '2025-01' }, asOf)).toBe(false);
+        expect(isClosedBy(undefined, asOf)).toBe(false);
+    });
+
+    it('attaches the master row and lets a close date end the store', () => {
+        const closed = applyStoreMaster(store, { name: '新宿店', closeDate: '2024-11' }, asOf);
+        expect(closed.master?.closeDate).toBe('2024-11');
+        expect(closed.isActive).toBe(false);
+        expect(applyStoreMaster(store, { name: '新宿店' }, asOf).isActive).toBe(true);
+        expect(applyStoreMaster(store, undefined, asOf)).toBe(store);
+    });
+
+    it('calls a store new for 12 months after it opened', () => {
+        expect(lifecycleStatus(store, asOf)).toBe('active');
+        expect(lifecycleStatus({ ...store, dates: ['2024-01'] }, asOf)).toBe('new');
+        expect(lifecycleStatus({ ...store, master: { name: '新宿店', openDate: '2023-12' } }, asOf)).toBe('active');
+        expect(lifecycleStatus({ ...store, isActive: false }, asOf)).toBe('inactive');
+    });
+});
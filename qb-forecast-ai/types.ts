@@ -1,6 +1,68 @@
 
 export type UserMode = 'manager' | 'executive';
 
+export type FitMode = 'standard' | 'shift' | 'recovery' | 'startup' | 'gompertz' | 'richards' | 'damped';
+
+// Growth-curve family behind a fit mode (shift modes are logistic curves with base jumps)
+export type CurveFamily = 'logistic' | 'gompertz' | 'richards' | 'damped_trend';
+
+// Level shift found by change-point detection; size is the fitted jump in the trend base
+export interface StructuralBreak {
+    idx: number;
+    size: number;
+    confidence: number; // 0-1, posterior probability of the break (BIC approximation)
+}
+
+export interface ModelCandidate {
+    mode: FitMode;
+    aic: number;
+    aicc: number;
+    nParams: number;
+}
+
+// Standard error with a 95% interval (normal approximation; L and k are clipped at 0).
+// se = Infinity when the likelihood is flat in that direction.
+export interface ParamInterval {
+    se: number;
+    lower: number;
+    upper: number;
+}
+
+export interface ParamIntervals {
+    L?: ParamInterval;
+    k?: ParamInterval;
+    t0?: ParamInterval;
+    shift?: ParamInterval; // Total of all level shifts
+}
+
+// Optimizer diagnostics of the selected fit
+export interface FitConvergence {
+    iterations: number;    // Simplex iterations summed over all starts
+    evaluations: number;   // Objective evaluations
+    converged: boolean;    // Tolerances on both x and f were met (false = stopped at the iteration cap)
+    restarts: number;
+}
+
+// Trading-day regression: log sales move by `weekday` per extra open weekday and by `holiday` per extra
+// open weekend / holiday-like day, against the long-run calendar of that month (services/businessCalendar.ts)
+export interface TradingDayEffect {
+    weekday: number;
+    holiday: number;
+    closures?: string[]; // YYYY-MM-DD store closure days, past and planned
+}
+
+// Exogenous driver fitted jointly with the growth curve: fitted = curve * (1 + coef * (value - base))
+export interface DriverEffect {
+    variable: string;
+    coef: number;                    // Relative effect per unit of the driver
+    se: number;
+    base: number;                    // Value in the last actual month (the curve describes this regime)
+    values: Record<string, number>;  // YYYY-MM -> value as listed in the driver file, incl. planned months
+}
+
+// Classification of the nudge by its estimated decay (1.0 / in between / near 0)
+export type NudgeType = 'structural' | 'trend' | 'event';
+
 export interface StoreData {
     name: string;
     region?: string; 
@@ -11,13 +73,35 @@ export interface StoreData {
     mask: boolean[];
     isActive: boolean;
     nudge: number;
-    nudgeDecay: number; 
-    seasonal: number[];
+    nudgeDecay: number; // Forecast adds nudge * nudgeDecay^h at horizon h
+    nudgeType?: NudgeType;
+    drivers?: DriverEffect[];    // Exogenous drivers fitted with the curve (services/drivers.ts)
+    prior?: PeerPriorInfo;       // Peer prior used for young/startup stores
+    outliers?: OutlierPoint[];   // Months outside the IQR range or overridden by the user, with the reason
+    maskOverrides?: MaskOverride[]; // User edits applied to the mask (saved per store, re-applied on every refit)
+    joint?: JointModel;          // Customers x unit price model (sales stores loaded together with customer counts)
+    capacity?: StoreCapacity;    // Physical ceiling from the store master (chairs x staffed hours)
+    missingMonths?: string[];    // YYYY-MM absent from the file, interpolated in raw and kept out of the fit
+    master?: StoreMasterRecord;  // Store master row, when the store is listed (code, lifecycle dates, location, ...)
+    calendar?: TradingDayEffect; // Seasonal factor of a month = seasonal[month] * calendar factor (see getSeasonalFactor)
+    seasonal: number[];          // Latest seasonal index (used for forecasts)
+    seasonalByYear?: SeasonalYearProfile[]; // Index of every calendar year in the data, oldest first
     components: { t: number[]; s: number[]; r: number[] };
-    params: { L: number; k: number; t0: number; base: number; shift?: number; shift2?: number };
-    fit: { params: any; mode: 'standard' | 'shift' | 'dual_shift' | 'recovery' | 'startup'; shockIdx: number; shockIdx2?: number; aic: number };
+    params: { L: number; k: number; t0: number; base: number; shift?: number; ci?: ParamIntervals }; // shift = total of all level shifts
+    fit: {
+        params: any;
+        mode: FitMode;
+        shockIdx: number;              // First break index (-1 when none)
+        breaks?: StructuralBreak[];    // Every level shift in the fitted model, in time order
+        aic: number;
+        aicc?: number;
+        candidates?: ModelCandidate[]; // Every family tried, for model-selection diagnostics
+        convergence?: FitConvergence;  // Absent for startup stores (no optimisation)
+    };
     stdDev: number;
     cv: { logistic: number };
+    // Bootstrap forecast distribution (see ForecastQuantiles)
+    quantiles?: ForecastQuantiles;
     error?: boolean;
     msg?: string;
     
@@ -37,6 +121,312 @@ export interface StoreData {
     };
 }
 
+export interface QuantileSet<T> {
+    p05: T;
+    p25: T;
+    p50: T;
+    p75: T;
+    p95: T;
+}
+
+// Monthly arrays are indexed by horizon: [0] = first month after the last actual.
+export interface ForecastQuantiles extends QuantileSet<number[]> {
+    next12: QuantileSet<number>; // Quantiles of the next-12-month total (not the sum of monthly quantiles)
+    paths: number;
+}
+
+export type HierarchyLevel = 'total' | 'region' | 'prefecture' | 'block' | 'store';
+
+// 'base' = each level's own forecast (incoherent), the rest produce totals that add up
+export type ReconciliationMethod = 'base' | 'bottom_up' | 'top_down' | 'ols' | 'mint';
+
+export interface HierarchyNodeForecast {
+    id: string;              // Path key, e.g. "prefecture:関東/東京都"
+    level: HierarchyLevel;
+    name: string;
+    parent: string | null;
+    stores: string[];
+    history: number[];       // Aligned to HierarchyForecast.historyDates
+    base: number[];          // Independent forecast of this node
+    reconciled: number[];
+}
+
+export interface HierarchyForecast {
+    method: ReconciliationMethod;
+    historyDates: string[];  // YYYY-MM
+    dates: string[];         // Forecast months, YYYY-MM
+    nodes: HierarchyNodeForecast[];
+}
+
+export interface HierarchyAccuracy {
+    level: HierarchyLevel;
+    method: ReconciliationMethod;
+    mape: number;            // Mean over nodes of the node's MAPE across the test months
+    wape: number;            // Sum |error| / sum actual over all nodes and months
+    nodes: number;
+}
+
+// One analysis run kept for later forecast-vs-actual tracking (IndexedDB, see services/forecastArchive.ts)
+export interface VintageStoreForecast {
+    name: string;
+    block?: string;
+    region?: string;
+    prefecture?: string;
+    start: string;           // YYYY-MM of values[0] (the month after the store's last actual)
+    values: number[];        // Monthly point forecasts
+    p05?: number[];
+    p95?: number[];
+}
+
+export interface ForecastVintage {
+    id: string;
+    runAt: string;           // ISO timestamp of the analysis run
+    cutoff: string;          // YYYY-MM of the latest actual in the data
+    dataType: 'sales' | 'customers';
+    config?: EngineConfig;   // Engine settings the run was made with (older runs have none)
+    stores: VintageStoreForecast[];
+}
+
+// Physical ceiling of a shop: chairs x staffed hours x 60 / service minutes customers a month (services/capacity.ts)
+export interface StoreCapacity {
+    chairs: number;
+    staffedHours: number;     // Staffed opening hours per month
+    customers: number;        // Ceiling in customers per month
+    ceiling: number;          // The same ceiling in the series' unit (sales: customers x customerToSales)
+    utilisation?: number;     // Average of the latest 12 actual months / ceiling
+    potentialShare?: number;  // Fitted potential (base + L + level shifts) / ceiling
+}
+
+// Average spend per customer (客単価, k JPY per customer): damped log drift on the deseasonalised series
+export interface UnitPriceModel {
+    level: number;       // Deseasonalised unit price at the last actual sales month
+    drift: number;       // Monthly log change at the last actual sales month
+    damping: number;     // Drift multiplier per month ahead
+    seasonal: number[];  // Index by calendar month (mean 1)
+    months: number;      // Months with both metrics the model was fitted on
+}
+
+// Joint model of a sales store (services/jointForecast.ts): sales forecast = customers forecast x unit price forecast
+export interface JointModel {
+    customers: StoreData;               // Customer-count fit of the same store
+    unitPrice: UnitPriceModel;
+    actualCustomers: (number | null)[]; // Aligned with the sales store's dates (null: no customer count that month)
+}
+
+// Seasonal index of one calendar year, weighted around its middle month (the last year: around the last actual)
+export interface SeasonalYearProfile {
+    year: number;
+    index: number[];  // By calendar month, mean 1
+    months: number;   // Months of the year used for fitting
+}
+
+// Seasonality drift of a store or region: mean |change| of the monthly index between years
+export interface SeasonalDrift {
+    name: string;
+    region?: string;
+    stores: number;                 // 1 for a store
+    profiles: SeasonalYearProfile[];
+    drift: number;                  // Latest vs earliest year
+    lastYearDrift: number;          // Latest vs the year before
+    peakMonths: [number, number];   // Peak calendar month (1-12) of the earliest and latest year
+}
+
+// Log-mean (LMDI) split of a sales change into customer count and unit price; volume + price = current - base
+export interface PriceVolumeSplit {
+    base: number;
+    current: number;
+    volume: number;
+    price: number;
+    baseCustomers: number;
+    currentCustomers: number;
+}
+
+// Engine constants that depend on the unit of the series (services/engineConfig.ts holds the presets per data type)
+export interface EngineConfig {
+    maxK: number;            // Upper bound of the growth rate k
+    absoluteMaxL: number;    // Hard ceiling of base + L (+ shifts)
+    rareL: number;           // Potential above this is penalised
+    rarePenalty: number;     // Weight of the squared excess over rareL
+    regLStart: number;       // Potential / max actual ratio where the L regulariser starts
+    regL: number;            // Weight of the L regulariser
+    regK: number;            // Weight of k²
+    regShift: number;        // Weight of (shift / max actual)² per level shift
+    minShiftRatio: number;   // Smallest level shift (share of the local level) kept by change-point detection
+    rescueMonths: number;    // Recent months that can be rescued from the IQR rule
+    rescueBand: number;      // Rescue when within ± this share of the 12-month average
+    initialL: number;        // Starting / fallback L when no peer statistics exist
+    customerToSales: number; // Sales (k JPY) per customer, for customer-based budgets in sales mode
+    serviceMinutes: number;  // Chair minutes per customer (cut plus turnover), for the capacity ceiling
+    capacityPenalty: number; // Weight of the squared share by which the fitted potential exceeds the ceiling
+    seasonalHalfLife: number; // Years until a month's weight in the seasonal index halves (0 = one fixed index)
+}
+
+// Outlier classification: one-month spike, excursion that returns to the old level, or a new lasting level
+export type OutlierKind = 'additive' | 'temporary' | 'level_shift';
+
+// excluded / rescued: automatic (IQR rule, recent months within ± engine.rescueBand of the 12-month average are rescued)
+// forced_out / forced_in: user override
+export type OutlierStatus = 'excluded' | 'rescued' | 'forced_out' | 'forced_in';
+
+export interface OutlierPoint {
+    idx: number;
+    date: string;
+    value: number;
+    kind?: OutlierKind;      // Set for months outside the IQR range
+    reason: string;
+    status: OutlierStatus;
+}
+
+export interface MaskOverride {
+    month: string;           // YYYY-MM
+    action: 'exclude' | 'include';
+    note?: string;           // e.g. "改装のため休業"
+}
+
+// Column layout of a monthly series file (services/columnMapping.ts)
+export type SeriesField = 'region' | 'prefecture' | 'block' | 'storeName' | 'date' | 'value' | 'ignore';
+
+export interface ColumnMapping {
+    hasHeader: boolean;       // First row holds column names and is skipped
+    columns: SeriesField[];   // Field of each column, by position
+}
+
+// Mapping saved by the user, applied automatically to files with the same header row
+export interface MappingProfile {
+    name: string;
+    signature: string;        // Normalised header row (see headerSignature)
+    mapping: ColumnMapping;
+    savedAt: string;          // ISO timestamp
+}
+
+// Pre-analysis data quality check (services/dataQuality.ts)
+export type DataQualityKind = 'gap' | 'duplicate' | 'negative' | 'sudden_zero' | 'bad_date' | 'bad_value' | 'no_store' | 'name_variant' | 'budget_unmatched' | 'master_unmatched';
+
+export interface DataQualityIssue {
+    kind: DataQualityKind;
+    store?: string;
+    month?: string;           // YYYY-MM (first month for a gap run)
+    row?: number;             // 1-based line of the file
+    detail: string;
+}
+
+export interface DataQualityReport {
+    rows: number;             // Data rows read (excluding the header)
+    stores: number;
+    issues: DataQualityIssue[];
+    counts: Record<DataQualityKind, number>;
+}
+
+// Months missing between a store's first and last month: interpolated and left out of the fit, or read as 0 sales
+export type GapPolicy = 'missing' | 'zero';
+
+// Store master (optional file): attributes that are not in the sales series
+export type LocationType = 'mall' | 'station' | 'roadside' | 'other';
+
+export interface StoreMasterRecord {
+    name: string;
+    code?: string;           // Stable store code (survives renames)
+    region?: string;
+    prefecture?: string;
+    block?: string;
+    format?: string;         // Format / brand
+    locationType?: LocationType;
+    chairs?: number;
+    staffedHours?: number;   // Staffed opening hours per month
+    openDate?: string;       // YYYY-MM
+    closeDate?: string;      // YYYY-MM, official last month of trading
+    address?: string;
+    lat?: number;
+    lng?: number;
+    manager?: string;
+}
+
+// Pre-opening forecast of a planned store (services/newStoreForecast.ts)
+export interface NewStorePlan {
+    region?: string;
+    prefecture?: string;
+    locationType?: LocationType;
+    chairs?: number;
+    openDate: string;        // YYYY-MM
+}
+
+export interface NewStoreAnalogue {
+    name: string;
+    distance: number;        // In standardised attribute space (0 = identical attributes)
+    L: number;
+    k: number;
+    firstYearAvg?: number;   // Mean monthly actual of the first 12 months, when the opening is in the data
+}
+
+export interface NewStoreForecast {
+    params: { base: number; L: number; k: number; t0: number }; // Median curve
+    ramp: number;            // First-year mean as a share of the potential (base + L)
+    months: { month: string; p10: number; p50: number; p90: number }[];
+    scenarios: Record<'conservative' | 'standard' | 'optimistic', { base: number; L: number; k: number }>; // Draws at p10/p50/p90 of 36-month total
+    analogues: NewStoreAnalogue[];
+    trainedOn: number;
+    rampTrainedOn: number;
+    features: string[];      // Attributes that entered the regression
+}
+
+// Peer group whose growth prior a young store was shrunk toward (most specific group with enough mature stores)
+export type PeerLevel = 'company' | 'region' | 'prefecture' | 'block';
+
+export interface PeerPriorInfo {
+    group: string;           // Display name, e.g. "関東 / 東京都"
+    level: PeerLevel;
+    cohort?: string;         // Opening-year cohort that adjusted k and L, e.g. "2018-2020"
+    k: number;
+    L: number;
+    weight?: number;         // Share of the prior in the final k/L (0-1; 1 = startup, fully prior-based)
+}
+
+// Change of a node's forecast between two runs, split by cause (services/forecastAttribution.ts)
+export type ForecastChangeDriver = 'nudge' | 'params' | 'mode' | 'seasonality' | 'added' | 'removed';
+
+export interface ForecastChangeAttribution {
+    id: string;
+    level: HierarchyLevel;
+    name: string;
+    previous: number;        // Old run's forecast total over the window
+    current: number;         // New run's forecast total over the window
+    parts: Record<ForecastChangeDriver, number>; // Sums to current - previous
+}
+
+// The run replaced by the latest data load (kept in memory only)
+export interface PreviousRun {
+    stores: { [name: string]: StoreData };
+    dataType: 'sales' | 'customers';
+    config?: EngineConfig;
+    replacedAt: string;
+}
+
+// Rolling-origin cross-validation: the engine against seasonal-naive and moving-average baselines
+export type CvMethod = 'engine' | 'snaive' | 'ma';
+
+export interface CvMetrics {
+    mase: number;            // Mean |error| scaled by the in-sample seasonal-naive MAE of each training window
+    smape: number;           // %
+    bias: number;            // Sum (forecast - actual) / sum actual, %
+    coverage?: number;       // Share of actuals inside the 90% band, % (engine only)
+    n: number;               // Forecasts scored
+}
+
+export interface CvGroup {
+    key: string;
+    metrics: Record<CvMethod, CvMetrics>;
+}
+
+export interface CvSummary {
+    stores: number;
+    origins: number;         // Training cutoffs per store (at most)
+    overall: Record<CvMethod, CvMetrics>;
+    byHorizon: (CvGroup & { h: number })[];
+    byMode: CvGroup[];
+    byAge: CvGroup[];
+    byRegion: CvGroup[];
+}
+
 export interface ChartDataPoint {
     date: string;
     actual: number | null;
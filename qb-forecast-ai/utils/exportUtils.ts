@@ -85,6 +85,10 @@ const downloadFile = (content: string, filename: string, mimeType: string) => {
     URL.revokeObjectURL(url);
 };
 
+// Parameter CI cell: 'N/A' when not estimated, 'Inf' when the likelihood is flat
+const formatCiValue = (value: number | undefined, digits: number) =>
+    value === undefined ? 'N/A' : Number.isFinite(value) ? value.toFixed(digits) : (value > 0 ? 'Inf' : '-Inf');
+
 // Format data for export
 export const formatDataForExport = (
     stores: any[],
@@ -102,7 +106,16 @@ export const formatDataForExport = (
         'CAGR (%)': ((store.stats?.cagr || 0) * 100).toFixed(2),
         'ABC Rank': store.stats?.abcRank || 'N/A',
         'Capacity (L)': store.params.L.toFixed(0),
+        'Capacity (L) SE': formatCiValue(store.params.ci?.L?.se, 0),
+        'Capacity (L) 95% Low': formatCiValue(store.params.ci?.L?.lower, 0),
+        'Capacity (L) 95% High': formatCiValue(store.params.ci?.L?.upper, 0),
         'Growth Rate (k)': store.params.k.toFixed(4),
-        'Seasonality Strength': (Math.max(...store.seasonal) - Math.min(...store.seasonal)).toFixed(3)
+        'Growth Rate (k) SE': formatCiValue(store.params.ci?.k?.se, 4),
+        'Growth Rate (k) 95% Low': formatCiValue(store.params.ci?.k?.lower, 4),
+        'Growth Rate (k) 95% High': formatCiValue(store.params.ci?.k?.upper, 4),
+        'Seasonality Strength': (Math.max(...store.seasonal) - Math.min(...store.seasonal)).toFixed(3),
+        'Next 12M P05': store.quantiles ? store.quantiles.next12.p05.toFixed(0) : 'N/A',
+        'Next 12M P50': store.quantiles ? store.quantiles.next12.p50.toFixed(0) : 'N/A',
+        'Next 12M P95': store.quantiles ? store.quantiles.next12.p95.toFixed(0) : 'N/A'
     }));
 };
@@ -1,4 +1,5 @@
 // Local storage utilities for user preferences and settings
+import { StoreMasterRecord, MaskOverride, EngineConfig, MappingProfile } from '../types';
 
 const STORAGE_PREFIX = 'qb_dashboard_';
 
@@ -9,7 +10,12 @@ export const STORAGE_KEYS = {
     DASHBOARD_LAYOUT: `${STORAGE_PREFIX}dashboard_layout`,
     USER_PREFERENCES: `${STORAGE_PREFIX}user_preferences`,
     RECENT_SEARCHES: `${STORAGE_PREFIX}recent_searches`,
-    CHART_SETTINGS: `${STORAGE_PREFIX}chart_settings`
+    CHART_SETTINGS: `${STORAGE_PREFIX}chart_settings`,
+    STORE_CLOSURES: `${STORAGE_PREFIX}store_closures`,
+    STORE_MASTER: `${STORAGE_PREFIX}store_master`,
+    MASK_OVERRIDES: `${STORAGE_PREFIX}mask_overrides`,
+    ENGINE_CONFIG: `${STORAGE_PREFIX}engine_config`,
+    MAPPING_PROFILES: `${STORAGE_PREFIX}mapping_profiles`
 } as const;
 
 // User preferences interface
@@ -159,3 +165,57 @@ export const loadChartSettings = (): ChartSettings => {
         colorScheme: 'default'
     });
 };
+
+// Store closure days management (store name or '*' -> YYYY-MM-DD days)
+export const saveStoreClosures = (closures: Record<string, string[]>): void => {
+    saveToStorage(STORAGE_KEYS.STORE_CLOSURES, closures);
+};
+
+export const loadStoreClosures = (): Record<string, string[]> => {
+    return loadFromStorage<Record<string, string[]>>(STORAGE_KEYS.STORE_CLOSURES, {});
+};
+
+// Store master management (attributes per store, see services/storeMaster.ts)
+export const saveStoreMaster = (records: StoreMasterRecord[]): void => {
+    saveToStorage(STORAGE_KEYS.STORE_MASTER, records);
+};
+
+export const loadStoreMaster = (): StoreMasterRecord[] => {
+    return loadFromStorage<StoreMasterRecord[]>(STORAGE_KEYS.STORE_MASTER, []);
+};
+
+// Outlier mask edits per store (store name -> month overrides), re-applied on every analysis
+export const loadMaskOverrides = (): Record<string, MaskOverride[]> => {
+    return loadFromStorage<Record<string, MaskOverride[]>>(STORAGE_KEYS.MASK_OVERRIDES, {});
+};
+
+export const saveStoreMaskOverrides = (storeName: string, overrides: MaskOverride[]): void => {
+    const all = loadMaskOverrides();
+    if (overrides.length > 0) all[storeName] = overrides; else delete all[storeName];
+    saveToStorage(STORAGE_KEYS.MASK_OVERRIDES, all);
+};
+
+// Engine setting edits per data type (only the edited fields; see services/engineConfig.ts for the presets)
+export type EngineConfigOverrides = Partial<Record<'sales' | 'customers', Partial<EngineConfig>>>;
+
+export const loadEngineConfigOverrides = (): EngineConfigOverrides => {
+    return loadFromStorage<EngineConfigOverrides>(STORAGE_KEYS.ENGINE_CONFIG, {});
+};
+
+export const saveEngineConfigOverrides = (overrides: EngineConfigOverrides): void => {
+    saveToStorage(STORAGE_KEYS.ENGINE_CONFIG, overrides);
+};
+
+// Column-mapping profiles of the import wizard (one per header signature)
+export const loadMappingProfiles = (): MappingProfile[] => {
+    return loadFromStorage<MappingProfile[]>(STORAGE_KEYS.MAPPING_PROFILES, []);
+};
+
+export const saveMappingProfile = (profile: MappingProfile): void => {
+    const others = loadMappingProfiles().filter(p => p.signature !== profile.signature);
+    saveToStorage(STORAGE_KEYS.MAPPING_PROFILES, [...others, profile]);
+};
+
+export const deleteMappingProfile = (signature: string): void => {
+    saveToStorage(STORAGE_KEYS.MAPPING_PROFILES, loadMappingProfiles().filter(p => p.signature !== signature));
+};